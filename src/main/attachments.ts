@@ -0,0 +1,131 @@
+import { dirname, extname } from 'path'
+import type { Settings } from './settings'
+import { extractWikiLinks, formatWikiLink, maskCode, replaceWikiLinks } from './wikilinks'
+
+/**
+ * Attachments are the non-note files of a vault (images, PDFs, ...). Notes
+ * point at them with markdown links and images (`![alt](assets/a.png)`) or
+ * with wikilinks and embeds (`![[a.png]]`) whose target has a file extension.
+ */
+
+export type AttachmentLocation = 'vault' | 'note'
+
+export type AttachmentSettings = {
+  /** Folder name, vault-relative for 'vault', next to the note for 'note' */
+  folder: string
+  location: AttachmentLocation
+}
+
+export type AttachmentInfo = {
+  /** Vault-relative path with forward slashes */
+  path: string
+  size: number
+  modifiedAt: number
+  /** Notes linking to or embedding the file, by title */
+  notes: { id: string; title: string }[]
+}
+
+export type AttachmentRef = {
+  /** Target as written, percent-decoded, without `#anchor` or `?query` */
+  target: string
+  kind: 'markdown' | 'wiki'
+  index: number
+}
+
+const NOTE_EXTENSIONS = ['.md', '.txt']
+// `[text](href "title")` and `![alt](<path with spaces>)`
+const MARKDOWN_LINK_RE = /(!?\[[^\]\n]*\]\(\s*)(<[^>\n]+>|[^)\s]+)((?:\s+"[^"\n]*")?\s*\))/g
+const EXTERNAL_RE = /^(?:[a-z][a-z\d+.-]*:|\/\/|#)/i
+
+export function attachmentSettings(settings: Settings): AttachmentSettings {
+  return {
+    folder: settings.attachmentFolder?.trim() || 'assets',
+    location: settings.attachmentLocation === 'note' ? 'note' : 'vault'
+  }
+}
+
+/**
+ * Folder a file dropped into `noteId` is saved to. With 'note', every note
+ * gets its own sub-folder inside `folder` next to it, so
+ * `Projects/Plan` saves to `Projects/assets/Plan/`.
+ */
+export function attachmentFolderFor(settings: AttachmentSettings, noteId?: string): string {
+  const folder = settings.folder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '') || 'assets'
+  if (settings.location !== 'note' || !noteId) return folder
+  const dir = dirname(noteId)
+  const name = noteId.slice(noteId.lastIndexOf('/') + 1)
+  return dir === '.' ? `${folder}/${name}` : `${dir}/${folder}/${name}`
+}
+
+export function isAttachmentTarget(target: string): boolean {
+  const ext = extname(target).toLowerCase()
+  return ext !== '' && !NOTE_EXTENSIONS.includes(ext)
+}
+
+/**
+ * Every reference to a file in `content`, skipping code blocks and links to
+ * notes or external URLs.
+ */
+export function extractAttachmentRefs(content: string): AttachmentRef[] {
+  const refs: AttachmentRef[] = []
+  for (const match of maskCode(content).matchAll(MARKDOWN_LINK_RE)) {
+    const target = markdownTarget(match[2])
+    if (target) refs.push({ target, kind: 'markdown', index: match.index ?? 0 })
+  }
+  for (const link of extractWikiLinks(content)) {
+    if (isAttachmentTarget(link.target)) {
+      refs.push({ target: link.target, kind: 'wiki', index: link.index })
+    }
+  }
+  return refs.sort((a, b) => a.index - b.index)
+}
+
+/**
+ * Point references at a new file. `retarget` returns the new target (a
+ * vault-relative path or bare name), or null to leave the reference alone.
+ * Markdown links keep their text, title, anchor and encoding style;
+ * wikilinks keep their alias and anchor.
+ */
+export function retargetAttachmentRefs(
+  content: string,
+  retarget: (ref: AttachmentRef) => string | null
+): string {
+  const masked = maskCode(content)
+  let result = ''
+  let lastIndex = 0
+  for (const match of masked.matchAll(MARKDOWN_LINK_RE)) {
+    const index = match.index ?? 0
+    const href = content.slice(index + match[1].length, index + match[1].length + match[2].length)
+    const target = markdownTarget(href)
+    const next = target ? retarget({ target, kind: 'markdown', index }) : null
+    if (next === null || next === target) continue
+    const suffix = /[?#][^>]*/.exec(href)?.[0] ?? ''
+    result += content.slice(lastIndex, index + match[1].length) + formatHref(next + suffix, href)
+    lastIndex = index + match[1].length + match[2].length
+  }
+  result += content.slice(lastIndex)
+
+  return replaceWikiLinks(result, (link) => {
+    if (!isAttachmentTarget(link.target)) return null
+    const next = retarget({ target: link.target, kind: 'wiki', index: link.index })
+    return next === null || next === link.target ? null : formatWikiLink({ ...link, target: next })
+  })
+}
+
+function markdownTarget(href: string): string | null {
+  const bare = href.startsWith('<') ? href.slice(1, -1).trim() : href
+  if (!bare || EXTERNAL_RE.test(bare) || bare.startsWith('/')) return null
+  let target = bare.replace(/[?#].*$/, '')
+  try {
+    target = decodeURI(target)
+  } catch {
+    // Malformed escape: keep the text as written
+  }
+  return isAttachmentTarget(target) ? target : null
+}
+
+function formatHref(target: string, original: string): string {
+  if (original.startsWith('<')) return `<${target}>`
+  if (/%[\da-f]{2}/i.test(original)) return encodeURI(target)
+  return /[\s()<>]/.test(target) ? `<${target}>` : target
+}
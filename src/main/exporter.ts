@@ -0,0 +1,191 @@
+import { BrowserWindow, dialog } from 'electron'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { dirname, extname, join, resolve, sep } from 'path'
+import { fileURLToPath } from 'url'
+
+/**
+ * Writes notes rendered by the preview (standalone HTML documents built in the
+ * renderer) to disk as HTML files or PDFs. Local images are inlined as data
+ * URLs so every export is self-contained.
+ */
+
+export type ExportFormat = 'html' | 'pdf'
+
+export type ExportDocument = {
+  /** Output path without extension, relative to the export folder */
+  file: string
+  title: string
+  html: string
+}
+
+/**
+ * A file of a published static site.
+ */
+export type SiteFile = {
+  /** Path relative to the site folder, with extension */
+  path: string
+  content: string
+}
+
+export type ExportResult = {
+  count: number
+  /** The written file for a single note, otherwise the export folder */
+  target: string
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.avif': 'image/avif'
+}
+
+/**
+ * Ask where to export, then write every document. A single note goes through
+ * a save dialog; several notes are written into a chosen folder, keeping
+ * their sub-folders so relative links between them keep working. Resolves
+ * null when the user cancelled.
+ */
+export async function exportDocuments(
+  docs: ExportDocument[],
+  format: ExportFormat,
+  parent: BrowserWindow | null
+): Promise<ExportResult | null> {
+  if (docs.length === 0) throw new Error('Nothing to export')
+  const label = format === 'pdf' ? 'PDF' : 'HTML'
+
+  let outputs: string[]
+  let target: string
+  if (docs.length === 1) {
+    const options = {
+      title: `Export as ${label}`,
+      defaultPath: `${safeName(docs[0].title)}.${format}`,
+      filters: [{ name: label, extensions: [format] }]
+    }
+    const result = parent
+      ? await dialog.showSaveDialog(parent, options)
+      : await dialog.showSaveDialog(options)
+    if (result.canceled || !result.filePath) return null
+    target = result.filePath
+    outputs = [target]
+  } else {
+    const options = {
+      title: `Export ${docs.length} notes as ${label}`,
+      properties: ['openDirectory' as const, 'createDirectory' as const],
+      buttonLabel: 'Export'
+    }
+    const result = parent
+      ? await dialog.showOpenDialog(parent, options)
+      : await dialog.showOpenDialog(options)
+    if (result.canceled || result.filePaths.length === 0) return null
+    target = result.filePaths[0]
+    outputs = docs.map((doc) => outputPath(target, `${doc.file}.${format}`))
+  }
+
+  for (let i = 0; i < docs.length; i++) {
+    const html = await inlineImages(docs[i].html)
+    await mkdir(dirname(outputs[i]), { recursive: true })
+    if (format === 'pdf') {
+      await writeFile(outputs[i], await printToPdf(html))
+    } else {
+      await writeFile(outputs[i], html, 'utf-8')
+    }
+  }
+
+  return { count: docs.length, target }
+}
+
+/**
+ * Ask for a folder and write a static site into it. HTML pages get their
+ * images inlined like single exports. Resolves null when cancelled.
+ */
+export async function exportSite(
+  files: SiteFile[],
+  parent: BrowserWindow | null
+): Promise<ExportResult | null> {
+  const options = {
+    title: 'Publish as Website',
+    properties: ['openDirectory' as const, 'createDirectory' as const],
+    buttonLabel: 'Publish'
+  }
+  const result = parent
+    ? await dialog.showOpenDialog(parent, options)
+    : await dialog.showOpenDialog(options)
+  if (result.canceled || result.filePaths.length === 0) return null
+
+  const target = result.filePaths[0]
+  for (const file of files) {
+    const path = outputPath(target, file.path)
+    const isPage = extname(path).toLowerCase() === '.html'
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, isPage ? await inlineImages(file.content) : file.content, 'utf-8')
+  }
+  return { count: files.length, target }
+}
+
+/**
+ * Replace `file://` image sources with data URLs. Images that cannot be read
+ * keep their original source.
+ */
+async function inlineImages(html: string): Promise<string> {
+  const pattern = /(<img\b[^>]*?\bsrc=")(file:\/\/[^"]+)(")/gi
+  const sources = new Set(Array.from(html.matchAll(pattern), (match) => match[2]))
+  const inlined = new Map<string, string>()
+
+  for (const src of sources) {
+    try {
+      const path = fileURLToPath(src.replace(/&amp;/g, '&'))
+      const type = IMAGE_TYPES[extname(path).toLowerCase()]
+      if (!type) continue
+      const data = await readFile(path)
+      inlined.set(src, `data:${type};base64,${data.toString('base64')}`)
+    } catch {
+      // Missing or unreadable image: leave the link as it is
+    }
+  }
+
+  return html.replace(pattern, (match, before: string, src: string, after: string) => {
+    const data = inlined.get(src)
+    return data ? `${before}${data}${after}` : match
+  })
+}
+
+/**
+ * Render a standalone HTML document to PDF in a hidden window. The document
+ * is loaded from a temporary file since large pages exceed data URL limits.
+ */
+async function printToPdf(html: string): Promise<Buffer> {
+  const tempFile = join(tmpdir(), `knowledgehub-export-${Date.now()}.html`)
+  await writeFile(tempFile, html, 'utf-8')
+  const win = new BrowserWindow({
+    show: false,
+    webPreferences: { javascript: false, sandbox: true }
+  })
+  try {
+    await win.loadFile(tempFile)
+    return await win.webContents.printToPDF({
+      printBackground: true,
+      pageSize: 'A4'
+    })
+  } finally {
+    win.destroy()
+    await unlink(tempFile).catch(() => undefined)
+  }
+}
+
+function outputPath(folder: string, file: string): string {
+  const path = resolve(folder, file)
+  if (!path.startsWith(resolve(folder) + sep)) {
+    throw new Error(`Invalid export path: ${file}`)
+  }
+  return path
+}
+
+function safeName(name: string): string {
+  return name.replace(/[<>:"/\\|?*]/g, '-').trim() || 'note'
+}
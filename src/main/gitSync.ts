@@ -0,0 +1,333 @@
+import { execFile } from 'child_process'
+import { existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { Settings } from './settings'
+import { TRASH_DIR } from './trash'
+
+/**
+ * Git-backed vault sync. The vault folder itself is the working tree: local
+ * edits are committed, the configured remote is fetched and merged, and the
+ * result is pushed back. Runs the system `git`, so any remote git understands
+ * works, including a bare repository on disk.
+ */
+
+export type GitSyncConfig = {
+  /** URL or path of the remote; empty commits locally only */
+  remote: string
+  branch: string
+}
+
+export type GitSyncState = 'clean' | 'changes' | 'conflict' | 'not-repository'
+
+export type GitSyncStatus = {
+  state: GitSyncState
+  branch: string
+  /** Files with uncommitted changes */
+  changes: number
+  ahead: number
+  behind: number
+  /** Vault-relative paths left unmerged by the last pull */
+  conflicts: string[]
+  hasRemote: boolean
+}
+
+export type GitSyncResult = {
+  status: GitSyncStatus
+  committed: boolean
+  /** Commits merged in from the remote */
+  pulled: number
+  pushed: boolean
+}
+
+export type GitConflict = {
+  path: string
+  /** Common ancestor, local and remote versions; null where the file is absent */
+  base: string | null
+  ours: string | null
+  theirs: string | null
+}
+
+export type GitConflictChoice = 'ours' | 'theirs' | 'merged'
+
+const REMOTE = 'origin'
+const UNMERGED = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU'])
+const IGNORED = [`${TRASH_DIR}/`]
+// Used only when neither the repository nor the user has an identity set
+const FALLBACK_IDENTITY = { name: 'KnowledgeHub', email: 'knowledgehub@localhost' }
+
+export function gitSyncConfig(settings: Settings): GitSyncConfig {
+  return {
+    remote: settings.gitRemote?.trim() ?? '',
+    branch: settings.gitBranch?.trim() || 'main'
+  }
+}
+
+export class GitSync {
+  // One git command sequence at a time; git's index lock does not queue
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly rootPath: string) {}
+
+  public isRepository(): boolean {
+    return existsSync(join(this.rootPath, '.git'))
+  }
+
+  public async status(): Promise<GitSyncStatus> {
+    return this.exclusive(() => this.readStatus())
+  }
+
+  /**
+   * Commit local changes, merge the remote branch and push. Stops without
+   * pushing when the merge leaves conflicts; resolve them with
+   * `resolveConflict` and `finishMerge`.
+   */
+  public async sync(config: GitSyncConfig, message: string): Promise<GitSyncResult> {
+    return this.exclusive(async () => {
+      await this.prepare(config)
+      if (this.isMerging()) {
+        const status = await this.readStatus()
+        if (status.conflicts.length > 0) {
+          return { status, committed: false, pulled: 0, pushed: false }
+        }
+        await this.git('commit', '--no-edit')
+      }
+
+      const committed = await this.commitAll(message)
+      if (!config.remote) {
+        return { status: await this.readStatus(), committed, pulled: 0, pushed: false }
+      }
+
+      await this.git('fetch', REMOTE)
+      let pulled = 0
+      const upstream = `${REMOTE}/${config.branch}`
+      if (await this.hasRef(`refs/remotes/${upstream}`)) {
+        // A fresh repository has no HEAD yet; everything upstream is new
+        const hasHead = await this.hasRef('HEAD')
+        pulled = await this.countCommits(hasHead ? `HEAD..${upstream}` : upstream)
+        if (pulled > 0) {
+          // Unrelated histories happen when a second device starts syncing an existing vault
+          const merge = ['merge', '--no-edit', '--allow-unrelated-histories', upstream]
+          const merged = await this.git(...merge).then(
+            () => true,
+            async (error: Error) => {
+              if (this.isMerging()) return false
+              throw error
+            }
+          )
+          if (!merged) {
+            return { status: await this.readStatus(), committed, pulled, pushed: false }
+          }
+        }
+      }
+
+      const pushed = await this.push(config.branch)
+      return { status: await this.readStatus(), committed, pulled, pushed }
+    })
+  }
+
+  /**
+   * The three versions of every conflicted file, for the merge view.
+   */
+  public async getConflicts(): Promise<GitConflict[]> {
+    return this.exclusive(async () => {
+      const { conflicts } = await this.readStatus()
+      const result: GitConflict[] = []
+      for (const path of conflicts) {
+        const [base, ours, theirs] = await Promise.all(
+          [1, 2, 3].map((stage) => this.git('show', `:${stage}:${path}`).catch(() => null))
+        )
+        result.push({ path, base, ours, theirs })
+      }
+      return result
+    })
+  }
+
+  /**
+   * Settle one conflicted file: keep the local or remote version, or write
+   * `content` (the edited merge result). A side that deleted the file
+   * resolves to a deletion.
+   */
+  public async resolveConflict(
+    path: string,
+    choice: GitConflictChoice,
+    content?: string
+  ): Promise<GitSyncStatus> {
+    return this.exclusive(async () => {
+      const { conflicts } = await this.readStatus()
+      if (!conflicts.includes(path)) throw new Error(`"${path}" has no conflict to resolve`)
+
+      if (choice === 'merged') {
+        await writeFile(join(this.rootPath, path), content ?? '', 'utf-8')
+        await this.git('add', '--', path)
+      } else {
+        const stage = choice === 'ours' ? 2 : 3
+        const exists = await this.git('cat-file', '-e', `:${stage}:${path}`).then(
+          () => true,
+          () => false
+        )
+        if (exists) {
+          await this.git('checkout', `--${choice}`, '--', path)
+          await this.git('add', '--', path)
+        } else {
+          await this.git('rm', '--quiet', '--', path)
+        }
+      }
+      return this.readStatus()
+    })
+  }
+
+  /**
+   * Commit a merge whose conflicts are all resolved and push it.
+   */
+  public async finishMerge(config: GitSyncConfig): Promise<GitSyncResult> {
+    return this.exclusive(async () => {
+      const before = await this.readStatus()
+      if (before.conflicts.length > 0) {
+        throw new Error(`${before.conflicts.length} file(s) still have conflicts`)
+      }
+      if (this.isMerging()) await this.git('commit', '--no-edit')
+      const pushed = config.remote ? await this.push(config.branch) : false
+      return { status: await this.readStatus(), committed: true, pulled: 0, pushed }
+    })
+  }
+
+  public async abortMerge(): Promise<GitSyncStatus> {
+    return this.exclusive(async () => {
+      if (this.isMerging()) await this.git('merge', '--abort')
+      return this.readStatus()
+    })
+  }
+
+  /**
+   * Turn the vault into a repository on first use and point `origin` at the
+   * configured remote.
+   */
+  private async prepare(config: GitSyncConfig): Promise<void> {
+    if (!this.isRepository()) {
+      await this.git('init', '--quiet')
+      await this.git('symbolic-ref', 'HEAD', `refs/heads/${config.branch}`)
+    }
+
+    const ignoreFile = join(this.rootPath, '.gitignore')
+    const ignore = existsSync(ignoreFile) ? await readFile(ignoreFile, 'utf-8') : ''
+    const lines = ignore.split(/\r?\n/)
+    const missing = IGNORED.filter((entry) => !lines.includes(entry))
+    if (missing.length > 0) {
+      const separator = ignore && !ignore.endsWith('\n') ? '\n' : ''
+      await writeFile(ignoreFile, `${ignore}${separator}${missing.join('\n')}\n`, 'utf-8')
+    }
+
+    for (const [key, value] of Object.entries(FALLBACK_IDENTITY)) {
+      const current = await this.git('config', `user.${key}`).catch(() => '')
+      if (!current.trim()) await this.git('config', `user.${key}`, value)
+    }
+
+    const url = await this.git('remote', 'get-url', REMOTE).catch(() => null)
+    if (config.remote && url === null) {
+      await this.git('remote', 'add', REMOTE, config.remote)
+    } else if (config.remote && url?.trim() !== config.remote) {
+      await this.git('remote', 'set-url', REMOTE, config.remote)
+    }
+  }
+
+  private async commitAll(message: string): Promise<boolean> {
+    await this.git('add', '--all')
+    const staged = await this.git('diff', '--cached', '--quiet').then(
+      () => false,
+      () => true
+    )
+    if (staged) await this.git('commit', '--quiet', '-m', message)
+    return staged
+  }
+
+  private async push(branch: string): Promise<boolean> {
+    if (!(await this.hasRef('HEAD'))) return false
+    await this.git('push', '--quiet', '-u', REMOTE, `HEAD:refs/heads/${branch}`)
+    return true
+  }
+
+  private async readStatus(): Promise<GitSyncStatus> {
+    const status: GitSyncStatus = {
+      state: 'not-repository',
+      branch: '',
+      changes: 0,
+      ahead: 0,
+      behind: 0,
+      conflicts: [],
+      hasRemote: false
+    }
+    if (!this.isRepository()) return status
+
+    // NUL-separated: `## branch...upstream [ahead 1, behind 2]`, then `XY path`
+    const entries = (await this.git('status', '--porcelain=v1', '-b', '-z')).split('\0')
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i]
+      if (entry.startsWith('## ')) {
+        const header = entry.slice(3)
+        status.branch = header
+          .replace(/^No commits yet on /, '')
+          .replace(/\.\.\..*$/, '')
+          .replace(/ \[.*\]$/, '')
+        status.ahead = Number(/ahead (\d+)/.exec(header)?.[1] ?? 0)
+        status.behind = Number(/behind (\d+)/.exec(header)?.[1] ?? 0)
+      } else if (entry.length > 3) {
+        const code = entry.slice(0, 2)
+        if (UNMERGED.has(code)) status.conflicts.push(entry.slice(3))
+        else status.changes++
+        if (code[0] === 'R' || code[0] === 'C') i++ // Followed by the original path
+      }
+    }
+    status.hasRemote = (await this.git('remote').catch(() => '')).split('\n').includes(REMOTE)
+    status.state =
+      status.conflicts.length > 0 ? 'conflict' : status.changes > 0 ? 'changes' : 'clean'
+    return status
+  }
+
+  private isMerging(): boolean {
+    return existsSync(join(this.rootPath, '.git', 'MERGE_HEAD'))
+  }
+
+  private async hasRef(ref: string): Promise<boolean> {
+    return this.git('rev-parse', '--verify', '--quiet', ref).then(
+      () => true,
+      () => false
+    )
+  }
+
+  private async countCommits(range: string): Promise<number> {
+    return Number((await this.git('rev-list', '--count', range)).trim()) || 0
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task)
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+
+  /**
+   * Run git in the vault and resolve its stdout. Rejects with git's own
+   * message; credential prompts are disabled so a missing login fails fast.
+   */
+  private git(...args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile(
+        'git',
+        args,
+        {
+          cwd: this.rootPath,
+          env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+          maxBuffer: 64 * 1024 * 1024
+        },
+        (error, stdout, stderr) => {
+          if (!error) return resolve(stdout)
+          const code = (error as NodeJS.ErrnoException).code
+          if (code === 'ENOENT') return reject(new Error('Git is not installed or not on PATH'))
+          const lines = `${stderr || stdout}`.trim().split('\n')
+          const message = lines.find((line) => /^(fatal|error):/.test(line)) ?? lines.pop()
+          reject(new Error(message || error.message))
+        }
+      )
+    })
+  }
+}
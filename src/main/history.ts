@@ -0,0 +1,219 @@
+import { app } from 'electron'
+import { dirname, join } from 'path'
+import { createHash } from 'crypto'
+import { existsSync } from 'fs'
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises'
+import { hashContent } from './indexCache'
+
+/**
+ * Bump whenever the shape of a history file changes; older files are ignored.
+ */
+const HISTORY_VERSION = 1
+
+// Saves closer together than this belong to one editing session
+const SESSION_GAP = 5 * 60 * 1000
+// A single save replacing this many characters is recorded immediately
+const LARGE_EDIT = 400
+
+// Retention: everything from the last day, then the newest version per day
+const KEEP_ALL_FOR = 24 * 60 * 60 * 1000
+const RETENTION_DAYS = 30
+const MAX_VERSIONS = 100
+
+export type SnapshotReason =
+  | 'session'
+  | 'large-edit'
+  | 'restore'
+  | 'delete'
+  | 'link-update'
+  | 'import'
+
+export type NoteVersion = {
+  id: string
+  createdAt: number
+  size: number
+  reason: SnapshotReason
+}
+
+type StoredVersion = NoteVersion & {
+  hash: string
+  content: string
+}
+
+type HistoryFile = {
+  version: number
+  noteId: string
+  versions: StoredVersion[] // Newest first
+}
+
+/**
+ * Number of characters a save replaces: the span between the common prefix
+ * and the common suffix of the old and new text.
+ */
+function changedLength(before: string, after: string): number {
+  const max = Math.min(before.length, after.length)
+  let prefix = 0
+  while (prefix < max && before[prefix] === after[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < max - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+  return Math.max(before.length, after.length) - prefix - suffix
+}
+
+function dayKey(time: number): string {
+  const date = new Date(time)
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`
+}
+
+/**
+ * Keep every version from the last day, then the newest one per calendar day
+ * up to RETENTION_DAYS, and never more than MAX_VERSIONS in total.
+ */
+function applyRetention(versions: StoredVersion[], now: number): StoredVersion[] {
+  const days = new Set<string>()
+  return versions
+    .filter((version) => {
+      const age = now - version.createdAt
+      if (age < KEEP_ALL_FOR) return true
+      if (age > RETENTION_DAYS * KEEP_ALL_FOR) return false
+      const key = dayKey(version.createdAt)
+      if (days.has(key)) return false
+      days.add(key)
+      return true
+    })
+    .slice(0, MAX_VERSIONS)
+}
+
+/**
+ * Local snapshot store for note versions. Like the index cache it lives per
+ * vault in userData, one JSON file per note, so the vault stays clean.
+ */
+export class NoteHistory {
+  private readonly dir: string
+  // Latest snapshot per note, so most saves never touch the disk
+  private latest = new Map<string, { createdAt: number; hash: string } | null>()
+
+  constructor(rootPath: string) {
+    const key = createHash('sha1').update(rootPath).digest('hex').slice(0, 16)
+    this.dir = join(app.getPath('userData'), 'history', key)
+  }
+
+  /**
+   * Called before a save overwrites `previous` with `next`. The old content is
+   * kept when a new editing session starts or when the save rewrites a large
+   * part of the note (AI edits, pastes, accidental select-all).
+   */
+  public async recordSave(noteId: string, previous: string, next: string): Promise<void> {
+    if (previous === next) return
+    try {
+      const latest = await this.getLatest(noteId)
+      if (latest?.hash === hashContent(previous)) return
+
+      if (!latest || Date.now() - latest.createdAt >= SESSION_GAP) {
+        await this.snapshot(noteId, previous, 'session')
+      } else if (changedLength(previous, next) >= LARGE_EDIT) {
+        await this.snapshot(noteId, previous, 'large-edit')
+      }
+    } catch (err) {
+      console.error(`[History] Failed to record save of ${noteId}`, err)
+    }
+  }
+
+  /**
+   * Store `content` as a version unless it matches the latest one.
+   */
+  public async snapshot(noteId: string, content: string, reason: SnapshotReason): Promise<void> {
+    const hash = hashContent(content)
+    const file = await this.load(noteId)
+    if (file.versions[0]?.hash === hash) return
+
+    const createdAt = Date.now()
+    file.versions.unshift({
+      id: `${createdAt}-${hash.slice(0, 8)}`,
+      createdAt,
+      size: content.length,
+      reason,
+      hash,
+      content
+    })
+    file.versions = applyRetention(file.versions, createdAt)
+    await this.save(file)
+  }
+
+  public async list(noteId: string): Promise<NoteVersion[]> {
+    const file = await this.load(noteId)
+    return file.versions.map(({ id, createdAt, size, reason }) => ({ id, createdAt, size, reason }))
+  }
+
+  public async getContent(noteId: string, versionId: string): Promise<string | null> {
+    const file = await this.load(noteId)
+    return file.versions.find((version) => version.id === versionId)?.content ?? null
+  }
+
+  /**
+   * Carry history along when notes are renamed or moved (old id -> new id).
+   */
+  public async move(moves: Map<string, string>): Promise<void> {
+    for (const [from, to] of moves) {
+      if (from === to) continue
+      const source = this.filePath(from)
+      if (!existsSync(source)) continue
+      try {
+        const file = await this.load(from)
+        // A note that used to live at the new id keeps its versions too
+        const existing = await this.load(to)
+        file.noteId = to
+        file.versions = [...file.versions, ...existing.versions].sort(
+          (a, b) => b.createdAt - a.createdAt
+        )
+        await this.save(file)
+        await rm(source, { force: true })
+        this.latest.delete(from)
+      } catch (err) {
+        console.error(`[History] Failed to move history of ${from}`, err)
+      }
+    }
+  }
+
+  private async getLatest(noteId: string): Promise<{ createdAt: number; hash: string } | null> {
+    if (!this.latest.has(noteId)) await this.load(noteId)
+    return this.latest.get(noteId) ?? null
+  }
+
+  private filePath(noteId: string): string {
+    const key = createHash('sha1').update(noteId).digest('hex').slice(0, 16)
+    return join(this.dir, `${key}.json`)
+  }
+
+  private async load(noteId: string): Promise<HistoryFile> {
+    const empty: HistoryFile = { version: HISTORY_VERSION, noteId, versions: [] }
+    const path = this.filePath(noteId)
+    let file = empty
+    if (existsSync(path)) {
+      try {
+        const raw = JSON.parse(await readFile(path, 'utf-8')) as HistoryFile
+        if (raw.version === HISTORY_VERSION && raw.noteId === noteId) file = raw
+      } catch (err) {
+        console.warn(`[History] Ignoring unreadable history for ${noteId}`, err)
+      }
+    }
+    const newest = file.versions[0]
+    this.latest.set(noteId, newest ? { createdAt: newest.createdAt, hash: newest.hash } : null)
+    return file
+  }
+
+  private async save(file: HistoryFile): Promise<void> {
+    const path = this.filePath(file.noteId)
+    await mkdir(dirname(path), { recursive: true })
+    // Write to a temp file first so a crash never leaves a truncated history
+    const temp = `${path}.tmp`
+    await writeFile(temp, JSON.stringify(file), 'utf-8')
+    await rename(temp, path)
+    const newest = file.versions[0]
+    this.latest.set(file.noteId, newest ? { createdAt: newest.createdAt, hash: newest.hash } : null)
+  }
+}
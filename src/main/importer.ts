@@ -0,0 +1,414 @@
+import { readFile, readdir } from 'fs/promises'
+import { join, posix } from 'path'
+import { inflateRawSync } from 'zlib'
+import { formatWikiLink, maskCode, replaceWikiLinks } from './wikilinks'
+
+/**
+ * Bulk import from an Obsidian vault, a Notion Markdown & CSV zip export or a
+ * plain folder of `.md` / `.txt` files. Sources are read into a list of files
+ * with their destination (relative to the import folder); links are rewritten
+ * when the file is read, once every destination is final.
+ */
+
+export type ImportSource = 'obsidian' | 'notion' | 'folder'
+
+export type ImportConflictAction = 'rename' | 'overwrite' | 'skip'
+
+/**
+ * Looks up where an imported file ended up (vault-relative), by its path in
+ * the source.
+ */
+export type ImportTargetLookup = (sourcePath: string) => string | undefined
+
+export type ImportFile = {
+  /** Path inside the source folder or zip */
+  source: string
+  /** Destination relative to the import folder */
+  target: string
+  kind: 'note' | 'attachment'
+  read: (lookup: ImportTargetLookup) => Promise<Buffer>
+}
+
+export type ImportScan = {
+  files: ImportFile[]
+  /** Source files left out, with the reason */
+  skipped: string[]
+  /** Remarks for the import report */
+  remarks: string[]
+}
+
+/**
+ * One file of an import as listed in the conflict report.
+ */
+export type ImportEntry = {
+  source: string
+  /** Vault-relative destination */
+  target: string
+  kind: 'note' | 'attachment'
+  /** A file already exists at `target` */
+  conflict: boolean
+  /** Renamed to avoid another imported file with the same name */
+  renamed: boolean
+}
+
+export type ImportPlan = {
+  id: string
+  source: ImportSource
+  /** The folder or zip being imported */
+  origin: string
+  /** Vault folder receiving the import ('' for the root) */
+  folder: string
+  entries: ImportEntry[]
+  skipped: string[]
+  remarks: string[]
+}
+
+export type ImportSummary = {
+  imported: number
+  overwritten: number
+  renamed: number
+  skipped: number
+  errors: string[]
+}
+
+type SourceFile = {
+  path: string
+  read: () => Promise<Buffer>
+}
+
+const NOTE_RE = /\.(md|txt)$/i
+const NOTION_ID_RE = /\s+[0-9a-f]{32}$/i
+const MARKDOWN_LINK_RE = /(!?)\[([^\]\n]*)\]\(([^)\s]+)\)/g
+const ZIP_END_SIGNATURE = 0x06054b50
+const ZIP_ENTRY_SIGNATURE = 0x02014b50
+// Inflated size limit per zip entry, so a zip bomb cannot exhaust memory
+const MAX_ZIP_ENTRY_SIZE = 256 * 1024 * 1024
+
+export async function scanImportSource(source: ImportSource, origin: string): Promise<ImportScan> {
+  switch (source) {
+    case 'obsidian':
+      return scanObsidian(origin)
+    case 'notion':
+      return scanNotion(origin)
+    case 'folder':
+      return scanFolder(origin)
+  }
+}
+
+/**
+ * Every note and attachment, keeping the folder layout so attachment folders
+ * (and the links into them) survive. `.obsidian`, `.trash` and other hidden
+ * folders are left behind.
+ */
+async function scanObsidian(root: string): Promise<ImportScan> {
+  const remarks: string[] = []
+  try {
+    const config = JSON.parse(await readFile(join(root, '.obsidian', 'app.json'), 'utf-8'))
+    const folder =
+      typeof config.attachmentFolderPath === 'string' ? config.attachmentFolderPath : ''
+    if (folder && folder !== '/' && !folder.startsWith('./')) {
+      remarks.push(`Attachments are kept in "${folder}", as configured in Obsidian`)
+    }
+  } catch {
+    remarks.push('No .obsidian settings found; importing as a plain vault')
+  }
+
+  const sources = await listFolder(root)
+  const files = sources.map((file): ImportFile => {
+    const kind = file.path.toLowerCase().endsWith('.md') ? 'note' : 'attachment'
+    return {
+      source: file.path,
+      target: file.path,
+      kind,
+      read: async (lookup) => {
+        const data = await file.read()
+        return kind === 'note' ? Buffer.from(rewriteLinks(text(data), file.path, lookup)) : data
+      }
+    }
+  })
+  return { files, skipped: [], remarks }
+}
+
+/**
+ * Notion appends a 32 character id to every page, database and folder name.
+ * Those are stripped, links between pages become wikilinks, and each
+ * database CSV becomes a note with a Markdown table.
+ */
+async function scanNotion(zipPath: string): Promise<ImportScan> {
+  const entries = await expandZips(readZip(await readFile(zipPath)))
+  // Exports are wrapped in a single `Export-…` folder
+  const top = entries[0]?.path.split('/')[0] ?? ''
+  const wrapped =
+    /^Export-/i.test(top) && entries.every((entry) => entry.path.startsWith(`${top}/`))
+  const skipped: string[] = []
+  const files: ImportFile[] = []
+  const paths = new Set(entries.map((entry) => entry.path))
+
+  for (const entry of entries) {
+    const ext = posix.extname(entry.path).toLowerCase()
+    // `Name_all.csv` repeats the database with hidden columns included
+    if (ext === '.csv' && /_all\.csv$/i.test(entry.path)) {
+      if (paths.has(entry.path.replace(/_all\.csv$/i, '.csv'))) {
+        skipped.push(`${entry.path} (duplicate of the database view)`)
+        continue
+      }
+    }
+    const target = stripNotionIds(wrapped ? entry.path.slice(top.length + 1) : entry.path)
+
+    if (ext === '.md') {
+      files.push({
+        source: entry.path,
+        target,
+        kind: 'note',
+        read: async (lookup) =>
+          Buffer.from(rewriteLinks(text(await entry.read()), entry.path, lookup))
+      })
+    } else if (ext === '.csv') {
+      files.push({
+        source: entry.path,
+        target: target.replace(/(_all)?\.csv$/i, '.md'),
+        kind: 'note',
+        read: async () =>
+          Buffer.from(csvToMarkdown(text(await entry.read()), posix.basename(target, ext)))
+      })
+    } else {
+      files.push({ source: entry.path, target, kind: 'attachment', read: entry.read })
+    }
+  }
+  return {
+    files,
+    skipped,
+    remarks: ['Notion page ids were removed from file names; page links became wikilinks']
+  }
+}
+
+async function scanFolder(root: string): Promise<ImportScan> {
+  const skipped: string[] = []
+  const files: ImportFile[] = []
+  for (const file of await listFolder(root)) {
+    if (!NOTE_RE.test(file.path)) {
+      skipped.push(`${file.path} (not a Markdown or text file)`)
+      continue
+    }
+    files.push({ source: file.path, target: file.path, kind: 'note', read: file.read })
+  }
+  return { files, skipped, remarks: [] }
+}
+
+async function listFolder(root: string, dir = ''): Promise<SourceFile[]> {
+  const files: SourceFile[] = []
+  for (const entry of await readdir(join(root, dir), { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue
+    const path = dir ? `${dir}/${entry.name}` : entry.name
+    if (entry.isDirectory()) {
+      files.push(...(await listFolder(root, path)))
+    } else if (entry.isFile()) {
+      files.push({ path, read: () => readFile(join(root, path)) })
+    }
+  }
+  return files
+}
+
+/**
+ * Point links at the imported files. Markdown links to notes become
+ * wikilinks, links to attachments use their new vault path (the preview
+ * resolves image paths from the vault root), and path-style wikilinks get the
+ * import folder prepended. Links inside code are left alone.
+ */
+function rewriteLinks(content: string, sourcePath: string, lookup: ImportTargetLookup): string {
+  const dir = posix.dirname(sourcePath)
+  const find = (href: string): string | undefined => {
+    const path = posix.normalize(posix.join(dir === '.' ? '' : dir, href))
+    return lookup(path) ?? lookup(posix.normalize(href))
+  }
+
+  const masked = maskCode(content)
+  let result = ''
+  let cursor = 0
+  for (const match of masked.matchAll(MARKDOWN_LINK_RE)) {
+    const [raw, bang, label, href] = match
+    if (/^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('#')) continue
+
+    let decoded: string
+    try {
+      decoded = decodeURIComponent(href)
+    } catch {
+      decoded = href
+    }
+    const target = find(decoded)
+    if (!target) continue
+
+    const index = match.index ?? 0
+    const originalLabel = content.slice(
+      index + bang.length + 1,
+      index + bang.length + 1 + label.length
+    )
+    const replacement =
+      !bang && NOTE_RE.test(target)
+        ? formatWikiLink({
+            embed: false,
+            target: target.replace(NOTE_RE, ''),
+            alias:
+              originalLabel && originalLabel !== posix.basename(target).replace(NOTE_RE, '')
+                ? originalLabel
+                : undefined
+          })
+        : `${bang}[${originalLabel}](${encodeURI(target)})`
+    result += content.slice(cursor, index) + replacement
+    cursor = index + raw.length
+  }
+  result += content.slice(cursor)
+
+  // Path-style wikilinks are relative to the vault root
+  return replaceWikiLinks(result, (link) => {
+    if (!link.target.includes('/')) return null
+    const path = posix.normalize(link.target)
+    const target = lookup(`${path}.md`) ?? lookup(path)
+    return target ? formatWikiLink({ ...link, target: target.replace(NOTE_RE, '') }) : null
+  })
+}
+
+function stripNotionIds(path: string): string {
+  return path
+    .split('/')
+    .map((segment) => {
+      const ext = posix.extname(segment)
+      const suffix = ext.toLowerCase() === '.csv' && /_all\.csv$/i.test(segment) ? '_all' : ''
+      const name = segment.slice(0, segment.length - ext.length - suffix.length)
+      return `${name.replace(NOTION_ID_RE, '').trim() || name}${suffix}${ext}`
+    })
+    .join('/')
+}
+
+/**
+ * A Notion database CSV as a note: the title and a Markdown table.
+ */
+function csvToMarkdown(csv: string, title: string): string {
+  const rows = parseCsv(csv).filter((row) => row.some((cell) => cell.trim()))
+  if (rows.length === 0) return `# ${title}\n`
+  const width = Math.max(...rows.map((row) => row.length))
+  const cell = (value = ''): string => value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>').trim()
+  const line = (row: string[]): string =>
+    `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`
+
+  const [header, ...body] = rows
+  return [`# ${title}`, '', line(header), `|${' --- |'.repeat(width)}`, ...body.map(line), ''].join(
+    '\n'
+  )
+}
+
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let value = ''
+  let quoted = false
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i]
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        value += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        value += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(value)
+      value = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++
+      row.push(value)
+      rows.push(row)
+      row = []
+      value = ''
+    } else {
+      value += char
+    }
+  }
+  if (value || row.length > 0) {
+    row.push(value)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Entries of a zip archive (stored or deflated; no zip64). Folders are left
+ * out.
+ */
+function readZip(buffer: Buffer): SourceFile[] {
+  let end = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_SIGNATURE) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw new Error('Not a zip archive')
+
+  const count = buffer.readUInt16LE(end + 10)
+  let offset = buffer.readUInt32LE(end + 16)
+  const files: SourceFile[] = []
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== ZIP_ENTRY_SIGNATURE) throw new Error('Corrupt zip archive')
+    const method = buffer.readUInt16LE(offset + 10)
+    const size = buffer.readUInt32LE(offset + 20)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const local = buffer.readUInt32LE(offset + 42)
+    const path = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength).replace(/\\/g, '/')
+    offset += 46 + nameLength + extraLength + commentLength
+    // Like folder imports, skip hidden entries (.git, .trash) and anything that
+    // could land outside the import folder
+    if (
+      path.endsWith('/') ||
+      path.startsWith('/') ||
+      /^[a-z]:/i.test(path) ||
+      path.split('/').some((part) => part.startsWith('.'))
+    ) {
+      continue
+    }
+
+    files.push({
+      path,
+      read: async () => {
+        const start = local + 30 + buffer.readUInt16LE(local + 26) + buffer.readUInt16LE(local + 28)
+        const data = buffer.subarray(start, start + size)
+        if (method === 0) return Buffer.from(data)
+        if (method === 8) {
+          try {
+            return inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_SIZE })
+          } catch (err) {
+            if (err instanceof RangeError) throw new Error(`${path} is too large to import`)
+            throw err
+          }
+        }
+        throw new Error(`Unsupported compression in ${path}`)
+      }
+    })
+  }
+  return files
+}
+
+/**
+ * Large Notion exports arrive as a zip of zips (`Export-…-Part-1.zip`).
+ */
+async function expandZips(entries: SourceFile[]): Promise<SourceFile[]> {
+  const files: SourceFile[] = []
+  for (const entry of entries) {
+    if (entry.path.toLowerCase().endsWith('.zip')) {
+      files.push(...readZip(await entry.read()))
+    } else {
+      files.push(entry)
+    }
+  }
+  return files
+}
+
+function text(data: Buffer): string {
+  return data.toString('utf-8').replace(/^\uFEFF/, '')
+}
@@ -2,14 +2,19 @@
 import { setupUpdateApp } from '../renderer/src/components/updateApp/updateApp'
 import { app, shell, BrowserWindow, ipcMain, dialog } from 'electron'
 import { join, basename, dirname } from 'path'
-import { writeFile, mkdir, readFile } from 'fs/promises'
+import { writeFile, readFile } from 'fs/promises'
 import { existsSync, mkdirSync, cpSync, readdirSync } from 'fs'
 import { userInfo } from 'os'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import { version } from '../../package.json'
 import icon from '../../resources/icon.ico?asset'
 import { vault } from './vault'
-import type { NotePayload } from './vault'
+import type { LinkRefactor, NotePayload, UnlinkedMention } from './vault'
+import type { ImportConflictAction, ImportSource } from './importer'
+import { attachmentSettings } from './attachments'
+import { gitSyncConfig, type GitConflictChoice } from './gitSync'
+import { SyncProviderFactory } from './sync/factory'
+import { GistSyncProvider } from './sync/gist'
 import {
   loadSettings,
   saveSettings,
@@ -17,6 +22,14 @@ import {
   DEFAULT_SETTINGS,
   type Settings
 } from './settings'
+import { periodicNoteConfig, periodicNoteDate, shiftPeriod, type NotePeriod } from './periodicNotes'
+import {
+  exportDocuments,
+  exportSite,
+  type ExportDocument,
+  type ExportFormat,
+  type SiteFile
+} from './exporter'
 
 let mainWindowRef: BrowserWindow | null = null
 
@@ -124,12 +137,6 @@ async function chooseVault(): Promise<{ path: string; name: string; changed: boo
   }
 }
 
-function getVaultRoot(): string {
-  const root = vault.getRootPath()
-  if (!root) throw new Error('Vault not open')
-  return root
-}
-
 function createWindow(): void {
   const settings = loadSettings()
   const bounds = settings.windowBounds || { width: 1200, height: 800 }
@@ -213,28 +220,62 @@ app.whenReady().then(async () => {
   ipcMain.handle('notes:list', async () => vault.getNotes())
   ipcMain.handle('notes:load', async (_event, id: string) => vault.getNote(id))
   ipcMain.handle('notes:exportAll', async () => vault.exportAllNotes())
-  ipcMain.handle('notes:create', async (_event, title?: string, path?: string) => {
+  ipcMain.handle(
+    'notes:create',
+    async (_event, title?: string, path?: string, content?: string) => {
+      await ensureVault()
+      return vault.createNote(title || 'Untitled', path, content)
+    }
+  )
+  ipcMain.handle('templates:list', async () => {
     await ensureVault()
-    return vault.createNote(title || 'Untitled', path)
+    return vault.getTemplates(loadSettings().templatesFolder ?? '')
   })
+  // Open (or create) the periodic note `offset` periods away from today, or
+  // from the date of the `relativeTo` note when it is one of that period's notes
+  ipcMain.handle(
+    'notes:openPeriodic',
+    async (_event, period: NotePeriod, offset = 0, relativeTo?: string) => {
+      await ensureVault()
+      const config = periodicNoteConfig(loadSettings(), period)
+      const now = new Date()
+      const base = (relativeTo && periodicNoteDate(config, relativeTo)) || now
+      const date = shiftPeriod(base, period, offset)
+      date.setHours(now.getHours(), now.getMinutes(), now.getSeconds())
+      return vault.openPeriodicNote(config, date)
+    }
+  )
   ipcMain.handle('notes:save', async (_event, payload: NotePayload) => {
     await ensureVault()
     return vault.saveNote(payload.id, payload.content, payload.title)
   })
-  ipcMain.handle('notes:delete', async (_event, id: string) => {
-    await ensureVault()
-    await vault.deleteNote(id)
-    return { id }
-  })
-  ipcMain.handle('notes:move', async (_event, id: string, fromPath?: string, toPath?: string) => {
-    await ensureVault()
-    return vault.moveNote(id, fromPath, toPath)
-  })
-  ipcMain.handle('notes:rename', async (_event, id: string, newId: string, path?: string) => {
+  ipcMain.handle(
+    'notes:delete',
+    async (_event, id: string, _path?: string, permanent?: boolean) => {
+      await ensureVault()
+      await vault.deleteNote(id, permanent)
+      return { id }
+    }
+  )
+  ipcMain.handle(
+    'notes:move',
+    async (_event, id: string, fromPath?: string, toPath?: string, updateLinks?: boolean) => {
+      await ensureVault()
+      return vault.moveNote(id, fromPath, toPath, updateLinks)
+    }
+  )
+  ipcMain.handle(
+    'notes:rename',
+    async (_event, id: string, newId: string, path?: string, updateLinks?: boolean) => {
+      await ensureVault()
+      const newName = await vault.renameNote(id, newId, path, updateLinks)
+      const note = await vault.getNote(newName)
+      return note
+    }
+  )
+  ipcMain.handle('links:previewRefactor', async (_event, op: LinkRefactor) => {
     await ensureVault()
-    const newName = await vault.renameNote(id, newId, path)
-    const note = await vault.getNote(newName)
-    return note
+    return vault.previewLinkRefactor(op)
   })
   ipcMain.handle('notes:import', async (_event, filePath: string, folderPath?: string) => {
     await ensureVault()
@@ -249,14 +290,36 @@ app.whenReady().then(async () => {
     await vault.deleteFolder(path)
     return { path }
   })
-  ipcMain.handle('folder:rename', async (_event, path: string, newName: string) => {
+  ipcMain.handle('trash:list', async () => {
+    await ensureVault()
+    return vault.getTrash()
+  })
+  ipcMain.handle('trash:restore', async (_event, id: string) => {
     await ensureVault()
-    return vault.renameFolder(path, newName)
+    return vault.restoreFromTrash(id)
   })
-  ipcMain.handle('folder:move', async (_event, sourcePath: string, targetPath: string) => {
+  ipcMain.handle('trash:purge', async (_event, id: string) => {
     await ensureVault()
-    return vault.moveFolder(sourcePath, targetPath)
+    await vault.purgeFromTrash(id)
   })
+  ipcMain.handle('trash:empty', async () => {
+    await ensureVault()
+    await vault.emptyTrash()
+  })
+  ipcMain.handle(
+    'folder:rename',
+    async (_event, path: string, newName: string, updateLinks?: boolean) => {
+      await ensureVault()
+      return vault.renameFolder(path, newName, updateLinks)
+    }
+  )
+  ipcMain.handle(
+    'folder:move',
+    async (_event, sourcePath: string, targetPath: string, updateLinks?: boolean) => {
+      await ensureVault()
+      return vault.moveFolder(sourcePath, targetPath, updateLinks)
+    }
+  )
 
   ipcMain.handle('vault:get', async () => {
     const path = vault.getRootPath() || resolveVaultPath()
@@ -392,28 +455,126 @@ app.whenReady().then(async () => {
 
   ipcMain.handle('notes:search', async (_event, query: string) => vault.search(query))
   ipcMain.handle('notes:getBacklinks', async (_event, id: string) => vault.getBacklinks(id))
+  ipcMain.handle('links:backlinks', async (_event, id: string) => vault.getBacklinkContexts(id))
+  ipcMain.handle('links:unlinkedMentions', async (_event, id: string) =>
+    vault.getUnlinkedMentions(id)
+  )
+  ipcMain.handle('links:linkMention', async (_event, mention: UnlinkedMention, targetId: string) =>
+    vault.linkMention(mention, targetId)
+  )
+  ipcMain.handle('links:report', async () => vault.getLinkReport())
+  ipcMain.handle('links:resolveEmbed', async (_event, target: string, sourceId?: string) =>
+    vault.resolveEmbed(target, sourceId)
+  )
+  ipcMain.handle('history:list', async (_event, id: string) => vault.getNoteHistory(id))
+  ipcMain.handle('history:get', async (_event, id: string, versionId: string) =>
+    vault.getNoteVersion(id, versionId)
+  )
+  ipcMain.handle('history:restore', async (_event, id: string, versionId: string) =>
+    vault.restoreNoteVersion(id, versionId)
+  )
+  ipcMain.handle('tasks:list', async () => vault.getTasks())
+  ipcMain.handle('query:run', async (_event, source: string) => vault.runQuery(source))
+  ipcMain.handle('tags:list', async () => vault.getTags())
+  ipcMain.handle('tags:by-note', async () => vault.getNoteTags())
+  ipcMain.handle('tags:notes', async (_event, tag: string) => vault.getNotesWithTag(tag))
+  ipcMain.handle('tags:rename', async (_event, from: string, to: string) =>
+    vault.renameTag(from, to)
+  )
+  ipcMain.handle('export:notes', async (event, docs: ExportDocument[], format: ExportFormat) =>
+    exportDocuments(docs, format, BrowserWindow.fromWebContents(event.sender))
+  )
+  ipcMain.handle('import:choose', async (event, source: ImportSource) => {
+    const parent = BrowserWindow.fromWebContents(event.sender)
+    const options: Electron.OpenDialogOptions =
+      source === 'notion'
+        ? {
+            title: 'Select Notion Export',
+            properties: ['openFile'],
+            filters: [{ name: 'Notion export (Markdown & CSV)', extensions: ['zip'] }]
+          }
+        : {
+            title: source === 'obsidian' ? 'Select Obsidian Vault' : 'Select Folder',
+            properties: ['openDirectory']
+          }
+    const result = parent
+      ? await dialog.showOpenDialog(parent, options)
+      : await dialog.showOpenDialog(options)
+    return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0]
+  })
+  ipcMain.handle(
+    'import:plan',
+    async (_event, source: ImportSource, origin: string, folder: string) =>
+      vault.planImport(source, origin, folder)
+  )
+  ipcMain.handle(
+    'import:apply',
+    async (_event, id: string, actions: Record<string, ImportConflictAction>) =>
+      vault.applyImport(id, actions)
+  )
+  ipcMain.handle('publish:pages', async (_event, folder: string) => vault.getPublishPages(folder))
+  ipcMain.handle('publish:write', async (event, files: SiteFile[]) =>
+    exportSite(files, BrowserWindow.fromWebContents(event.sender))
+  )
   ipcMain.handle('graph:get', async () => {
     return { links: vault.getAllLinks() }
   })
 
-  ipcMain.handle('assets:save', async (_event, buffer: ArrayBuffer, name: string) => {
-    const root = getVaultRoot()
-    const assetsDir = join(root, 'assets')
-    await mkdir(assetsDir, { recursive: true })
-    const filePath = join(assetsDir, name)
-    await writeFile(filePath, Buffer.from(buffer))
-    return `assets/${name}`
-  })
+  ipcMain.handle(
+    'assets:save',
+    async (_event, buffer: ArrayBuffer, name: string, noteId?: string) =>
+      vault.saveAttachment(Buffer.from(buffer), name, noteId)
+  )
+  ipcMain.handle('attachments:list', async () => vault.getAttachments())
+  ipcMain.handle('attachments:rename', async (_event, from: string, to: string) =>
+    vault.renameAttachment(from, to)
+  )
+  ipcMain.handle('attachments:delete', async (_event, paths: string[]) =>
+    vault.deleteAttachments(paths)
+  )
 
   ipcMain.handle('settings:get', async () => loadSettings())
-  ipcMain.handle('settings:update', async (_event, updates: Partial<Settings>) =>
-    updateSettings(updates)
-  )
+  ipcMain.handle('settings:update', async (_event, updates: Partial<Settings>) => {
+    const updated = updateSettings(updates)
+    if (updates.trashAutoPurgeDays !== undefined) {
+      await vault.setTrashAutoPurge(updated.trashAutoPurgeDays ?? 0)
+    }
+    if (updates.attachmentFolder !== undefined || updates.attachmentLocation !== undefined) {
+      vault.setAttachmentSettings(attachmentSettings(updated))
+    }
+    return updated
+  })
   ipcMain.handle('settings:reset', async () => {
     saveSettings(DEFAULT_SETTINGS)
     return DEFAULT_SETTINGS
   })
 
+  // Git Sync Handlers
+  ipcMain.handle('git:status', async () => vault.getGitStatus())
+  ipcMain.handle('git:sync', async () => vault.syncGit(gitSyncConfig(loadSettings())))
+  ipcMain.handle('git:conflicts', async () => vault.getGitConflicts())
+  ipcMain.handle(
+    'git:resolve',
+    async (_event, path: string, choice: GitConflictChoice, content?: string) =>
+      vault.resolveGitConflict(path, choice, content)
+  )
+  ipcMain.handle('git:finishMerge', async () => vault.finishGitMerge(gitSyncConfig(loadSettings())))
+  ipcMain.handle('git:abortMerge', async () => vault.abortGitMerge())
+
+  // File sync handlers
+  ipcMain.handle('sync:run', async () => {
+    const provider = SyncProviderFactory.fromSettings(loadSettings())
+    const result = await vault.syncFiles(provider)
+    // The first Gist sync creates the gist; later syncs must reuse it
+    if (provider instanceof GistSyncProvider && provider.getGistId()) {
+      updateSettings({ syncGistId: provider.getGistId() })
+    }
+    return result
+  })
+  ipcMain.handle('sync:testProvider', async (_event, overrides?: Partial<Settings>) =>
+    SyncProviderFactory.fromSettings({ ...loadSettings(), ...overrides }).validateConfig()
+  )
+
   // Gist Sync Handlers
   ipcMain.handle(
     'sync:backup',
@@ -545,36 +706,9 @@ app.whenReady().then(async () => {
     }
   })
 
-  ipcMain.handle('sync:testToken', async (_event, token: string) => {
-    try {
-      // Use Bearer for fine-grained tokens (ghp_) or token for classic tokens
-      const authHeader = token.startsWith('ghp_') ? `Bearer ${token}` : `token ${token}`
-      const response = await fetch('https://api.github.com/user', {
-        headers: {
-          Authorization: authHeader,
-          Accept: 'application/vnd.github.v3+json'
-        }
-      })
-
-      if (response.ok) {
-        const user = await response.json()
-        return {
-          valid: true,
-          message: `Token valid for user: ${user.login || 'Unknown'}`
-        }
-      } else {
-        return {
-          valid: false,
-          message: `Token validation failed: ${response.status} ${response.statusText}`
-        }
-      }
-    } catch (error) {
-      return {
-        valid: false,
-        message: error instanceof Error ? error.message : 'Token test failed'
-      }
-    }
-  })
+  ipcMain.handle('sync:testToken', async (_event, token: string) =>
+    new GistSyncProvider({ gistToken: token }).validateConfig()
+  )
 
   ipcMain.handle('window:minimize', async () => {
     const win = BrowserWindow.getFocusedWindow() || mainWindowRef
@@ -681,6 +815,8 @@ app.whenReady().then(async () => {
 
   try {
     const savedPath = resolveVaultPath()
+    await vault.setTrashAutoPurge(loadSettings().trashAutoPurgeDays ?? 0)
+    vault.setAttachmentSettings(attachmentSettings(loadSettings()))
     await vault.setVaultPath(savedPath)
   } catch (err) {
     console.error('Failed to initialize vault:', err)
@@ -703,6 +839,11 @@ app.whenReady().then(async () => {
   })
 })
 
+app.on('before-quit', () => {
+  // Persist the vault index so the next launch only re-reads changed files
+  vault.flushIndexCache()
+})
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') app.quit()
 })
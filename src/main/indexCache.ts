@@ -0,0 +1,113 @@
+import { app } from 'electron'
+import { dirname, join } from 'path'
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, writeFileSync } from 'fs'
+import { readFile } from 'fs/promises'
+import type { NoteMeta } from './vault'
+import type { TaskItem } from '../shared/tasks'
+
+/**
+ * Bump whenever the shape of a cached entry changes so stale caches are
+ * discarded instead of being half-trusted.
+ */
+const CACHE_VERSION = 6
+const SAVE_DELAY = 2000
+
+export type CachedNote = {
+  /** Path relative to the vault root, forward slashes, with extension */
+  file: string
+  mtime: number
+  size: number
+  hash: string
+  meta: NoteMeta
+  links: string[]
+  /** Term frequencies for the full-text index */
+  terms: Record<string, number>
+  /** Inline and frontmatter tags */
+  tags: string[]
+  /** File references as written (see `extractAttachmentRefs`) */
+  attachments: string[]
+  tasks: TaskItem[]
+}
+
+type CacheFile = {
+  version: number
+  rootPath: string
+  savedAt: number
+  notes: CachedNote[]
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex')
+}
+
+/**
+ * Persisted snapshot of the vault index, stored per vault in userData so the
+ * vault folder itself stays clean (and out of sync/backup tools).
+ */
+export class IndexCache {
+  private readonly filePath: string
+  private saveTimer: NodeJS.Timeout | null = null
+  private pending: (() => CachedNote[]) | null = null
+
+  constructor(private readonly rootPath: string) {
+    const key = createHash('sha1').update(rootPath).digest('hex').slice(0, 16)
+    this.filePath = join(app.getPath('userData'), 'index-cache', `${key}.json`)
+  }
+
+  /**
+   * Load cached entries keyed by file path. Returns an empty map when the
+   * cache is missing, unreadable, from another version or another vault.
+   */
+  public async load(): Promise<Map<string, CachedNote>> {
+    const entries = new Map<string, CachedNote>()
+    if (!existsSync(this.filePath)) return entries
+
+    try {
+      const raw = JSON.parse(await readFile(this.filePath, 'utf-8')) as CacheFile
+      if (raw.version !== CACHE_VERSION || raw.rootPath !== this.rootPath) return entries
+      for (const entry of raw.notes || []) {
+        entries.set(entry.file, entry)
+      }
+    } catch (err) {
+      console.warn('[IndexCache] Ignoring unreadable cache', err)
+    }
+    return entries
+  }
+
+  /**
+   * Debounced save. The snapshot callback is evaluated when the timer fires so
+   * bursts of watcher events collapse into a single write.
+   */
+  public scheduleSave(snapshot: () => CachedNote[]): void {
+    this.pending = snapshot
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY)
+  }
+
+  /**
+   * Write any pending snapshot immediately (used on vault switch and quit).
+   */
+  public flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = null
+    }
+    if (!this.pending) return
+
+    const data: CacheFile = {
+      version: CACHE_VERSION,
+      rootPath: this.rootPath,
+      savedAt: Date.now(),
+      notes: this.pending()
+    }
+    this.pending = null
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true })
+      writeFileSync(this.filePath, JSON.stringify(data), 'utf-8')
+    } catch (err) {
+      console.error('[IndexCache] Failed to save cache', err)
+    }
+  }
+}
@@ -0,0 +1,464 @@
+import { parseDateRange } from '../shared/searchQuery'
+import { isTagOrChild, normalizeTag } from './tags'
+import type { NoteMeta } from './vault'
+
+/**
+ * Query blocks: ```` ```query ```` fences in notes, run against the vault
+ * index (note metadata, frontmatter and tags; no files are read).
+ *
+ *   TABLE status, updatedAt AS "Updated"     columns; the note comes first
+ *   LIST  /  LIST due                         note links, optionally with a value
+ *   FROM "projects" OR #work                  folder (with subfolders) or tag
+ *   WHERE status != "done" AND priority > 1   =, !=, <, <=, >, >=, contains
+ *   SORT updatedAt DESC, title                ascending unless DESC
+ *   LIMIT 20
+ *
+ * FROM and WHERE combine with AND, OR, NOT and parentheses. Fields are
+ * `title`, `path`, `file`, `tags`, `createdAt`, `updatedAt` and frontmatter
+ * properties (any case). `folder`, `created`, `updated` and `modified` are
+ * aliases unless a note has a property of that name. Text compares ignoring
+ * case; dates compare by day, month or year (`updatedAt >= 2026-10`).
+ */
+
+export type QueryScalar = string | number | boolean | null
+export type QueryCell = QueryScalar | QueryScalar[]
+
+export type QueryColumn = {
+  label: string
+  /** Values are timestamps */
+  date: boolean
+}
+
+export type QueryRow = {
+  id: string
+  title: string
+  values: QueryCell[]
+}
+
+export type NoteQueryResult = {
+  kind: 'table' | 'list'
+  columns: QueryColumn[]
+  rows: QueryRow[]
+  /** Why the query could not run; nothing else is filled in */
+  error?: string
+}
+
+export type QueryNote = {
+  meta: NoteMeta
+  /** Inline and frontmatter tags */
+  tags: string[]
+}
+
+type Token = {
+  type: 'word' | 'string' | 'tag' | 'symbol'
+  value: string
+}
+
+type Comparison = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'contains'
+
+type Operand = { type: 'field'; name: string } | { type: 'literal'; value: QueryScalar }
+
+type Expr =
+  | { type: 'and' | 'or'; left: Expr; right: Expr }
+  | { type: 'not'; expr: Expr }
+  | { type: 'compare'; op: Comparison; left: Operand; right: Operand }
+  | { type: 'truthy'; operand: Operand }
+  | { type: 'folder'; path: string }
+  | { type: 'tag'; tag: string }
+
+type NoteQuery = {
+  kind: 'table' | 'list'
+  fields: { name: string; label: string }[]
+  from?: Expr
+  where?: Expr
+  sort: { name: string; descending: boolean }[]
+  limit?: number
+}
+
+type Resolved = { value: QueryCell; date: boolean }
+
+// Results are rendered into the note; keep runaway queries bounded
+const MAX_ROWS = 1000
+const CLAUSES = ['from', 'where', 'sort', 'limit']
+const COMPARISONS = ['=', '!=', '<', '<=', '>', '>=']
+const TOKEN_RE =
+  /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|#([^\s,()]+)|(!=|<=|>=|=|<|>|\(|\)|,)|([^\s,()=!<>"'#]+))/y
+const NUMBER_RE = /^-?\d+(?:\.\d+)?$/
+const DATE_FIELDS: Record<string, keyof NoteMeta> = {
+  createdat: 'createdAt',
+  created: 'createdAt',
+  updatedat: 'updatedAt',
+  updated: 'updatedAt',
+  modified: 'updatedAt'
+}
+
+/**
+ * Parse and run `source` over `notes`. Syntax errors come back in `error`.
+ */
+export function runNoteQuery(source: string, notes: QueryNote[]): NoteQueryResult {
+  let query: NoteQuery
+  try {
+    query = parseNoteQuery(source)
+  } catch (error) {
+    return { kind: 'table', columns: [], rows: [], error: (error as Error).message }
+  }
+
+  let matches = notes.filter(
+    (note) =>
+      (!query.from || evaluate(query.from, note)) && (!query.where || evaluate(query.where, note))
+  )
+  const sort = query.sort.length > 0 ? query.sort : [{ name: 'title', descending: false }]
+  matches.sort((a, b) => {
+    for (const key of sort) {
+      const x = resolve(a, key.name).value
+      const y = resolve(b, key.name).value
+      const order = compareCells(x, y)
+      if (order === 0) continue
+      // Missing values stay last either way
+      const present = x !== null && x !== undefined && y !== null && y !== undefined
+      return key.descending && present ? -order : order
+    }
+    return 0
+  })
+  matches = matches.slice(0, Math.min(query.limit ?? MAX_ROWS, MAX_ROWS))
+
+  return {
+    kind: query.kind,
+    columns: query.fields.map((field) => ({
+      label: field.label,
+      date: field.name.toLowerCase() in DATE_FIELDS
+    })),
+    rows: matches.map((note) => ({
+      id: note.meta.id,
+      title: note.meta.title,
+      values: query.fields.map((field) => resolve(note, field.name).value)
+    }))
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  TOKEN_RE.lastIndex = 0
+  while (TOKEN_RE.lastIndex < source.length) {
+    if (!source.slice(TOKEN_RE.lastIndex).trim()) break
+    const start = TOKEN_RE.lastIndex
+    const match = TOKEN_RE.exec(source)
+    if (!match) {
+      throw new Error(`Unexpected "${source.slice(start).trim().charAt(0)}"`)
+    }
+    if (match[1] !== undefined || match[2] !== undefined) {
+      const text = match[1] ?? match[2]
+      tokens.push({ type: 'string', value: text.replace(/\\(.)/g, '$1') })
+    } else if (match[3] !== undefined) {
+      tokens.push({ type: 'tag', value: match[3] })
+    } else if (match[4] !== undefined) {
+      tokens.push({ type: 'symbol', value: match[4] })
+    } else {
+      tokens.push({ type: 'word', value: match[5] })
+    }
+  }
+  return tokens
+}
+
+function parseNoteQuery(source: string): NoteQuery {
+  const tokens = tokenize(source)
+  let pos = 0
+
+  const peek = (): Token | undefined => tokens[pos]
+  const isWord = (word: string, token = peek()): boolean =>
+    token?.type === 'word' && token.value.toLowerCase() === word
+  const isSymbol = (symbol: string): boolean =>
+    peek()?.type === 'symbol' && peek()?.value === symbol
+  const atClauseEnd = (): boolean => !peek() || CLAUSES.some((clause) => isWord(clause))
+  const describe = (token?: Token): string => (token ? `"${token.value}"` : 'end of query')
+  const expect = (what: string): Token => {
+    const token = tokens[pos++]
+    if (!token) throw new Error(`Expected ${what} but the query ended`)
+    return token
+  }
+
+  const parseName = (): string => {
+    const token = expect('a field name')
+    if (token.type !== 'word' && token.type !== 'string') {
+      throw new Error(`Expected a field name, found ${describe(token)}`)
+    }
+    return token.value
+  }
+
+  const parseOperand = (): Operand => {
+    const token = expect('a field or value')
+    if (token.type === 'string') return { type: 'literal', value: token.value }
+    if (token.type !== 'word')
+      throw new Error(`Expected a field or value, found ${describe(token)}`)
+    const word = token.value.toLowerCase()
+    if (word === 'true' || word === 'false') return { type: 'literal', value: word === 'true' }
+    if (word === 'null') return { type: 'literal', value: null }
+    if (NUMBER_RE.test(token.value)) return { type: 'literal', value: Number(token.value) }
+    // Bare dates such as 2026-10-01
+    if (parseDateRange(token.value)) return { type: 'literal', value: token.value }
+    return { type: 'field', name: token.value }
+  }
+
+  // Boolean structure shared by FROM and WHERE; `atom` parses the leaves
+  const parseExpression = (atom: () => Expr): Expr => {
+    const parseUnary = (): Expr => {
+      if (isWord('not')) {
+        pos++
+        return { type: 'not', expr: parseUnary() }
+      }
+      if (isSymbol('(')) {
+        pos++
+        const expr = parseOr()
+        if (!isSymbol(')')) throw new Error(`Expected ")" but found ${describe(peek())}`)
+        pos++
+        return expr
+      }
+      return atom()
+    }
+    const parseAnd = (): Expr => {
+      let left = parseUnary()
+      while (isWord('and')) {
+        pos++
+        left = { type: 'and', left, right: parseUnary() }
+      }
+      return left
+    }
+    const parseOr = (): Expr => {
+      let left = parseAnd()
+      while (isWord('or')) {
+        pos++
+        left = { type: 'or', left, right: parseAnd() }
+      }
+      return left
+    }
+    const expr = parseOr()
+    if (!atClauseEnd()) throw new Error(`Unexpected ${describe(peek())}`)
+    return expr
+  }
+
+  const parseSource = (): Expr => {
+    const token = expect('a folder or tag')
+    if (token.type === 'string') {
+      return { type: 'folder', path: token.value.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '') }
+    }
+    if (token.type === 'tag' && normalizeTag(token.value)) {
+      return { type: 'tag', tag: normalizeTag(token.value) }
+    }
+    throw new Error(`Expected a "folder" or #tag after FROM, found ${describe(token)}`)
+  }
+
+  const parseCondition = (): Expr => {
+    const left = parseOperand()
+    const next = peek()
+    let op: Comparison | null = null
+    if (next?.type === 'symbol' && COMPARISONS.includes(next.value)) op = next.value as Comparison
+    else if (isWord('contains')) op = 'contains'
+    if (!op) return { type: 'truthy', operand: left }
+    pos++
+    return { type: 'compare', op, left, right: parseOperand() }
+  }
+
+  const head = expect('TABLE or LIST')
+  if (!isWord('table', head) && !isWord('list', head)) {
+    throw new Error(`Queries start with TABLE or LIST, not ${describe(head)}`)
+  }
+  const query: NoteQuery = { kind: isWord('table', head) ? 'table' : 'list', fields: [], sort: [] }
+
+  while (!atClauseEnd()) {
+    const name = parseName()
+    let label = name
+    if (isWord('as')) {
+      pos++
+      label = parseName()
+    }
+    query.fields.push({ name, label })
+    if (!isSymbol(',')) break
+    pos++
+  }
+  if (query.kind === 'list' && query.fields.length > 1) {
+    throw new Error('LIST shows at most one field; use TABLE for more')
+  }
+
+  const seen = new Set<string>()
+  while (peek()) {
+    const token = expect('a clause')
+    const clause = token.value.toLowerCase()
+    if (token.type !== 'word' || !CLAUSES.includes(clause)) {
+      throw new Error(`Expected FROM, WHERE, SORT or LIMIT, found ${describe(token)}`)
+    }
+    if (seen.has(clause)) throw new Error(`${clause.toUpperCase()} appears twice`)
+    seen.add(clause)
+
+    if (clause === 'from') {
+      query.from = parseExpression(parseSource)
+    } else if (clause === 'where') {
+      query.where = parseExpression(parseCondition)
+    } else if (clause === 'sort') {
+      do {
+        if (isSymbol(',')) pos++
+        const name = parseName()
+        let descending = false
+        if (isWord('asc') || isWord('desc')) {
+          descending = isWord('desc')
+          pos++
+        }
+        query.sort.push({ name, descending })
+      } while (isSymbol(','))
+    } else {
+      const limit = expect('a number')
+      if (!NUMBER_RE.test(limit.value) || Number(limit.value) < 0) {
+        throw new Error(`LIMIT needs a number, found ${describe(limit)}`)
+      }
+      query.limit = Math.floor(Number(limit.value))
+    }
+    if (!atClauseEnd()) throw new Error(`Unexpected ${describe(peek())}`)
+  }
+  return query
+}
+
+function resolve(note: QueryNote, name: string): Resolved {
+  const { meta } = note
+  const key = name.toLowerCase()
+  switch (key) {
+    case 'title':
+      return { value: meta.title, date: false }
+    case 'path':
+      return { value: meta.path ?? '', date: false }
+    case 'file':
+      return { value: meta.id, date: false }
+    case 'tags':
+      return { value: note.tags, date: false }
+    case 'createdat':
+      return { value: meta.createdAt ?? meta.updatedAt, date: true }
+    case 'updatedat':
+      return { value: meta.updatedAt, date: true }
+  }
+
+  const properties = meta.properties ?? {}
+  const property = Object.keys(properties).find((k) => k.toLowerCase() === key)
+  if (property !== undefined) return { value: properties[property], date: false }
+
+  if (key === 'folder') return { value: meta.path ?? '', date: false }
+  if (key in DATE_FIELDS) return resolve(note, DATE_FIELDS[key])
+  return { value: null, date: false }
+}
+
+function evaluate(expr: Expr, note: QueryNote): boolean {
+  switch (expr.type) {
+    case 'and':
+      return evaluate(expr.left, note) && evaluate(expr.right, note)
+    case 'or':
+      return evaluate(expr.left, note) || evaluate(expr.right, note)
+    case 'not':
+      return !evaluate(expr.expr, note)
+    case 'folder': {
+      const path = note.meta.path ?? ''
+      return !expr.path || path === expr.path || path.startsWith(`${expr.path}/`)
+    }
+    case 'tag':
+      return note.tags.some((tag) => isTagOrChild(tag, expr.tag))
+    case 'truthy': {
+      const { value } = operandValue(expr.operand, note)
+      return Array.isArray(value) ? value.length > 0 : Boolean(value)
+    }
+    case 'compare':
+      return compare(expr.op, operandValue(expr.left, note), operandValue(expr.right, note))
+  }
+}
+
+function operandValue(operand: Operand, note: QueryNote): Resolved {
+  return operand.type === 'field'
+    ? resolve(note, operand.name)
+    : { value: operand.value, date: false }
+}
+
+function compare(op: Comparison, left: Resolved, right: Resolved): boolean {
+  if (Array.isArray(left.value)) {
+    const item = { value: right.value, date: right.date }
+    const found = left.value.some((value) => compare('=', { value, date: left.date }, item))
+    if (op === '=' || op === 'contains') return found
+    if (op === '!=') return !found
+    return false
+  }
+  if (op === 'contains') {
+    return (
+      left.value !== null &&
+      right.value !== null &&
+      String(left.value).toLowerCase().includes(String(right.value).toLowerCase())
+    )
+  }
+
+  if (left.value === null || right.value === null) {
+    const same = left.value === right.value
+    return op === '=' ? same : op === '!=' ? !same : false
+  }
+
+  // Dates compare as ranges, so `= 2026-10` matches any day that month
+  const leftRange = dateRange(left)
+  const rightRange = dateRange(right)
+  if (leftRange && rightRange && (left.date || right.date || typeof left.value === 'string')) {
+    const [aStart, aEnd] = leftRange
+    const [bStart, bEnd] = rightRange
+    switch (op) {
+      case '=':
+        return aStart < bEnd && bStart < aEnd
+      case '!=':
+        return !(aStart < bEnd && bStart < aEnd)
+      case '<':
+        return aEnd <= bStart
+      case '<=':
+        return aStart < bEnd
+      case '>':
+        return aStart >= bEnd
+      case '>=':
+        return aEnd > bStart
+    }
+  }
+
+  const order = compareCells(left.value, right.value)
+  switch (op) {
+    case '=':
+      return order === 0
+    case '!=':
+      return order !== 0
+    case '<':
+      return order < 0
+    case '<=':
+      return order <= 0
+    case '>':
+      return order > 0
+    default:
+      return order >= 0
+  }
+}
+
+function dateRange(resolved: Resolved): [number, number] | null {
+  const { value, date } = resolved
+  if (date && typeof value === 'number') return [value, value + 1]
+  // Plain numbers are numbers unless compared with a date field
+  if (typeof value === 'string' && value.includes('-')) return parseDateRange(value)
+  if (typeof value === 'number' && /^\d{4}$/.test(String(value)))
+    return parseDateRange(String(value))
+  return null
+}
+
+/**
+ * Order two values: numbers numerically, text ignoring case, missing values
+ * last.
+ */
+function compareCells(a: QueryCell, b: QueryCell): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1
+  if (b === null || b === undefined) return -1
+  const text = (value: QueryCell): string =>
+    Array.isArray(value) ? value.join(', ') : String(value)
+  const numeric = (value: QueryCell): number | null =>
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string' && NUMBER_RE.test(value.trim())
+        ? Number(value)
+        : null
+  const x = numeric(a)
+  const y = numeric(b)
+  if (x !== null && y !== null) return x - y
+  return text(a).localeCompare(text(b), undefined, { sensitivity: 'base', numeric: true })
+}
@@ -0,0 +1,77 @@
+import { formatDate, parseDate } from '../shared/dateFormat'
+import type { Settings } from './settings'
+
+/**
+ * Daily, weekly and monthly notes. Each period has its own folder, filename
+ * format (see src/shared/dateFormat.ts) and optional template note. A format
+ * may contain `/` to spread notes over sub-folders, e.g. `YYYY/MM/YYYY-MM-DD`.
+ */
+
+export type NotePeriod = 'daily' | 'weekly' | 'monthly'
+
+export type PeriodicNoteConfig = {
+  folder: string
+  format: string
+  /** Vault-relative path or name of the template note; empty for none */
+  template: string
+}
+
+export const PERIODIC_NOTE_DEFAULTS: Record<NotePeriod, PeriodicNoteConfig> = {
+  daily: { folder: '', format: 'YYYY-MM-DD', template: '' },
+  weekly: { folder: '', format: 'GGGG-[W]WW', template: '' },
+  monthly: { folder: '', format: 'YYYY-MM', template: '' }
+}
+
+export function periodicNoteConfig(settings: Settings, period: NotePeriod): PeriodicNoteConfig {
+  const defaults = PERIODIC_NOTE_DEFAULTS[period]
+  return {
+    folder: cleanPath(settings[`${period}NoteFolder` as const] ?? defaults.folder),
+    format: settings[`${period}NoteFormat` as const]?.trim() || defaults.format,
+    template: cleanPath(settings[`${period}NoteTemplate` as const] ?? defaults.template)
+  }
+}
+
+/**
+ * Move `offset` days, weeks or months away from `date`, landing on the start
+ * of that period (weeks start on Monday).
+ */
+export function shiftPeriod(date: Date, period: NotePeriod, offset: number): Date {
+  const year = date.getFullYear()
+  const month = date.getMonth()
+  switch (period) {
+    case 'daily':
+      return new Date(year, month, date.getDate() + offset)
+    case 'weekly': {
+      const monday = date.getDate() - ((date.getDay() + 6) % 7)
+      return new Date(year, month, monday + offset * 7)
+    }
+    case 'monthly':
+      return new Date(year, month + offset, 1)
+  }
+}
+
+/**
+ * Vault-relative note id for the period containing `date`.
+ */
+export function periodicNoteId(config: PeriodicNoteConfig, date: Date): string {
+  const name = cleanPath(formatDate(date, config.format).replace(/[<>:"\\|?*]/g, '-'))
+  return config.folder ? `${config.folder}/${name}` : name
+}
+
+/**
+ * The date a periodic note stands for, read back from its id. Null when the
+ * note is not one of this period's notes.
+ */
+export function periodicNoteDate(config: PeriodicNoteConfig, id: string): Date | null {
+  const prefix = config.folder ? `${config.folder}/` : ''
+  if (!id.startsWith(prefix)) return null
+  return parseDate(id.slice(prefix.length), config.format)
+}
+
+function cleanPath(path: string): string {
+  return path
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^\/+|\/+$/g, '')
+    .replace(/\.md$/i, '')
+}
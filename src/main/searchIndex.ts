@@ -0,0 +1,283 @@
+import type { QueryClause } from '../shared/searchQuery'
+
+/**
+ * In-memory inverted index used by `VaultManager.search`.
+ *
+ * Only term frequencies are kept per document, which keeps the index (and the
+ * persisted cache) small. Phrase matches and snippets are resolved against the
+ * note content of the few top-ranked candidates at query time.
+ */
+
+export type TextQuery = {
+  /** Terms that must match exactly */
+  terms: string[]
+  /** Terms that match any indexed word starting with them */
+  prefixes: string[]
+  /** Quoted phrases, already tokenized */
+  phrases: string[][]
+}
+
+export type RankedDocument = {
+  id: string
+  score: number
+}
+
+export type Snippet = {
+  text: string
+  /** [start, end) character ranges inside `text` to highlight */
+  matches: [number, number][]
+}
+
+const TOKEN_RE = /#[\p{L}\p{N}_/-]+|[\p{L}\p{N}_]+/gu
+const WORD_RE = /[\p{L}\p{N}_]+/gu
+const TITLE_BOOST = 3
+const SNIPPET_RADIUS = 60
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const match of text.toLowerCase().matchAll(TOKEN_RE)) {
+    const token = match[0]
+    if (token.startsWith('#')) {
+      // Hashtags are indexed both as `#tag/child` and as their plain words
+      const tag = token.replace(/[/-]+$/, '')
+      if (tag.length > 1) tokens.push(tag)
+      for (const word of tag.matchAll(WORD_RE)) tokens.push(word[0])
+    } else {
+      tokens.push(token)
+    }
+  }
+  return tokens
+}
+
+/**
+ * Turn the free-text clauses of a parsed query into index lookups. Values
+ * that tokenize into several words (`foo-bar`) must appear as a phrase.
+ */
+export function toTextQuery(clauses: QueryClause[]): TextQuery {
+  const query: TextQuery = { terms: [], prefixes: [], phrases: [] }
+  for (const clause of clauses) {
+    if (clause.field !== 'text') continue
+    const tokens = tokenize(clause.value).filter((t) => !t.startsWith('#'))
+    if (tokens.length === 0) continue
+    if (tokens.length > 1) {
+      query.phrases.push(tokens)
+    } else if (clause.prefix) {
+      query.prefixes.push(tokens[0])
+    } else {
+      query.terms.push(tokens[0])
+    }
+  }
+  return query
+}
+
+export class SearchIndex {
+  private postings = new Map<string, Map<string, number>>() // Term -> (Doc -> tf)
+  private docTerms = new Map<string, Map<string, number>>() // Doc -> (Term -> tf)
+  private titlePostings = new Map<string, Set<string>>() // Term -> Docs with it in the title
+  private titleTerms = new Map<string, Set<string>>() // Doc -> Title terms
+
+  public clear(): void {
+    this.postings.clear()
+    this.docTerms.clear()
+    this.titlePostings.clear()
+    this.titleTerms.clear()
+  }
+
+  public get size(): number {
+    return this.docTerms.size
+  }
+
+  public add(id: string, title: string, content: string): void {
+    const counts: Record<string, number> = {}
+    for (const token of tokenize(content)) {
+      counts[token] = (counts[token] || 0) + 1
+    }
+    this.restore(id, title, counts)
+  }
+
+  /**
+   * Re-insert a document from previously exported term counts (cache restore).
+   */
+  public restore(id: string, title: string, counts: Record<string, number>): void {
+    this.remove(id)
+    const terms = new Map(Object.entries(counts))
+    const titleTerms = new Set(tokenize(title))
+    this.docTerms.set(id, terms)
+    this.titleTerms.set(id, titleTerms)
+    for (const term of titleTerms) {
+      let docs = this.titlePostings.get(term)
+      if (!docs) {
+        docs = new Set()
+        this.titlePostings.set(term, docs)
+      }
+      docs.add(id)
+    }
+    for (const [term, tf] of terms) {
+      let docs = this.postings.get(term)
+      if (!docs) {
+        docs = new Map()
+        this.postings.set(term, docs)
+      }
+      docs.set(id, tf)
+    }
+  }
+
+  public export(id: string): Record<string, number> {
+    return Object.fromEntries(this.docTerms.get(id) ?? [])
+  }
+
+  public remove(id: string): void {
+    const terms = this.docTerms.get(id)
+    if (terms) {
+      for (const term of terms.keys()) {
+        const docs = this.postings.get(term)
+        docs?.delete(id)
+        if (docs && docs.size === 0) this.postings.delete(term)
+      }
+    }
+    for (const term of this.titleTerms.get(id) ?? []) {
+      const docs = this.titlePostings.get(term)
+      docs?.delete(id)
+      if (docs && docs.size === 0) this.titlePostings.delete(term)
+    }
+    this.docTerms.delete(id)
+    this.titleTerms.delete(id)
+  }
+
+  /**
+   * Whether a single document contains every word of the query (phrase
+   * adjacency again left to `containsPhrase`). For a negated phrase only a
+   * false result is conclusive; check a true one with `containsPhrase`.
+   */
+  public matches(id: string, query: TextQuery): boolean {
+    const terms = this.docTerms.get(id)
+    const title = this.titleTerms.get(id)
+    const has = (term: string): boolean => !!terms?.has(term) || !!title?.has(term)
+    const hasPrefix = (prefix: string): boolean =>
+      Array.from(terms?.keys() ?? []).some((t) => t.startsWith(prefix)) ||
+      Array.from(title ?? []).some((t) => t.startsWith(prefix))
+
+    return (
+      query.terms.every(has) &&
+      query.phrases.every((phrase) => phrase.every(has)) &&
+      query.prefixes.every(hasPrefix)
+    )
+  }
+
+  public rename(id: string, newId: string, title: string): void {
+    const counts = this.export(id)
+    this.remove(id)
+    this.restore(newId, title, counts)
+  }
+
+  /**
+   * Rank documents containing every term, prefix and phrase word. Phrase
+   * adjacency is NOT checked here; see `containsPhrase`.
+   */
+  public query(query: TextQuery): RankedDocument[] {
+    const groups: string[][] = [
+      ...query.terms.map((t) => [t]),
+      ...query.phrases.flat().map((t) => [t]),
+      ...query.prefixes.map((p) => this.expandPrefix(p))
+    ]
+    if (groups.length === 0) return []
+
+    const total = Math.max(this.docTerms.size, 1)
+    let scores: Map<string, number> | null = null
+
+    for (const group of groups) {
+      const groupScores = new Map<string, number>()
+      for (const term of group) {
+        const docs = this.postings.get(term)
+        const titleDocs = this.titlePostings.get(term) ?? new Set<string>()
+        const df = new Set([...(docs?.keys() ?? []), ...titleDocs]).size
+        if (df === 0) continue
+        const idf = Math.log(1 + total / df)
+
+        const addScore = (id: string, value: number): void => {
+          groupScores.set(id, Math.max(groupScores.get(id) ?? 0, value))
+        }
+        docs?.forEach((tf, id) => addScore(id, idf * (tf / (tf + 1.2))))
+        for (const id of titleDocs) {
+          addScore(id, (groupScores.get(id) ?? 0) + idf * TITLE_BOOST)
+        }
+      }
+
+      if (scores === null) {
+        scores = groupScores
+      } else {
+        const next = new Map<string, number>()
+        for (const [id, score] of scores) {
+          const extra = groupScores.get(id)
+          if (extra !== undefined) next.set(id, score + extra)
+        }
+        scores = next
+      }
+      if (scores.size === 0) return []
+    }
+
+    return Array.from(scores ?? [], ([id, score]) => ({ id, score })).sort(
+      (a, b) => b.score - a.score
+    )
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    const terms = new Set<string>()
+    for (const term of this.postings.keys()) {
+      if (term.startsWith(prefix)) terms.add(term)
+    }
+    for (const term of this.titlePostings.keys()) {
+      if (term.startsWith(prefix)) terms.add(term)
+    }
+    return Array.from(terms)
+  }
+}
+
+/**
+ * True when every phrase appears as consecutive tokens in the content.
+ */
+export function containsPhrase(content: string, phrases: string[][]): boolean {
+  if (phrases.length === 0) return true
+  const tokens = tokenize(content).filter((t) => !t.startsWith('#'))
+  return phrases.every((phrase) =>
+    tokens.some((_t, i) => phrase.every((word, j) => tokens[i + j] === word))
+  )
+}
+
+/**
+ * Cut a short window of text around the first match and report the ranges
+ * to highlight within it.
+ */
+export function buildSnippet(content: string, query: TextQuery): Snippet {
+  const escape = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const boundary = '(?<![\\p{L}\\p{N}_])'
+  const patterns = [
+    ...query.phrases.map((p) => `${boundary}${p.map(escape).join('[^\\p{L}\\p{N}_]+')}`),
+    ...query.terms.map((t) => `${boundary}${escape(t)}(?![\\p{L}\\p{N}_])`),
+    ...query.prefixes.map((p) => `${boundary}${escape(p)}[\\p{L}\\p{N}_]*`)
+  ]
+  const fallback = content
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, SNIPPET_RADIUS * 2)
+  if (patterns.length === 0) return { text: fallback, matches: [] }
+
+  const regex = new RegExp(patterns.join('|'), 'giu')
+  const first = regex.exec(content)
+  if (!first) return { text: fallback, matches: [] }
+
+  const start = Math.max(0, first.index - SNIPPET_RADIUS)
+  const end = Math.min(content.length, first.index + first[0].length + SNIPPET_RADIUS)
+  const text =
+    (start > 0 ? '…' : '') +
+    content.slice(start, end).replace(/\s+/g, ' ').trim() +
+    (end < content.length ? '…' : '')
+
+  const matches: [number, number][] = []
+  regex.lastIndex = 0
+  for (const match of text.matchAll(regex)) {
+    if (match[0].length === 0) continue
+    matches.push([match.index ?? 0, (match.index ?? 0) + match[0].length])
+  }
+  return { text, matches }
+}
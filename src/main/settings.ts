@@ -4,6 +4,17 @@ import { existsSync, readFileSync, writeFileSync } from 'fs'
 
 const settingsFile = join(app.getPath('userData'), 'settings.json')
 
+/**
+ * Split editor panes in the order shown. Each pane keeps its own tab group;
+ * sizes are flex weights.
+ */
+export type PaneLayout = {
+  direction: 'vertical' | 'horizontal'
+  focused: number
+  sizes: number[]
+  panes: { tabs: { id: string; path?: string; title?: string }[]; activeId: string }[]
+}
+
 export type Settings = {
   vaultPath?: string
   theme?: string
@@ -18,8 +29,9 @@ export type Settings = {
   lastOpenedNote?: string
   expandedFolders?: string[]
   openTabs?: { id: string; path?: string }[]
+  paneLayout?: PaneLayout // Split editor panes; openTabs mirrors the focused pane
   activeId?: string
-  activeView?: 'notes' | 'search' | 'settings'
+  activeView?: 'notes' | 'search' | 'tags' | 'settings'
   windowBounds?: { width: number; height: number; x?: number; y?: number }
   deepseekApiKey?: string
   openaiApiKey?: string
@@ -36,6 +48,31 @@ export type Settings = {
   caretEnabled?: boolean
   caretMaxWidth?: number
   cursorPositions?: Record<string, { lineNumber: number; column: number }>
+  trashAutoPurgeDays?: number // 0 = keep trashed items until emptied
+  templatesFolder?: string // Vault folder holding note templates
+  attachmentFolder?: string // Where pasted and dropped files are saved
+  attachmentLocation?: 'vault' | 'note' // One folder for the vault, or a sub-folder per note
+  // Git sync: the vault is committed, merged with and pushed to `gitRemote`
+  gitRemote?: string // URL or path of the remote; empty commits locally only
+  gitBranch?: string
+  gitSyncInterval?: number // Minutes between automatic syncs, 0 = manual only
+  // File sync: vault files are mirrored to the chosen provider (see sync/engine.ts)
+  syncProvider?: 'folder' | 'webdav' | 'gist'
+  syncFolderPath?: string
+  webdavUrl?: string
+  webdavUsername?: string
+  webdavPassword?: string
+  syncGistId?: string // Gist holding the synced notes, created by the first sync
+  // Periodic notes: folder, filename date format and template note per period
+  dailyNoteFolder?: string
+  dailyNoteFormat?: string
+  dailyNoteTemplate?: string
+  weeklyNoteFolder?: string
+  weeklyNoteFormat?: string
+  weeklyNoteTemplate?: string
+  monthlyNoteFolder?: string
+  monthlyNoteFormat?: string
+  monthlyNoteTemplate?: string
 }
 
 export const DEFAULT_SETTINGS: Settings = {
@@ -50,7 +87,13 @@ export const DEFAULT_SETTINGS: Settings = {
   caretEnabled: true,
   caretMaxWidth: 2,
   recentVaults: [],
-  expandedFolders: []
+  expandedFolders: [],
+  templatesFolder: 'Templates',
+  attachmentFolder: 'assets',
+  attachmentLocation: 'vault',
+  gitBranch: 'main',
+  gitSyncInterval: 0,
+  syncProvider: 'folder'
 }
 
 export function loadSettings(): Settings {
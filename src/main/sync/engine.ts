@@ -0,0 +1,288 @@
+import { app } from 'electron'
+import { basename, dirname, extname, isAbsolute, join, relative, resolve, sep } from 'path'
+import { createHash } from 'crypto'
+import { existsSync } from 'fs'
+import { mkdir, readdir, readFile, stat, writeFile } from 'fs/promises'
+import type { SyncProvider, RemoteFile } from './provider'
+
+/**
+ * Bump whenever the shape of the state file changes; older state is
+ * discarded, which makes the next sync compare contents from scratch.
+ */
+const STATE_VERSION = 1
+const NOTE_EXTENSIONS = ['.md', '.txt']
+
+/**
+ * What a file looked like after it was last synced. The local mtime and size
+ * let unchanged files skip hashing; the remote version tells whether the
+ * remote copy moved on since.
+ */
+type FileState = {
+  hash: string
+  mtime: number
+  size: number
+  version: string
+}
+
+type StateFile = {
+  version: number
+  rootPath: string
+  target: string
+  files: Record<string, FileState>
+}
+
+type LocalFile = {
+  fullPath: string
+  mtime: number
+  size: number
+}
+
+export type SyncRunResult = {
+  provider: string
+  uploaded: number
+  downloaded: number
+  deletedLocal: number
+  deletedRemote: number
+  /** Conflict copies written next to files changed on both sides */
+  conflicts: string[]
+}
+
+export interface SyncEngineHooks {
+  /** Removes a local file that was deleted on the remote */
+  removeLocal: (path: string) => Promise<void>
+}
+
+function hashData(data: Buffer): string {
+  return createHash('sha1').update(data).digest('hex')
+}
+
+/**
+ * Two-way file sync between a vault and a `SyncProvider`. Each file is
+ * compared with its state from the previous sync, so only files changed on
+ * one side are transferred and deletions propagate. A file changed on both
+ * sides keeps the local version and gets the remote one as a conflict copy.
+ */
+export class SyncEngine {
+  private running: Promise<SyncRunResult> | null = null
+
+  constructor(private readonly rootPath: string) {}
+
+  /**
+   * Sync with `provider`. Concurrent calls share the sync in progress.
+   */
+  public run(provider: SyncProvider, hooks: SyncEngineHooks): Promise<SyncRunResult> {
+    if (!this.running) {
+      this.running = this.sync(provider, hooks).finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  private async sync(provider: SyncProvider, hooks: SyncEngineHooks): Promise<SyncRunResult> {
+    const result: SyncRunResult = {
+      provider: provider.name,
+      uploaded: 0,
+      downloaded: 0,
+      deletedLocal: 0,
+      deletedRemote: 0,
+      conflicts: []
+    }
+    const include = (path: string): boolean =>
+      provider.capabilities.supportsBinary || NOTE_EXTENSIONS.includes(extname(path).toLowerCase())
+
+    const previous = await this.loadState(provider.type, provider.target)
+    const next: Record<string, FileState> = {}
+    const local = await this.listLocal(include)
+    const remote = new Map<string, RemoteFile>()
+    for (const file of await provider.list()) {
+      if (!include(file.path)) continue
+      // Remote names are untrusted; never let one write outside the vault or
+      // into the hidden folders local listings skip (.git, .trash)
+      if (!this.fullPath(file.path)) {
+        console.warn('[Sync] Skipping remote file outside the synced vault:', file.path)
+        continue
+      }
+      remote.set(file.path, file)
+    }
+
+    const localHash = async (path: string, file: LocalFile): Promise<string> => {
+      const known = previous[path]
+      if (known && known.mtime === file.mtime && known.size === file.size) return known.hash
+      return hashData(await readFile(file.fullPath))
+    }
+
+    const upload = async (path: string, file: LocalFile): Promise<void> => {
+      const data = await readFile(file.fullPath)
+      const version = await provider.write(path, data)
+      next[path] = { hash: hashData(data), mtime: file.mtime, size: file.size, version }
+      result.uploaded++
+    }
+
+    const download = async (path: string, version: string): Promise<void> => {
+      const fullPath = this.resolvePath(path)
+      const content = await provider.read(path)
+      await mkdir(dirname(fullPath), { recursive: true })
+      await writeFile(fullPath, content)
+      const info = await stat(fullPath)
+      next[path] = { hash: hashData(content), mtime: info.mtimeMs, size: info.size, version }
+      result.downloaded++
+    }
+
+    // Both sides have the file but it cannot be told which changed: compare contents
+    const reconcile = async (
+      path: string,
+      file: LocalFile,
+      remoteFile: RemoteFile
+    ): Promise<void> => {
+      this.resolvePath(path)
+      const data = await provider.read(path)
+      const hash = await localHash(path, file)
+      if (hashData(data) === hash) {
+        next[path] = { hash, mtime: file.mtime, size: file.size, version: remoteFile.version }
+        return
+      }
+      const copyPath = this.conflictPath(path, local)
+      const copyFullPath = this.resolvePath(copyPath)
+      await writeFile(copyFullPath, data)
+      const info = await stat(copyFullPath)
+      const copy = { fullPath: copyFullPath, mtime: info.mtimeMs, size: info.size }
+      local.set(copyPath, copy)
+      await upload(copyPath, copy)
+      await upload(path, file)
+      result.conflicts.push(copyPath)
+    }
+
+    const paths = new Set([...local.keys(), ...remote.keys(), ...Object.keys(previous)])
+    for (const path of paths) {
+      const file = local.get(path)
+      const remoteFile = remote.get(path)
+      const known = previous[path]
+
+      if (file && remoteFile) {
+        if (!known) {
+          await reconcile(path, file, remoteFile)
+          continue
+        }
+        const hash = await localHash(path, file)
+        const localChanged = hash !== known.hash
+        const remoteChanged = remoteFile.version !== known.version
+        if (localChanged && remoteChanged) await reconcile(path, file, remoteFile)
+        else if (localChanged) await upload(path, file)
+        else if (remoteChanged) await download(path, remoteFile.version)
+        else next[path] = { ...known, mtime: file.mtime, size: file.size }
+      } else if (file) {
+        // Deleted remotely: drop the local copy unless it was edited since
+        if (known && (await localHash(path, file)) === known.hash) {
+          this.resolvePath(path)
+          await hooks.removeLocal(path)
+          result.deletedLocal++
+        } else {
+          await upload(path, file)
+        }
+      } else if (remoteFile) {
+        // Deleted locally: remove the remote copy unless it was edited since
+        if (known && remoteFile.version === known.version) {
+          await provider.delete(path)
+          result.deletedRemote++
+        } else {
+          await download(path, remoteFile.version)
+        }
+      }
+    }
+
+    await provider.flush?.()
+    // Saved only after a complete run; a failed sync leaves the previous state,
+    // and files already transferred are matched by content next time
+    await this.saveState(provider.type, provider.target, next)
+    return result
+  }
+
+  /**
+   * Absolute path of a vault-relative sync path, or null when it resolves
+   * outside the vault (`../x.md`, absolute paths) or into a hidden entry
+   * (`.git/config`), which `listLocal` never syncs either.
+   */
+  private fullPath(path: string): string | null {
+    const fullPath = resolve(this.rootPath, path)
+    const rel = relative(this.rootPath, fullPath)
+    if (!rel || isAbsolute(rel) || rel.split(sep).some((part) => part.startsWith('.'))) return null
+    return fullPath
+  }
+
+  private resolvePath(path: string): string {
+    const fullPath = this.fullPath(path)
+    if (!fullPath) throw new Error(`Refusing to sync a path outside the synced vault: ${path}`)
+    return fullPath
+  }
+
+  /**
+   * Vault files by vault-relative path. Hidden entries (trash, history, .git)
+   * are never synced.
+   */
+  private async listLocal(include: (path: string) => boolean): Promise<Map<string, LocalFile>> {
+    const files = new Map<string, LocalFile>()
+    const walk = async (dir: string): Promise<void> => {
+      for (const entry of await readdir(dir, { withFileTypes: true })) {
+        if (entry.name.startsWith('.')) continue
+        const fullPath = join(dir, entry.name)
+        if (entry.isDirectory()) {
+          await walk(fullPath)
+          continue
+        }
+        const path = relative(this.rootPath, fullPath).replace(/\\/g, '/')
+        if (!entry.isFile() || !include(path)) continue
+        const info = await stat(fullPath)
+        files.set(path, { fullPath, mtime: info.mtimeMs, size: info.size })
+      }
+    }
+    await walk(this.rootPath)
+    return files
+  }
+
+  // `Plan.md` -> `Plan (conflict 2024-05-01 1430).md`
+  private conflictPath(path: string, taken: Map<string, LocalFile>): string {
+    const ext = extname(path)
+    const dir = dirname(path)
+    const stamp = new Date().toISOString().replace('T', ' ').replace(/:/g, '').slice(0, 15)
+    const base = `${basename(path, ext)} (conflict ${stamp})`
+    let candidate = ''
+    for (let i = 1; !candidate || taken.has(candidate); i++) {
+      const name = `${base}${i > 1 ? ` ${i}` : ''}${ext}`
+      candidate = dir === '.' ? name : `${dir}/${name}`
+    }
+    return candidate
+  }
+
+  private stateFile(type: string, target: string): string {
+    const key = createHash('sha1')
+      .update(`${this.rootPath}\n${type}\n${target}`)
+      .digest('hex')
+      .slice(0, 16)
+    return join(app.getPath('userData'), 'sync-state', `${key}.json`)
+  }
+
+  private async loadState(type: string, target: string): Promise<Record<string, FileState>> {
+    const file = this.stateFile(type, target)
+    if (!existsSync(file)) return {}
+    try {
+      const raw = JSON.parse(await readFile(file, 'utf-8')) as StateFile
+      if (raw.version !== STATE_VERSION || raw.rootPath !== this.rootPath) return {}
+      return raw.files || {}
+    } catch (err) {
+      console.warn('[Sync] Ignoring unreadable sync state', err)
+      return {}
+    }
+  }
+
+  private async saveState(
+    type: string,
+    target: string,
+    files: Record<string, FileState>
+  ): Promise<void> {
+    const file = this.stateFile(type, target)
+    const data: StateFile = { version: STATE_VERSION, rootPath: this.rootPath, target, files }
+    await mkdir(dirname(file), { recursive: true })
+    await writeFile(file, JSON.stringify(data), 'utf-8')
+  }
+}
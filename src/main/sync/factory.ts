@@ -0,0 +1,39 @@
+import type { Settings } from '../settings'
+import { FolderSyncProvider } from './folder'
+import { GistSyncProvider } from './gist'
+import { SyncProvider, SyncProviderConfig, SyncProviderType } from './provider'
+import { WebDavSyncProvider } from './webdav'
+
+export function syncProviderConfig(settings: Settings): SyncProviderConfig {
+  return {
+    folderPath: settings.syncFolderPath,
+    webdavUrl: settings.webdavUrl,
+    webdavUsername: settings.webdavUsername,
+    webdavPassword: settings.webdavPassword,
+    gistToken: settings.gistToken,
+    gistId: settings.syncGistId
+  }
+}
+
+export class SyncProviderFactory {
+  /**
+   * Providers hold per-sync state (listings, batched writes), so every sync
+   * gets a fresh instance.
+   */
+  static create(type: SyncProviderType, config: SyncProviderConfig): SyncProvider {
+    switch (type) {
+      case 'folder':
+        return new FolderSyncProvider(config)
+      case 'webdav':
+        return new WebDavSyncProvider(config)
+      case 'gist':
+        return new GistSyncProvider(config)
+      default:
+        throw new Error(`Unknown sync provider: ${type}`)
+    }
+  }
+
+  static fromSettings(settings: Settings): SyncProvider {
+    return this.create(settings.syncProvider || 'folder', syncProviderConfig(settings))
+  }
+}
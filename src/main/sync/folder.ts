@@ -0,0 +1,89 @@
+import { dirname, join, relative } from 'path'
+import { existsSync } from 'fs'
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises'
+import { RemoteFile, SyncProvider, SyncProviderCapabilities, SyncProviderConfig } from './provider'
+
+/**
+ * Mirrors the vault into another folder: a USB drive, a network share or a
+ * folder another sync tool watches.
+ */
+export class FolderSyncProvider implements SyncProvider {
+  readonly type = 'folder'
+  readonly name = 'Local or network folder'
+  readonly target: string
+
+  readonly capabilities: SyncProviderCapabilities = {
+    supportsBinary: true
+  }
+
+  constructor(config: SyncProviderConfig) {
+    this.target = config.folderPath?.trim() ?? ''
+  }
+
+  async validateConfig(): Promise<{ valid: boolean; message: string }> {
+    if (!this.target) return { valid: false, message: 'No sync folder configured' }
+    try {
+      const info = await stat(this.target)
+      if (!info.isDirectory()) return { valid: false, message: `${this.target} is not a folder` }
+      return { valid: true, message: `Syncing with ${this.target}` }
+    } catch {
+      return { valid: false, message: `${this.target} does not exist or is not reachable` }
+    }
+  }
+
+  async list(): Promise<RemoteFile[]> {
+    const files: RemoteFile[] = []
+    const walk = async (dir: string): Promise<void> => {
+      for (const entry of await readdir(dir, { withFileTypes: true })) {
+        if (entry.name.startsWith('.')) continue
+        const fullPath = join(dir, entry.name)
+        if (entry.isDirectory()) {
+          await walk(fullPath)
+        } else if (entry.isFile()) {
+          files.push({
+            path: relative(this.target, fullPath).replace(/\\/g, '/'),
+            version: await this.version(fullPath)
+          })
+        }
+      }
+    }
+    await walk(this.root())
+    return files
+  }
+
+  async read(path: string): Promise<Buffer> {
+    return readFile(this.resolve(path))
+  }
+
+  async write(path: string, data: Buffer): Promise<string> {
+    const fullPath = this.resolve(path)
+    await mkdir(dirname(fullPath), { recursive: true })
+    await writeFile(fullPath, data)
+    return this.version(fullPath)
+  }
+
+  async delete(path: string): Promise<void> {
+    const fullPath = this.resolve(path)
+    if (existsSync(fullPath)) await rm(fullPath)
+  }
+
+  private root(): string {
+    if (!this.target || !existsSync(this.target)) {
+      throw new Error(`Sync folder ${this.target || '(not set)'} is not reachable`)
+    }
+    return this.target
+  }
+
+  private resolve(path: string): string {
+    const fullPath = join(this.root(), path)
+    if (relative(this.target, fullPath).startsWith('..')) {
+      throw new Error(`Path escapes the sync folder: ${path}`)
+    }
+    return fullPath
+  }
+
+  private async version(fullPath: string): Promise<string> {
+    const info = await stat(fullPath)
+    return `${Math.floor(info.mtimeMs)}:${info.size}`
+  }
+}
@@ -0,0 +1,157 @@
+import { hashContent } from '../indexCache'
+import { RemoteFile, SyncProvider, SyncProviderCapabilities, SyncProviderConfig } from './provider'
+
+const GIST_API_URL = 'https://api.github.com/gists'
+const GIST_DESCRIPTION = 'Knowledge Hub Vault Sync'
+// Written by the one-file vault backup; never treated as a note
+const BACKUP_FILENAME = 'knowledge-hub-backup.json'
+
+type GistFile = { content?: string; truncated?: boolean; raw_url?: string }
+type GistResponse = { id: string; files?: Record<string, GistFile> }
+
+/**
+ * Stores each note as one file of a secret GitHub gist. Gist file names
+ * cannot contain slashes, so folders are encoded into the name. Text only.
+ */
+export class GistSyncProvider implements SyncProvider {
+  readonly type = 'gist'
+  readonly name = 'GitHub Gist'
+  readonly capabilities: SyncProviderCapabilities = {
+    supportsBinary: false
+  }
+
+  private readonly token: string
+  private gistId: string
+  // File contents from the last listing; the gist API returns them inline
+  private contents = new Map<string, string>()
+  // Batched changes, sent in one request by flush(); null deletes the file
+  private pending = new Map<string, string | null>()
+
+  constructor(config: SyncProviderConfig) {
+    this.token = config.gistToken?.trim() ?? ''
+    this.gistId = config.gistId?.trim() ?? ''
+  }
+
+  get target(): string {
+    return `gist:${this.gistId || 'new'}`
+  }
+
+  /**
+   * The gist in use; set after the first sync creates one.
+   */
+  getGistId(): string {
+    return this.gistId
+  }
+
+  async validateConfig(): Promise<{ valid: boolean; message: string }> {
+    if (!this.token) return { valid: false, message: 'No GitHub token configured' }
+    try {
+      const response = await fetch('https://api.github.com/user', { headers: this.headers() })
+      if (!response.ok) {
+        return {
+          valid: false,
+          message: `Token validation failed: ${response.status} ${response.statusText}`
+        }
+      }
+      const user = await response.json()
+      return { valid: true, message: `Token valid for user: ${user.login || 'Unknown'}` }
+    } catch (error) {
+      return {
+        valid: false,
+        message: error instanceof Error ? error.message : 'Token test failed'
+      }
+    }
+  }
+
+  async list(): Promise<RemoteFile[]> {
+    this.contents.clear()
+    this.pending.clear()
+    if (!this.gistId) return []
+
+    const gist = await this.request(`${GIST_API_URL}/${this.gistId}`)
+    const files = gist.files ?? {}
+    const result: RemoteFile[] = []
+    for (const [name, file] of Object.entries(files)) {
+      if (name === BACKUP_FILENAME) continue
+      // Files over 1 MB are cut short in the listing
+      let content = file.content ?? ''
+      if (file.truncated && file.raw_url) {
+        const response = await fetch(file.raw_url, { headers: this.headers() })
+        if (!response.ok) throw new Error(`Could not download ${name} from the gist`)
+        content = await response.text()
+      }
+      const path = decodeName(name)
+      this.contents.set(path, content)
+      result.push({ path, version: hashContent(content) })
+    }
+    return result
+  }
+
+  async read(path: string): Promise<Buffer> {
+    const content = this.contents.get(path)
+    if (content === undefined) throw new Error(`${path} is not in the gist`)
+    return Buffer.from(content, 'utf-8')
+  }
+
+  async write(path: string, data: Buffer): Promise<string> {
+    // Gists reject empty files, so an empty note is stored as a newline
+    const content = data.toString('utf-8') || '\n'
+    this.pending.set(path, content)
+    return hashContent(content)
+  }
+
+  async delete(path: string): Promise<void> {
+    this.pending.set(path, null)
+  }
+
+  async flush(): Promise<void> {
+    if (this.pending.size === 0) return
+    const files: Record<string, { content: string } | null> = {}
+    this.pending.forEach((content, path) => {
+      files[encodeName(path)] = content === null ? null : { content }
+    })
+
+    if (this.gistId) {
+      await this.request(`${GIST_API_URL}/${this.gistId}`, 'PATCH', { files })
+    } else {
+      const created = await this.request(GIST_API_URL, 'POST', {
+        description: GIST_DESCRIPTION,
+        public: false,
+        files: Object.fromEntries(Object.entries(files).filter(([, file]) => file !== null))
+      })
+      this.gistId = created.id
+    }
+    this.pending.clear()
+  }
+
+  private headers(): Record<string, string> {
+    // Use Bearer for fine-grained tokens (ghp_) or token for classic tokens
+    const authHeader = this.token.startsWith('ghp_')
+      ? `Bearer ${this.token}`
+      : `token ${this.token}`
+    return { Authorization: authHeader, Accept: 'application/vnd.github.v3+json' }
+  }
+
+  private async request(url: string, method = 'GET', body?: unknown): Promise<GistResponse> {
+    if (!this.token) throw new Error('No GitHub token configured')
+    const response = await fetch(url, {
+      method,
+      headers: { ...this.headers(), 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Unknown error' }))
+      throw new Error(error.message || `HTTP ${response.status}: ${response.statusText}`)
+    }
+    return response.json()
+  }
+}
+
+// `Projects/Plan.md` <-> `Projects%2FPlan.md`
+function encodeName(path: string): string {
+  return path.replace(/%/g, '%25').replace(/\//g, '%2F')
+}
+
+function decodeName(name: string): string {
+  return name.replace(/%2F/gi, '/').replace(/%25/g, '%')
+}
@@ -0,0 +1,88 @@
+/**
+ * Storage backends for file sync. A provider only moves whole files to and
+ * from its remote; deciding what changed and in which direction is the job of
+ * the `SyncEngine`, so every backend gets the same change tracking.
+ */
+
+export type SyncProviderType = 'folder' | 'webdav' | 'gist'
+
+/**
+ * Connection settings for every backend; each provider reads its own fields.
+ */
+export interface SyncProviderConfig {
+  /** folder: local or network path the vault is mirrored to */
+  folderPath?: string
+  /** webdav: collection URL, e.g. https://dav.example.com/notes/ */
+  webdavUrl?: string
+  webdavUsername?: string
+  webdavPassword?: string
+  /** gist: GitHub token and the gist holding the files (created when empty) */
+  gistToken?: string
+  gistId?: string
+}
+
+/**
+ * Metadata about what a provider can store.
+ */
+export interface SyncProviderCapabilities {
+  /** Attachments (images, PDFs) as well as notes */
+  readonly supportsBinary: boolean
+}
+
+export interface RemoteFile {
+  /** Vault-relative path with forward slashes */
+  path: string
+  /**
+   * Opaque marker that changes whenever the remote file does (ETag,
+   * mtime and size, content hash). Compared against the last synced value.
+   */
+  version: string
+}
+
+/**
+ * Interface that all sync backends must implement.
+ */
+export interface SyncProvider {
+  /**
+   * Unique machine-readable identifier (e.g. 'webdav').
+   */
+  readonly type: SyncProviderType
+
+  /**
+   * Human-readable display name (e.g. 'WebDAV').
+   */
+  readonly name: string
+
+  readonly capabilities: SyncProviderCapabilities
+
+  /**
+   * Identifies the remote (folder path, URL, gist); sync state is kept per
+   * target so switching remotes starts a fresh comparison.
+   */
+  readonly target: string
+
+  /**
+   * Checks the configuration against the remote (e.g. signs in or lists it).
+   */
+  validateConfig(): Promise<{ valid: boolean; message: string }>
+
+  /**
+   * Every file on the remote.
+   */
+  list(): Promise<RemoteFile[]>
+
+  read(path: string): Promise<Buffer>
+
+  /**
+   * Stores a file, creating folders as needed, and returns its new version.
+   */
+  write(path: string, data: Buffer): Promise<string>
+
+  delete(path: string): Promise<void>
+
+  /**
+   * Optional: sends writes the provider batched up. Called once at the end of
+   * a sync.
+   */
+  flush?(): Promise<void>
+}
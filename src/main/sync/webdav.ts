@@ -0,0 +1,182 @@
+import { RemoteFile, SyncProvider, SyncProviderCapabilities, SyncProviderConfig } from './provider'
+
+type DavEntry = {
+  /** Decoded path relative to the base collection, without trailing slash */
+  path: string
+  isCollection: boolean
+  version: string
+}
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop><d:resourcetype/><d:getetag/><d:getlastmodified/><d:getcontentlength/></d:prop>
+</d:propfind>`
+
+/**
+ * Syncs with any WebDAV server (Nextcloud, ownCloud, Apache mod_dav, NAS
+ * boxes) using basic authentication.
+ */
+export class WebDavSyncProvider implements SyncProvider {
+  readonly type = 'webdav'
+  readonly name = 'WebDAV'
+  readonly target: string
+
+  readonly capabilities: SyncProviderCapabilities = {
+    supportsBinary: true
+  }
+
+  private readonly baseUrl: URL | null
+  private readonly headers: Record<string, string> = {}
+  // Collections known to exist, so each folder is created once per sync
+  private collections = new Set<string>([''])
+
+  constructor(config: SyncProviderConfig) {
+    const url = config.webdavUrl?.trim() ?? ''
+    this.target = url
+    try {
+      this.baseUrl = new URL(url.endsWith('/') ? url : `${url}/`)
+    } catch {
+      this.baseUrl = null
+    }
+    if (config.webdavUsername) {
+      const credentials = `${config.webdavUsername}:${config.webdavPassword ?? ''}`
+      this.headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+    }
+  }
+
+  async validateConfig(): Promise<{ valid: boolean; message: string }> {
+    if (!this.baseUrl) return { valid: false, message: 'Enter a valid WebDAV URL' }
+    try {
+      await this.propfind('', '0')
+      return { valid: true, message: `Connected to ${this.baseUrl.host}` }
+    } catch (error) {
+      return {
+        valid: false,
+        message: error instanceof Error ? error.message : 'Could not reach the server'
+      }
+    }
+  }
+
+  async list(): Promise<RemoteFile[]> {
+    this.collections = new Set([''])
+    const files: RemoteFile[] = []
+    // Depth: infinity is disabled on most servers, so walk one level at a time
+    const pending = ['']
+    while (pending.length > 0) {
+      const dir = pending.shift()!
+      for (const entry of await this.propfind(dir ? `${dir}/` : '', '1')) {
+        if (entry.path === dir || entry.path.split('/').some((part) => part.startsWith('.'))) {
+          continue
+        }
+        if (entry.isCollection) {
+          this.collections.add(entry.path)
+          pending.push(entry.path)
+        } else {
+          files.push({ path: entry.path, version: entry.version })
+        }
+      }
+    }
+    return files
+  }
+
+  async read(path: string): Promise<Buffer> {
+    const response = await this.request('GET', path)
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  async write(path: string, data: Buffer): Promise<string> {
+    await this.ensureCollection(path.split('/').slice(0, -1))
+    const response = await this.request('PUT', path, { body: new Uint8Array(data) })
+    const etag = response.headers.get('etag')
+    if (etag) return etag
+    // Not every server returns the ETag on PUT; ask for it
+    const [entry] = await this.propfind(path, '0')
+    return entry?.version ?? ''
+  }
+
+  async delete(path: string): Promise<void> {
+    await this.request('DELETE', path, {}, [404])
+  }
+
+  private async ensureCollection(parts: string[]): Promise<void> {
+    for (let i = 1; i <= parts.length; i++) {
+      const dir = parts.slice(0, i).join('/')
+      if (this.collections.has(dir)) continue
+      // 405: the collection already exists
+      await this.request('MKCOL', `${dir}/`, {}, [405])
+      this.collections.add(dir)
+    }
+  }
+
+  /**
+   * Properties of `path` (Depth 0) or of a collection and its children
+   * (Depth 1). Collections are addressed with a trailing slash.
+   */
+  private async propfind(path: string, depth: '0' | '1'): Promise<DavEntry[]> {
+    const response = await this.request('PROPFIND', path, {
+      body: PROPFIND_BODY,
+      headers: { Depth: depth, 'Content-Type': 'application/xml; charset=utf-8' }
+    })
+    return this.parseMultistatus(await response.text())
+  }
+
+  private parseMultistatus(xml: string): DavEntry[] {
+    const entries: DavEntry[] = []
+    // Servers pick their own namespace prefixes (d:, D:, lp1:, none)
+    const tag = (name: string, body: string): string | null => {
+      const match = new RegExp(
+        `<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`,
+        'i'
+      ).exec(body)
+      return match ? match[1].trim() : null
+    }
+    const responseRe = /<(?:[\w-]+:)?response\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?response>/gi
+    for (const [, body] of xml.matchAll(responseRe)) {
+      const href = tag('href', body)
+      if (!href || !this.baseUrl) continue
+      const pathname = new URL(decodeXml(href), this.baseUrl).pathname
+      if (!pathname.startsWith(this.baseUrl.pathname)) continue
+      const path = decodeURIComponent(pathname.slice(this.baseUrl.pathname.length)).replace(
+        /\/+$/,
+        ''
+      )
+      const isCollection = /<(?:[\w-]+:)?collection\b/i.test(tag('resourcetype', body) ?? '')
+      const etag = tag('getetag', body)
+      const version =
+        etag ?? `${tag('getlastmodified', body) ?? ''}:${tag('getcontentlength', body) ?? ''}`
+      entries.push({ path, isCollection, version: decodeXml(version) })
+    }
+    return entries
+  }
+
+  private async request(
+    method: string,
+    path: string,
+    init: { body?: BodyInit; headers?: Record<string, string> } = {},
+    allowed: number[] = []
+  ): Promise<Response> {
+    if (!this.baseUrl) throw new Error('No WebDAV URL configured')
+    const url = new URL(path.split('/').map(encodeURIComponent).join('/'), this.baseUrl)
+    const response = await fetch(url, {
+      method,
+      headers: { ...this.headers, ...init.headers },
+      body: init.body
+    })
+    if (!response.ok && !allowed.includes(response.status)) {
+      if (response.status === 401) throw new Error('WebDAV sign-in failed: check the credentials')
+      throw new Error(
+        `WebDAV ${method} ${path || '/'} failed: ${response.status} ${response.statusText}`
+      )
+    }
+    return response
+  }
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
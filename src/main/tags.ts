@@ -0,0 +1,156 @@
+import { frontmatterTags } from '../shared/searchQuery'
+import { parseFrontmatter } from '../shared/frontmatter'
+
+/**
+ * Tags come from inline `#tag` / `#parent/child` hashtags in the note body and
+ * from the frontmatter `tags` (or `tag`) property. They are case-insensitive
+ * and kept lower-case, without the leading `#`.
+ */
+
+export type TagCount = {
+  tag: string
+  /** Notes carrying the tag itself or one nested below it */
+  count: number
+}
+
+// A hashtag starts a word and never ends on `/` or `-`, so `#a/` is `a`
+const INLINE_TAG_RE = /(^|\s)#([\p{L}\p{N}_/-]*[\p{L}\p{N}_])/gu
+// Fenced blocks and inline code spans; hashtags inside them are not tags
+const CODE_RE = /^(```|~~~)[^\n]*\n[\s\S]*?(?:^\1[^\n]*$|(?![\s\S]))|`[^`\n]*`/gm
+const FRONTMATTER_KEY_RE = /^(tags?)(\s*:\s*)(.*)$/
+
+/**
+ * Lower-case a tag and drop the `#` and stray slashes. Returns '' for values
+ * that cannot be a tag (purely numeric like `#123`, or containing spaces).
+ */
+export function normalizeTag(raw: string): string {
+  const tag = raw
+    .trim()
+    .replace(/^#/, '')
+    .toLowerCase()
+    .replace(/\/{2,}/g, '/')
+    .replace(/^\/+|\/+$/g, '')
+  if (!tag || /\s/.test(tag) || /^[\d/]+$/.test(tag)) return ''
+  return tag
+}
+
+/**
+ * Every tag of a note, inline and frontmatter, sorted and de-duplicated.
+ */
+export function extractTags(content: string): string[] {
+  const { properties, body } = parseFrontmatter(content)
+  const tags = new Set<string>()
+  for (const tag of frontmatterTags(properties)) {
+    const normalized = normalizeTag(tag)
+    if (normalized) tags.add(normalized)
+  }
+  mapOutsideCode(body, (text) => {
+    for (const match of text.matchAll(INLINE_TAG_RE)) {
+      const normalized = normalizeTag(match[2])
+      if (normalized) tags.add(normalized)
+    }
+    return text
+  })
+  return Array.from(tags).sort()
+}
+
+/**
+ * True when `tag` is `parent` itself or nested below it.
+ */
+export function isTagOrChild(tag: string, parent: string): boolean {
+  return tag === parent || tag.startsWith(`${parent}/`)
+}
+
+/**
+ * Rename `from` (and every tag nested below it) to `to` in both the
+ * frontmatter and the body. Renaming onto an existing tag merges the two;
+ * frontmatter lists drop the resulting duplicates.
+ */
+export function renameTagInContent(content: string, from: string, to: string): string {
+  const rename = (raw: string): string => {
+    const hash = raw.startsWith('#') ? '#' : ''
+    const tag = normalizeTag(raw)
+    if (!tag || !isTagOrChild(tag, from)) return raw
+    return `${hash}${to}${tag.slice(from.length)}`
+  }
+
+  const { lineCount } = parseFrontmatter(content)
+  const lines = content.split('\n')
+  const head = renameFrontmatterTags(lines.slice(0, lineCount), rename)
+  const body = mapOutsideCode(lines.slice(lineCount).join('\n'), (text) =>
+    text.replace(INLINE_TAG_RE, (match, lead: string, raw: string) => {
+      const renamed = rename(`#${raw}`)
+      return renamed === `#${raw}` ? match : `${lead}${renamed}`
+    })
+  )
+  return lineCount > 0 ? [...head, body].join('\n') : body
+}
+
+function renameFrontmatterTags(lines: string[], rename: (raw: string) => string): string[] {
+  const result = [...lines]
+  for (let i = 1; i < result.length - 1; i++) {
+    const match = FRONTMATTER_KEY_RE.exec(result[i].replace(/\r$/, ''))
+    if (!match) continue
+    const [, key, separator, value] = match
+    const cr = result[i].endsWith('\r') ? '\r' : ''
+
+    if (value.trim() === '') {
+      // Block list: `- tag` items on the following indented lines
+      const seen = new Set<string>()
+      let j = i + 1
+      while (j < result.length - 1 && /^(\s+|-(\s|$))/.test(result[j])) {
+        const item = /^(\s*-\s*)(["']?)([^"'\r]*)(\2)(.*)$/s.exec(result[j])
+        if (item) {
+          const renamed = rename(item[3].trim())
+          if (seen.has(normalizeTag(renamed))) {
+            result.splice(j, 1)
+            continue
+          }
+          seen.add(normalizeTag(renamed))
+          result[j] = `${item[1]}${item[2]}${renamed}${item[4]}${item[5]}`
+        }
+        j++
+      }
+      continue
+    }
+
+    const flow = /^\[(.*)\](.*)$/.exec(value.trim())
+    if (flow) {
+      const seen = new Set<string>()
+      const items = flow[1]
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map((item) => {
+          const quote = /^["']/.test(item) ? item[0] : ''
+          return quote + rename(quote ? item.slice(1, -1) : item) + quote
+        })
+        .filter((item) => {
+          const tag = normalizeTag(item.replace(/^["']|["']$/g, ''))
+          if (seen.has(tag)) return false
+          seen.add(tag)
+          return true
+        })
+      result[i] = `${key}${separator}[${items.join(', ')}]${flow[2]}${cr}`
+      continue
+    }
+
+    // Scalar: comma or space separated tags
+    result[i] = `${key}${separator}${value.replace(/#?[^\s,"']+/g, rename)}${cr}`
+  }
+  return result
+}
+
+/**
+ * Apply `transform` to the parts of `text` outside code blocks and spans.
+ */
+function mapOutsideCode(text: string, transform: (part: string) => string): string {
+  let result = ''
+  let cursor = 0
+  for (const match of text.matchAll(CODE_RE)) {
+    const start = match.index ?? 0
+    result += transform(text.slice(cursor, start)) + match[0]
+    cursor = start + match[0].length
+  }
+  return result + transform(text.slice(cursor))
+}
@@ -0,0 +1,149 @@
+import { basename, dirname, extname, join } from 'path'
+import { randomBytes } from 'crypto'
+import { existsSync } from 'fs'
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises'
+
+/**
+ * Deleted notes, folders and attachments are moved into `<vault>/.trash` instead of being
+ * removed. Hidden folders are skipped by the scanner and the watcher, so
+ * trashed items drop out of the vault without any extra filtering.
+ */
+export const TRASH_DIR = '.trash'
+const MANIFEST = 'trash.json'
+const DAY = 24 * 60 * 60 * 1000
+
+export type TrashItem = {
+  id: string
+  type: 'note' | 'folder' | 'file' // 'file' for attachments
+  name: string // File or folder name, with extension for notes and files
+  originalPath: string // Vault-relative path at the time of deletion
+  deletedAt: number
+  noteCount?: number // Notes inside a trashed folder
+}
+
+/**
+ * Each item lives in its own `.trash/<id>/` directory so two deleted notes
+ * with the same name never collide; `trash.json` records where they came from.
+ */
+export class VaultTrash {
+  private readonly dir: string
+
+  constructor(private readonly rootPath: string) {
+    this.dir = join(rootPath, TRASH_DIR)
+  }
+
+  /**
+   * Newest first. Entries whose files were removed by hand are dropped.
+   */
+  public async list(): Promise<TrashItem[]> {
+    const items = await this.load()
+    const present = items.filter((item) => existsSync(this.itemPath(item)))
+    if (present.length !== items.length) await this.save(present)
+    return present.sort((a, b) => b.deletedAt - a.deletedAt)
+  }
+
+  /**
+   * Move a vault-relative file or folder into the trash.
+   */
+  public async add(
+    relPath: string,
+    type: TrashItem['type'],
+    noteCount?: number
+  ): Promise<TrashItem> {
+    const originalPath = relPath.replace(/\\/g, '/')
+    const item: TrashItem = {
+      id: `${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`,
+      type,
+      name: basename(originalPath),
+      originalPath,
+      deletedAt: Date.now(),
+      noteCount
+    }
+
+    await mkdir(join(this.dir, item.id), { recursive: true })
+    await rename(join(this.rootPath, originalPath), this.itemPath(item))
+
+    const items = await this.load()
+    items.push(item)
+    await this.save(items)
+    return item
+  }
+
+  /**
+   * Move an item back to its original location, re-creating parent folders.
+   * When that path is taken the restored copy gets a numbered name.
+   */
+  public async restore(id: string): Promise<{ item: TrashItem; path: string }> {
+    const items = await this.load()
+    const item = items.find((entry) => entry.id === id)
+    if (!item) throw new Error('Item is no longer in the trash')
+
+    const parent = dirname(item.originalPath)
+    const parentDir = parent === '.' ? '' : parent
+    await mkdir(join(this.rootPath, parentDir), { recursive: true })
+
+    const ext = item.type === 'folder' ? '' : extname(item.name)
+    const stem = ext ? item.name.slice(0, -ext.length) : item.name
+    let name = item.name
+    let counter = 1
+    while (existsSync(join(this.rootPath, parentDir, name))) {
+      name = `${stem} ${counter}${ext}`
+      counter++
+    }
+
+    const path = parentDir ? `${parentDir}/${name}` : name
+    await rename(this.itemPath(item), join(this.rootPath, path))
+    await rm(join(this.dir, item.id), { recursive: true, force: true })
+    await this.save(items.filter((entry) => entry.id !== id))
+    return { item, path }
+  }
+
+  public async purge(id: string): Promise<void> {
+    const items = await this.load()
+    const item = items.find((entry) => entry.id === id)
+    if (!item) throw new Error('Item is no longer in the trash')
+    await rm(join(this.dir, item.id), { recursive: true, force: true })
+    await this.save(items.filter((entry) => entry.id !== item.id))
+  }
+
+  public async empty(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true })
+  }
+
+  /**
+   * Permanently delete items trashed more than `days` ago. Returns the count.
+   */
+  public async purgeOlderThan(days: number): Promise<number> {
+    const cutoff = Date.now() - days * DAY
+    const items = await this.load()
+    const expired = items.filter((item) => item.deletedAt < cutoff)
+    for (const item of expired) {
+      await rm(join(this.dir, item.id), { recursive: true, force: true })
+    }
+    if (expired.length > 0) {
+      await this.save(items.filter((item) => item.deletedAt >= cutoff))
+    }
+    return expired.length
+  }
+
+  private itemPath(item: TrashItem): string {
+    return join(this.dir, item.id, item.name)
+  }
+
+  private async load(): Promise<TrashItem[]> {
+    const path = join(this.dir, MANIFEST)
+    if (!existsSync(path)) return []
+    try {
+      const items = JSON.parse(await readFile(path, 'utf-8'))
+      return Array.isArray(items) ? (items as TrashItem[]) : []
+    } catch (err) {
+      console.warn('[Trash] Ignoring unreadable manifest', err)
+      return []
+    }
+  }
+
+  private async save(items: TrashItem[]): Promise<void> {
+    await mkdir(this.dir, { recursive: true })
+    await writeFile(join(this.dir, MANIFEST), JSON.stringify(items, null, 2), 'utf-8')
+  }
+}
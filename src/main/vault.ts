@@ -1,9 +1,60 @@
-import { join, basename, relative, dirname, normalize } from 'path'
+import { join, basename, relative, dirname, normalize, extname } from 'path'
 import { readFile, writeFile, rm, rename, stat, readdir, mkdir, copyFile } from 'fs/promises'
 import { existsSync, readdirSync } from 'fs'
 import { watch } from 'chokidar'
 import type { FSWatcher } from 'chokidar'
 import { BrowserWindow } from 'electron'
+import { parseFrontmatter, type NoteProperties } from '../shared/frontmatter'
+import { IndexCache, hashContent, type CachedNote } from './indexCache'
+import { NoteHistory, type NoteVersion, type SnapshotReason } from './history'
+import { VaultTrash, type TrashItem } from './trash'
+import {
+  GitSync,
+  type GitConflict,
+  type GitConflictChoice,
+  type GitSyncConfig,
+  type GitSyncResult,
+  type GitSyncStatus
+} from './gitSync'
+import { SyncEngine, type SyncRunResult } from './sync/engine'
+import type { SyncProvider } from './sync/provider'
+import { periodicNoteId, type PeriodicNoteConfig } from './periodicNotes'
+import {
+  attachmentFolderFor,
+  extractAttachmentRefs,
+  isAttachmentTarget,
+  retargetAttachmentRefs,
+  type AttachmentInfo,
+  type AttachmentSettings
+} from './attachments'
+import { renderTemplate } from '../shared/templates'
+import { extractTasks, type TaskItem } from '../shared/tasks'
+import {
+  scanImportSource,
+  type ImportConflictAction,
+  type ImportEntry,
+  type ImportFile,
+  type ImportPlan,
+  type ImportSource,
+  type ImportSummary
+} from './importer'
+import { extractTags, isTagOrChild, normalizeTag, renameTagInContent, type TagCount } from './tags'
+import { runNoteQuery, type NoteQueryResult } from './noteQuery'
+import { SearchIndex, buildSnippet, containsPhrase, toTextQuery } from './searchIndex'
+import {
+  isEmptySearchQuery,
+  matchesClause,
+  parseSearchQuery,
+  type QueryClause,
+  type QueryMatchers
+} from '../shared/searchQuery'
+import {
+  extractWikiLinks,
+  findMentions,
+  formatWikiLink,
+  paragraphAt,
+  replaceWikiLinks
+} from './wikilinks'
 // import { version } from './package.json'
 export type NoteMeta = {
   id: string
@@ -14,18 +65,127 @@ export type NoteMeta = {
   type?: 'note' | 'folder'
   children?: NoteMeta[]
   collapsed?: boolean
+  properties?: NoteProperties // parsed YAML frontmatter
 }
 
 export type NotePayload = NoteMeta & {
   content: string
 }
 
+export type SearchResult = NoteMeta & {
+  score: number
+  snippet: string
+  matches: [number, number][] // highlight ranges inside snippet
+}
+
+/**
+ * A rename or move whose incoming wikilinks can be rewritten.
+ */
+export type LinkRefactor =
+  | { type: 'renameNote'; id: string; newName: string; path?: string }
+  | { type: 'moveNote'; id: string; toPath?: string }
+  | { type: 'renameFolder'; path: string; newName: string }
+  | { type: 'moveFolder'; path: string; targetPath: string }
+
+export type LinkUpdatePreview = {
+  id: string
+  title: string
+  changes: { line: number; before: string; after: string }[]
+}
+
+/**
+ * A wikilink whose target does not resolve to any note.
+ */
+export type UnresolvedLink = {
+  sourceId: string
+  sourceTitle: string
+  sourcePath?: string
+  target: string
+  raw: string
+  line: number
+}
+
+export type LinkReport = {
+  unresolved: UnresolvedLink[]
+  /** Notes with no resolved inbound or outbound links */
+  orphans: NoteMeta[]
+}
+
+export type Backlink = {
+  id: string
+  title: string
+  path?: string
+  /** Every link to the note, with the paragraph around it */
+  references: { line: number; context: string }[]
+}
+
+/**
+ * The note's title (or file name) written as plain text in another note.
+ */
+export type UnlinkedMention = {
+  id: string
+  title: string
+  path?: string
+  text: string
+  index: number
+  line: number
+  context: string
+}
+
+export type ResolvedEmbed =
+  | { type: 'note'; id: string; title: string; path?: string; content: string }
+  | { type: 'file'; path: string } // Relative to the vault root
+
+/**
+ * A note to publish as a static page, with its tags and the published notes
+ * linking to it.
+ */
+export type PublishPage = NoteMeta & {
+  content: string
+  tags: string[]
+  backlinks: string[]
+}
+
+/**
+ * A task with the note it belongs to. Tags are the note's plus any written
+ * in the task itself.
+ */
+export type VaultTask = TaskItem & {
+  noteId: string
+  noteTitle: string
+  /** Folder of the note, '' for the vault root */
+  path: string
+  tags: string[]
+}
+
 export type FileChange = {
   event: 'add' | 'change' | 'unlink'
   path: string
 }
 
 const NOTE_EXTENSIONS = ['.md', '.txt']
+const SEARCH_LIMIT = 50
+const MENTION_MIN_LENGTH = 3
+
+type ResolvedLink = {
+  id: string
+  via: 'id' | 'title' | 'name' | 'alias'
+}
+
+type PlannedRewrite = {
+  sourceId: string
+  file: string
+  before: string
+  after: string
+  changes: LinkUpdatePreview['changes']
+}
+
+type FileFingerprint = {
+  file: string
+  mtime: number
+  size: number
+  hash: string
+}
 
 export class VaultManager {
   private rootPath: string = ''
@@ -37,6 +197,24 @@ export class VaultManager {
   private folders = new Set<string>()
   private links = new Map<string, Set<string>>() // Source -> Targets
   private backlinks = new Map<string, Set<string>>() // Target -> Sources
+  private fingerprints = new Map<string, FileFingerprint>() // Id -> on-disk state
+  private searchIndex = new SearchIndex()
+  private tags = new Map<string, string[]>() // Id -> inline and frontmatter tags
+  private attachmentLinks = new Map<string, string[]>() // Id -> file targets as written
+  private tasks = new Map<string, TaskItem[]>() // Id -> tasks in line order
+  private resolver: Map<string, ResolvedLink> | null = null // Lower-cased link text -> note
+
+  // Persisted index, consulted only while the initial scan reconciles
+  private indexCache: IndexCache | null = null
+  private cachedEntries = new Map<string, CachedNote>()
+  private history: NoteHistory | null = null
+  private trash: VaultTrash | null = null
+  private git: GitSync | null = null
+  private fileSync: SyncEngine | null = null
+  private trashAutoPurgeDays = 0
+  private attachmentSettings: AttachmentSettings = { folder: 'assets', location: 'vault' }
+  // Import waiting for the user to review its conflict report
+  private pendingImport: { id: string; files: ImportFile[]; entries: ImportEntry[] } | null = null
 
   constructor() {}
 
@@ -52,18 +230,71 @@ export class VaultManager {
     if (!path || !existsSync(path)) {
       throw new Error(`Invalid vault path: ${path}`)
     }
+    this.indexCache?.flush()
     this.rootPath = path
     this.notes.clear()
     this.folders.clear()
     this.links.clear()
     this.backlinks.clear()
+    this.fingerprints.clear()
+    this.searchIndex.clear()
+    this.tags.clear()
+    this.attachmentLinks.clear()
+    this.tasks.clear()
+    this.pendingImport = null
+
+    this.indexCache = new IndexCache(path)
+    this.history = new NoteHistory(path)
+    this.trash = new VaultTrash(path)
+    this.git = new GitSync(path)
+    this.fileSync = new SyncEngine(path)
+    this.cachedEntries = await this.indexCache.load()
 
     await this.startWatcher()
     await this.initialScan()
+    await this.purgeExpiredTrash()
   }
 
   private async initialScan() {
-    await this.scanDirectory(this.rootPath)
+    const started = Date.now()
+    const cachedCount = this.cachedEntries.size
+    try {
+      await this.scanDirectory(this.rootPath)
+    } finally {
+      this.cachedEntries.clear()
+    }
+    this.scheduleCacheSave()
+    console.log(
+      `[Vault] Indexed ${this.notes.size} notes in ${Date.now() - started}ms (${cachedCount} cached)`
+    )
+  }
+
+  /**
+   * Write the in-memory index to disk right away instead of waiting for the
+   * debounce (called before the app quits).
+   */
+  public flushIndexCache(): void {
+    this.indexCache?.flush()
+  }
+
+  private scheduleCacheSave(): void {
+    this.indexCache?.scheduleSave(() => {
+      const entries: CachedNote[] = []
+      for (const [id, fingerprint] of this.fingerprints) {
+        const meta = this.notes.get(id)
+        if (!meta) continue
+        entries.push({
+          ...fingerprint,
+          meta,
+          links: Array.from(this.links.get(id) ?? []),
+          terms: this.searchIndex.export(id),
+          tags: this.tags.get(id) ?? [],
+          attachments: this.attachmentLinks.get(id) ?? [],
+          tasks: this.tasks.get(id) ?? []
+        })
+      }
+      return entries
+    })
   }
 
   private async scanDirectory(dir: string) {
@@ -115,7 +346,6 @@ export class VaultManager {
 
   private async indexFile(fullPath: string) {
     try {
-      const content = await readFile(fullPath, 'utf-8')
       const stats = await stat(fullPath)
       const relPath = relative(this.rootPath, fullPath)
       const normalizedPath = relPath.replace(/\\/g, '/')
@@ -125,6 +355,27 @@ export class VaultManager {
       const dirPath = dirname(normalizedPath)
       const relativeDir = dirPath === '.' ? '' : dirPath
 
+      // Unchanged since the cache was written: skip reading the file
+      const cached = this.cachedEntries.get(normalizedPath)
+      if (cached && cached.mtime === stats.mtimeMs && cached.size === stats.size) {
+        this.notes.set(id, { ...cached.meta, id, path: relativeDir })
+        this.resolver = null
+        this.links.set(id, new Set(cached.links))
+        this.searchIndex.restore(id, cached.meta.title, cached.terms)
+        this.tags.set(id, cached.tags)
+        this.attachmentLinks.set(id, cached.attachments)
+        this.tasks.set(id, cached.tasks)
+        this.fingerprints.set(id, {
+          file: normalizedPath,
+          mtime: cached.mtime,
+          size: cached.size,
+          hash: cached.hash
+        })
+        return
+      }
+
+      const content = await readFile(fullPath, 'utf-8')
+
       const existingMeta = this.notes.get(id)
       // Use the earliest reasonable timestamp as createdAt
       const birthtime = stats.birthtimeMs
@@ -149,18 +400,35 @@ export class VaultManager {
           birthtime > oneYearAgo && birthtime <= now && birthtime <= mtime ? birthtime : mtime
       }
 
-      const extractedTitle = this.extractTitle(content, id)
+      const { properties } = parseFrontmatter(content)
+      const extractedTitle = this.extractTitle(properties, id)
       const meta: NoteMeta = {
         id,
         title: extractedTitle || basename(id) || 'Untitled', // Ensure title is never empty
         updatedAt: mtime,
         createdAt: createdAt,
         path: relativeDir,
-        type: 'note'
+        type: 'note',
+        properties
       }
 
       this.notes.set(id, meta)
+      this.resolver = null
       this.updateLinks(id, content)
+      this.searchIndex.add(id, meta.title, content)
+      this.tags.set(id, extractTags(content))
+      this.attachmentLinks.set(
+        id,
+        Array.from(new Set(extractAttachmentRefs(content).map((ref) => ref.target)))
+      )
+      this.tasks.set(id, extractTasks(content))
+      this.fingerprints.set(id, {
+        file: normalizedPath,
+        mtime,
+        size: stats.size,
+        hash: hashContent(content)
+      })
+      this.scheduleCacheSave()
     } catch (err) {
       console.error(`[Vault] Failed to index ${fullPath}`, err)
     }
@@ -192,8 +460,7 @@ export class VaultManager {
     const id = this.getIdFromPath(relativePath)
 
     if (event === 'unlink') {
-      this.notes.delete(id)
-      this.removeLinks(id)
+      this.forgetNote(id)
     } else {
       await this.indexFile(fullPath)
     }
@@ -233,18 +500,19 @@ export class VaultManager {
     return id
   }
 
-  private extractTitle(_content: string, id: string): string {
-    // Title is ALWAYS the filename (basename of id)
+  private extractTitle(properties: NoteProperties, id: string): string {
+    // Frontmatter `title` wins, otherwise the filename (basename of id)
+    const title = properties.title
+    if (typeof title === 'string' && title.trim()) return title.trim()
+    if (typeof title === 'number') return String(title)
     return basename(id)
   }
 
   private updateLinks(sourceId: string, content: string) {
+    // Targets only: aliases and #heading anchors are dropped
     const links = new Set<string>()
-    const regex = /\[\[(.*?)\]\]/g
-    let match
-    while ((match = regex.exec(content)) !== null) {
-      const [target] = match[1].split('|')
-      links.add(target.trim())
+    for (const link of extractWikiLinks(content)) {
+      if (link.target) links.add(link.target)
     }
 
     this.links.set(sourceId, links)
@@ -254,6 +522,50 @@ export class VaultManager {
     this.links.delete(sourceId)
   }
 
+  private forgetNote(id: string): void {
+    this.notes.delete(id)
+    this.removeLinks(id)
+    this.fingerprints.delete(id)
+    this.searchIndex.remove(id)
+    this.tags.delete(id)
+    this.attachmentLinks.delete(id)
+    this.tasks.delete(id)
+    this.resolver = null
+    this.scheduleCacheSave()
+  }
+
+  /**
+   * Move every index entry of a note to a new id after its folder was renamed
+   * or moved. Content is unchanged, so nothing needs to be re-read.
+   */
+  private rekeyNote(id: string, newId: string): void {
+    const meta = this.notes.get(id)
+    if (!meta) return
+    const links = this.links.get(id)
+    const fingerprint = this.fingerprints.get(id)
+    const terms = this.searchIndex.export(id)
+    const tags = this.tags.get(id)
+    const attachments = this.attachmentLinks.get(id)
+    const tasks = this.tasks.get(id)
+
+    this.forgetNote(id)
+    this.searchIndex.restore(newId, meta.title, terms)
+    if (tags) this.tags.set(newId, tags)
+    if (attachments) this.attachmentLinks.set(newId, attachments)
+    if (tasks) this.tasks.set(newId, tasks)
+    this.notes.set(newId, {
+      ...meta,
+      id: newId,
+      path: dirname(newId) === '.' ? '' : dirname(newId)
+    })
+    this.resolver = null
+    if (links) this.links.set(newId, links)
+    if (fingerprint) {
+      const ext = fingerprint.file.slice(id.length)
+      this.fingerprints.set(newId, { ...fingerprint, file: newId + ext })
+    }
+  }
+
   // --- Public API for Renderer ---
 
   public getNotes(): NoteMeta[] {
@@ -300,7 +612,8 @@ export class VaultManager {
         title: meta.title || basename(id) || 'Untitled', // Double safety check
         path: meta.path,
         updatedAt: meta.updatedAt,
-        createdAt: meta.createdAt
+        createdAt: meta.createdAt,
+        properties: meta.properties
       }
     } catch (e) {
       console.error(`[Vault] Failed to load note ${id} at ${fullPath}`, e)
@@ -350,13 +663,18 @@ export class VaultManager {
     const filename = `${basename(id)}.md`
     const fullPath = join(this.rootPath, meta.path || '', filename)
 
+    if (this.history && existsSync(fullPath)) {
+      const previous = await readFile(fullPath, 'utf-8')
+      await this.history.recordSave(id, previous, finalContent)
+    }
+
     await writeFile(fullPath, finalContent, 'utf-8')
     await this.indexFile(fullPath)
 
     return this.notes.get(id)!
   }
 
-  public async createNote(title: string, folderPath?: string): Promise<NoteMeta> {
+  public async createNote(title: string, folderPath?: string, content = '\n'): Promise<NoteMeta> {
     const safeTitle = title.trim() || 'Untitled'
     // Sanitize ID
     const baseId = safeTitle.replace(/[<>:"/\\|?*]/g, '-')
@@ -379,7 +697,6 @@ export class VaultManager {
       counter++
     }
 
-    const content = `\n`
     await writeFile(fullPath, content, 'utf-8')
     await this.indexFile(fullPath)
 
@@ -399,22 +716,35 @@ export class VaultManager {
     )
   }
 
-  public async deleteNote(id: string): Promise<void> {
+  /**
+   * Move a note to the trash. `permanent` removes it outright (used to discard
+   * untouched new notes).
+   */
+  public async deleteNote(id: string, permanent = false): Promise<void> {
     const meta = this.notes.get(id)
     if (!meta) return
 
     const filename = `${basename(id)}.md`
     const fullPath = join(this.rootPath, meta.path || '', filename)
 
-    if (existsSync(fullPath)) {
+    if (existsSync(fullPath) && permanent) {
       await rm(fullPath)
+    } else if (existsSync(fullPath)) {
+      await this.history
+        ?.snapshot(id, await readFile(fullPath, 'utf-8'), 'delete')
+        .catch((err) => console.error(`[Vault] Failed to snapshot ${id} before delete`, err))
+      await this.trash!.add(relative(this.rootPath, fullPath), 'note')
     }
 
-    this.notes.delete(id)
-    this.removeLinks(id)
+    this.forgetNote(id)
   }
 
-  public async renameNote(id: string, newId: string, path?: string): Promise<string> {
+  public async renameNote(
+    id: string,
+    newId: string,
+    path?: string,
+    updateLinks = false
+  ): Promise<string> {
     const meta = this.notes.get(id)
     if (!meta) throw new Error('Note not found')
 
@@ -429,21 +759,38 @@ export class VaultManager {
 
     if (existsSync(newPath)) throw new Error('Note already exists')
 
+    // In our system, the ID is based on the new relative path
+    const newRelPath = relative(this.rootPath, newPath).replace(/\\/g, '/')
+    const actualNewId = this.getIdFromPath(newRelPath)
+    const moves = new Map([[id, actualNewId]])
+    const plan = updateLinks ? await this.planLinkRewrites(moves) : []
+
     await mkdir(targetDir, { recursive: true })
     await rename(oldPath, newPath)
+    await this.history?.move(moves)
 
     // Cleanup old and re-index new
-    this.notes.delete(id)
+    this.forgetNote(id)
     await this.indexFile(newPath)
 
-    // In our system, the ID is based on the new relative path
-    const newRelPath = relative(this.rootPath, newPath).replace(/\\/g, '/')
-    const actualNewId = this.getIdFromPath(newRelPath)
+    if (plan.length > 0) {
+      try {
+        await this.applyLinkRewrites(plan, moves)
+      } catch (err) {
+        await this.renameNote(actualNewId, basename(id), meta.path)
+        throw new Error(`Links could not be updated, rename reverted: ${(err as Error).message}`)
+      }
+    }
 
     return actualNewId
   }
 
-  public async moveNote(id: string, fromPath?: string, toPath?: string): Promise<NoteMeta> {
+  public async moveNote(
+    id: string,
+    fromPath?: string,
+    toPath?: string,
+    updateLinks = false
+  ): Promise<NoteMeta> {
     const oldDir = fromPath ? join(this.rootPath, fromPath.replace(/\\/g, '/')) : this.rootPath
     const newDir = toPath ? join(this.rootPath, toPath.replace(/\\/g, '/')) : this.rootPath
 
@@ -457,15 +804,28 @@ export class VaultManager {
       return existing
     }
 
+    const newRelPath = relative(this.rootPath, newFullPath).replace(/\\/g, '/')
+    const newId = this.getIdFromPath(newRelPath)
+    const moves = new Map([[id, newId]])
+    const plan = updateLinks ? await this.planLinkRewrites(moves) : []
+
     await mkdir(newDir, { recursive: true })
     await rename(oldFullPath, newFullPath)
+    await this.history?.move(moves)
 
     // Update cache
-    this.notes.delete(id)
+    this.forgetNote(id)
     await this.indexFile(newFullPath)
 
-    const newRelPath = relative(this.rootPath, newFullPath).replace(/\\/g, '/')
-    const newId = this.getIdFromPath(newRelPath)
+    if (plan.length > 0) {
+      try {
+        await this.applyLinkRewrites(plan, moves)
+      } catch (err) {
+        await this.moveNote(newId, toPath, fromPath)
+        throw new Error(`Links could not be updated, move reverted: ${(err as Error).message}`)
+      }
+    }
+
     const newMeta = this.notes.get(newId)
 
     if (!newMeta) {
@@ -533,21 +893,28 @@ export class VaultManager {
   public async deleteFolder(relativePath: string): Promise<void> {
     const fullPath = join(this.rootPath, relativePath)
     if (existsSync(fullPath)) {
-      await rm(fullPath, { recursive: true, force: true })
-
       const normalizedPath = relativePath.replace(/\\/g, '/')
-      this.folders.delete(normalizedPath)
+      const inFolder = (path?: string): boolean =>
+        path === normalizedPath || !!path?.startsWith(normalizedPath + '/')
+      const noteIds = Array.from(this.notes.values())
+        .filter((meta) => inFolder(meta.path))
+        .map((meta) => meta.id)
 
-      // Cleanup all notes inside this folder from cache
-      for (const [id, meta] of this.notes.entries()) {
-        if (meta.path?.startsWith(normalizedPath)) {
-          this.notes.delete(id)
-        }
+      // Stop the watcher while the folder moves (EPERM locks on Windows)
+      await this.withWatcherPaused(() => this.trash!.add(normalizedPath, 'folder', noteIds.length))
+
+      for (const folder of Array.from(this.folders)) {
+        if (inFolder(folder)) this.folders.delete(folder)
       }
+      noteIds.forEach((id) => this.forgetNote(id))
     }
   }
 
-  public async renameFolder(path: string, newName: string): Promise<{ path: string }> {
+  public async renameFolder(
+    path: string,
+    newName: string,
+    updateLinks = false
+  ): Promise<{ path: string }> {
     const normalizedPath = path.replace(/\\/g, '/')
     const sourceDir = join(this.rootPath, normalizedPath)
     const parent = dirname(normalizedPath)
@@ -557,6 +924,9 @@ export class VaultManager {
 
     if (existsSync(targetDir)) throw new Error('Folder already exists')
 
+    const moves = this.folderMoves(normalizedPath, newRelPath.replace(/\\/g, '/'))
+    const plan = updateLinks ? await this.planLinkRewrites(moves) : []
+
     // Temporarily stop watcher to prevent EPERM locks on Windows
     if (this.watcher) {
       await this.watcher.close()
@@ -571,13 +941,14 @@ export class VaultManager {
     }
 
     const finalRelPath = newRelPath.replace(/\\/g, '/')
+    await this.history?.move(moves)
 
     // Update cache
     this.folders.delete(normalizedPath)
     this.folders.add(finalRelPath)
 
     // Update all notes inside from cache
-    for (const [id, meta] of this.notes.entries()) {
+    for (const [id, meta] of Array.from(this.notes.entries())) {
       if (meta.path?.startsWith(normalizedPath)) {
         // Care with substring logic - ensure boundary
         const prefix = normalizedPath === '' ? '' : normalizedPath + '/'
@@ -587,14 +958,7 @@ export class VaultManager {
           const suffix = id.substring(normalizedPath.length)
           // suffix starts with / usually
           const newId = join(finalRelPath, suffix).replace(/\\/g, '/')
-          const newPath = dirname(newId) === '.' ? '' : dirname(newId)
-
-          this.notes.delete(id)
-          this.notes.set(newId, {
-            ...meta,
-            id: newId,
-            path: newPath
-          })
+          this.rekeyNote(id, newId)
         }
       }
     }
@@ -608,10 +972,23 @@ export class VaultManager {
       }
     }
 
+    if (plan.length > 0) {
+      try {
+        await this.applyLinkRewrites(plan, moves)
+      } catch (err) {
+        await this.renameFolder(finalRelPath, basename(normalizedPath))
+        throw new Error(`Links could not be updated, rename reverted: ${(err as Error).message}`)
+      }
+    }
+
     return { path: finalRelPath }
   }
 
-  public async moveFolder(sourcePath: string, targetPath: string): Promise<{ path: string }> {
+  public async moveFolder(
+    sourcePath: string,
+    targetPath: string,
+    updateLinks = false
+  ): Promise<{ path: string }> {
     const sourceNorm = sourcePath.replace(/\\/g, '/')
     const targetNorm = targetPath.replace(/\\/g, '/')
 
@@ -623,15 +1000,12 @@ export class VaultManager {
       throw new Error('Cannot move a folder into itself or its descendants')
     }
 
-    let newFolderPath = join(targetFullPath, folderName)
-    let safeFolderName = folderName
-    let counter = 1
+    const safeFolderName = this.uniqueFolderName(targetFullPath, folderName)
+    const newFolderPath = join(targetFullPath, safeFolderName)
+    const finalPath = join(targetNorm, safeFolderName).replace(/\\/g, '/')
 
-    while (existsSync(newFolderPath)) {
-      safeFolderName = `${folderName} ${counter}`
-      newFolderPath = join(targetFullPath, safeFolderName)
-      counter++
-    }
+    const moves = this.folderMoves(sourceNorm, finalPath)
+    const plan = updateLinks ? await this.planLinkRewrites(moves) : []
 
     // Ensure target directory exists
     await mkdir(targetFullPath, { recursive: true })
@@ -649,7 +1023,7 @@ export class VaultManager {
       }
     }
 
-    const finalPath = join(targetNorm, safeFolderName).replace(/\\/g, '/')
+    await this.history?.move(moves)
 
     // Update cache
     this.folders.delete(sourceNorm)
@@ -664,55 +1038,1117 @@ export class VaultManager {
       }
     }
 
-    for (const [id, meta] of this.notes.entries()) {
+    for (const id of Array.from(this.notes.keys())) {
       if (id.startsWith(sourceNorm + '/')) {
         const newId = id.replace(sourceNorm, finalPath)
-        this.notes.delete(id)
-        this.notes.set(newId, {
-          ...meta,
-          id: newId,
-          path: dirname(newId) === '.' ? '' : dirname(newId)
-        })
+        this.rekeyNote(id, newId)
+      }
+    }
+
+    if (plan.length > 0) {
+      try {
+        await this.applyLinkRewrites(plan, moves)
+      } catch (err) {
+        const parent = dirname(sourceNorm)
+        await this.moveFolder(finalPath, parent === '.' ? '' : parent)
+        throw new Error(`Links could not be updated, move reverted: ${(err as Error).message}`)
       }
     }
 
     return { path: finalPath }
   }
 
-  public async search(query: string): Promise<NoteMeta[]> {
-    const lower = query.toLowerCase()
-    const matches: NoteMeta[] = []
+  private uniqueFolderName(parentFullPath: string, folderName: string): string {
+    let safeFolderName = folderName
+    let counter = 1
+    while (existsSync(join(parentFullPath, safeFolderName))) {
+      safeFolderName = `${folderName} ${counter}`
+      counter++
+    }
+    return safeFolderName
+  }
+
+  /**
+   * Full-text + metadata search using the shared query language
+   * (see src/shared/searchQuery.ts).
+   */
+  public async search(input: string): Promise<SearchResult[]> {
+    const query = parseSearchQuery(input)
+    if (isEmptySearchQuery(query)) return []
 
-    for (const meta of this.notes.values()) {
-      if (meta.title.toLowerCase().includes(lower)) {
-        matches.push(meta)
-        continue
+    const matchers: QueryMatchers = {
+      text: (note, clause) => this.searchIndex.matches(note.id, toTextQuery([clause])),
+      tags: (note) => this.tags.get(note.id) ?? []
+    }
+    const isPositiveText = (clause: QueryClause): boolean =>
+      clause.field === 'text' && !clause.negated
+    // The index only knows a phrase's words are present, not adjacent; negated
+    // phrases are checked against the content below
+    const isNegatedPhrase = (clause: QueryClause): boolean =>
+      clause.field === 'text' && clause.negated && toTextQuery([clause]).phrases.length > 0
+
+    // Best score per note across OR-groups, remembering which group matched
+    const ranked = new Map<string, { score: number; group: QueryClause[] }>()
+    for (const group of query.groups) {
+      const positive = group.filter(isPositiveText)
+      const candidates =
+        positive.length > 0
+          ? this.searchIndex.query(toTextQuery(positive))
+          : Array.from(this.notes.keys(), (id) => ({ id, score: 0 }))
+
+      for (const { id, score } of candidates) {
+        const meta = this.notes.get(id)
+        if (!meta) continue
+        const filtersPass = group.every(
+          (clause) =>
+            isPositiveText(clause) ||
+            isNegatedPhrase(clause) ||
+            matchesClause(meta, clause, matchers)
+        )
+        if (!filtersPass) continue
+        const existing = ranked.get(id)
+        if (!existing || existing.score < score) ranked.set(id, { score, group })
       }
+    }
+
+    const ordered = Array.from(ranked.entries()).sort(
+      ([a, x], [b, y]) =>
+        y.score - x.score ||
+        (this.notes.get(b)?.updatedAt ?? 0) - (this.notes.get(a)?.updatedAt ?? 0)
+    )
+
+    const results: SearchResult[] = []
+    for (const [id, { score, group }] of ordered) {
+      if (results.length >= SEARCH_LIMIT) break
+      const meta = this.notes.get(id)
+      const fingerprint = this.fingerprints.get(id)
+      if (!meta || !fingerprint) continue
 
+      let content = ''
       try {
-        if (!meta.path) continue
-        const fullPath = join(this.rootPath, meta.path)
-        const content = await readFile(fullPath, 'utf-8')
-        if (content.toLowerCase().includes(lower)) {
-          matches.push(meta)
-        }
-      } catch (e) {
-        // ignore read error
+        content = await readFile(join(this.rootPath, fingerprint.file), 'utf-8')
+      } catch {
+        continue // deleted since it was indexed; the watcher will catch up
       }
+
+      // Word adjacency for phrases can only be checked against the content
+      const text = `${meta.title}\n${content}`
+      const textQuery = toTextQuery(group.filter(isPositiveText))
+      if (!containsPhrase(text, textQuery.phrases)) continue
+      const excludedPhrase = group.some(
+        (clause) => isNegatedPhrase(clause) && containsPhrase(text, toTextQuery([clause]).phrases)
+      )
+      if (excludedPhrase) continue
+
+      const { body } = parseFrontmatter(content)
+      const snippet = buildSnippet(body, textQuery)
+      results.push({ ...meta, score, snippet: snippet.text, matches: snippet.matches })
     }
-    return matches
+    return results
   }
 
   public getBacklinks(targetId: string): string[] {
     const sources: string[] = []
     for (const [sourceId, targets] of this.links.entries()) {
-      if (targets.has(targetId)) {
+      if (Array.from(targets).some((target) => this.resolveLink(target) === targetId)) {
         sources.push(sourceId)
       }
     }
     return sources
   }
 
+  /**
+   * Notes linking to `targetId`, with the paragraph around each link.
+   */
+  public async getBacklinkContexts(targetId: string): Promise<Backlink[]> {
+    const backlinks: Backlink[] = []
+    for (const sourceId of this.getBacklinks(targetId)) {
+      const meta = this.notes.get(sourceId)
+      const content = await this.readNoteContent(sourceId)
+      if (!meta || content === null) continue
+
+      const references = extractWikiLinks(content)
+        .filter((link) => link.target && this.resolveLink(link.target) === targetId)
+        .map((link) => ({ line: link.line, context: paragraphAt(content, link.index) }))
+      if (references.length > 0) {
+        backlinks.push({ id: sourceId, title: meta.title, path: meta.path, references })
+      }
+    }
+    return backlinks.sort((a, b) => a.title.localeCompare(b.title))
+  }
+
+  /**
+   * Plain-text occurrences of the note's title or file name in other notes.
+   * Candidates come from the full-text index, so only those are read.
+   */
+  public async getUnlinkedMentions(targetId: string): Promise<UnlinkedMention[]> {
+    const target = this.notes.get(targetId)
+    if (!target) return []
+
+    // Longest first, so "plan" is not reported again inside "project plan"
+    const phrases = Array.from(
+      new Set([target.title, basename(targetId)].map((p) => p.trim().toLowerCase()))
+    )
+      .filter((phrase) => phrase.length >= MENTION_MIN_LENGTH)
+      .sort((a, b) => b.length - a.length)
+
+    const candidates = new Set<string>()
+    for (const phrase of phrases) {
+      const terms = toTextQuery([
+        { field: 'text', value: phrase, negated: false, phrase: true, prefix: false }
+      ])
+      this.searchIndex.query(terms).forEach((doc) => candidates.add(doc.id))
+    }
+    candidates.delete(targetId)
+
+    const mentions: UnlinkedMention[] = []
+    for (const sourceId of candidates) {
+      const meta = this.notes.get(sourceId)
+      const content = await this.readNoteContent(sourceId)
+      if (!meta || content === null) continue
+
+      const taken: [number, number][] = []
+      for (const phrase of phrases) {
+        for (const mention of findMentions(content, phrase)) {
+          const end = mention.index + mention.text.length
+          if (taken.some(([from, to]) => mention.index < to && end > from)) continue
+          taken.push([mention.index, end])
+          mentions.push({
+            id: sourceId,
+            title: meta.title,
+            path: meta.path,
+            ...mention,
+            context: paragraphAt(content, mention.index)
+          })
+        }
+      }
+      if (mentions.length >= SEARCH_LIMIT) break
+    }
+    return mentions.sort((a, b) => a.title.localeCompare(b.title) || a.index - b.index)
+  }
+
+  /**
+   * Turn an unlinked mention into a wikilink, keeping the text as written.
+   * Fails if the note changed since the mention was found.
+   */
+  public async linkMention(mention: UnlinkedMention, targetId: string): Promise<void> {
+    const fingerprint = this.fingerprints.get(mention.id)
+    if (!fingerprint || !this.notes.has(targetId)) throw new Error('Note not found')
+
+    const fullPath = join(this.rootPath, fingerprint.file)
+    const content = await readFile(fullPath, 'utf-8')
+    const end = mention.index + mention.text.length
+    if (content.slice(mention.index, end) !== mention.text) {
+      throw new Error(`"${mention.title}" changed since the mention was found`)
+    }
+
+    const name = basename(targetId)
+    const target = this.resolveLink(name) === targetId ? name : targetId
+    const link =
+      this.resolveLink(mention.text) === targetId
+        ? formatWikiLink({ embed: false, target: mention.text })
+        : formatWikiLink({ embed: false, target, alias: mention.text })
+
+    await this.snapshotBefore(mention.id, content, 'link-update')
+    await writeFile(fullPath, content.slice(0, mention.index) + link + content.slice(end), 'utf-8')
+    await this.indexFile(fullPath)
+  }
+
+  private async readNoteContent(id: string): Promise<string | null> {
+    const fingerprint = this.fingerprints.get(id)
+    if (!fingerprint) return null
+    try {
+      return await readFile(join(this.rootPath, fingerprint.file), 'utf-8')
+    } catch (err) {
+      console.warn(`[Vault] Could not read ${fingerprint.file}`, err)
+      return null
+    }
+  }
+
+  // --- Link resolution ---
+
+  /**
+   * Resolve wikilink text to a note id, in the same order the editor uses:
+   * full id, frontmatter title, file name, then frontmatter aliases.
+   */
+  public resolveLink(target: string): string | undefined {
+    return this.resolveLinkDetailed(target)?.id
+  }
+
+  private resolveLinkDetailed(target: string): ResolvedLink | undefined {
+    if (!this.resolver) this.resolver = this.buildResolver()
+    const key = target.trim().replace(/\\/g, '/').toLowerCase()
+    return this.resolver.get(key) ?? this.resolver.get(key.replace(/\.(md|txt)$/, ''))
+  }
+
+  private buildResolver(): Map<string, ResolvedLink> {
+    const resolver = new Map<string, ResolvedLink>()
+    const add = (key: string, id: string, via: ResolvedLink['via']): void => {
+      const normalized = key.trim().toLowerCase()
+      if (normalized && !resolver.has(normalized)) resolver.set(normalized, { id, via })
+    }
+
+    const metas = Array.from(this.notes.values())
+    metas.forEach((meta) => add(meta.id, meta.id, 'id'))
+    metas.forEach((meta) => {
+      if (typeof meta.properties?.title === 'string') add(meta.title, meta.id, 'title')
+    })
+    metas.forEach((meta) => add(basename(meta.id), meta.id, 'name'))
+    metas.forEach((meta) => {
+      const aliases = meta.properties?.aliases ?? meta.properties?.alias
+      const list = Array.isArray(aliases) ? aliases : typeof aliases === 'string' ? [aliases] : []
+      list.forEach((alias) => alias !== null && add(String(alias), meta.id, 'alias'))
+    })
+    return resolver
+  }
+
+  // --- Link health ---
+
+  /**
+   * Dangling wikilinks with their source line numbers, plus orphan notes.
+   * Only notes with a dangling target are re-read to find the lines.
+   */
+  public async getLinkReport(): Promise<LinkReport> {
+    const unresolved: UnresolvedLink[] = []
+    const connected = new Set<string>()
+
+    for (const [sourceId, targets] of this.links) {
+      let dangling = false
+      for (const target of targets) {
+        const id = this.resolveLink(target)
+        if (id === undefined) {
+          if (!this.isAttachmentLink(sourceId, target)) dangling = true
+        } else if (id !== sourceId) {
+          connected.add(sourceId)
+          connected.add(id)
+        }
+      }
+      if (dangling) unresolved.push(...(await this.findUnresolvedLinks(sourceId)))
+    }
+
+    const orphans = Array.from(this.notes.values())
+      .filter((meta) => !connected.has(meta.id))
+      .sort((a, b) => a.id.localeCompare(b.id))
+    unresolved.sort((a, b) => a.sourceId.localeCompare(b.sourceId) || a.line - b.line)
+
+    return { unresolved, orphans }
+  }
+
+  private async findUnresolvedLinks(sourceId: string): Promise<UnresolvedLink[]> {
+    const meta = this.notes.get(sourceId)
+    const content = await this.readNoteContent(sourceId)
+    if (!meta || content === null) return []
+
+    return extractWikiLinks(content)
+      .filter((link) => link.target && this.resolveLink(link.target) === undefined)
+      .filter((link) => !this.isAttachmentLink(sourceId, link.target))
+      .map((link) => ({
+        sourceId,
+        sourceTitle: meta.title,
+        sourcePath: meta.path,
+        target: link.target,
+        raw: link.raw,
+        line: link.line
+      }))
+  }
+
+  /**
+   * Embeds such as `![[diagram.png]]` point at files, not notes. They count as
+   * resolved when the file can be found (see `resolveAttachment`).
+   */
+  private isAttachmentLink(sourceId: string, target: string): boolean {
+    const ext = extname(target).toLowerCase()
+    if (!ext || NOTE_EXTENSIONS.includes(ext)) return false
+    return this.resolveAttachment(target, sourceId) !== null
+  }
+
+  /**
+   * Vault-relative path of a linked file: as written, next to the source note,
+   * in the attachment folder (where dropped files are saved) or in `assets/`.
+   * Never outside the vault.
+   */
+  private resolveAttachment(
+    target: string,
+    sourceId?: string,
+    exists = (path: string): boolean => existsSync(join(this.rootPath, path))
+  ): string | null {
+    const clean = target.replace(/\\/g, '/')
+    const sourceDir = sourceId ? dirname(sourceId) : '.'
+    const candidates = [
+      clean,
+      sourceDir !== '.' ? `${sourceDir}/${clean}` : '',
+      `${attachmentFolderFor(this.attachmentSettings, sourceId)}/${clean}`,
+      `assets/${clean}`
+    ]
+    for (const candidate of candidates.filter(Boolean)) {
+      const rel = relative(this.rootPath, join(this.rootPath, candidate)).replace(/\\/g, '/')
+      if (rel.startsWith('..') || !exists(rel)) continue
+      return rel
+    }
+    return null
+  }
+
+  /**
+   * What `![[target]]` in `sourceId` embeds: a note (content without
+   * frontmatter) or a file in the vault.
+   */
+  public async resolveEmbed(target: string, sourceId?: string): Promise<ResolvedEmbed | null> {
+    const id = this.resolveLink(target)
+    const meta = id ? this.notes.get(id) : undefined
+    if (id && meta) {
+      const content = await this.readNoteContent(id)
+      if (content === null) return null
+      return {
+        type: 'note',
+        id,
+        title: meta.title,
+        path: meta.path,
+        content: parseFrontmatter(content).body
+      }
+    }
+    const file = this.resolveAttachment(target, sourceId)
+    return file ? { type: 'file', path: file } : null
+  }
+
+  // --- Attachments ---
+
+  public setAttachmentSettings(settings: AttachmentSettings): void {
+    this.attachmentSettings = settings
+  }
+
+  /**
+   * Write a pasted or dropped file into the attachment folder for `noteId`,
+   * numbering the name when it is taken. Returns the vault-relative path.
+   */
+  public async saveAttachment(data: Buffer, name: string, noteId?: string): Promise<string> {
+    if (!this.rootPath) throw new Error('No vault is open')
+    const folder = attachmentFolderFor(this.attachmentSettings, noteId)
+    const fileName = basename(name.replace(/\\/g, '/')).replace(/[<>:"|?*]/g, '-') || 'attachment'
+    const path = this.uniquePath(`${folder}/${fileName}`, (candidate) =>
+      existsSync(join(this.rootPath, candidate))
+    )
+    await mkdir(join(this.rootPath, folder), { recursive: true })
+    await writeFile(join(this.rootPath, path), data)
+    return path
+  }
+
+  /**
+   * Every non-note file in the vault with the notes that reference it,
+   * sorted by path. Hidden folders (trash, history) are skipped.
+   */
+  public async getAttachments(): Promise<AttachmentInfo[]> {
+    if (!this.rootPath) return []
+    const referencing = this.attachmentReferences()
+    const attachments: AttachmentInfo[] = []
+
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await readdir(dir, { withFileTypes: true })
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue
+        const fullPath = join(dir, entry.name)
+        if (entry.isDirectory()) {
+          await walk(fullPath)
+        } else if (entry.isFile() && !this.isNoteFile(entry.name)) {
+          const path = relative(this.rootPath, fullPath).replace(/\\/g, '/')
+          const stats = await stat(fullPath)
+          const notes = Array.from(referencing.get(path) ?? [], (id) => ({
+            id,
+            title: this.notes.get(id)?.title || basename(id)
+          })).sort((a, b) => a.title.localeCompare(b.title))
+          attachments.push({ path, size: stats.size, modifiedAt: stats.mtimeMs, notes })
+        }
+      }
+    }
+    await walk(this.rootPath)
+    return attachments.sort((a, b) => a.path.localeCompare(b.path))
+  }
+
+  /**
+   * Resolved file path -> ids of the notes referencing it.
+   */
+  private attachmentReferences(): Map<string, Set<string>> {
+    const referencing = new Map<string, Set<string>>()
+    for (const [id, targets] of this.attachmentLinks) {
+      for (const target of targets) {
+        const path = this.resolveAttachment(target, id)
+        if (!path) continue
+        const ids = referencing.get(path)
+        if (ids) ids.add(id)
+        else referencing.set(path, new Set([id]))
+      }
+    }
+    return referencing
+  }
+
+  /**
+   * Move an attachment and point every reference at the new path. Bare
+   * `![[name.png]]` embeds stay bare when the new name still resolves.
+   * Returns the new path and the number of notes rewritten.
+   */
+  public async renameAttachment(
+    from: string,
+    to: string
+  ): Promise<{ path: string; updated: number }> {
+    const source = from.replace(/\\/g, '/')
+    const target = to.replace(/\\/g, '/').replace(/^\/+/, '')
+    const targetPath = join(this.rootPath, target)
+    if (!existsSync(join(this.rootPath, source))) throw new Error(`File not found: ${from}`)
+    if (!target || relative(this.rootPath, targetPath).startsWith('..')) {
+      throw new Error(`Invalid path: ${to}`)
+    }
+    if (!isAttachmentTarget(target)) throw new Error('Attachments need a file extension')
+    if (source === target) return { path: target, updated: 0 }
+    if (existsSync(targetPath)) throw new Error(`"${target}" already exists`)
+
+    // Find the references before the move, while they still resolve
+    const ids = Array.from(this.attachmentReferences().get(source) ?? [])
+    const contents = new Map<string, string>()
+    for (const id of ids) {
+      const content = await this.readNoteContent(id)
+      if (content !== null) contents.set(id, content)
+    }
+
+    await mkdir(dirname(targetPath), { recursive: true })
+    await rename(join(this.rootPath, source), targetPath)
+
+    let updated = 0
+    for (const [id, content] of contents) {
+      const next = retargetAttachmentRefs(content, (ref) => {
+        // The moved file still counts as being at its old path
+        const resolved = this.resolveAttachment(
+          ref.target,
+          id,
+          (path) => path === source || existsSync(join(this.rootPath, path))
+        )
+        if (resolved !== source) return null
+        const name = basename(target)
+        const bare = ref.kind === 'wiki' && !ref.target.includes('/')
+        return bare && this.resolveAttachment(name, id) === target ? name : target
+      })
+      if (next === content) continue
+      await this.saveNote(id, next)
+      updated++
+    }
+    return { path: target, updated }
+  }
+
+  /**
+   * Move attachments to the trash so an over-eager cleanup can be undone.
+   */
+  public async deleteAttachments(paths: string[]): Promise<number> {
+    if (!this.trash) throw new Error('No vault is open')
+    let deleted = 0
+    for (const path of paths) {
+      const normalizedPath = path.replace(/\\/g, '/')
+      const fullPath = join(this.rootPath, normalizedPath)
+      if (relative(this.rootPath, fullPath).startsWith('..') || this.isNoteFile(fullPath)) continue
+      if (!existsSync(fullPath)) continue
+      await this.trash.add(normalizedPath, 'file')
+      deleted++
+    }
+    return deleted
+  }
+
+  // --- Trash ---
+
+  public async getTrash(): Promise<TrashItem[]> {
+    return this.trash ? this.trash.list() : []
+  }
+
+  /**
+   * Put a trashed note or folder back and index it. Returns the restored
+   * vault-relative path (renamed when the original location is taken).
+   */
+  public async restoreFromTrash(
+    id: string
+  ): Promise<{ type: TrashItem['type']; path: string; noteId?: string }> {
+    if (!this.trash) throw new Error('No vault is open')
+    const { item, path } = await this.withWatcherPaused(() => this.trash!.restore(id))
+    const fullPath = join(this.rootPath, path)
+
+    if (item.type === 'note') {
+      await this.indexFile(fullPath)
+      return { type: 'note', path, noteId: this.getIdFromPath(path) }
+    }
+    if (item.type === 'file') return { type: 'file', path }
+
+    this.folders.add(path)
+    await this.scanDirectory(fullPath)
+    return { type: 'folder', path }
+  }
+
+  public async purgeFromTrash(id: string): Promise<void> {
+    await this.trash?.purge(id)
+  }
+
+  public async emptyTrash(): Promise<void> {
+    await this.trash?.empty()
+  }
+
+  /**
+   * Auto-purge: items older than `days` are removed for good whenever a vault
+   * is opened and when the setting changes. 0 keeps everything.
+   */
+  public async setTrashAutoPurge(days: number): Promise<void> {
+    this.trashAutoPurgeDays = days
+    await this.purgeExpiredTrash()
+  }
+
+  private async purgeExpiredTrash(): Promise<void> {
+    if (!this.trash || !(this.trashAutoPurgeDays > 0)) return
+    try {
+      const purged = await this.trash.purgeOlderThan(this.trashAutoPurgeDays)
+      if (purged > 0) console.log(`[Vault] Purged ${purged} expired trash items`)
+    } catch (err) {
+      console.error('[Vault] Failed to purge expired trash', err)
+    }
+  }
+
+  private async withWatcherPaused<T>(task: () => Promise<T>): Promise<T> {
+    if (this.watcher) {
+      await this.watcher.close()
+      this.watcher = null
+    }
+    try {
+      return await task()
+    } finally {
+      await this.startWatcher()
+    }
+  }
+
+  // --- Git sync ---
+
+  public async getGitStatus(): Promise<GitSyncStatus | null> {
+    return this.git ? this.git.status() : null
+  }
+
+  /**
+   * Commit, pull and push the vault. Merged files reach the index through
+   * the watcher like any other change on disk.
+   */
+  public async syncGit(config: GitSyncConfig): Promise<GitSyncResult> {
+    if (!this.git) throw new Error('No vault is open')
+    const stamp = new Date().toISOString().replace('T', ' ').slice(0, 16)
+    return this.git.sync(config, `Vault sync ${stamp}`)
+  }
+
+  public async getGitConflicts(): Promise<GitConflict[]> {
+    return this.git ? this.git.getConflicts() : []
+  }
+
+  public async resolveGitConflict(
+    path: string,
+    choice: GitConflictChoice,
+    content?: string
+  ): Promise<GitSyncStatus> {
+    if (!this.git) throw new Error('No vault is open')
+    return this.git.resolveConflict(path, choice, content)
+  }
+
+  public async finishGitMerge(config: GitSyncConfig): Promise<GitSyncResult> {
+    if (!this.git) throw new Error('No vault is open')
+    return this.git.finishMerge(config)
+  }
+
+  public async abortGitMerge(): Promise<GitSyncStatus> {
+    if (!this.git) throw new Error('No vault is open')
+    return this.git.abortMerge()
+  }
+
+  // --- File sync ---
+
+  /**
+   * Two-way sync with a storage provider. Files deleted on the remote go to
+   * the trash; downloads reach the index through the watcher.
+   */
+  public async syncFiles(provider: SyncProvider): Promise<SyncRunResult> {
+    if (!this.fileSync || !this.trash) throw new Error('No vault is open')
+    const trash = this.trash
+    return this.fileSync.run(provider, {
+      removeLocal: async (path) => {
+        await trash.add(path, this.isNoteFile(path) ? 'note' : 'file')
+      }
+    })
+  }
+
+  // --- Templates ---
+
+  /**
+   * Notes inside the templates folder (and its sub-folders), sorted by title.
+   */
+  public getTemplates(folder: string): NoteMeta[] {
+    const prefix = `${folder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '')}/`
+    if (prefix === '/') return []
+    return Array.from(this.notes.values())
+      .filter((note) => note.id.startsWith(prefix))
+      .sort((a, b) => a.title.localeCompare(b.title))
+  }
+
+  // --- Import ---
+
+  /**
+   * Read an import source and work out where each file lands inside `folder`.
+   * Nothing is written until `applyImport`, so the report can be reviewed.
+   */
+  public async planImport(
+    source: ImportSource,
+    origin: string,
+    folder: string
+  ): Promise<ImportPlan> {
+    const scan = await scanImportSource(source, origin)
+    const base = folder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '')
+    const taken = new Set<string>()
+    const entries = scan.files.map((file): ImportEntry => {
+      const planned = base ? `${base}/${file.target}` : file.target
+      const target = this.uniquePath(planned, (path) => taken.has(path.toLowerCase()))
+      taken.add(target.toLowerCase())
+      return {
+        source: file.source,
+        target,
+        kind: file.kind,
+        conflict: existsSync(join(this.rootPath, target)),
+        renamed: target !== planned
+      }
+    })
+
+    const id = `${Date.now()}`
+    this.pendingImport = { id, files: scan.files, entries }
+    return {
+      id,
+      source,
+      origin,
+      folder: base,
+      entries,
+      skipped: scan.skipped,
+      remarks: scan.remarks
+    }
+  }
+
+  /**
+   * Write a planned import. `actions` says what to do with each conflicting
+   * target (renamed when missing); overwritten files go to the trash first.
+   */
+  public async applyImport(
+    id: string,
+    actions: Record<string, ImportConflictAction>
+  ): Promise<ImportSummary> {
+    const pending = this.pendingImport
+    if (!pending || pending.id !== id) throw new Error('This import has expired; start it again')
+    this.pendingImport = null
+
+    const summary: ImportSummary = {
+      imported: 0,
+      overwritten: 0,
+      renamed: 0,
+      skipped: 0,
+      errors: []
+    }
+    const taken = new Set(pending.entries.map((entry) => entry.target.toLowerCase()))
+    const targets = new Map<string, string>() // Source path -> final vault path
+    const writes: { file: ImportFile; target: string; overwrite: boolean }[] = []
+
+    pending.entries.forEach((entry, i) => {
+      let target = entry.target
+      const action = entry.conflict ? (actions[entry.target] ?? 'rename') : undefined
+      // A skipped file still resolves links to the existing one
+      targets.set(entry.source, target)
+      if (action === 'skip') {
+        summary.skipped++
+        return
+      }
+      if (action === 'rename') {
+        target = this.uniquePath(
+          target,
+          (path) => taken.has(path.toLowerCase()) || existsSync(join(this.rootPath, path))
+        )
+        taken.add(target.toLowerCase())
+        targets.set(entry.source, target)
+      }
+      if (entry.renamed || action === 'rename') summary.renamed++
+      if (action === 'overwrite') summary.overwritten++
+      writes.push({ file: pending.files[i], target, overwrite: action === 'overwrite' })
+    })
+
+    await this.withWatcherPaused(async () => {
+      for (const { file, target, overwrite } of writes) {
+        const fullPath = join(this.rootPath, target)
+        try {
+          const data = await file.read((source) => targets.get(source))
+          if (overwrite && existsSync(fullPath)) {
+            if (this.isNoteFile(target)) {
+              const previous = await readFile(fullPath, 'utf-8')
+              await this.snapshotBefore(this.getIdFromPath(target), previous, 'import')
+            }
+            await this.trash!.add(target, file.kind === 'attachment' ? 'file' : 'note')
+          }
+          await mkdir(dirname(fullPath), { recursive: true })
+          await writeFile(fullPath, data)
+          summary.imported++
+        } catch (err) {
+          summary.errors.push(`${file.source}: ${(err as Error).message}`)
+          continue
+        }
+
+        for (let dir = dirname(target); dir && dir !== '.'; dir = dirname(dir)) {
+          this.folders.add(dir)
+        }
+        if (this.isNoteFile(target)) await this.indexFile(fullPath)
+      }
+    })
+    return summary
+  }
+
+  /**
+   * `path`, or `name 1.ext`, `name 2.ext`... when `isTaken` says it is in use.
+   */
+  private uniquePath(path: string, isTaken: (path: string) => boolean): string {
+    if (!isTaken(path)) return path
+    const ext = extname(path)
+    const stem = path.slice(0, path.length - ext.length)
+    let counter = 1
+    while (isTaken(`${stem} ${counter}${ext}`)) counter++
+    return `${stem} ${counter}${ext}`
+  }
+
+  // --- Publishing ---
+
+  /**
+   * Every note below `folder` ('' for the whole vault) except those marked
+   * `publish: false`. Backlinks only count notes that are published too.
+   */
+  public async getPublishPages(folder: string): Promise<PublishPage[]> {
+    const base = folder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '')
+    const prefix = base ? `${base}/` : ''
+    const notes = this.getNotes().filter(
+      (note) =>
+        note.type !== 'folder' &&
+        note.id.startsWith(prefix) &&
+        note.properties?.publish !== false &&
+        note.properties?.publish !== 'false'
+    )
+    const published = new Set(notes.map((note) => note.id))
+
+    const pages: PublishPage[] = []
+    for (const note of notes) {
+      const content = await this.readNoteContent(note.id)
+      if (content === null) continue
+      pages.push({
+        ...note,
+        content,
+        tags: this.tags.get(note.id) ?? [],
+        backlinks: this.getBacklinks(note.id).filter((id) => id !== note.id && published.has(id))
+      })
+    }
+    return pages.sort((a, b) => a.title.localeCompare(b.title))
+  }
+
+  // --- Periodic notes ---
+
+  /**
+   * The daily, weekly or monthly note for `date`, created from the configured
+   * template when it does not exist yet.
+   */
+  public async openPeriodicNote(config: PeriodicNoteConfig, date: Date): Promise<NoteMeta> {
+    const id = periodicNoteId(config, date)
+    const existing = this.notes.get(id)
+    if (existing) return existing
+
+    const dir = dirname(id)
+    const folder = dir === '.' ? '' : dir
+    const title = basename(id)
+    let content = '\n'
+    if (config.template) {
+      const templateId = this.notes.has(config.template)
+        ? config.template
+        : this.resolveLink(config.template)
+      const template = templateId ? await this.readNoteContent(templateId) : null
+      if (template === null) throw new Error(`Template not found: ${config.template}`)
+      content = renderTemplate(template, { title, date, folder }).content
+    }
+
+    const meta = await this.createNote(title, folder, content)
+    // Date folders are usually new; list them before the watcher catches up
+    for (let path = folder; path && path !== '.'; path = dirname(path)) this.folders.add(path)
+    return meta
+  }
+
+  // --- Tasks ---
+
+  /**
+   * Every task in the vault, grouped by note (notes by title, tasks in line
+   * order). Served from the index; no files are read.
+   */
+  public getTasks(): VaultTask[] {
+    const result: VaultTask[] = []
+    const notes = Array.from(this.tasks.keys())
+      .flatMap((id) => this.notes.get(id) ?? [])
+      .sort((a, b) => a.title.localeCompare(b.title))
+    for (const note of notes) {
+      const noteTags = this.tags.get(note.id) ?? []
+      for (const task of this.tasks.get(note.id) ?? []) {
+        const taskTags = extractTags(task.text)
+        result.push({
+          ...task,
+          noteId: note.id,
+          noteTitle: note.title,
+          path: note.path ?? '',
+          tags: Array.from(new Set([...noteTags, ...taskTags])).sort()
+        })
+      }
+    }
+    return result
+  }
+
+  // --- Queries ---
+
+  /**
+   * Run the source of a ```query block (see noteQuery.ts) over the index.
+   */
+  public runQuery(source: string): NoteQueryResult {
+    const notes = Array.from(this.notes.values(), (meta) => ({
+      meta,
+      tags: this.tags.get(meta.id) ?? []
+    }))
+    return runNoteQuery(source, notes)
+  }
+
+  // --- Tags ---
+
+  /**
+   * Every tag in the vault plus each parent of a nested tag (`a` for `a/b`),
+   * with the number of notes under it.
+   */
+  public getTags(): TagCount[] {
+    const notesByTag = new Map<string, Set<string>>()
+    for (const [id, tags] of this.tags) {
+      for (const tag of tags) {
+        const parts = tag.split('/')
+        for (let i = 1; i <= parts.length; i++) {
+          const path = parts.slice(0, i).join('/')
+          let notes = notesByTag.get(path)
+          if (!notes) {
+            notes = new Set()
+            notesByTag.set(path, notes)
+          }
+          notes.add(id)
+        }
+      }
+    }
+    return Array.from(notesByTag, ([tag, notes]) => ({ tag, count: notes.size })).sort((a, b) =>
+      a.tag.localeCompare(b.tag)
+    )
+  }
+
+  /**
+   * Inline and frontmatter tags by note id, for `tag:` filters in the renderer.
+   */
+  public getNoteTags(): Record<string, string[]> {
+    return Object.fromEntries(this.tags)
+  }
+
+  /**
+   * Notes carrying `tag` or a tag nested below it, most recently updated first.
+   */
+  public getNotesWithTag(tag: string): NoteMeta[] {
+    const wanted = normalizeTag(tag)
+    if (!wanted) return []
+    const notes: NoteMeta[] = []
+    for (const [id, tags] of this.tags) {
+      const meta = this.notes.get(id)
+      if (meta && tags.some((t) => isTagOrChild(t, wanted))) notes.push(meta)
+    }
+    return notes.sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  /**
+   * Rename a tag, and every tag nested below it, across the vault. Renaming
+   * onto a tag that already exists merges the two. Returns the number of
+   * notes rewritten.
+   */
+  public async renameTag(from: string, to: string): Promise<number> {
+    const source = normalizeTag(from)
+    const target = normalizeTag(to)
+    if (!source) throw new Error(`Invalid tag: ${from}`)
+    if (!target) throw new Error(`Invalid tag name: ${to}`)
+    if (source === target) return 0
+
+    let updated = 0
+    for (const note of this.getNotesWithTag(source)) {
+      const content = await this.readNoteContent(note.id)
+      if (content === null) continue
+      const next = renameTagInContent(content, source, target)
+      if (next === content) continue
+      await this.saveNote(note.id, next)
+      updated++
+    }
+    return updated
+  }
+
+  // --- Version history ---
+
+  public async getNoteHistory(id: string): Promise<NoteVersion[]> {
+    return this.history ? this.history.list(id) : []
+  }
+
+  public async getNoteVersion(id: string, versionId: string): Promise<string | null> {
+    return this.history ? this.history.getContent(id, versionId) : null
+  }
+
+  /**
+   * Write an old version back. The current content is snapshotted first so
+   * the restore itself can be undone from history.
+   */
+  public async restoreNoteVersion(id: string, versionId: string): Promise<NoteMeta> {
+    const content = await this.getNoteVersion(id, versionId)
+    if (content === null) throw new Error(`Version not found: ${versionId}`)
+
+    const current = await this.readNoteContent(id)
+    if (current !== null) await this.history?.snapshot(id, current, 'restore')
+    return this.saveNote(id, content)
+  }
+
+  // --- Link refactoring ---
+
+  /**
+   * Notes whose links would be rewritten by a rename/move, without touching
+   * anything on disk.
+   */
+  public async previewLinkRefactor(op: LinkRefactor): Promise<LinkUpdatePreview[]> {
+    const plan = await this.planLinkRewrites(this.refactorMoves(op))
+    return plan.map((rewrite) => ({
+      id: rewrite.sourceId,
+      title: this.notes.get(rewrite.sourceId)?.title || basename(rewrite.sourceId),
+      changes: rewrite.changes
+    }))
+  }
+
+  private refactorMoves(op: LinkRefactor): Map<string, string> {
+    const toId = (dir: string | undefined, name: string): string =>
+      (dir ? `${dir.replace(/\\/g, '/')}/${name}` : name).replace(/^\/+/, '')
+
+    switch (op.type) {
+      case 'renameNote': {
+        const meta = this.notes.get(op.id)
+        return new Map([[op.id, toId(op.path ?? meta?.path, basename(op.newName))]])
+      }
+      case 'moveNote':
+        return new Map([[op.id, toId(op.toPath, basename(op.id))]])
+      case 'renameFolder': {
+        const parent = dirname(op.path.replace(/\\/g, '/'))
+        return this.folderMoves(op.path, toId(parent === '.' ? '' : parent, op.newName))
+      }
+      case 'moveFolder': {
+        const target = op.targetPath.replace(/\\/g, '/')
+        const name = this.uniqueFolderName(join(this.rootPath, target), basename(op.path))
+        return this.folderMoves(op.path, toId(target, name))
+      }
+    }
+  }
+
+  private folderMoves(from: string, to: string): Map<string, string> {
+    const prefix = from.replace(/\\/g, '/') + '/'
+    const moves = new Map<string, string>()
+    for (const id of this.notes.keys()) {
+      if (id.startsWith(prefix)) moves.set(id, `${to}/${id.slice(prefix.length)}`)
+    }
+    return moves
+  }
+
+  /**
+   * Compute new content for every note linking to a moved note. Must run
+   * before the move so links still resolve against the old ids.
+   */
+  private async planLinkRewrites(moves: Map<string, string>): Promise<PlannedRewrite[]> {
+    if (moves.size === 0) return []
+
+    // A bare [[name]] link stays bare only if the name is still unique afterwards
+    const nameCounts = new Map<string, number>()
+    for (const id of this.notes.keys()) {
+      const name = basename(moves.get(id) ?? id).toLowerCase()
+      nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1)
+    }
+
+    const plans: PlannedRewrite[] = []
+    for (const [sourceId, targets] of this.links) {
+      const affected = Array.from(targets).some((target) => {
+        const resolved = this.resolveLinkDetailed(target)
+        return resolved !== undefined && moves.has(resolved.id)
+      })
+      const fingerprint = this.fingerprints.get(sourceId)
+      if (!affected || !fingerprint) continue
+
+      const before = await readFile(join(this.rootPath, fingerprint.file), 'utf-8')
+      const changes: LinkUpdatePreview['changes'] = []
+      const after = replaceWikiLinks(before, (link) => {
+        const resolved = link.target ? this.resolveLinkDetailed(link.target) : undefined
+        // Title and alias links keep working after a rename, leave them alone
+        if (!resolved || resolved.via === 'title' || resolved.via === 'alias') return null
+        const newId = moves.get(resolved.id)
+        if (!newId) return null
+
+        const ext = /\.(md|txt)$/i.exec(link.target)?.[0] ?? ''
+        const bare = !link.target.includes('/')
+        const name = basename(newId)
+        const target = (bare && nameCounts.get(name.toLowerCase()) === 1 ? name : newId) + ext
+        if (target === link.target) return null
+
+        const next = formatWikiLink({ ...link, target })
+        changes.push({ line: link.line, before: link.raw, after: next })
+        return next
+      })
+
+      if (changes.length > 0) {
+        plans.push({ sourceId, file: fingerprint.file, before, after, changes })
+      }
+    }
+    return plans
+  }
+
+  /**
+   * Write planned rewrites after the move. All-or-nothing: on failure every
+   * file already written is restored before the error is rethrown.
+   */
+  private async applyLinkRewrites(
+    plans: PlannedRewrite[],
+    moves: Map<string, string>
+  ): Promise<void> {
+    const written: { fullPath: string; before: string }[] = []
+    try {
+      for (const plan of plans) {
+        const id = moves.get(plan.sourceId) ?? plan.sourceId
+        const fullPath = join(this.rootPath, id + extname(plan.file))
+        const current = await readFile(fullPath, 'utf-8')
+        if (current !== plan.before) throw new Error(`"${id}" changed while updating links`)
+
+        await this.snapshotBefore(id, current, 'link-update')
+        await writeFile(fullPath, plan.after, 'utf-8')
+        written.push({ fullPath, before: plan.before })
+        await this.indexFile(fullPath)
+      }
+      console.log(`[Vault] Updated links in ${written.length} notes`)
+    } catch (err) {
+      for (const { fullPath, before } of written.reverse()) {
+        try {
+          await writeFile(fullPath, before, 'utf-8')
+          await this.indexFile(fullPath)
+        } catch (restoreErr) {
+          console.error(`[Vault] Failed to restore ${fullPath}`, restoreErr)
+        }
+      }
+      throw err
+    }
+  }
+
+  /**
+   * Keep `content` in the history of `id` before it is overwritten outside
+   * the editor, so the change can be undone. Failures only get logged.
+   */
+  private async snapshotBefore(id: string, content: string, reason: SnapshotReason): Promise<void> {
+    await this.history
+      ?.snapshot(id, content, reason)
+      .catch((err) => console.error(`[Vault] Failed to snapshot ${id} before ${reason}`, err))
+  }
+
   private async copyFolderRecursive(source: string, destination: string): Promise<void> {
     // Ensure destination directory exists
     await mkdir(destination, { recursive: true })
@@ -732,11 +2168,15 @@ export class VaultManager {
     }
   }
 
+  /**
+   * Every link with its target resolved to a note id where possible, so
+   * `[[name]]`, `[[note#Heading]]` and title links all count for the same note.
+   */
   public getAllLinks(): { source: string; target: string }[] {
     const links: { source: string; target: string }[] = []
     for (const [source, targets] of this.links.entries()) {
       for (const target of targets) {
-        links.push({ source, target })
+        links.push({ source, target: this.resolveLink(target) ?? target })
       }
     }
     return links
@@ -0,0 +1,144 @@
+/**
+ * Wikilink parsing shared by the vault index, link refactoring, reports and
+ * backlinks (including unlinked plain-text mentions).
+ *
+ * Handles `[[target]]`, `[[target|alias]]`, `[[target#Heading]]`,
+ * `[[target#^block]]` and embeds (`![[target]]`). Links inside fenced code
+ * blocks and inline code spans are ignored.
+ */
+
+import { parseLinkInner, type LinkRef } from '../shared/linkAnchors'
+
+export type WikiLink = LinkRef & {
+  /** Full matched text, e.g. `![[note#Heading|Alias]]` */
+  raw: string
+  embed: boolean
+  /** Character offset of `raw` in the content */
+  index: number
+  /** 1-based line number */
+  line: number
+}
+
+const WIKILINK_RE = /(!?)\[\[([^[\]\n]+?)\]\]/g
+
+export function formatWikiLink(
+  link: Pick<WikiLink, 'embed' | 'target' | 'anchor' | 'alias'>
+): string {
+  const anchor = link.anchor ? `#${link.anchor}` : ''
+  const alias = link.alias ? `|${link.alias}` : ''
+  return `${link.embed ? '!' : ''}[[${link.target}${anchor}${alias}]]`
+}
+
+const CONTEXT_LENGTH = 280
+
+const blank = (s: string): string => s.replace(/[^\n]/g, ' ')
+
+/**
+ * Blank out code so links inside it are not matched. Offsets are preserved.
+ */
+export function maskCode(content: string): string {
+  return content
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?(?:^\1[^\n]*$|$(?![\s\S]))/gm, blank)
+    .replace(/`[^`\n]+`/g, blank)
+}
+
+export function extractWikiLinks(content: string): WikiLink[] {
+  const masked = maskCode(content)
+  const links: WikiLink[] = []
+  let line = 1
+  let lastIndex = 0
+
+  for (const match of masked.matchAll(WIKILINK_RE)) {
+    const index = match.index ?? 0
+    for (let i = lastIndex; i < index; i++) if (content.charCodeAt(i) === 10) line++
+    lastIndex = index
+
+    const raw = content.slice(index, index + match[0].length)
+    const inner = raw.slice(match[1].length + 2, -2)
+    const parsed = parseLinkInner(inner)
+    if (!parsed.target && !parsed.anchor) continue
+    links.push({ raw, embed: match[1] === '!', index, line, ...parsed })
+  }
+  return links
+}
+
+/**
+ * Replace links for which `replacer` returns new text; `null` keeps the link.
+ */
+export function replaceWikiLinks(
+  content: string,
+  replacer: (link: WikiLink) => string | null
+): string {
+  let result = ''
+  let cursor = 0
+  for (const link of extractWikiLinks(content)) {
+    const next = replacer(link)
+    if (next === null || next === link.raw) continue
+    result += content.slice(cursor, link.index) + next
+    cursor = link.index + link.raw.length
+  }
+  return result + content.slice(cursor)
+}
+
+export type Mention = {
+  /** Text as written in the note */
+  text: string
+  index: number
+  line: number
+}
+
+/**
+ * Plain-text occurrences of `phrase` (whole words, case-insensitive) outside
+ * frontmatter, code, wikilinks and markdown links.
+ */
+export function findMentions(content: string, phrase: string): Mention[] {
+  const words = phrase.trim().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return []
+
+  const escape = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}_])${words.map(escape).join('\\s+')}(?![\\p{L}\\p{N}_])`,
+    'giu'
+  )
+  const masked = maskCode(content)
+    .replace(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(?=\r?\n|$)/, blank)
+    .replace(/!?\[\[[^[\]\n]+?\]\]/g, blank)
+    .replace(/!?\[[^\]\n]*\]\([^)\n]*\)/g, blank)
+
+  return Array.from(masked.matchAll(pattern), (match) => {
+    const index = match.index ?? 0
+    return {
+      text: content.slice(index, index + match[0].length),
+      index,
+      line: lineAt(content, index)
+    }
+  })
+}
+
+/**
+ * The paragraph (block between blank lines) containing `index`, flattened to
+ * one line and clipped around the position when it is long.
+ */
+export function paragraphAt(content: string, index: number): string {
+  const before = content.lastIndexOf('\n\n', index)
+  const after = content.indexOf('\n\n', index)
+  const start = before === -1 ? 0 : before + 2
+  const end = after === -1 ? content.length : after
+
+  const offset = index - start
+  let text = content.slice(start, end)
+  if (text.length > CONTEXT_LENGTH) {
+    const from = Math.max(0, Math.min(offset - CONTEXT_LENGTH / 2, text.length - CONTEXT_LENGTH))
+    text =
+      (from > 0 ? '…' : '') +
+      text.slice(from, from + CONTEXT_LENGTH) +
+      (from + CONTEXT_LENGTH < text.length ? '…' : '')
+  }
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function lineAt(content: string, index: number): number {
+  let line = 1
+  for (let i = 0; i < index; i++) if (content.charCodeAt(i) === 10) line++
+  return line
+}
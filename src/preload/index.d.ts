@@ -1,5 +1,9 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
 
+type PropertyScalar = string | number | boolean | null
+type PropertyValue = PropertyScalar | PropertyScalar[]
+type NoteProperties = Record<string, PropertyValue>
+
 type NoteMeta = {
   id: string
   title: string
@@ -9,6 +13,7 @@ type NoteMeta = {
   type?: 'note' | 'folder'
   children?: NoteMeta[]
   collapsed?: boolean
+  properties?: NoteProperties
 }
 
 type TreeItem = NoteMeta
@@ -17,6 +22,203 @@ type NotePayload = NoteMeta & {
   content: string
 }
 
+type SearchResult = NoteMeta & {
+  score: number
+  snippet: string
+  matches: [number, number][]
+}
+
+type LinkRefactor =
+  | { type: 'renameNote'; id: string; newName: string; path?: string }
+  | { type: 'moveNote'; id: string; toPath?: string }
+  | { type: 'renameFolder'; path: string; newName: string }
+  | { type: 'moveFolder'; path: string; targetPath: string }
+
+type LinkUpdatePreview = {
+  id: string
+  title: string
+  changes: { line: number; before: string; after: string }[]
+}
+
+type UnresolvedLink = {
+  sourceId: string
+  sourceTitle: string
+  sourcePath?: string
+  target: string
+  raw: string
+  line: number
+}
+
+type LinkReport = {
+  unresolved: UnresolvedLink[]
+  orphans: NoteMeta[]
+}
+
+type Backlink = {
+  id: string
+  title: string
+  path?: string
+  references: { line: number; context: string }[]
+}
+
+type UnlinkedMention = {
+  id: string
+  title: string
+  path?: string
+  text: string
+  index: number
+  line: number
+  context: string
+}
+
+type ResolvedEmbed =
+  | { type: 'note'; id: string; title: string; path?: string; content: string }
+  | { type: 'file'; path: string }
+
+type TrashItem = {
+  id: string
+  type: 'note' | 'folder' | 'file'
+  name: string
+  originalPath: string
+  deletedAt: number
+  noteCount?: number
+}
+
+type TagCount = {
+  tag: string
+  count: number // Notes with the tag or a nested one
+}
+
+type ExportDocument = {
+  file: string // Output path without extension, relative to the export folder
+  title: string
+  html: string
+}
+
+type ExportResult = {
+  count: number
+  target: string // The written file, or the folder for several notes
+}
+
+type SiteFile = {
+  path: string // Relative to the site folder, with extension
+  content: string
+}
+
+type PublishPage = NoteMeta & {
+  content: string
+  tags: string[]
+  backlinks: string[] // Published notes linking to this one
+}
+
+type ImportSource = 'obsidian' | 'notion' | 'folder'
+type ImportConflictAction = 'rename' | 'overwrite' | 'skip'
+
+type ImportEntry = {
+  source: string
+  target: string // Vault-relative destination
+  kind: 'note' | 'attachment'
+  conflict: boolean // A file already exists at target
+  renamed: boolean // Renamed to avoid another imported file
+}
+
+type ImportPlan = {
+  id: string
+  source: ImportSource
+  origin: string
+  folder: string
+  entries: ImportEntry[]
+  skipped: string[]
+  remarks: string[]
+}
+
+type ImportSummary = {
+  imported: number
+  overwritten: number
+  renamed: number
+  skipped: number
+  errors: string[]
+}
+
+type AttachmentInfo = {
+  path: string
+  size: number
+  modifiedAt: number
+  notes: { id: string; title: string }[]
+}
+
+type GitSyncStatus = {
+  state: 'clean' | 'changes' | 'conflict' | 'not-repository'
+  branch: string
+  changes: number
+  ahead: number
+  behind: number
+  conflicts: string[]
+  hasRemote: boolean
+}
+
+type GitSyncResult = {
+  status: GitSyncStatus
+  committed: boolean
+  pulled: number
+  pushed: boolean
+}
+
+type GitConflict = {
+  path: string
+  base: string | null
+  ours: string | null
+  theirs: string | null
+}
+
+type GitConflictChoice = 'ours' | 'theirs' | 'merged'
+
+type SyncProviderType = 'folder' | 'webdav' | 'gist'
+
+type SyncRunResult = {
+  provider: string
+  uploaded: number
+  downloaded: number
+  deletedLocal: number
+  deletedRemote: number
+  conflicts: string[]
+}
+
+type PaneLayout = {
+  direction: 'vertical' | 'horizontal'
+  focused: number
+  sizes: number[]
+  panes: { tabs: { id: string; path?: string; title?: string }[]; activeId: string }[]
+}
+
+type VaultTask = {
+  noteId: string
+  noteTitle: string
+  path: string // Folder of the note, '' for the vault root
+  line: number // 0-based
+  text: string // Without the checkbox, due date and priority markers
+  done: boolean
+  due?: string // YYYY-MM-DD
+  priority?: 'high' | 'medium' | 'low'
+  tags: string[] // The note's tags plus those in the task text
+}
+
+type QueryCell = string | number | boolean | null | (string | number | boolean | null)[]
+
+type NoteQueryResult = {
+  kind: 'table' | 'list'
+  columns: { label: string; date: boolean }[] // date: values are timestamps
+  rows: { id: string; title: string; values: QueryCell[] }[]
+  error?: string // Why the query could not run
+}
+
+type NoteVersion = {
+  id: string
+  createdAt: number
+  size: number
+  reason: 'session' | 'large-edit' | 'restore' | 'delete' | 'link-update' | 'import'
+}
+
 type VaultInfo = {
   path: string
   name: string
@@ -36,15 +238,38 @@ type AppSettings = {
   lastOpenedNote?: string
   expandedFolders?: string[]
   openTabs?: { id: string; path?: string }[]
+  paneLayout?: PaneLayout
   pinnedTabs?: string[]
   activeId?: string
-  activeView?: 'notes' | 'search' | 'settings'
+  activeView?: 'notes' | 'search' | 'tags' | 'settings'
   windowBounds?: { width: number; height: number; x?: number; y?: number }
   deepseekApiKey?: string
   gistToken?: string
   gistId?: string
   rightPanelWidth?: number
   rightPanelVisible?: boolean
+  trashAutoPurgeDays?: number
+  templatesFolder?: string
+  attachmentFolder?: string
+  attachmentLocation?: 'vault' | 'note'
+  gitRemote?: string
+  gitBranch?: string
+  gitSyncInterval?: number
+  syncProvider?: SyncProviderType
+  syncFolderPath?: string
+  webdavUrl?: string
+  webdavUsername?: string
+  webdavPassword?: string
+  syncGistId?: string
+  dailyNoteFolder?: string
+  dailyNoteFormat?: string
+  dailyNoteTemplate?: string
+  weeklyNoteFolder?: string
+  weeklyNoteFormat?: string
+  weeklyNoteTemplate?: string
+  monthlyNoteFolder?: string
+  monthlyNoteFormat?: string
+  monthlyNoteTemplate?: string
 }
 
 type WindowApi = {
@@ -58,19 +283,64 @@ type WindowApi = {
 type NoteApi = {
   listNotes: () => Promise<TreeItem[]>
   loadNote: (id: string, path?: string) => Promise<NotePayload | null>
-  createNote: (title?: string, path?: string) => Promise<NoteMeta>
+  createNote: (title?: string, path?: string, content?: string) => Promise<NoteMeta>
+  getTemplates: () => Promise<NoteMeta[]>
   saveNote: (payload: NotePayload) => Promise<NoteMeta>
-  deleteNote: (id: string, path?: string) => Promise<{ id: string }>
-  moveNote: (id: string, fromPath?: string, toPath?: string) => Promise<NoteMeta>
-  renameNote: (id: string, newId: string, path?: string) => Promise<NoteMeta>
+  deleteNote: (id: string, path?: string, permanent?: boolean) => Promise<{ id: string }>
+  moveNote: (
+    id: string,
+    fromPath?: string,
+    toPath?: string,
+    updateLinks?: boolean
+  ) => Promise<NoteMeta>
+  renameNote: (id: string, newId: string, path?: string, updateLinks?: boolean) => Promise<NoteMeta>
+  previewLinkUpdates: (op: LinkRefactor) => Promise<LinkUpdatePreview[]>
   importNote: (filePath: string, folderPath?: string) => Promise<NoteMeta>
-  saveAsset: (buffer: ArrayBuffer, name: string) => Promise<string>
+  saveAsset: (buffer: ArrayBuffer, name: string, noteId?: string) => Promise<string>
+  getAttachments: () => Promise<AttachmentInfo[]>
+  renameAttachment: (from: string, to: string) => Promise<{ path: string; updated: number }>
+  deleteAttachments: (paths: string[]) => Promise<number>
   createFolder: (name: string, parentPath?: string) => Promise<{ name: string; path: string }>
-  renameFolder: (path: string, newName: string) => Promise<{ path: string }>
+  renameFolder: (path: string, newName: string, updateLinks?: boolean) => Promise<{ path: string }>
   deleteFolder: (path: string) => Promise<{ path: string }>
-  moveFolder: (sourcePath: string, targetPath: string) => Promise<{ path: string }>
-  searchNotes: (query: string) => Promise<NoteMeta[]>
+  moveFolder: (
+    sourcePath: string,
+    targetPath: string,
+    updateLinks?: boolean
+  ) => Promise<{ path: string }>
+  searchNotes: (query: string) => Promise<SearchResult[]>
   getBacklinks: (id: string) => Promise<string[]>
+  getLinkReport: () => Promise<LinkReport>
+  resolveEmbed: (target: string, sourceId?: string) => Promise<ResolvedEmbed | null>
+  getTrash: () => Promise<TrashItem[]>
+  restoreFromTrash: (
+    id: string
+  ) => Promise<{ type: 'note' | 'folder' | 'file'; path: string; noteId?: string }>
+  purgeFromTrash: (id: string) => Promise<void>
+  emptyTrash: () => Promise<void>
+  openPeriodicNote: (
+    period: 'daily' | 'weekly' | 'monthly',
+    offset?: number,
+    relativeTo?: string
+  ) => Promise<NoteMeta>
+  exportNotes: (docs: ExportDocument[], format: 'html' | 'pdf') => Promise<ExportResult | null>
+  chooseImportSource: (source: ImportSource) => Promise<string | null>
+  planImport: (source: ImportSource, origin: string, folder: string) => Promise<ImportPlan>
+  applyImport: (id: string, actions: Record<string, ImportConflictAction>) => Promise<ImportSummary>
+  getPublishPages: (folder: string) => Promise<PublishPage[]>
+  publishSite: (files: SiteFile[]) => Promise<ExportResult | null>
+  getTasks: () => Promise<VaultTask[]>
+  runQuery: (source: string) => Promise<NoteQueryResult>
+  getTags: () => Promise<TagCount[]>
+  getNoteTags: () => Promise<Record<string, string[]>>
+  getNotesWithTag: (tag: string) => Promise<NoteMeta[]>
+  renameTag: (from: string, to: string) => Promise<number>
+  getNoteHistory: (id: string) => Promise<NoteVersion[]>
+  getNoteVersion: (id: string, versionId: string) => Promise<string | null>
+  restoreNoteVersion: (id: string, versionId: string) => Promise<NoteMeta>
+  getBacklinkContexts: (id: string) => Promise<Backlink[]>
+  getUnlinkedMentions: (id: string) => Promise<UnlinkedMention[]>
+  linkMention: (mention: UnlinkedMention, targetId: string) => Promise<void>
   getGraph: () => Promise<{ links: { source: string; target: string }[] }>
   getVault: () => Promise<VaultInfo>
   chooseVault: () => Promise<VaultInfo>
@@ -91,6 +361,20 @@ type NoteApi = {
     gistId: string
   ) => Promise<{ success: boolean; message: string; data?: any }>
   syncTestToken: (token: string) => Promise<{ valid: boolean; message: string }>
+  getGitStatus: () => Promise<GitSyncStatus | null>
+  syncGit: () => Promise<GitSyncResult>
+  getGitConflicts: () => Promise<GitConflict[]>
+  resolveGitConflict: (
+    path: string,
+    choice: GitConflictChoice,
+    content?: string
+  ) => Promise<GitSyncStatus>
+  finishGitMerge: () => Promise<GitSyncResult>
+  abortGitMerge: () => Promise<GitSyncStatus>
+  runSync: () => Promise<SyncRunResult>
+  testSyncProvider: (
+    overrides?: Partial<AppSettings>
+  ) => Promise<{ valid: boolean; message: string }>
   window: WindowApi
   getAppIcon: () => Promise<string>
   getAppVersion: () => Promise<string>
@@ -1,6 +1,10 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 
+type PropertyScalar = string | number | boolean | null
+type PropertyValue = PropertyScalar | PropertyScalar[]
+type NoteProperties = Record<string, PropertyValue>
+
 type NoteMeta = {
   id: string
   title: string
@@ -9,6 +13,7 @@ type NoteMeta = {
   type?: 'note' | 'folder'
   children?: NoteMeta[]
   collapsed?: boolean
+  properties?: NoteProperties
 }
 
 type TreeItem = NoteMeta
@@ -17,6 +22,203 @@ type NotePayload = NoteMeta & {
   content: string
 }
 
+type SearchResult = NoteMeta & {
+  score: number
+  snippet: string
+  matches: [number, number][]
+}
+
+type LinkRefactor =
+  | { type: 'renameNote'; id: string; newName: string; path?: string }
+  | { type: 'moveNote'; id: string; toPath?: string }
+  | { type: 'renameFolder'; path: string; newName: string }
+  | { type: 'moveFolder'; path: string; targetPath: string }
+
+type LinkUpdatePreview = {
+  id: string
+  title: string
+  changes: { line: number; before: string; after: string }[]
+}
+
+type UnresolvedLink = {
+  sourceId: string
+  sourceTitle: string
+  sourcePath?: string
+  target: string
+  raw: string
+  line: number
+}
+
+type LinkReport = {
+  unresolved: UnresolvedLink[]
+  orphans: NoteMeta[]
+}
+
+type Backlink = {
+  id: string
+  title: string
+  path?: string
+  references: { line: number; context: string }[]
+}
+
+type UnlinkedMention = {
+  id: string
+  title: string
+  path?: string
+  text: string
+  index: number
+  line: number
+  context: string
+}
+
+type ResolvedEmbed =
+  | { type: 'note'; id: string; title: string; path?: string; content: string }
+  | { type: 'file'; path: string }
+
+type TrashItem = {
+  id: string
+  type: 'note' | 'folder' | 'file'
+  name: string
+  originalPath: string
+  deletedAt: number
+  noteCount?: number
+}
+
+type TagCount = {
+  tag: string
+  count: number // Notes with the tag or a nested one
+}
+
+type ExportDocument = {
+  file: string // Output path without extension, relative to the export folder
+  title: string
+  html: string
+}
+
+type ExportResult = {
+  count: number
+  target: string // The written file, or the folder for several notes
+}
+
+type SiteFile = {
+  path: string // Relative to the site folder, with extension
+  content: string
+}
+
+type PublishPage = NoteMeta & {
+  content: string
+  tags: string[]
+  backlinks: string[] // Published notes linking to this one
+}
+
+type ImportSource = 'obsidian' | 'notion' | 'folder'
+type ImportConflictAction = 'rename' | 'overwrite' | 'skip'
+
+type ImportEntry = {
+  source: string
+  target: string // Vault-relative destination
+  kind: 'note' | 'attachment'
+  conflict: boolean // A file already exists at target
+  renamed: boolean // Renamed to avoid another imported file
+}
+
+type ImportPlan = {
+  id: string
+  source: ImportSource
+  origin: string
+  folder: string
+  entries: ImportEntry[]
+  skipped: string[]
+  remarks: string[]
+}
+
+type ImportSummary = {
+  imported: number
+  overwritten: number
+  renamed: number
+  skipped: number
+  errors: string[]
+}
+
+type AttachmentInfo = {
+  path: string
+  size: number
+  modifiedAt: number
+  notes: { id: string; title: string }[]
+}
+
+type GitSyncStatus = {
+  state: 'clean' | 'changes' | 'conflict' | 'not-repository'
+  branch: string
+  changes: number
+  ahead: number
+  behind: number
+  conflicts: string[]
+  hasRemote: boolean
+}
+
+type GitSyncResult = {
+  status: GitSyncStatus
+  committed: boolean
+  pulled: number
+  pushed: boolean
+}
+
+type GitConflict = {
+  path: string
+  base: string | null
+  ours: string | null
+  theirs: string | null
+}
+
+type GitConflictChoice = 'ours' | 'theirs' | 'merged'
+
+type SyncProviderType = 'folder' | 'webdav' | 'gist'
+
+type SyncRunResult = {
+  provider: string
+  uploaded: number
+  downloaded: number
+  deletedLocal: number
+  deletedRemote: number
+  conflicts: string[]
+}
+
+type PaneLayout = {
+  direction: 'vertical' | 'horizontal'
+  focused: number
+  sizes: number[]
+  panes: { tabs: { id: string; path?: string; title?: string }[]; activeId: string }[]
+}
+
+type VaultTask = {
+  noteId: string
+  noteTitle: string
+  path: string // Folder of the note, '' for the vault root
+  line: number // 0-based
+  text: string // Without the checkbox, due date and priority markers
+  done: boolean
+  due?: string // YYYY-MM-DD
+  priority?: 'high' | 'medium' | 'low'
+  tags: string[] // The note's tags plus those in the task text
+}
+
+type QueryCell = string | number | boolean | null | (string | number | boolean | null)[]
+
+type NoteQueryResult = {
+  kind: 'table' | 'list'
+  columns: { label: string; date: boolean }[] // date: values are timestamps
+  rows: { id: string; title: string; values: QueryCell[] }[]
+  error?: string // Why the query could not run
+}
+
+type NoteVersion = {
+  id: string
+  createdAt: number
+  size: number
+  reason: 'session' | 'large-edit' | 'restore' | 'delete' | 'link-update' | 'import'
+}
+
 // Custom APIs for renderer
 type VaultInfo = {
   path: string
@@ -38,8 +240,9 @@ type AppSettings = {
   lastOpenedNote?: string
   expandedFolders?: string[]
   openTabs?: { id: string; path?: string }[]
+  paneLayout?: PaneLayout
   activeId?: string
-  activeView?: 'notes' | 'search' | 'settings'
+  activeView?: 'notes' | 'search' | 'tags' | 'settings'
   windowBounds?: { width: number; height: number; x?: number; y?: number }
   deepseekApiKey?: string
   gistToken?: string
@@ -49,6 +252,28 @@ type AppSettings = {
   // Caret settings
   caretEnabled?: boolean
   caretMaxWidth?: number
+  trashAutoPurgeDays?: number
+  templatesFolder?: string
+  attachmentFolder?: string
+  attachmentLocation?: 'vault' | 'note'
+  gitRemote?: string
+  gitBranch?: string
+  gitSyncInterval?: number
+  syncProvider?: SyncProviderType
+  syncFolderPath?: string
+  webdavUrl?: string
+  webdavUsername?: string
+  webdavPassword?: string
+  syncGistId?: string
+  dailyNoteFolder?: string
+  dailyNoteFormat?: string
+  dailyNoteTemplate?: string
+  weeklyNoteFolder?: string
+  weeklyNoteFormat?: string
+  weeklyNoteTemplate?: string
+  monthlyNoteFolder?: string
+  monthlyNoteFormat?: string
+  monthlyNoteTemplate?: string
 }
 
 const api = {
@@ -58,28 +283,48 @@ const api = {
   listNotes: (): Promise<TreeItem[]> => ipcRenderer.invoke('notes:list'),
   loadNote: (id: string, path?: string): Promise<NotePayload | null> =>
     ipcRenderer.invoke('notes:load', id, path),
-  createNote: (title?: string, path?: string): Promise<NoteMeta> =>
-    ipcRenderer.invoke('notes:create', title, path),
+  createNote: (title?: string, path?: string, content?: string): Promise<NoteMeta> =>
+    ipcRenderer.invoke('notes:create', title, path, content),
+  getTemplates: (): Promise<NoteMeta[]> => ipcRenderer.invoke('templates:list'),
   saveNote: (payload: NotePayload): Promise<NoteMeta> => ipcRenderer.invoke('notes:save', payload),
-  deleteNote: (id: string, path?: string): Promise<{ id: string }> =>
-    ipcRenderer.invoke('notes:delete', id, path),
-  moveNote: (id: string, fromPath?: string, toPath?: string): Promise<NoteMeta> =>
-    ipcRenderer.invoke('notes:move', id, fromPath, toPath),
-  renameNote: (id: string, newId: string, path?: string): Promise<NoteMeta> =>
-    ipcRenderer.invoke('notes:rename', id, newId, path),
+  deleteNote: (id: string, path?: string, permanent?: boolean): Promise<{ id: string }> =>
+    ipcRenderer.invoke('notes:delete', id, path, permanent),
+  moveNote: (
+    id: string,
+    fromPath?: string,
+    toPath?: string,
+    updateLinks?: boolean
+  ): Promise<NoteMeta> => ipcRenderer.invoke('notes:move', id, fromPath, toPath, updateLinks),
+  renameNote: (
+    id: string,
+    newId: string,
+    path?: string,
+    updateLinks?: boolean
+  ): Promise<NoteMeta> => ipcRenderer.invoke('notes:rename', id, newId, path, updateLinks),
+  previewLinkUpdates: (op: LinkRefactor): Promise<LinkUpdatePreview[]> =>
+    ipcRenderer.invoke('links:previewRefactor', op),
   importNote: (filePath: string, folderPath?: string): Promise<NoteMeta> =>
     ipcRenderer.invoke('notes:import', filePath, folderPath),
-  saveAsset: (buffer: ArrayBuffer, name: string): Promise<string> =>
-    ipcRenderer.invoke('assets:save', buffer, name),
+  saveAsset: (buffer: ArrayBuffer, name: string, noteId?: string): Promise<string> =>
+    ipcRenderer.invoke('assets:save', buffer, name, noteId),
+  getAttachments: (): Promise<AttachmentInfo[]> => ipcRenderer.invoke('attachments:list'),
+  renameAttachment: (from: string, to: string): Promise<{ path: string; updated: number }> =>
+    ipcRenderer.invoke('attachments:rename', from, to),
+  deleteAttachments: (paths: string[]): Promise<number> =>
+    ipcRenderer.invoke('attachments:delete', paths),
   createFolder: (name: string, parentPath?: string): Promise<{ name: string; path: string }> =>
     ipcRenderer.invoke('folder:create', name, parentPath),
 
   deleteFolder: (path: string): Promise<{ path: string }> =>
     ipcRenderer.invoke('folder:delete', path),
-  renameFolder: (path: string, newName: string): Promise<{ path: string }> =>
-    ipcRenderer.invoke('folder:rename', path, newName),
-  moveFolder: (sourcePath: string, targetPath: string): Promise<{ path: string }> =>
-    ipcRenderer.invoke('folder:move', sourcePath, targetPath),
+  renameFolder: (path: string, newName: string, updateLinks?: boolean): Promise<{ path: string }> =>
+    ipcRenderer.invoke('folder:rename', path, newName, updateLinks),
+  moveFolder: (
+    sourcePath: string,
+    targetPath: string,
+    updateLinks?: boolean
+  ): Promise<{ path: string }> =>
+    ipcRenderer.invoke('folder:move', sourcePath, targetPath, updateLinks),
   getVault: (): Promise<VaultInfo> => ipcRenderer.invoke('vault:get'),
   chooseVault: (): Promise<VaultInfo> => ipcRenderer.invoke('vault:choose'),
   setVault: (dir: string): Promise<VaultInfo> => ipcRenderer.invoke('vault:set', dir),
@@ -89,8 +334,56 @@ const api = {
   locateMovedVault: (originalPath: string): Promise<{ foundPath: string | null }> =>
     ipcRenderer.invoke('vault:locate', originalPath),
 
-  searchNotes: (query: string): Promise<NoteMeta[]> => ipcRenderer.invoke('notes:search', query),
+  searchNotes: (query: string): Promise<SearchResult[]> =>
+    ipcRenderer.invoke('notes:search', query),
   getBacklinks: (id: string): Promise<string[]> => ipcRenderer.invoke('notes:getBacklinks', id),
+  getLinkReport: (): Promise<LinkReport> => ipcRenderer.invoke('links:report'),
+  resolveEmbed: (target: string, sourceId?: string): Promise<ResolvedEmbed | null> =>
+    ipcRenderer.invoke('links:resolveEmbed', target, sourceId),
+  getTrash: (): Promise<TrashItem[]> => ipcRenderer.invoke('trash:list'),
+  restoreFromTrash: (
+    id: string
+  ): Promise<{ type: 'note' | 'folder' | 'file'; path: string; noteId?: string }> =>
+    ipcRenderer.invoke('trash:restore', id),
+  purgeFromTrash: (id: string): Promise<void> => ipcRenderer.invoke('trash:purge', id),
+  emptyTrash: (): Promise<void> => ipcRenderer.invoke('trash:empty'),
+  openPeriodicNote: (
+    period: 'daily' | 'weekly' | 'monthly',
+    offset?: number,
+    relativeTo?: string
+  ): Promise<NoteMeta> => ipcRenderer.invoke('notes:openPeriodic', period, offset, relativeTo),
+  exportNotes: (docs: ExportDocument[], format: 'html' | 'pdf'): Promise<ExportResult | null> =>
+    ipcRenderer.invoke('export:notes', docs, format),
+  chooseImportSource: (source: ImportSource): Promise<string | null> =>
+    ipcRenderer.invoke('import:choose', source),
+  planImport: (source: ImportSource, origin: string, folder: string): Promise<ImportPlan> =>
+    ipcRenderer.invoke('import:plan', source, origin, folder),
+  applyImport: (
+    id: string,
+    actions: Record<string, ImportConflictAction>
+  ): Promise<ImportSummary> => ipcRenderer.invoke('import:apply', id, actions),
+  getPublishPages: (folder: string): Promise<PublishPage[]> =>
+    ipcRenderer.invoke('publish:pages', folder),
+  publishSite: (files: SiteFile[]): Promise<ExportResult | null> =>
+    ipcRenderer.invoke('publish:write', files),
+  getTasks: (): Promise<VaultTask[]> => ipcRenderer.invoke('tasks:list'),
+  runQuery: (source: string): Promise<NoteQueryResult> => ipcRenderer.invoke('query:run', source),
+  getTags: (): Promise<TagCount[]> => ipcRenderer.invoke('tags:list'),
+  getNoteTags: (): Promise<Record<string, string[]>> => ipcRenderer.invoke('tags:by-note'),
+  getNotesWithTag: (tag: string): Promise<NoteMeta[]> => ipcRenderer.invoke('tags:notes', tag),
+  renameTag: (from: string, to: string): Promise<number> =>
+    ipcRenderer.invoke('tags:rename', from, to),
+  getNoteHistory: (id: string): Promise<NoteVersion[]> => ipcRenderer.invoke('history:list', id),
+  getNoteVersion: (id: string, versionId: string): Promise<string | null> =>
+    ipcRenderer.invoke('history:get', id, versionId),
+  restoreNoteVersion: (id: string, versionId: string): Promise<NoteMeta> =>
+    ipcRenderer.invoke('history:restore', id, versionId),
+  getBacklinkContexts: (id: string): Promise<Backlink[]> =>
+    ipcRenderer.invoke('links:backlinks', id),
+  getUnlinkedMentions: (id: string): Promise<UnlinkedMention[]> =>
+    ipcRenderer.invoke('links:unlinkedMentions', id),
+  linkMention: (mention: UnlinkedMention, targetId: string): Promise<void> =>
+    ipcRenderer.invoke('links:linkMention', mention, targetId),
   getGraph: (): Promise<{ links: { source: string; target: string }[] }> =>
     ipcRenderer.invoke('graph:get'),
 
@@ -122,6 +415,21 @@ const api = {
     ipcRenderer.invoke('sync:restore', token, gistId),
   syncTestToken: (token: string): Promise<{ valid: boolean; message: string }> =>
     ipcRenderer.invoke('sync:testToken', token),
+  getGitStatus: (): Promise<GitSyncStatus | null> => ipcRenderer.invoke('git:status'),
+  syncGit: (): Promise<GitSyncResult> => ipcRenderer.invoke('git:sync'),
+  getGitConflicts: (): Promise<GitConflict[]> => ipcRenderer.invoke('git:conflicts'),
+  resolveGitConflict: (
+    path: string,
+    choice: GitConflictChoice,
+    content?: string
+  ): Promise<GitSyncStatus> => ipcRenderer.invoke('git:resolve', path, choice, content),
+  finishGitMerge: (): Promise<GitSyncResult> => ipcRenderer.invoke('git:finishMerge'),
+  abortGitMerge: (): Promise<GitSyncStatus> => ipcRenderer.invoke('git:abortMerge'),
+  runSync: (): Promise<SyncRunResult> => ipcRenderer.invoke('sync:run'),
+  testSyncProvider: (
+    overrides?: Partial<AppSettings>
+  ): Promise<{ valid: boolean; message: string }> =>
+    ipcRenderer.invoke('sync:testProvider', overrides),
   sessions: {
     backup: (): Promise<{ success: boolean; message?: string; path?: string }> =>
       ipcRenderer.invoke('sessions:backup'),
@@ -130,8 +438,8 @@ const api = {
   },
   onVaultChanged: (callback: (data: any) => void) => {
     const subscription = (_event: any, data: any) => callback(data)
-    ipcRenderer.on('vault:changed', subscription)
-    return () => ipcRenderer.removeListener('vault:changed', subscription)
+    ipcRenderer.on('vault-changed', subscription)
+    return () => ipcRenderer.removeListener('vault-changed', subscription)
   },
   onNoteOpened: (_callback: (id: string) => void) => {} // Unused but maybe needed for typing
 }
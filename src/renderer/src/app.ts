@@ -1,5 +1,16 @@
 import { state } from './core/state'
-import type { NotePayload, NoteMeta, TreeItem, AppSettings } from './core/types'
+import type {
+  NotePayload,
+  NoteMeta,
+  TreeItem,
+  AppSettings,
+  LinkRefactor,
+  UnlinkedMention,
+  TrashItem,
+  ExportFormat,
+  GitSyncResult,
+  SyncRunResult
+} from './core/types'
 import {
   sortNotes,
   timeAgo,
@@ -12,8 +23,13 @@ import { keyboardManager } from './core/keyboardManager'
 import { modalManager } from './components/modal/modal'
 import { ActivityBar } from './components/activitybar/activitybar'
 import { SidebarTree } from './components/sidebar/sidebar-tree'
-import { TabBar } from './components/tabbar/tabbar'
-import { EditorComponent } from './components/editor/editor'
+import type { TabBar } from './components/tabbar/tabbar'
+import type { EditorComponent } from './components/editor/editor'
+import {
+  EditorPanes,
+  type EditorPane,
+  type PaneDirection
+} from './components/editor-panes/editor-panes'
 import { StatusBar } from './components/statusbar/statusbar'
 import { RightBar } from './components/rightbar/rightbar'
 import { detailsModal } from './components/details-modal/details-modal'
@@ -26,6 +42,16 @@ import { AISettingsModal } from './components/settings/ai-settings-modal'
 import { FuzzyFinder } from './components/fuzzy-finder/fuzzy-finder'
 import { ConsoleComponent } from './components/console/console'
 import { GraphView } from './components/graph/graph'
+import { LinkReportView } from './components/link-report/link-report'
+import { AttachmentsView } from './components/attachments/attachments'
+import { TasksView } from './components/tasks/tasks'
+import { GitMergeView } from './components/git-merge/git-merge'
+import { HistoryView } from './components/history/history'
+import { TrashPane } from './components/trash/trash'
+import { TagsPane } from './components/tags/tags'
+import { BacklinksPane } from './components/backlinks/backlinks'
+import { TemplateModal } from './components/template-modal/template-modal'
+import { importWizard } from './components/import-wizard/import-wizard'
 import { themeManager } from './core/themeManager'
 import { ErrorHandler } from './utils/error-handler'
 import { notificationManager } from './components/notification/notification'
@@ -36,9 +62,28 @@ import { TabHandlersImpl } from './handlers/tabHandlers'
 import { WikiLinkService } from './components/wikilink/wikilinkService'
 import { PreviewHandlers } from './handlers/previewHandlers'
 import { vaultService } from './services/vaultService'
+import { exportService } from './services/exportService'
+import { gitSyncService } from './services/sync/gitSyncService'
+import { syncService } from './services/sync/syncService'
 import { VaultPicker } from './components/vault-picker/vault-picker'
+import { linkUpdateModal } from './components/link-update-modal/link-update-modal'
 import { ragService } from './services/rag/ragService'
 import { aiStatusManager } from './core/aiStatusManager'
+import { renderTemplate, templatePrompts } from '../../shared/templates'
+import { setTaskDone } from '../../shared/tasks'
+
+/**
+ * File name of a note without its folder or extension. Titles can come from
+ * frontmatter, so renames and file-type checks go by this instead.
+ */
+function fileName(id: string): string {
+  return id.split('/').pop() || id
+}
+
+function isMarkdownNote(note: NoteMeta): boolean {
+  const name = fileName(note.id)
+  return name.endsWith('.md') || !name.includes('.')
+}
 
 function buildTree(items: NoteMeta[]): TreeItem[] {
   const root: TreeItem[] = []
@@ -172,8 +217,9 @@ class App {
 
   private activityBar: ActivityBar
   private sidebar: SidebarTree
-  private tabBar: TabBar
-  private editor: EditorComponent
+  private editorPanes: EditorPanes
+  // Pane switches, splits and moves run one at a time; each may await a save
+  private paneTask: Promise<void> = Promise.resolve()
   private statusBar: StatusBar
   private settingsView: SettingsView
   private rightBar: RightBar
@@ -182,6 +228,15 @@ class App {
   private aiSettingsModal: AISettingsModal
   private fuzzyFinder: FuzzyFinder
   private graphView: GraphView
+  private linkReport: LinkReportView
+  private attachmentsView: AttachmentsView
+  private tasksView: TasksView
+  private gitMergeView: GitMergeView
+  private historyView: HistoryView
+  private trashPane: TrashPane
+  private tagsPane: TagsPane
+  private backlinksPane: BacklinksPane
+  private templateModal = new TemplateModal()
   private tabHandlers!: TabHandlersImpl
   private wikiLinkService!: WikiLinkService
   private previewHandlers!: PreviewHandlers
@@ -189,11 +244,19 @@ class App {
   private hubConsole: ConsoleComponent
   private pendingPersist?: number
 
+  // The focused split pane's tab bar and editor
+  private get tabBar(): TabBar {
+    return this.editorPanes.getFocused().tabBar
+  }
+
+  private get editor(): EditorComponent {
+    return this.editorPanes.getFocused().editor
+  }
+
   constructor() {
     this.activityBar = new ActivityBar('activityBar')
     this.sidebar = new SidebarTree('sidebar')
-    this.tabBar = new TabBar('tabBar')
-    this.editor = new EditorComponent('editorContainer')
+    this.editorPanes = new EditorPanes('editorPanes')
     this.statusBar = new StatusBar('statusBar')
     this.attachSyncEvents()
     this.settingsView = new SettingsView('settingsHost')
@@ -203,10 +266,77 @@ class App {
     this.rightBar = new RightBar('rightPanel', this.aiSettingsModal)
     this.fuzzyFinder = new FuzzyFinder('app')
     this.graphView = new GraphView() // Mount to app container
+    this.linkReport = new LinkReportView({
+      openNote: async (id, path, line) => {
+        await this.openNote(id, path)
+        if (line) this.editor.revealLine(line)
+      },
+      createNote: (target) => this.createNoteFromLink(target)
+    })
+    this.attachmentsView = new AttachmentsView({
+      openNote: async (id) => {
+        const note = state.notes.find((n) => n.id === id)
+        await this.openNote(id, note?.path)
+      },
+      rename: (from, to) => this.renameAttachment(from, to),
+      trash: (paths) => this.trashAttachments(paths)
+    })
+    this.tasksView = new TasksView({
+      openNote: async (id, line) => {
+        const note = state.notes.find((n) => n.id === id)
+        await this.openNote(id, note?.path)
+        this.editor.revealLine(line + 1)
+      },
+      toggle: (task, done) => this.toggleTask(task.noteId, task.line, done)
+    })
+    this.gitMergeView = new GitMergeView({
+      changed: async () => {
+        await this.refreshNotes()
+        await this.reloadActiveNote()
+      }
+    })
+    gitSyncService.onChange((snapshot) => this.statusBar.setGitStatus(snapshot))
+    gitSyncService.setHooks({
+      beforeSync: async () => {
+        const pending = this.editor.takePendingSave()
+        if (pending) await this.saveNote(pending)
+      },
+      synced: (result) => this.handleGitSynced(result)
+    })
+    syncService.setHooks({
+      beforeSync: async () => {
+        const pending = this.editor.takePendingSave()
+        if (pending) await this.saveNote(pending)
+      },
+      synced: (result) => this.handleFilesSynced(result)
+    })
+    this.historyView = new HistoryView({
+      getCurrentContent: async (id) =>
+        id === state.activeId
+          ? this.editor.getValue()
+          : ((await window.api.loadNote(id))?.content ?? ''),
+      restore: (id, versionId) => this.restoreNoteVersion(id, versionId)
+    })
+    this.trashPane = new TrashPane('trashHost', {
+      restore: (item) => this.restoreFromTrash(item),
+      purge: (item) => this.purgeFromTrash(item),
+      empty: (items) => this.emptyTrash(items)
+    })
+    this.tagsPane = new TagsPane('tagsHost', {
+      openNote: (id, path) => this.openNote(id, path),
+      renameTag: (tag, existing) => this.promptRenameTag(tag, existing)
+    })
+    this.backlinksPane = new BacklinksPane('backlinksHost', {
+      openNote: async (id, path, line) => {
+        await this.openNote(id, path)
+        if (line) this.editor.revealLine(line)
+      },
+      linkMention: (mention, targetId) => this.linkMention(mention, targetId)
+    })
     this.tabHandlers = new TabHandlersImpl(
-      this.tabBar,
+      () => this.tabBar,
       this.statusBar,
-      this.editor,
+      () => this.editor,
       () => this.persistWorkspace(),
       () => this.updateViewVisibility()
     )
@@ -214,7 +344,8 @@ class App {
       openNote: (id, path) => this.openNote(id, path),
       createNote: (title, path) => this.createNote(title, path),
       getEditorValue: () => this.editor.getValue(),
-      setStatus: (message) => this.statusBar.setStatus(message)
+      setStatus: (message) => this.statusBar.setStatus(message),
+      revealLine: (line) => this.editor.revealLine(line)
     })
     this.previewHandlers = new PreviewHandlers({
       showPreview: (content) => this.editor.showPreview(content),
@@ -239,7 +370,7 @@ class App {
     this.wireUpdateEvents()
     // Ensure editor resizes correctly when window size changes
     window.addEventListener('resize', () => {
-      this.editor.layout()
+      this.editorPanes.layout()
     })
 
     // Listen for delete active note event from editor
@@ -261,14 +392,13 @@ class App {
       this.hubConsole.toggle()
     })
 
-    this.editor.setCursorPositionChangeHandler(() => this.schedulePersist())
-
     // Emergency save on reload/close
     window.addEventListener('beforeunload', () => {
       // Force immediate save of everything
       const settings = {
         openTabs: state.openTabs.map((t) => ({ id: t.id, path: t.path })),
         activeId: state.activeId,
+        paneLayout: this.editorPanes.toLayout(),
         pinnedTabs: Array.from(state.pinnedTabs),
         cursorPositions: Object.fromEntries(state.cursorPositions)
       }
@@ -340,11 +470,14 @@ class App {
         return
       }
 
-      const isSidebarView = view === 'notes' || view === 'search'
+      const isSidebarView = view === 'notes' || view === 'search' || view === 'tags'
       this.sidebar.setVisible(isSidebarView)
 
       if (view === 'search') {
         this.sidebar.setMode('search')
+      } else if (view === 'tags') {
+        this.sidebar.setMode('tags')
+        void this.tagsPane.refresh()
       } else if (view === 'notes') {
         this.sidebar.setMode('explorer')
       }
@@ -354,7 +487,7 @@ class App {
       const startTime = Date.now()
       const duration = 250 // slightly longer than 200ms transition
       const layoutLoop = (): void => {
-        this.editor.layout()
+        this.editorPanes.layout()
         if (Date.now() - startTime < duration) {
           requestAnimationFrame(layoutLoop)
         }
@@ -368,7 +501,11 @@ class App {
     // this.sidebar.setNoteSelectHandler((id, path) => void this.openNote(id, path, 'sidebar'))
     this.sidebar.setNoteSelectHandler((id, path) => void this.openNote(id, path, 'editor'))
     this.sidebar.setNoteCreateHandler((path) => void this.createNote(undefined, path))
+    this.sidebar.setNoteFromTemplateHandler((path) => void this.newNoteFromTemplate(path))
+    this.sidebar.setExportHandler((items, format) => void this.exportItems(items, format))
+    this.sidebar.setPublishHandler((folder) => void this.publishSite(folder))
     this.sidebar.setNoteDeleteHandler((id, path) => void this.deleteNote(id, path))
+    this.sidebar.setNoteHistoryHandler((id) => this.openNoteHistory(id))
     this.sidebar.setItemsDeleteHandler((items) => void this.deleteItems(items))
     this.sidebar.setNoteMoveHandler((id, from, to) => this.handleNoteMove(id, from, to))
     this.sidebar.setFolderMoveHandler((source, target) => this.handleFolderMove(source, target))
@@ -419,6 +556,180 @@ class App {
         description: 'Reload the application window',
         handler: () => window.location.reload()
       },
+      {
+        id: 'link-report',
+        label: 'Link Health Report',
+        description: 'Find unresolved links and orphan notes',
+        handler: () => void this.linkReport.open()
+      },
+      {
+        id: 'show-tasks',
+        label: 'Show Tasks',
+        description: 'Open and completed tasks across the vault, by note or due date',
+        handler: () => void this.tasksView.open()
+      },
+      {
+        id: 'show-attachments',
+        label: 'Manage Attachments',
+        description: 'See which notes use each file, rename files and clean up unused ones',
+        handler: () => void this.attachmentsView.open()
+      },
+      {
+        id: 'note-history',
+        label: 'Show Version History',
+        description: 'Browse, compare and restore earlier versions of the active note',
+        handler: () => this.openNoteHistory(state.activeId)
+      },
+      {
+        id: 'toggle-live-preview',
+        label: 'Toggle Live Preview',
+        description: 'Show a preview beside the editor that follows typing and scrolling',
+        handler: () => this.editor.toggleLivePreview()
+      },
+      {
+        id: 'split-editor-right',
+        label: 'Split Editor Right',
+        description: 'Open the active note in a new pane beside the current one',
+        handler: () => void this.splitPane('vertical')
+      },
+      {
+        id: 'split-editor-down',
+        label: 'Split Editor Down',
+        description: 'Open the active note in a new pane below the current one',
+        handler: () => void this.splitPane('horizontal')
+      },
+      {
+        id: 'focus-next-pane',
+        label: 'Focus Next Editor Pane',
+        description: 'Move focus to the next split pane',
+        handler: () => void this.focusNextPane()
+      },
+      {
+        id: 'close-editor-pane',
+        label: 'Close Editor Pane',
+        description: 'Close the focused split pane and its tabs',
+        handler: () => void this.closePane()
+      },
+      {
+        id: 'new-note-from-template',
+        label: 'New Note from Template',
+        description: 'Create a note from a template in the templates folder',
+        handler: () => void this.newNoteFromTemplate()
+      },
+      {
+        id: 'insert-template',
+        label: 'Insert Template',
+        description: 'Insert a template at the cursor in the active note',
+        handler: () => void this.insertTemplate()
+      },
+      {
+        id: 'export-html',
+        label: 'Export Note as HTML',
+        description: 'Save the active note as a standalone HTML file',
+        handler: () => void this.exportItems([{ id: state.activeId, type: 'note' }], 'html')
+      },
+      {
+        id: 'export-pdf',
+        label: 'Export Note as PDF',
+        description: 'Save the active note as a PDF',
+        handler: () => void this.exportItems([{ id: state.activeId, type: 'note' }], 'pdf')
+      },
+      {
+        id: 'publish-site',
+        label: 'Publish Vault as Website',
+        description: 'Export the vault as a static site with tag and search indexes',
+        handler: () => void this.publishSite('')
+      },
+      {
+        id: 'import-notes',
+        label: 'Import Notes...',
+        description: 'Import an Obsidian vault, a Notion export or a folder of Markdown files',
+        handler: () => void this.importNotes()
+      },
+      {
+        id: 'daily-note-today',
+        label: "Open Today's Note",
+        description: 'Open or create the daily note for today',
+        handler: () => this.openPeriodicNote('daily')
+      },
+      {
+        id: 'daily-note-yesterday',
+        label: "Open Yesterday's Note",
+        description: 'Open or create the daily note for yesterday',
+        handler: () => this.openPeriodicNote('daily', -1)
+      },
+      {
+        id: 'daily-note-tomorrow',
+        label: "Open Tomorrow's Note",
+        description: 'Open or create the daily note for tomorrow',
+        handler: () => this.openPeriodicNote('daily', 1)
+      },
+      {
+        id: 'daily-note-previous',
+        label: 'Previous Daily Note',
+        description: 'Go to the day before the open daily note',
+        handler: () => this.openPeriodicNote('daily', -1, true)
+      },
+      {
+        id: 'daily-note-next',
+        label: 'Next Daily Note',
+        description: 'Go to the day after the open daily note',
+        handler: () => this.openPeriodicNote('daily', 1, true)
+      },
+      {
+        id: 'weekly-note',
+        label: "Open This Week's Note",
+        description: 'Open or create the weekly note',
+        handler: () => this.openPeriodicNote('weekly')
+      },
+      {
+        id: 'weekly-note-previous',
+        label: 'Previous Weekly Note',
+        description: 'Go to the week before the open weekly note',
+        handler: () => this.openPeriodicNote('weekly', -1, true)
+      },
+      {
+        id: 'weekly-note-next',
+        label: 'Next Weekly Note',
+        description: 'Go to the week after the open weekly note',
+        handler: () => this.openPeriodicNote('weekly', 1, true)
+      },
+      {
+        id: 'monthly-note',
+        label: "Open This Month's Note",
+        description: 'Open or create the monthly note',
+        handler: () => this.openPeriodicNote('monthly')
+      },
+      {
+        id: 'monthly-note-previous',
+        label: 'Previous Monthly Note',
+        description: 'Go to the month before the open monthly note',
+        handler: () => this.openPeriodicNote('monthly', -1, true)
+      },
+      {
+        id: 'monthly-note-next',
+        label: 'Next Monthly Note',
+        description: 'Go to the month after the open monthly note',
+        handler: () => this.openPeriodicNote('monthly', 1, true)
+      },
+      {
+        id: 'show-tags',
+        label: 'Show Tags',
+        description: 'Browse the tags used across the vault',
+        handler: () => this.activityBar.setActiveView('tags')
+      },
+      {
+        id: 'sync-vault',
+        label: 'Sync Vault',
+        description: 'Sync notes with the folder, WebDAV server or Gist chosen in settings',
+        handler: () => this.runFileSync()
+      },
+      {
+        id: 'git-sync',
+        label: 'Sync with Git',
+        description: 'Commit the vault, pull from and push to the configured remote',
+        handler: () => this.runGitSync()
+      },
       {
         id: 'backup-gist',
         label: 'Backup to Gist',
@@ -464,47 +775,11 @@ class App {
       }
     ])
 
-    // Tab handlers
-    this.tabBar.setTabSelectHandler(async (id) => {
-      // Close any preview tabs when switching to a different tab
-      this.previewHandlers.closePreviewTabs(id)
-
-      if (id === 'settings') {
-        await this.openSettings()
-      } else if (this.previewHandlers.isPreviewTab(id)) {
-        // Handle preview tab
-        const noteId = this.previewHandlers.getNoteIdFromPreviewTab(id)
-        const tab = state.openTabs.find((t) => t.id === id)
-        if (tab) {
-          await this.previewHandlers.showPreviewTab(noteId, tab.path)
-        }
-      } else {
-        const tab = state.openTabs.find((t) => t.id === id)
-        if (tab) await this.openNote(tab.id, tab.path)
-      }
-    })
-    this.tabBar.setTabCloseHandler(
-      (id) =>
-        void this.tabHandlers.closeTab(
-          id,
-          false,
-          async (id, path) => {
-            await window.api.deleteNote(id, path)
-          },
-          () => this.refreshNotes(),
-          (id, path) => this.openNote(id, path),
-          () => this.editor.showEmpty()
-        )
-    )
-    this.tabBar.setTabContextMenuHandler((id, e) => {
-      this.tabHandlers.handleTabContextMenu(
-        id,
-        e,
-        (id, force) => this.closeTab(id, force),
-        (id) => this.closeOtherTabs(id),
-        () => this.closeAllTabs()
-      )
-    })
+    // Split panes: every pane gets its own tab bar and editor handlers
+    this.editorPanes.setFocusRequestHandler((pane) => void this.focusPane(pane))
+    this.editorPanes.setTabDropHandler((id, from, to) => void this.moveTabToPane(id, from, to))
+    this.editorPanes.setResizeHandler(() => this.schedulePersist())
+    this.editorPanes.setPaneCreatedHandler((pane) => this.setupPane(pane))
 
     this.settingsView.setVaultCallbacks({
       onVaultChange: () => this.chooseVault(),
@@ -518,11 +793,15 @@ class App {
       if (state.settings) {
         state.settings = { ...state.settings, ...newSettings }
         if (state.settings) {
-          this.editor.applySettings(state.settings)
+          this.editorPanes.applySettings(state.settings)
         }
         void window.api.updateSettings(newSettings as Partial<AppSettings>)
         this.statusBar.setStatus('Settings auto-saved')
 
+        if (newSettings.gitSyncInterval !== undefined) {
+          gitSyncService.schedule(state.settings.gitSyncInterval ?? 0)
+        }
+
         // Refresh API key in rightbar if it was updated
         if (newSettings.deepseekApiKey !== undefined) {
           await aiService.loadApiKey()
@@ -531,32 +810,9 @@ class App {
       }
     })
 
-    // Editor handlers
-    this.editor.setContentChangeHandler(() => {
-      this.statusBar.setStatus('Unsaved changes')
-      this.tabBar.render()
-      this.sidebar.updateDirtyState()
-    })
-
-    this.editor.setSaveHandler((payload) => void this.saveNote(payload))
-    this.editor.setDropHandler((path, isFile) => this.handleDrop(path, isFile))
-    this.editor.setLinkClickHandler((target) => void this.wikiLinkService.openWikiLink(target))
-    this.editor.setHoverContentHandler((target) => this.wikiLinkService.getNotePreview(target))
-    this.editor.setContextMenuHandler((e) => this.handleEditorContextMenu(e))
-    this.editor.setTabCloseHandler(() => {
-      if (state.activeId) {
-        if (state.pinnedTabs.has(state.activeId)) {
-          this.statusBar.setStatus('Pinned tab cannot be closed')
-          return
-        }
-        void this.closeTab(state.activeId)
-      }
-    })
-    this.editor.attachKeyboardShortcuts()
-
     this.themeModal.setThemeChangeHandler((themeId) => {
       themeManager.setTheme(themeId)
-      this.editor.applySettings({ ...state.settings, theme: themeId })
+      this.editorPanes.applySettings({ ...state.settings, theme: themeId })
     })
 
     // Set editor context for AI chat
@@ -584,6 +840,224 @@ class App {
     await this.tabHandlers.closeAllTabs((id, force) => this.closeTab(id, force))
   }
 
+  /**
+   * Wire a split pane's tab bar and editor. Actions move focus to the pane
+   * first, so they run against its tabs.
+   */
+  private setupPane(pane: EditorPane): void {
+    const { tabBar, editor } = pane
+
+    tabBar.setTabSelectHandler(async (id) => {
+      await this.focusPane(pane)
+      // Close any preview tabs when switching to a different tab
+      this.previewHandlers.closePreviewTabs(id)
+
+      if (id === 'settings') {
+        await this.openSettings()
+      } else if (this.previewHandlers.isPreviewTab(id)) {
+        // Handle preview tab
+        const noteId = this.previewHandlers.getNoteIdFromPreviewTab(id)
+        const tab = state.openTabs.find((t) => t.id === id)
+        if (tab) {
+          await this.previewHandlers.showPreviewTab(noteId, tab.path)
+        }
+      } else {
+        const tab = state.openTabs.find((t) => t.id === id)
+        if (tab) await this.openNote(tab.id, tab.path)
+      }
+    })
+    tabBar.setTabCloseHandler(async (id) => {
+      await this.focusPane(pane)
+      await this.closeTab(id)
+    })
+    tabBar.setTabContextMenuHandler(async (id, e) => {
+      await this.focusPane(pane)
+      this.tabHandlers.handleTabContextMenu(
+        id,
+        e,
+        (id, force) => this.closeTab(id, force),
+        (id) => this.closeOtherTabs(id),
+        () => this.closeAllTabs(),
+        (id, direction) => this.splitPane(direction, id)
+      )
+    })
+
+    editor.setContentChangeHandler(() => {
+      this.statusBar.setStatus('Unsaved changes')
+      tabBar.render()
+      this.sidebar.updateDirtyState()
+    })
+    editor.setSaveHandler((payload) => void this.saveNote(payload))
+    editor.setDropHandler(async (path, isFile) => {
+      await this.focusPane(pane)
+      this.handleDrop(path, isFile)
+    })
+    editor.setLinkClickHandler(async (target) => {
+      await this.focusPane(pane)
+      await this.wikiLinkService.openWikiLink(target)
+    })
+    editor.setHoverContentHandler((target) => this.wikiLinkService.getNotePreview(target))
+    editor.setContextMenuHandler(async (e) => {
+      await this.focusPane(pane)
+      this.handleEditorContextMenu(e)
+    })
+    editor.setTabCloseHandler(() => {
+      if (state.activeId) {
+        if (state.pinnedTabs.has(state.activeId)) {
+          this.statusBar.setStatus('Pinned tab cannot be closed')
+          return
+        }
+        void this.closeTab(state.activeId)
+      }
+    })
+    editor.setCursorPositionChangeHandler(() => this.schedulePersist())
+    editor.setTaskToggleHandler(async (line, done) => {
+      await this.focusPane(pane)
+      const id = state.activeId
+      const noteId = this.previewHandlers.isPreviewTab(id)
+        ? this.previewHandlers.getNoteIdFromPreviewTab(id)
+        : id
+      try {
+        await this.toggleTask(noteId, line, done)
+      } catch (error) {
+        notificationManager.show((error as Error).message, 'error', { title: 'Task Not Updated' })
+      }
+    })
+    editor.attachKeyboardShortcuts()
+    if (state.settings) editor.applySettings(state.settings)
+  }
+
+  private queuePaneTask(task: () => Promise<void>): Promise<void> {
+    this.paneTask = this.paneTask
+      .then(task)
+      .catch((error) => console.error('[Panes] Pane update failed', error))
+    return this.paneTask
+  }
+
+  private focusPane(pane: EditorPane): Promise<void> {
+    return this.queuePaneTask(() => this.switchPane(pane))
+  }
+
+  /**
+   * Give `pane` focus. The unsaved edit is written first, while the state it
+   * belongs to is still the global one.
+   */
+  private async switchPane(pane: EditorPane): Promise<void> {
+    if (pane === this.editorPanes.getFocused()) return
+    if (!this.editorPanes.getPanes().includes(pane)) return
+    const pending = this.editor.takePendingSave()
+    if (pending) await this.saveNote(pending)
+    this.editorPanes.focus(pane)
+    await this.activatePane()
+  }
+
+  private async activatePane(): Promise<void> {
+    const note = state.notes.find((n) => n.id === state.activeId)
+    if (note && note.updatedAt > state.lastSavedAt) {
+      // Not loaded yet (restored layout) or saved from another pane since
+      await this.openNote(note.id, note.path, 'none')
+      return
+    }
+    if (!state.activeId) this.editor.showEmpty()
+    this.updateViewVisibility()
+    this.sidebar.updateSelection(state.activeId)
+    this.sidebar.updateDirtyState()
+    this.schedulePersist()
+  }
+
+  /**
+   * Open a tab (the active one by default) in a new pane beside (vertical)
+   * or below (horizontal) the focused pane.
+   */
+  private splitPane(direction: PaneDirection, id = state.activeId): Promise<void> {
+    return this.queuePaneTask(async () => {
+      if (!this.editorPanes.canSplit()) {
+        this.statusBar.setStatus('No room for another pane')
+        return
+      }
+      const tab = state.openTabs.find((t) => t.id === id)
+      const pending = this.editor.takePendingSave()
+      if (pending) await this.saveNote(pending)
+
+      const pane = this.editorPanes.split(direction)
+      if (!pane) return
+      await this.switchPane(pane)
+      if (tab?.id === 'settings') {
+        await this.openSettings()
+      } else if (tab && state.notes.some((n) => n.id === tab.id)) {
+        await this.openNote(tab.id, tab.path)
+      }
+      void this.persistWorkspace()
+    })
+  }
+
+  /**
+   * Close a pane and its tabs. Does nothing when it is the only one.
+   */
+  private closePane(pane = this.editorPanes.getFocused()): Promise<void> {
+    return this.queuePaneTask(async () => {
+      if (this.editorPanes.getPanes().length < 2) return
+      await this.switchPane(pane)
+      const pending = this.editor.takePendingSave()
+      if (pending) await this.saveNote(pending)
+      this.editorPanes.remove(pane)
+      await this.activatePane()
+      this.editorPanes.layout()
+      void this.persistWorkspace()
+    })
+  }
+
+  private focusNextPane(): Promise<void> {
+    const panes = this.editorPanes.getPanes()
+    const next = panes[(panes.indexOf(this.editorPanes.getFocused()) + 1) % panes.length]
+    return this.focusPane(next).then(() => this.editor.focus())
+  }
+
+  /**
+   * Move a tab dropped on another pane. It leaves the source group without
+   * the cleanup of closing (new notes stay, pins are kept); a secondary pane
+   * left without tabs closes.
+   */
+  private moveTabToPane(id: string, from: EditorPane, to: EditorPane): Promise<void> {
+    return this.queuePaneTask(async () => {
+      if (this.previewHandlers.isPreviewTab(id)) return
+      await this.switchPane(from)
+      const tab = state.openTabs.find((t) => t.id === id)
+      if (!tab) return
+      const pending = this.editor.takePendingSave()
+      if (pending) await this.saveNote(pending)
+
+      const index = state.openTabs.indexOf(tab)
+      state.openTabs = state.openTabs.filter((t) => t.id !== id)
+      if (state.openTabs.length === 0) {
+        state.activeId = ''
+        this.editorPanes.remove(from)
+      } else if (state.activeId === id) {
+        const next = state.openTabs[Math.min(index, state.openTabs.length - 1)]
+        const note = state.notes.find((n) => n.id === next.id)
+        state.activeId = next.id
+        if (note) await this.openNote(note.id, note.path, 'none')
+        else this.updateViewVisibility()
+      }
+      this.tabBar.render()
+
+      await this.switchPane(to)
+      if (id === 'settings') {
+        await this.openSettings()
+      } else {
+        await this.openNote(tab.id, tab.path)
+      }
+      this.editorPanes.renderTabs()
+      void this.persistWorkspace()
+    })
+  }
+
+  // The last tab of a pane was closed; a secondary pane goes away with it
+  private handlePaneEmptied(): void {
+    this.editor.showEmpty()
+    if (this.editorPanes.getPanes().length > 1) void this.closePane()
+  }
+
   // ...
 
   private schedulePersist(): void {
@@ -603,6 +1077,7 @@ class App {
       await window.api.updateSettings({
         openTabs: state.openTabs.map((t) => ({ id: t.id, path: t.path, title: t.title })),
         activeId: state.activeId,
+        paneLayout: this.editorPanes.toLayout(),
         pinnedTabs: Array.from(state.pinnedTabs),
         cursorPositions: Object.fromEntries(state.cursorPositions)
       } as any)
@@ -635,11 +1110,11 @@ class App {
       // Restore active view first
       if (
         state.settings?.activeView &&
-        ['notes', 'search', 'settings'].includes(state.settings.activeView)
+        ['notes', 'search', 'tags', 'settings'].includes(state.settings.activeView)
       ) {
         setTimeout(() => {
           this.activityBar.setActiveView(
-            state.settings!.activeView as 'notes' | 'search' | 'settings'
+            state.settings!.activeView as 'notes' | 'search' | 'tags' | 'settings'
           )
           // Restore sidebar visibility AFTER active view is set (with additional delay to ensure view change handler completes)
           setTimeout(() => {
@@ -657,9 +1132,11 @@ class App {
       }
 
       if (state.settings) {
-        this.editor.applySettings(state.settings)
+        this.editorPanes.applySettings(state.settings)
       }
 
+      gitSyncService.schedule(state.settings.gitSyncInterval ?? 0)
+
       // Restore right panel visibility and width
       if (state.settings) {
         const rightPanel = document.getElementById('rightPanel') as HTMLElement
@@ -694,17 +1171,22 @@ class App {
       id,
       force,
       async (id, path) => {
-        await window.api.deleteNote(id, path)
+        // Only untouched new notes are deleted on close; skip the trash
+        await window.api.deleteNote(id, path, true)
       },
       () => this.refreshNotes(),
       (id, path) => this.openNote(id, path),
-      () => this.editor.showEmpty()
+      () => this.handlePaneEmptied()
     )
   }
   private registerVaultChangeListener(): void {
     window.addEventListener('vault-changed', () => {
       void this.refreshNotes()
       void this.saveExpandedFolders()
+      void this.backlinksPane.refresh()
+      void this.trashPane.refresh()
+      void this.tagsPane.refresh()
+      void gitSyncService.refresh()
     })
 
     window.addEventListener('status', ((event: CustomEvent) => {
@@ -755,7 +1237,18 @@ class App {
   private async renameFolder(id: string, newName: string): Promise<void> {
     const oldPath = id
 
-    const result = await window.api.renameFolder(oldPath, newName)
+    const updateLinks = await this.confirmLinkUpdates({
+      type: 'renameFolder',
+      path: oldPath,
+      newName
+    })
+    if (updateLinks === null) {
+      // Cancelled: refresh to revert the optimistic rename in the tree
+      await this.refreshNotes()
+      return
+    }
+
+    const result = await window.api.renameFolder(oldPath, newName, updateLinks)
     const actualNewPath = result.path
 
     // Update expandedFolders to prevent collapse
@@ -766,7 +1259,7 @@ class App {
 
     // Update any open tabs that might be inside this folder
     let activeChanged = false
-    state.openTabs = state.openTabs.map((tab) => {
+    const renameTab = (tab: NoteMeta): NoteMeta => {
       if (tab.path === oldPath || tab.path?.startsWith(oldPath + '/')) {
         const newTabPath = tab.path.replace(oldPath, actualNewPath)
         // Note IDs are path-based, so they also need updating
@@ -785,7 +1278,9 @@ class App {
         return { ...tab, id: newId, path: newTabPath }
       }
       return tab
-    })
+    }
+    state.openTabs = state.openTabs.map(renameTab)
+    this.editorPanes.mapTabs(renameTab)
 
     this.statusBar.setStatus(`Renamed folder to ${newName}`)
     await this.saveExpandedFolders()
@@ -798,6 +1293,7 @@ class App {
     }
 
     await this.refreshNotes()
+    if (updateLinks) await this.reloadActiveNote()
   }
 
   private async saveExpandedFolders(): Promise<void> {
@@ -879,6 +1375,13 @@ class App {
           void this.previewHandlers.openPreviewTab()
         }
       },
+      {
+        label: this.editor.isLivePreview ? 'Hide Live Preview' : 'Live Preview',
+        keybinding: 'Ctrl+Alt+V',
+        onClick: () => {
+          this.editor.toggleLivePreview()
+        }
+      },
       {
         label: 'Details',
         keybinding: 'Ctrl+I',
@@ -896,6 +1399,33 @@ class App {
   }
 
   private registerGlobalShortcuts(): void {
+    keyboardManager.register({
+      key: 'Alt+d',
+      scope: 'global',
+      description: "Open today's note",
+      handler: () => {
+        void this.openPeriodicNote('daily')
+      }
+    })
+
+    keyboardManager.register({
+      key: 'Alt+ArrowLeft',
+      scope: 'global',
+      description: 'Previous daily note',
+      handler: () => {
+        void this.openPeriodicNote('daily', -1, true)
+      }
+    })
+
+    keyboardManager.register({
+      key: 'Alt+ArrowRight',
+      scope: 'global',
+      description: 'Next daily note',
+      handler: () => {
+        void this.openPeriodicNote('daily', 1, true)
+      }
+    })
+
     keyboardManager.register({
       key: 'Alt+g',
       scope: 'global',
@@ -1000,7 +1530,7 @@ class App {
         // If the note is new/untitled, prompt for rename after saving content
         const note = state.notes.find((n) => n.id === state.activeId)
         // Match "Untitled", "Untitled 1", "Untitled 2", etc.
-        if (note && /^Untitled( \d+)?$/i.test(note.title)) {
+        if (note && /^Untitled( \d+)?$/i.test(fileName(note.id))) {
           void this.promptRenameActiveNote()
         }
       }
@@ -1075,6 +1605,26 @@ class App {
       }
     })
 
+    keyboardManager.register({
+      key: 'Control+Alt+v',
+      scope: 'global',
+      description: 'Toggle live preview',
+      handler: () => {
+        this.editor.toggleLivePreview()
+        return true
+      }
+    })
+
+    keyboardManager.register({
+      key: 'Control+Alt+\\',
+      scope: 'global',
+      description: 'Split editor right',
+      handler: () => {
+        void this.splitPane('vertical')
+        return true
+      }
+    })
+
     keyboardManager.register({
       key: 'Control+j',
       scope: 'global',
@@ -1157,9 +1707,7 @@ class App {
         this.hubConsole.log('Starting full vault re-indexing...', 'system')
 
         // Filter to only markdown files
-        const notesToIndex = state.notes.filter((note) => {
-          return note.title.endsWith('.md') || !note.title.includes('.')
-        })
+        const notesToIndex = state.notes.filter(isMarkdownNote)
 
         const count = notesToIndex.length
         this.hubConsole.log(`Found ${count} markdown notes to index.`)
@@ -1322,8 +1870,13 @@ class App {
         title: t.id === 'settings' ? 'Settings' : t.title || 'Untitled'
       }))
     }
+    if (state.settings?.paneLayout) {
+      this.editorPanes.restore(state.settings.paneLayout)
+    }
 
     await this.refreshNotes()
+    void this.trashPane.refresh()
+    void this.tagsPane.refresh()
 
     // Show UI immediately after basic data is loaded
     document.body.classList.remove('is-loading')
@@ -1336,6 +1889,13 @@ class App {
       })
     }
 
+    // Load the other panes of a restored split before the focused one
+    const focusedPane = this.editorPanes.getFocused()
+    for (const pane of this.editorPanes.getPanes()) {
+      if (pane !== focusedPane) await this.focusPane(pane)
+    }
+    await this.focusPane(focusedPane)
+
     if (state.openTabs.length > 0) {
       this.statusBar.setStatus('Restoring workspace...')
       const toOpen = state.settings?.activeId || state.openTabs[0].id
@@ -1481,6 +2041,7 @@ class App {
     state.projectName = vaultService.getVaultName(path) || 'Vault'
 
     // Clear all tabs from the previous vault - they won't exist in the new vault
+    this.editorPanes.collapse()
     state.openTabs = []
     state.activeId = ''
     state.pinnedTabs.clear()
@@ -1489,6 +2050,9 @@ class App {
 
     this.statusBar.setStatus('Loading vault...')
     await this.refreshNotes()
+    void this.trashPane.refresh()
+    void this.tagsPane.refresh()
+    void gitSyncService.refresh()
 
     if (state.notes.length > 0) {
       await this.openNote(state.notes[0].id)
@@ -1517,10 +2081,8 @@ class App {
   }
 
   private async backgroundIndexVault(): Promise<void> {
-    const notesToIndex = state.notes.filter((note) => {
-      // Only index markdown files
-      return note.title.endsWith('.md') || !note.title.includes('.')
-    })
+    // Only index markdown files
+    const notesToIndex = state.notes.filter(isMarkdownNote)
 
     let indexedCount = 0
     let isInitialized = false
@@ -1619,17 +2181,19 @@ class App {
   }
 
   private updateViewVisibility(): void {
-    const editorCont = document.getElementById('editorContainer')
     const settingsHost = document.getElementById('settingsHost')
 
     if (state.activeId === 'settings') {
-      if (editorCont) editorCont.style.display = 'none'
+      this.editorPanes.setSettingsMode(true)
       if (settingsHost) settingsHost.style.display = 'flex'
     } else {
-      if (editorCont) editorCont.style.display = 'flex'
+      this.editorPanes.setSettingsMode(false)
       if (settingsHost) settingsHost.style.display = 'none'
-      this.editor.layout() // Recalculate layout when coming back
+      this.editorPanes.layout() // Recalculate layout when coming back
     }
+
+    const isNote = state.notes.some((n) => n.id === state.activeId)
+    this.backlinksPane.setNote(isNote ? state.activeId : null)
   }
 
   private async refreshNotes(): Promise<void> {
@@ -1677,6 +2241,7 @@ class App {
 
     // Sync tabs
     tabService.syncTabs()
+    this.editorPanes.syncTabs(state.notes)
 
     this.sidebar.renderTree(this.sidebar.getSearchValue())
     this.tabBar.render()
@@ -1708,6 +2273,220 @@ class App {
     // New notes are initially empty and don't need indexing.
   }
 
+  /**
+   * Let the user pick a template, answer its prompts, and create a note from it
+   * in `path` (the vault root when omitted).
+   */
+  private async newNoteFromTemplate(path?: string): Promise<void> {
+    const template = await this.pickTemplate()
+    if (!template) return
+
+    const source = await window.api.loadNote(template.id, template.path)
+    if (!source) return
+    const input = await this.templateModal.ask(templatePrompts(source.content), '')
+    if (!input) return
+
+    const { content, cursor } = renderTemplate(source.content, {
+      title: input.title,
+      date: new Date(),
+      folder: path ?? '',
+      answers: input.answers
+    })
+    try {
+      const meta = await window.api.createNote(input.title, path, content)
+      state.newlyCreatedIds.add(meta.id)
+      if (path) state.expandedFolders.add(path)
+
+      await this.refreshNotes()
+      this.statusBar.setStatus(`Created note "${meta.title}" from "${template.title}"`)
+      void this.persistWorkspace()
+      await this.openNote(meta.id, meta.path, 'editor')
+      if (cursor !== null) this.editor.revealOffset(cursor)
+    } catch (error) {
+      notificationManager.show((error as Error).message, 'error', { title: 'Templates' })
+    }
+  }
+
+  /**
+   * Insert a rendered template at the cursor of the active note.
+   */
+  private async insertTemplate(): Promise<void> {
+    const active = state.notes.find((n) => n.id === state.activeId)
+    if (!active) {
+      notificationManager.show('Open a note to insert a template into', 'info')
+      return
+    }
+    const template = await this.pickTemplate()
+    if (!template) return
+
+    const source = await window.api.loadNote(template.id, template.path)
+    if (!source) return
+    const input = await this.templateModal.ask(templatePrompts(source.content))
+    if (!input) return
+
+    const { content, cursor } = renderTemplate(source.content, {
+      title: active.title,
+      date: new Date(),
+      folder: active.path ?? '',
+      answers: input.answers
+    })
+    this.editor.insertTemplate(content, cursor)
+  }
+
+  private async pickTemplate(): Promise<NoteMeta | null> {
+    const folder = state.settings?.templatesFolder ?? 'Templates'
+    const templates = await window.api.getTemplates()
+    if (templates.length === 0) {
+      const hint = folder
+        ? `Add notes to the "${folder}" folder to use them as templates`
+        : 'Set a templates folder in Settings > Vault'
+      notificationManager.show(hint, 'info', { title: 'No Templates' })
+      return null
+    }
+    return this.templateModal.pick(templates, folder)
+  }
+
+  /**
+   * Export notes and folders (with every note inside them) as HTML or PDF.
+   * Pending edits are saved first so the export matches the editor.
+   */
+  private async exportItems(
+    items: { id: string; type: 'note' | 'folder' }[],
+    format: ExportFormat
+  ): Promise<void> {
+    const ids = new Set<string>()
+    for (const item of items) {
+      if (item.type === 'note') {
+        ids.add(item.id)
+      } else {
+        state.notes
+          .filter((n) => n.path === item.id || n.path?.startsWith(`${item.id}/`))
+          .forEach((n) => ids.add(n.id))
+      }
+    }
+    const notes = state.notes.filter((n) => ids.has(n.id))
+    if (notes.length === 0) {
+      notificationManager.show('There are no notes to export', 'info')
+      return
+    }
+
+    const label = format === 'pdf' ? 'PDF' : 'HTML'
+    try {
+      const pending = this.editor.takePendingSave()
+      if (pending) await this.saveNote(pending)
+
+      this.statusBar.setStatus(
+        `Exporting ${notes.length === 1 ? 'note' : `${notes.length} notes`}...`
+      )
+      // A single folder exports relative to itself rather than the vault root
+      const baseFolder = items.length === 1 && items[0].type === 'folder' ? items[0].id : undefined
+      const result = await exportService.exportNotes(notes, format, {
+        baseFolder,
+        resolveNote: (target) => this.wikiLinkService.resolveNote(target)
+      })
+      if (!result) {
+        this.statusBar.setStatus('Export cancelled')
+        return
+      }
+      const what = result.count === 1 ? 'note' : `${result.count} notes`
+      this.statusBar.setStatus(`Exported ${what} as ${label}`)
+      notificationManager.show(`Exported ${what} to ${result.target}`, 'success', {
+        title: `Export as ${label}`
+      })
+    } catch (error) {
+      this.statusBar.setStatus('Export failed')
+      notificationManager.show((error as Error).message, 'error', { title: `Export as ${label}` })
+    }
+  }
+
+  /**
+   * Run the import wizard, then load the imported notes.
+   */
+  private async importNotes(): Promise<void> {
+    const summary = await importWizard.open()
+    if (!summary) return
+
+    await this.refreshNotes()
+    this.backgroundIndexVault().catch((err) => console.error('Background indexing failed:', err))
+
+    const parts = [`Imported ${summary.imported} file${summary.imported === 1 ? '' : 's'}`]
+    if (summary.renamed) parts.push(`${summary.renamed} renamed`)
+    if (summary.overwritten) parts.push(`${summary.overwritten} replaced (old versions in trash)`)
+    if (summary.skipped) parts.push(`${summary.skipped} skipped`)
+    this.statusBar.setStatus(parts[0])
+    if (summary.errors.length > 0) {
+      console.warn('[Import] Failed files:', summary.errors)
+      parts.push(`${summary.errors.length} failed: ${summary.errors.slice(0, 3).join('; ')}`)
+    }
+    notificationManager.show(parts.join(', '), summary.errors.length ? 'warning' : 'success', {
+      title: 'Import'
+    })
+  }
+
+  /**
+   * Publish a folder ('' for the whole vault) as a static website.
+   */
+  private async publishSite(folder: string): Promise<void> {
+    try {
+      const pending = this.editor.takePendingSave()
+      if (pending) await this.saveNote(pending)
+
+      this.statusBar.setStatus('Publishing site...')
+      const siteTitle = folder.split('/').pop() || state.vaultPath?.split(/[\\/]/).pop() || 'Notes'
+      const result = await exportService.publishSite(folder, siteTitle, (target) =>
+        this.wikiLinkService.resolveNote(target)
+      )
+      if (!result) {
+        this.statusBar.setStatus('Publish cancelled')
+        return
+      }
+      this.statusBar.setStatus(`Published ${result.count} pages`)
+      notificationManager.show(`Published ${result.count} pages to ${result.target}`, 'success', {
+        title: 'Publish as Website'
+      })
+    } catch (error) {
+      this.statusBar.setStatus('Publish failed')
+      notificationManager.show((error as Error).message, 'error', { title: 'Publish as Website' })
+    }
+  }
+
+  /**
+   * Open (creating if needed) the daily, weekly or monthly note `offset`
+   * periods from today. With `relative`, count from the open note instead
+   * when it is one of that period's notes.
+   */
+  private async openPeriodicNote(
+    period: 'daily' | 'weekly' | 'monthly',
+    offset = 0,
+    relative = false
+  ): Promise<void> {
+    try {
+      const relativeTo = relative ? state.activeId || undefined : undefined
+      const meta = await window.api.openPeriodicNote(period, offset, relativeTo)
+      if (meta.path) state.expandedFolders.add(meta.path)
+      if (!state.notes.some((n) => n.id === meta.id)) await this.refreshNotes()
+      await this.openNote(meta.id, meta.path, 'editor')
+    } catch (error) {
+      notificationManager.show((error as Error).message, 'error', { title: 'Periodic Note' })
+    }
+  }
+
+  /**
+   * Create the note an unresolved `[[folder/name]]` link points at, keeping the
+   * link's folder, and open it without starting an inline rename.
+   */
+  private async createNoteFromLink(target: string): Promise<void> {
+    const normalized = target.replace(/\\/g, '/').replace(/\.(md|txt)$/i, '')
+    const slash = normalized.lastIndexOf('/')
+    const folder = slash === -1 ? undefined : normalized.slice(0, slash)
+    const meta = await window.api.createNote(normalized.slice(slash + 1), folder)
+    if (folder) state.expandedFolders.add(folder)
+
+    await this.refreshNotes()
+    this.statusBar.setStatus(`Created note "${meta.title}"`)
+    await this.openNote(meta.id, meta.path, 'none')
+  }
+
   private async openNote(
     id: string,
     path?: string,
@@ -1876,11 +2655,11 @@ class App {
 
     modalManager.open({
       title: `Delete ${count > 1 ? count + ' ' : ''}${label}`,
-      content: `Are you sure you want to delete ${count === 1 ? 'this ' + label : 'these ' + count + ' items'}? This action cannot be undone.`,
+      content: `Move ${count === 1 ? 'this ' + label : 'these ' + count + ' items'} to the trash? You can restore ${count === 1 ? 'it' : 'them'} from the Trash section of the explorer.`,
       size: 'md',
       buttons: [
         {
-          label: 'Delete',
+          label: 'Move to Trash',
           variant: 'danger',
           onClick: async (m) => {
             m.close()
@@ -1896,13 +2675,13 @@ class App {
     items: { id: string; type: 'note' | 'folder'; path?: string }[]
   ): Promise<void> {
     this.showDeleteConfirmationModal(items, async () => {
-      this.statusBar.setStatus(`Deleting ${items.length} items...`)
+      this.statusBar.setStatus(`Moving ${items.length} items to trash...`)
 
       try {
         const result = await noteService.deleteItems(items)
 
         if (result.success) {
-          this.statusBar.setStatus(`${items.length} items deleted`)
+          this.statusBar.setStatus(`${items.length} items moved to trash`)
           window.dispatchEvent(new CustomEvent('vault-changed'))
 
           // If the active note was deleted, switch
@@ -1943,9 +2722,176 @@ class App {
     await this.deleteItems([{ id, type: 'note', path }])
   }
 
+  /**
+   * Rename a tag across the vault. Choosing a name that already exists merges
+   * the two tags.
+   */
+  private async promptRenameTag(tag: string, existing: string[]): Promise<void> {
+    const header = this.createModalHeader(`Rename #${tag}`)
+    modalManager.open({
+      customHeader: header,
+      size: 'md',
+      content: 'Nested tags are renamed too. Use an existing tag name to merge into it.',
+      inputs: [{ name: 'tagName', label: 'New Tag Name', value: tag, required: true }],
+      buttons: [
+        { label: 'Cancel', variant: 'ghost', onClick: (m) => m.close() },
+        {
+          label: 'Rename',
+          variant: 'primary',
+          onClick: async (m) => {
+            const target = ((m.getValues().tagName as string) || '').trim().replace(/^#/, '')
+            if (!target || target.toLowerCase() === tag) {
+              m.close()
+              return
+            }
+            if (/\s/.test(target)) {
+              this.statusBar.setStatus('Tag names cannot contain spaces')
+              return
+            }
+
+            m.setLoading(true)
+            try {
+              const pending = this.editor.takePendingSave()
+              if (pending) await this.saveNote(pending)
+              const updated = await window.api.renameTag(tag, target)
+              m.close()
+              await this.refreshNotes()
+              await this.reloadActiveNote()
+              await this.tagsPane.select(target.toLowerCase())
+              const merged = existing.includes(target.toLowerCase())
+              this.statusBar.setStatus(
+                `${merged ? 'Merged' : 'Renamed'} #${tag} into #${target.toLowerCase()} in ${updated} note${updated === 1 ? '' : 's'}`
+              )
+            } catch (error) {
+              m.setLoading(false)
+              notificationManager.show((error as Error).message, 'error', {
+                title: 'Tag Rename Failed'
+              })
+            }
+          }
+        }
+      ]
+    })
+  }
+
+  /**
+   * Rename an attachment and rewrite the notes that use it. Pending edits are
+   * saved first so the rewrite does not race the editor.
+   */
+  private async renameAttachment(from: string, to: string): Promise<void> {
+    const pending = this.editor.takePendingSave()
+    if (pending) await this.saveNote(pending)
+    const { path, updated } = await window.api.renameAttachment(from, to)
+    await this.refreshNotes()
+    await this.reloadActiveNote()
+    this.statusBar.setStatus(
+      `Renamed ${from} to ${path}, updated ${updated} note${updated === 1 ? '' : 's'}`
+    )
+  }
+
+  /**
+   * Check or uncheck the task on a 0-based line of a note and save it. The
+   * open note is edited in the editor, keeping undo; others are rewritten on
+   * disk.
+   */
+  private async toggleTask(noteId: string, line: number, done: boolean): Promise<void> {
+    const stale = 'That line is no longer a task; the note changed since it was shown'
+    if (noteId === state.activeId) {
+      if (!this.editor.setTaskDone(line, done)) throw new Error(stale)
+      return
+    }
+
+    const note = state.notes.find((n) => n.id === noteId)
+    const payload = await window.api.loadNote(noteId, note?.path)
+    const content = payload ? setTaskDone(payload.content, line, done) : null
+    if (!payload || content === null) throw new Error(stale)
+    const meta = await window.api.saveNote({ ...payload, content })
+    const index = state.notes.findIndex((n) => n.id === noteId)
+    if (meta && index >= 0) state.notes[index] = { ...meta }
+    this.statusBar.setStatus(
+      `${done ? 'Completed' : 'Reopened'} a task in ${meta?.title ?? noteId}`
+    )
+  }
+
+  private async trashAttachments(paths: string[]): Promise<void> {
+    const deleted = await window.api.deleteAttachments(paths)
+    void this.trashPane.refresh()
+    this.statusBar.setStatus(`Moved ${deleted} attachment${deleted === 1 ? '' : 's'} to trash`)
+  }
+
+  private async restoreFromTrash(item: TrashItem): Promise<void> {
+    try {
+      const restored = await window.api.restoreFromTrash(item.id)
+      await this.refreshNotes()
+
+      const renamed = restored.path !== item.originalPath
+      this.statusBar.setStatus(
+        `Restored "${item.name}"${renamed ? ` as ${restored.path} (original path was taken)` : ''}`
+      )
+      if (restored.type === 'note' && restored.noteId) {
+        const note = state.notes.find((n) => n.id === restored.noteId)
+        if (note) await this.openNote(note.id, note.path, 'none')
+      }
+      this.backgroundIndexVault().catch((err) => console.error('Background indexing failed:', err))
+    } catch (error) {
+      notificationManager.show((error as Error).message, 'error', { title: 'Restore Failed' })
+    }
+  }
+
+  private async purgeFromTrash(item: TrashItem): Promise<void> {
+    const confirmed = await this.confirmPermanentDelete(
+      'Delete permanently',
+      `"${item.name}" will be deleted for good. This cannot be undone.`
+    )
+    if (!confirmed) return
+    await window.api.purgeFromTrash(item.id)
+    this.statusBar.setStatus(`Permanently deleted "${item.name}"`)
+  }
+
+  private async emptyTrash(items: TrashItem[]): Promise<void> {
+    const confirmed = await this.confirmPermanentDelete(
+      'Empty trash',
+      `Permanently delete ${items.length} item${items.length === 1 ? '' : 's'} in the trash? This cannot be undone.`
+    )
+    if (!confirmed) return
+    await window.api.emptyTrash()
+    this.statusBar.setStatus('Trash emptied')
+  }
+
+  private confirmPermanentDelete(title: string, content: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      let settled = false
+      const settle = (value: boolean): void => {
+        if (settled) return
+        settled = true
+        resolve(value)
+      }
+      modalManager.open({
+        title,
+        content,
+        size: 'md',
+        onClose: () => settle(false),
+        buttons: [
+          {
+            label: 'Delete',
+            variant: 'danger',
+            onClick: (m) => {
+              settle(true)
+              m.close()
+            }
+          },
+          { label: 'Cancel', variant: 'ghost', onClick: (m) => m.close() }
+        ]
+      })
+    })
+  }
+
   private async handleNoteMove(id: string, fromPath?: string, toPath?: string): Promise<void> {
     try {
-      const newMeta = await window.api.moveNote(id, fromPath, toPath)
+      const updateLinks = await this.confirmLinkUpdates({ type: 'moveNote', id, toPath })
+      if (updateLinks === null) return
+
+      const newMeta = await window.api.moveNote(id, fromPath, toPath, updateLinks)
 
       // Update tabs and active state
       let updatedTabs = false
@@ -1965,12 +2911,14 @@ class App {
         state.pinnedTabs.delete(id)
         state.pinnedTabs.add(newMeta.id)
       }
+      this.editorPanes.mapTabs((tab) => (tab.id === id ? { ...newMeta } : tab))
 
       if (updatedTabs) {
         this.tabBar.render()
       }
 
       await this.refreshNotes()
+      if (updateLinks) await this.reloadActiveNote()
 
       // Re-index the moved note for RAG
       try {
@@ -1987,17 +2935,95 @@ class App {
     } catch (error) {
       console.error('Note move failed:', error)
       this.statusBar.setStatus('Move failed')
+      this.notifyLinkUpdateFailure(error)
     }
   }
 
   private async handleFolderMove(sourcePath: string, targetPath: string): Promise<void> {
     try {
-      await noteService.moveFolder(sourcePath, targetPath)
+      const updateLinks = await this.confirmLinkUpdates({
+        type: 'moveFolder',
+        path: sourcePath,
+        targetPath
+      })
+      if (updateLinks === null) return
+
+      await noteService.moveFolder(sourcePath, targetPath, updateLinks)
       this.tabBar.render()
       await this.refreshNotes()
+      if (updateLinks) await this.reloadActiveNote()
     } catch (error) {
       console.error('Folder move failed:', error)
       this.statusBar.setStatus('Move failed')
+      this.notifyLinkUpdateFailure(error)
+    }
+  }
+
+  /**
+   * Save pending edits (links are rewritten on disk), then ask whether links
+   * to the item should be updated. Resolves `null` when the user cancelled.
+   */
+  private async confirmLinkUpdates(op: LinkRefactor): Promise<boolean | null> {
+    const pending = this.editor.takePendingSave()
+    if (pending) await this.saveNote(pending)
+    return linkUpdateModal.confirm(op)
+  }
+
+  /**
+   * Re-read the active note after other files were rewritten, unless it has
+   * unsaved edits.
+   */
+  private async reloadActiveNote(): Promise<void> {
+    if (!state.activeId || state.isDirty) return
+    const note = state.notes.find((n) => n.id === state.activeId)
+    if (note) await this.openNote(note.id, note.path, 'none')
+  }
+
+  /**
+   * Replace an unlinked mention with a wikilink to the active note. Pending
+   * edits are saved first so the mention offsets are checked against disk.
+   */
+  private async linkMention(mention: UnlinkedMention, targetId: string): Promise<void> {
+    const pending = this.editor.takePendingSave()
+    if (pending) await this.saveNote(pending)
+    try {
+      await window.api.linkMention(mention, targetId)
+      this.statusBar.setStatus(`Linked mention in "${mention.title}"`)
+    } catch (error) {
+      notificationManager.show((error as Error).message, 'warning', { title: 'Link Mention' })
+    }
+  }
+
+  private openNoteHistory(id: string): void {
+    const note = state.notes.find((n) => n.id === id)
+    if (!note) {
+      notificationManager.show('Open a note to see its history', 'info')
+      return
+    }
+    void this.historyView.open(note.id, note.title)
+  }
+
+  /**
+   * Restore a version on disk. Pending edits are saved first so they end up
+   * in history too, then the editor is reloaded if the note is open.
+   */
+  private async restoreNoteVersion(id: string, versionId: string): Promise<void> {
+    const pending = this.editor.takePendingSave()
+    if (pending) await this.saveNote(pending)
+    try {
+      await window.api.restoreNoteVersion(id, versionId)
+    } catch (error) {
+      notificationManager.show((error as Error).message, 'error', { title: 'Restore Failed' })
+      throw error
+    }
+    if (id === state.activeId) await this.reloadActiveNote()
+    this.statusBar.setStatus('Restored an earlier version')
+  }
+
+  private notifyLinkUpdateFailure(error: unknown): void {
+    const message = (error as Error)?.message || ''
+    if (message.includes('Links could not be updated')) {
+      notificationManager.show(message, 'error', { title: 'Move Failed' })
     }
   }
 
@@ -2038,8 +3064,9 @@ class App {
       inputs: [
         {
           name: 'noteTitle',
-          label: 'Note Title',
-          value: note.title,
+          label: 'File Name',
+          // The title may come from frontmatter; renaming changes the file
+          value: fileName(note.id),
           required: true
         }
       ],
@@ -2119,13 +3146,25 @@ class App {
     }
 
     const newId = newTitle.trim().replace(/[<>:"/\\|?*]/g, '-')
-    if (noteId === newId) return
+    if (fileName(noteId) === newId) return
 
     state.newlyCreatedIds.delete(noteId) // Rename counts as interacting
 
+    const updateLinks = await this.confirmLinkUpdates({
+      type: 'renameNote',
+      id: noteId,
+      newName: newId,
+      path: notePath
+    })
+    if (updateLinks === null) {
+      onCoreDone?.()
+      await this.refreshNotes()
+      return
+    }
+
     try {
       // 1. Rename on disk (changes ID) - noteService handles tab/state updates
-      const newMeta = await noteService.renameNote(noteId, newId, notePath)
+      const newMeta = await noteService.renameNote(noteId, newId, notePath, updateLinks)
       const actualNewId = newMeta.id
 
       // Notify caller that core operation is done (e.g. to close modals)
@@ -2158,6 +3197,7 @@ class App {
         }
       } else {
         this.tabBar.render()
+        if (updateLinks) await this.reloadActiveNote()
       }
 
       this.statusBar.setStatus(`Renamed to "${newTitle}"`)
@@ -2318,6 +3358,14 @@ class App {
     statusBarEl.addEventListener('sync-action', async (e: Event) => {
       const customEvent = e as CustomEvent<{ action: string }>
       const { action } = customEvent.detail
+      if (action === 'git-sync') {
+        await this.runGitSync()
+        return
+      }
+      if (action === 'sync-now') {
+        await this.runFileSync()
+        return
+      }
 
       const settings = await window.api.getSettings()
       const token = (settings as any)?.gistToken
@@ -2373,6 +3421,84 @@ class App {
     })
   }
 
+  /**
+   * Sync now, or open the merge view when a previous pull left conflicts.
+   */
+  private async runGitSync(): Promise<void> {
+    const status = gitSyncService.getSnapshot().status ?? (await gitSyncService.refresh())
+    if (status?.state === 'conflict') {
+      await this.gitMergeView.open()
+      return
+    }
+    try {
+      await gitSyncService.sync()
+    } catch (error) {
+      notificationManager.show((error as Error).message, 'error', { title: 'Git Sync Failed' })
+    }
+  }
+
+  private async handleGitSynced(result: GitSyncResult): Promise<void> {
+    if (result.pulled > 0) {
+      await this.refreshNotes()
+      await this.reloadActiveNote()
+    }
+    const { conflicts } = result.status
+    if (conflicts.length > 0) {
+      notificationManager.show(
+        `${conflicts.length} file${conflicts.length === 1 ? '' : 's'} changed both here and on the remote. Click the sync status to resolve.`,
+        'warning',
+        { title: 'Git Sync Conflicts' }
+      )
+      return
+    }
+    const parts = [
+      result.committed ? 'committed local changes' : '',
+      result.pulled > 0 ? `pulled ${result.pulled} commit${result.pulled === 1 ? '' : 's'}` : '',
+      result.pushed ? 'pushed' : ''
+    ].filter(Boolean)
+    this.statusBar.setStatus(
+      parts.length ? `Git sync: ${parts.join(', ')}` : 'Git sync: up to date'
+    )
+  }
+
+  private async runFileSync(): Promise<void> {
+    if (syncService.isSyncing()) return
+    this.statusBar.setStatus('Syncing vault…')
+    try {
+      await syncService.sync()
+    } catch (error) {
+      this.statusBar.setStatus('Sync failed')
+      notificationManager.show((error as Error).message, 'error', { title: 'Sync Failed' })
+    }
+  }
+
+  private async handleFilesSynced(result: SyncRunResult): Promise<void> {
+    if (result.downloaded > 0 || result.deletedLocal > 0) {
+      await this.refreshNotes()
+      await this.reloadActiveNote()
+    }
+    // The first Gist sync creates the gist and stores its id in main
+    if (state.settings) state.settings.syncGistId = (await window.api.getSettings()).syncGistId
+
+    const parts = [
+      result.uploaded > 0 ? `${result.uploaded} uploaded` : '',
+      result.downloaded > 0 ? `${result.downloaded} downloaded` : '',
+      result.deletedLocal + result.deletedRemote > 0
+        ? `${result.deletedLocal + result.deletedRemote} deleted`
+        : ''
+    ].filter(Boolean)
+    this.statusBar.setStatus(
+      parts.length ? `${result.provider}: ${parts.join(', ')}` : `${result.provider}: up to date`
+    )
+    if (result.conflicts.length > 0) {
+      notificationManager.show(
+        `Changed on both sides, kept as copies: ${result.conflicts.join(', ')}`,
+        'warning',
+        { title: 'Sync Conflicts' }
+      )
+    }
+  }
+
   private async restoreVaultFromBackup(backupData: any): Promise<void> {
     if (!backupData || !backupData.notes || !Array.isArray(backupData.notes)) {
       throw new Error('Invalid backup data format')
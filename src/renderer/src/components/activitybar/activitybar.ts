@@ -1,13 +1,13 @@
 import { state } from '../../core/state'
 import { codicons } from '../../utils/codicons'
 import { updateApp } from '../updateApp/updateRender'
-import { createElement, File, Search, Settings, Palette, Library } from 'lucide'
+import { createElement, File, Search, Tags, Settings, Palette, Library } from 'lucide'
 import './activitybar.css'
 
 export class ActivityBar {
   private container: HTMLElement
   private onViewChange?: (
-    view: 'notes' | 'search' | 'settings' | 'theme' | 'graph' | 'documentation' | null
+    view: 'notes' | 'search' | 'tags' | 'settings' | 'theme' | 'graph' | 'documentation' | null
   ) => void
   private updateState: 'idle' | 'checking' | 'progress' | 'restart' = 'idle'
   private updateProgress: number = 0
@@ -25,13 +25,13 @@ export class ActivityBar {
 
   setViewChangeHandler(
     handler: (
-      view: 'notes' | 'search' | 'settings' | 'theme' | 'graph' | 'documentation' | null
+      view: 'notes' | 'search' | 'tags' | 'settings' | 'theme' | 'graph' | 'documentation' | null
     ) => void
   ): void {
     this.onViewChange = handler
   }
 
-  setActiveView(view: 'notes' | 'search' | 'settings'): void {
+  setActiveView(view: 'notes' | 'search' | 'tags' | 'settings'): void {
     // Update UI
     this.container.querySelectorAll('.activitybar__item').forEach((item) => {
       item.classList.remove('is-active')
@@ -93,6 +93,7 @@ export class ActivityBar {
     // Create Lucide icon elements
     const fileIcon = this.createLucideIcon(File)
     const searchIcon = this.createLucideIcon(Search)
+    const tagsIcon = this.createLucideIcon(Tags)
     const settingsIcon = this.createLucideIcon(Settings)
     const paletteIcon = this.createLucideIcon(Palette)
     const libraryIcon = this.createLucideIcon(Library)
@@ -105,6 +106,9 @@ export class ActivityBar {
         <button class="activitybar__item" data-view="search" title="Search">
           <span class="activitybar__icon">${searchIcon}</span>
         </button>
+        <button class="activitybar__item" data-view="tags" title="Tags">
+          <span class="activitybar__icon">${tagsIcon}</span>
+        </button>
         <button class="activitybar__item" data-view="graph" title="Graph View">
           <span class="activitybar__icon">
             <svg width="20" height="20" viewBox="0 0 16 16" fill="none">
@@ -158,6 +162,7 @@ export class ActivityBar {
       const view = button.dataset.view as
         | 'notes'
         | 'search'
+        | 'tags'
         | 'settings'
         | 'theme'
         | 'graph'
@@ -203,8 +208,11 @@ export class ActivityBar {
 
       state.activeView = view as typeof state.activeView
 
-      // Save active view to settings (only for notes, search, settings)
-      if (state.settings && (view === 'notes' || view === 'search' || view === 'settings')) {
+      // Save active view to settings (only for notes, search, tags, settings)
+      if (
+        state.settings &&
+        (view === 'notes' || view === 'search' || view === 'tags' || view === 'settings')
+      ) {
         state.settings.activeView = view
         void window.api.updateSettings({ activeView: view })
       }
@@ -0,0 +1,271 @@
+/**
+ * Attachments
+ * Every non-note file in the vault with the notes that reference it. Unused
+ * files can be moved to the trash; renaming a file rewrites its references.
+ */
+
+import { notificationManager } from '../notification/notification'
+import type { AttachmentInfo } from '../../core/types'
+import './attachments.css'
+import '../window-header/window-header.css'
+
+export interface AttachmentsCallbacks {
+  openNote: (id: string) => Promise<void>
+  /** Rename or move a file and rewrite the notes pointing at it */
+  rename: (from: string, to: string) => Promise<void>
+  trash: (paths: string[]) => Promise<void>
+}
+
+type AttachmentsTab = 'unused' | 'all'
+
+export class AttachmentsView {
+  private modal: HTMLElement
+  private body!: HTMLElement
+  private stats!: HTMLElement
+  private callbacks: AttachmentsCallbacks
+  private attachments: AttachmentInfo[] | null = null
+  private activeTab: AttachmentsTab = 'unused'
+
+  constructor(callbacks: AttachmentsCallbacks) {
+    this.callbacks = callbacks
+    this.modal = document.createElement('div')
+    this.modal.className = 'attachments'
+    this.render()
+    document.body.appendChild(this.modal)
+
+    window.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isOpen()) {
+        this.close()
+      }
+    })
+  }
+
+  isOpen(): boolean {
+    return this.modal.classList.contains('is-visible')
+  }
+
+  async open(): Promise<void> {
+    this.modal.classList.add('is-visible')
+    await this.refresh()
+  }
+
+  close(): void {
+    this.modal.classList.remove('is-visible')
+  }
+
+  async refresh(): Promise<void> {
+    this.body.innerHTML = '<div class="attachments__empty">Scanning attachments…</div>'
+    try {
+      this.attachments = await window.api.getAttachments()
+    } catch (error) {
+      console.error('[Attachments] Failed to list attachments', error)
+      this.attachments = null
+      this.body.innerHTML = '<div class="attachments__empty">Could not list attachments.</div>'
+      return
+    }
+    this.renderList()
+  }
+
+  private render(): void {
+    this.modal.innerHTML = `
+      <div class="attachments__content">
+        <div class="window-header" style="flex-shrink: 0;">
+          <div class="window-header__brand">
+            <span class="window-header__title">Attachments</span>
+            <span class="attachments__stats"></span>
+          </div>
+          <div class="window-header__controls">
+            <button class="wh-btn attachments__refresh" title="Refresh" aria-label="Refresh">⟳</button>
+            <button class="wh-btn wh-close attachments__close" title="Close (Esc)" aria-label="Close">×</button>
+          </div>
+        </div>
+        <div class="attachments__tabs">
+          <button class="attachments__tab is-active" data-tab="unused">Unused</button>
+          <button class="attachments__tab" data-tab="all">All files</button>
+        </div>
+        <div class="attachments__body"></div>
+      </div>
+    `
+
+    this.body = this.modal.querySelector('.attachments__body') as HTMLElement
+    this.stats = this.modal.querySelector('.attachments__stats') as HTMLElement
+
+    this.modal.querySelector('.attachments__close')?.addEventListener('click', () => this.close())
+    this.modal
+      .querySelector('.attachments__refresh')
+      ?.addEventListener('click', () => void this.refresh())
+    this.modal.addEventListener('click', (e) => {
+      if (e.target === this.modal) this.close()
+    })
+
+    this.modal.querySelectorAll<HTMLButtonElement>('.attachments__tab').forEach((tab) => {
+      tab.addEventListener('click', () => {
+        this.activeTab = tab.dataset.tab as AttachmentsTab
+        this.renderList()
+      })
+    })
+  }
+
+  private renderList(): void {
+    this.modal.querySelectorAll<HTMLElement>('.attachments__tab').forEach((tab) => {
+      tab.classList.toggle('is-active', tab.dataset.tab === this.activeTab)
+    })
+    if (!this.attachments) return
+
+    const all = this.attachments
+    const unused = all.filter((attachment) => attachment.notes.length === 0)
+    const unusedSize = unused.reduce((total, attachment) => total + attachment.size, 0)
+    this.stats.textContent = `${all.length} file${all.length === 1 ? '' : 's'} · ${unused.length} unused (${formatSize(unusedSize)})`
+
+    this.body.innerHTML = ''
+    if (this.activeTab === 'unused') {
+      if (unused.length === 0) {
+        this.body.innerHTML =
+          '<div class="attachments__empty">Every attachment is used by a note.</div>'
+        return
+      }
+      const bar = document.createElement('div')
+      bar.className = 'attachments__bar'
+      const hint = document.createElement('span')
+      hint.className = 'attachments__hint'
+      hint.textContent = 'Not linked or embedded by any note. Trashed files can be restored.'
+      bar.append(
+        hint,
+        this.createAction(
+          `Move ${unused.length} to Trash`,
+          () => this.trash(unused.map((attachment) => attachment.path)),
+          'Move every unused file to the trash'
+        )
+      )
+      this.body.appendChild(bar)
+      unused.forEach((attachment) => this.body.appendChild(this.renderAttachment(attachment)))
+    } else {
+      if (all.length === 0) {
+        this.body.innerHTML = '<div class="attachments__empty">This vault has no attachments.</div>'
+        return
+      }
+      all.forEach((attachment) => this.body.appendChild(this.renderAttachment(attachment)))
+    }
+  }
+
+  private renderAttachment(attachment: AttachmentInfo): HTMLElement {
+    const block = document.createElement('div')
+    block.className = 'attachments__group'
+
+    const header = document.createElement('div')
+    header.className = 'attachments__group-header'
+    const path = document.createElement('span')
+    path.className = 'attachments__path'
+    path.textContent = attachment.path
+    path.title = `${attachment.path}\nModified ${new Date(attachment.modifiedAt).toLocaleString()}`
+    const count = document.createElement('span')
+    count.className = 'attachments__count'
+    const notes = attachment.notes.length
+    count.textContent = `${formatSize(attachment.size)}${notes ? ` · ${notes} note${notes === 1 ? '' : 's'}` : ''}`
+    header.append(
+      path,
+      count,
+      this.createAction(
+        'Rename',
+        async () => this.startRename(header, attachment),
+        'Rename or move; references are updated'
+      )
+    )
+    if (notes === 0) {
+      header.appendChild(
+        this.createAction('Trash', () => this.trash([attachment.path]), 'Move to trash')
+      )
+    }
+    block.appendChild(header)
+
+    attachment.notes.forEach((note) => {
+      const row = document.createElement('div')
+      row.className = 'attachments__row'
+      const title = document.createElement('span')
+      title.className = 'attachments__row-title'
+      title.textContent = note.title
+      title.title = note.id
+      row.append(
+        title,
+        this.createAction('Open', () => this.openNote(note.id), `Open ${note.id}`)
+      )
+      block.appendChild(row)
+    })
+
+    return block
+  }
+
+  /**
+   * Swap the path for an input; Enter renames, Escape or blur cancels.
+   */
+  private startRename(header: HTMLElement, attachment: AttachmentInfo): void {
+    const path = header.querySelector('.attachments__path') as HTMLElement
+    const input = document.createElement('input')
+    input.className = 'attachments__input'
+    input.value = attachment.path
+    path.replaceWith(input)
+    input.focus()
+    // Select the file name without its extension
+    const start = attachment.path.lastIndexOf('/') + 1
+    const dot = attachment.path.lastIndexOf('.')
+    input.setSelectionRange(start, dot > start ? dot : attachment.path.length)
+
+    let done = false
+    const finish = async (commit: boolean): Promise<void> => {
+      if (done) return
+      done = true
+      const target = input.value.trim()
+      if (!commit || !target || target === attachment.path) {
+        input.replaceWith(path)
+        return
+      }
+      input.disabled = true
+      try {
+        await this.callbacks.rename(attachment.path, target)
+        await this.refresh()
+      } catch (error) {
+        notificationManager.show((error as Error).message, 'error', { title: 'Rename Failed' })
+        input.replaceWith(path)
+      }
+    }
+    input.addEventListener('keydown', (e) => {
+      e.stopPropagation()
+      if (e.key === 'Enter') void finish(true)
+      else if (e.key === 'Escape') void finish(false)
+    })
+    input.addEventListener('blur', () => void finish(false))
+  }
+
+  private createAction(label: string, handler: () => Promise<void>, title: string): HTMLElement {
+    const button = document.createElement('button')
+    button.className = 'attachments__action'
+    button.textContent = label
+    button.title = title
+    button.addEventListener('click', async (e) => {
+      e.stopPropagation()
+      button.disabled = true
+      try {
+        await handler()
+      } finally {
+        button.disabled = false
+      }
+    })
+    return button
+  }
+
+  private async openNote(id: string): Promise<void> {
+    this.close()
+    await this.callbacks.openNote(id)
+  }
+
+  private async trash(paths: string[]): Promise<void> {
+    await this.callbacks.trash(paths)
+    await this.refresh()
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,229 @@
+import type { Backlink, UnlinkedMention } from '../../core/types'
+import './backlinks.css'
+
+const COLLAPSED_KEY = 'knowledgeHub_backlinksCollapsed'
+
+export interface BacklinksPaneCallbacks {
+  openNote: (id: string, path?: string, line?: number) => Promise<void>
+  linkMention: (mention: UnlinkedMention, targetId: string) => Promise<void>
+}
+
+/**
+ * Pane under the editor listing notes that link to the active note (with the
+ * surrounding paragraph) and unlinked plain-text mentions of its title.
+ */
+export class BacklinksPane {
+  private container: HTMLElement
+  private callbacks: BacklinksPaneCallbacks
+  private noteId: string | null = null
+  private backlinks: Backlink[] = []
+  private mentions: UnlinkedMention[] = []
+  private collapsed = localStorage.getItem(COLLAPSED_KEY) !== 'false'
+  private request = 0
+
+  constructor(containerId: string, callbacks: BacklinksPaneCallbacks) {
+    this.container = document.getElementById(containerId) as HTMLElement
+    this.callbacks = callbacks
+    this.container.addEventListener('click', (e) => this.handleClick(e))
+    this.render()
+  }
+
+  /**
+   * Show links for a note; `null` hides the pane (settings, empty editor).
+   */
+  setNote(id: string | null): void {
+    if (id === this.noteId) return
+    this.noteId = id
+    this.backlinks = []
+    this.mentions = []
+    this.render()
+    void this.refresh()
+  }
+
+  async refresh(): Promise<void> {
+    const id = this.noteId
+    const request = ++this.request
+    if (!id) return
+
+    try {
+      const [backlinks, mentions] = await Promise.all([
+        window.api.getBacklinkContexts(id),
+        window.api.getUnlinkedMentions(id)
+      ])
+      if (request !== this.request) return
+      this.backlinks = backlinks
+      this.mentions = mentions
+    } catch (error) {
+      console.error('[Backlinks] Failed to load links', error)
+      if (request !== this.request) return
+      this.backlinks = []
+      this.mentions = []
+    }
+    this.render()
+  }
+
+  private render(): void {
+    this.container.style.display = this.noteId ? '' : 'none'
+    this.container.classList.toggle('is-collapsed', this.collapsed)
+    if (!this.noteId) {
+      this.container.innerHTML = ''
+      return
+    }
+
+    const referenceCount = this.backlinks.reduce((sum, note) => sum + note.references.length, 0)
+    this.container.innerHTML = `
+      <button class="backlinks__header" data-action="toggle" aria-expanded="${!this.collapsed}">
+        <span class="backlinks__chevron">${this.collapsed ? '▸' : '▾'}</span>
+        <span class="backlinks__heading">Backlinks</span>
+        <span class="backlinks__badge">${referenceCount}</span>
+        <span class="backlinks__heading">Unlinked mentions</span>
+        <span class="backlinks__badge">${this.mentions.length}</span>
+      </button>
+      <div class="backlinks__body"></div>
+    `
+    if (this.collapsed) return
+
+    const body = this.container.querySelector('.backlinks__body') as HTMLElement
+    body.appendChild(this.renderBacklinks())
+    body.appendChild(this.renderMentions())
+  }
+
+  private renderBacklinks(): HTMLElement {
+    const section = this.createSection('Linked references')
+    if (this.backlinks.length === 0) {
+      section.appendChild(this.createEmpty('No notes link here yet.'))
+      return section
+    }
+
+    this.backlinks.forEach((note) => {
+      section.appendChild(this.createNoteTitle(note.title, note.id))
+      note.references.forEach((ref) => {
+        const item = document.createElement('div')
+        item.className = 'backlinks__item'
+        item.dataset.action = 'open'
+        item.dataset.id = note.id
+        item.dataset.path = note.path || ''
+        item.dataset.line = String(ref.line)
+        item.title = `Open ${note.id} at line ${ref.line}`
+        item.append(this.createLine(ref.line), this.createContext(ref.context))
+        section.appendChild(item)
+      })
+    })
+    return section
+  }
+
+  private renderMentions(): HTMLElement {
+    const section = this.createSection('Unlinked mentions')
+    if (this.mentions.length === 0) {
+      section.appendChild(this.createEmpty('No unlinked mentions.'))
+      return section
+    }
+
+    let lastId = ''
+    this.mentions.forEach((mention, index) => {
+      if (mention.id !== lastId) {
+        section.appendChild(this.createNoteTitle(mention.title, mention.id))
+        lastId = mention.id
+      }
+      const item = document.createElement('div')
+      item.className = 'backlinks__item'
+      item.dataset.action = 'open'
+      item.dataset.id = mention.id
+      item.dataset.path = mention.path || ''
+      item.dataset.line = String(mention.line)
+
+      const button = document.createElement('button')
+      button.className = 'backlinks__link-btn'
+      button.dataset.action = 'link'
+      button.dataset.index = String(index)
+      button.textContent = 'Link'
+      button.title = `Replace "${mention.text}" with a link`
+
+      item.append(
+        this.createLine(mention.line),
+        this.createContext(mention.context, mention.text),
+        button
+      )
+      section.appendChild(item)
+    })
+    return section
+  }
+
+  private createSection(title: string): HTMLElement {
+    const section = document.createElement('div')
+    section.className = 'backlinks__section'
+    const heading = document.createElement('div')
+    heading.className = 'backlinks__section-title'
+    heading.textContent = title
+    section.appendChild(heading)
+    return section
+  }
+
+  private createNoteTitle(title: string, id: string): HTMLElement {
+    const el = document.createElement('div')
+    el.className = 'backlinks__note'
+    el.textContent = title
+    el.title = id
+    return el
+  }
+
+  private createLine(line: number): HTMLElement {
+    const el = document.createElement('span')
+    el.className = 'backlinks__line'
+    el.textContent = String(line)
+    return el
+  }
+
+  /**
+   * Paragraph text with the first occurrence of `highlight` wrapped in <mark>.
+   */
+  private createContext(context: string, highlight?: string): HTMLElement {
+    const el = document.createElement('span')
+    el.className = 'backlinks__context'
+    const needle = highlight?.replace(/\s+/g, ' ').toLowerCase()
+    const at = needle ? context.toLowerCase().indexOf(needle) : -1
+    if (!needle || at === -1) {
+      el.textContent = context
+      return el
+    }
+    const mark = document.createElement('mark')
+    mark.textContent = context.slice(at, at + needle.length)
+    el.append(context.slice(0, at), mark, context.slice(at + needle.length))
+    return el
+  }
+
+  private createEmpty(message: string): HTMLElement {
+    const el = document.createElement('div')
+    el.className = 'backlinks__empty'
+    el.textContent = message
+    return el
+  }
+
+  private handleClick(e: MouseEvent): void {
+    const target = (e.target as HTMLElement).closest<HTMLElement>('[data-action]')
+    if (!target) return
+
+    switch (target.dataset.action) {
+      case 'toggle':
+        this.collapsed = !this.collapsed
+        localStorage.setItem(COLLAPSED_KEY, String(this.collapsed))
+        this.render()
+        break
+      case 'open':
+        void this.callbacks.openNote(
+          target.dataset.id!,
+          target.dataset.path || undefined,
+          Number(target.dataset.line)
+        )
+        break
+      case 'link': {
+        e.stopPropagation()
+        const mention = this.mentions[Number(target.dataset.index)]
+        if (!mention || !this.noteId) return
+        ;(target as HTMLButtonElement).disabled = true
+        void this.callbacks.linkMention(mention, this.noteId).finally(() => this.refresh())
+        break
+      }
+    }
+  }
+}
@@ -0,0 +1,437 @@
+import { state } from '../../core/state'
+import type { AppSettings, NoteMeta, PaneLayout } from '../../core/types'
+import { sortTabs, syncTabsWithNotes } from '../../utils/helpers'
+import { EditorComponent } from '../editor/editor'
+import { TabBar } from '../tabbar/tabbar'
+import './editor-panes.css'
+
+export type PaneDirection = PaneLayout['direction']
+
+// Set on tab drags so other drop targets (editor, sidebar) can tell them apart
+const TAB_DRAG_TYPE = 'application/x-knowledgehub-tab'
+const MAX_PANES = 4
+// Smallest share of the split a pane can be dragged down to
+const MIN_PANE_SHARE = 0.1
+
+export interface EditorPane {
+  element: HTMLElement
+  tabBar: TabBar
+  editor: EditorComponent
+  /** Tab group while another pane has focus; the focused pane's lives in `state` */
+  tabs: NoteMeta[]
+  activeId: string
+  lastSavedAt: number
+  /** Flex weight along the split direction */
+  size: number
+}
+
+/**
+ * Side-by-side (vertical) or stacked (horizontal) editor panes, each with its
+ * own tab bar and Monaco editor. The focused pane owns the global editor
+ * state (`openTabs`, `activeId`, `lastSavedAt`); the others keep theirs
+ * stashed until focused, so the rest of the app only ever deals with one
+ * active editor.
+ */
+export class EditorPanes {
+  private container: HTMLElement
+  private panes: EditorPane[] = []
+  private focused: EditorPane
+  private direction: PaneDirection = 'vertical'
+  private nextId = 1
+  private dragging: { id: string; from: EditorPane } | null = null
+  private resizing: {
+    before: EditorPane
+    after: EditorPane
+    start: number
+    sizes: [number, number]
+    pixelsPerUnit: number
+  } | null = null
+  private onPaneCreated?: (pane: EditorPane) => void
+  private onFocusRequest?: (pane: EditorPane) => void
+  private onTabDrop?: (id: string, from: EditorPane, to: EditorPane) => void
+  private onResize?: () => void
+
+  constructor(containerId: string) {
+    this.container = document.getElementById(containerId) as HTMLElement
+    // The first pane is part of the static markup
+    const element = this.container.querySelector('.editor-pane') as HTMLElement
+    this.focused = this.createPane(element, 'tabBar', 'editorContainer')
+    this.panes.push(this.focused)
+    this.renderLayout()
+  }
+
+  /**
+   * Called for every pane, including the ones that already exist, so the
+   * caller can wire its tab bar and editor.
+   */
+  setPaneCreatedHandler(handler: (pane: EditorPane) => void): void {
+    this.onPaneCreated = handler
+    this.panes.forEach((pane) => handler(pane))
+  }
+
+  setFocusRequestHandler(handler: (pane: EditorPane) => void): void {
+    this.onFocusRequest = handler
+  }
+
+  setTabDropHandler(handler: (id: string, from: EditorPane, to: EditorPane) => void): void {
+    this.onTabDrop = handler
+  }
+
+  setResizeHandler(handler: () => void): void {
+    this.onResize = handler
+  }
+
+  getFocused(): EditorPane {
+    return this.focused
+  }
+
+  getPanes(): EditorPane[] {
+    return [...this.panes]
+  }
+
+  getDirection(): PaneDirection {
+    return this.direction
+  }
+
+  canSplit(): boolean {
+    return this.panes.length < MAX_PANES
+  }
+
+  /**
+   * Tabs and active tab of a pane, wherever they currently live.
+   */
+  getGroup(pane: EditorPane): { tabs: NoteMeta[]; activeId: string } {
+    return pane === this.focused
+      ? { tabs: state.openTabs, activeId: state.activeId }
+      : { tabs: pane.tabs, activeId: pane.activeId }
+  }
+
+  /**
+   * Add an empty pane after the focused one. All panes share one direction,
+   * so splitting the other way re-orients the existing split.
+   */
+  split(direction: PaneDirection): EditorPane | null {
+    if (!this.canSplit()) return null
+    this.direction = direction
+    const id = this.nextId++
+    const element = document.createElement('div')
+    element.className = 'editor-pane'
+    element.innerHTML = `
+      <header id="tabBar-${id}" class="tabbar" aria-label="Open notes"></header>
+      <section id="editorContainer-${id}" class="editor-container"></section>
+    `
+    // The element must be in the document before the components look up their ids
+    this.container.appendChild(element)
+    const pane = this.createPane(element, `tabBar-${id}`, `editorContainer-${id}`)
+    pane.size = this.focused.size / 2
+    this.focused.size /= 2
+    this.panes.splice(this.panes.indexOf(this.focused) + 1, 0, pane)
+    this.renderLayout()
+    pane.editor.showEmpty()
+    pane.tabBar.render()
+    return pane
+  }
+
+  /**
+   * Make `pane` the focused one: stash the global tab state into the pane
+   * losing focus and load the new pane's. Unsaved edits must be flushed first.
+   */
+  focus(pane: EditorPane): void {
+    if (pane === this.focused || !this.panes.includes(pane)) return
+    const previous = this.focused
+    previous.tabs = state.openTabs
+    previous.activeId = state.activeId
+    previous.lastSavedAt = state.lastSavedAt
+
+    state.openTabs = pane.tabs
+    state.activeId = pane.activeId
+    state.lastSavedAt = pane.lastSavedAt
+    state.isDirty = false
+    pane.tabs = []
+
+    this.focused = pane
+    this.updateFocus()
+    previous.tabBar.render()
+    pane.tabBar.render()
+  }
+
+  /**
+   * Close a pane and its tab group; the neighbouring pane takes its space
+   * (and focus, if it had it). The last pane is never removed.
+   */
+  remove(pane: EditorPane): void {
+    const index = this.panes.indexOf(pane)
+    if (index < 0 || this.panes.length < 2) return
+    const neighbour = this.panes[index - 1] ?? this.panes[index + 1]
+    if (pane === this.focused) this.focus(neighbour)
+    neighbour.size += pane.size
+    this.panes.splice(index, 1)
+    pane.editor.dispose()
+    pane.element.remove()
+    this.renderLayout()
+  }
+
+  /**
+   * Back to a single pane, e.g. when another vault is opened.
+   */
+  collapse(): void {
+    this.panes.filter((pane) => pane !== this.focused).forEach((pane) => this.remove(pane))
+  }
+
+  /**
+   * Rebuild the panes saved by `toLayout`. Tabs are restored as stubs and the
+   * focused pane's group is moved into `state`; loading the notes is left to
+   * the caller.
+   */
+  restore(layout: PaneLayout): void {
+    const groups = layout.panes.slice(0, MAX_PANES)
+    if (groups.length < 2) return
+    while (this.panes.length < groups.length) this.split(layout.direction)
+    this.direction = layout.direction === 'horizontal' ? 'horizontal' : 'vertical'
+
+    groups.forEach((group, i) => {
+      const pane = this.panes[i]
+      pane.tabs = (group.tabs || []).map((tab) => ({
+        id: tab.id,
+        path: tab.path,
+        title: tab.id === 'settings' ? 'Settings' : tab.title || 'Untitled',
+        updatedAt: 0
+      }))
+      pane.activeId = group.activeId || ''
+      pane.lastSavedAt = 0
+      const size = layout.sizes?.[i]
+      pane.size = typeof size === 'number' && size > 0 ? size : 1
+    })
+
+    const focused = this.panes[Math.min(Math.max(layout.focused || 0, 0), groups.length - 1)]
+    state.openTabs = focused.tabs
+    state.activeId = focused.activeId
+    focused.tabs = []
+    this.focused = focused
+    this.renderLayout()
+    this.panes.forEach((pane) => pane.tabBar.render())
+  }
+
+  toLayout(): PaneLayout {
+    return {
+      direction: this.direction,
+      focused: this.panes.indexOf(this.focused),
+      sizes: this.panes.map((pane) => Math.round(pane.size * 1000) / 1000),
+      panes: this.panes.map((pane) => {
+        const group = this.getGroup(pane)
+        return {
+          tabs: group.tabs.map((t) => ({ id: t.id, path: t.path, title: t.title })),
+          activeId: group.activeId
+        }
+      })
+    }
+  }
+
+  /**
+   * Refresh the stashed tab groups from the note list, as `tabService.syncTabs`
+   * does for the focused one.
+   */
+  syncTabs(notes: NoteMeta[]): void {
+    this.panes.forEach((pane) => {
+      if (pane === this.focused) return
+      pane.tabs = sortTabs(syncTabsWithNotes(pane.tabs, notes), state.pinnedTabs)
+      pane.tabBar.render()
+    })
+  }
+
+  /**
+   * Rewrite the stashed tab groups after notes were renamed or moved.
+   */
+  mapTabs(map: (tab: NoteMeta) => NoteMeta): void {
+    this.panes.forEach((pane) => {
+      if (pane === this.focused) return
+      pane.tabs = pane.tabs.map((tab) => {
+        const next = map(tab)
+        if (tab.id === pane.activeId) pane.activeId = next.id
+        return next
+      })
+      pane.tabBar.render()
+    })
+  }
+
+  /**
+   * While the settings tab is active only the focused pane's tab bar stays
+   * visible, above the settings view.
+   */
+  setSettingsMode(enabled: boolean): void {
+    this.container.classList.toggle('is-settings', enabled)
+  }
+
+  applySettings(settings: AppSettings): void {
+    this.panes.forEach((pane) => pane.editor.applySettings(settings))
+  }
+
+  layout(): void {
+    this.panes.forEach((pane) => pane.editor.layout())
+  }
+
+  renderTabs(): void {
+    this.panes.forEach((pane) => pane.tabBar.render())
+  }
+
+  private createPane(element: HTMLElement, tabBarId: string, editorId: string): EditorPane {
+    const pane: EditorPane = {
+      element,
+      tabBar: new TabBar(tabBarId),
+      editor: new EditorComponent(editorId),
+      tabs: [],
+      activeId: '',
+      lastSavedAt: 0,
+      size: 1
+    }
+    pane.tabBar.setSource(() =>
+      pane === this.focused
+        ? { tabs: state.openTabs, activeId: state.activeId, isDirty: state.isDirty }
+        : { tabs: pane.tabs, activeId: pane.activeId, isDirty: false }
+    )
+    pane.editor.setActive(pane === this.focused)
+
+    // Tab bar actions focus the pane themselves; re-rendering its tabs on
+    // mousedown would cancel a tab drag before it starts
+    const requestFocus = (e: Event): void => {
+      if (pane === this.focused || (e.target as HTMLElement).closest?.('.tabbar')) return
+      this.onFocusRequest?.(pane)
+    }
+    element.addEventListener('mousedown', requestFocus, true)
+    element.addEventListener('focusin', requestFocus)
+    this.attachDragEvents(pane)
+
+    this.onPaneCreated?.(pane)
+    return pane
+  }
+
+  private attachDragEvents(pane: EditorPane): void {
+    const { element } = pane
+
+    element.addEventListener('dragstart', (e) => {
+      const tab = (e.target as HTMLElement).closest?.('.tab') as HTMLElement | null
+      if (!tab?.dataset.id || !e.dataTransfer) return
+      this.dragging = { id: tab.dataset.id, from: pane }
+      e.dataTransfer.setData(TAB_DRAG_TYPE, tab.dataset.id)
+      e.dataTransfer.effectAllowed = 'move'
+    })
+
+    element.addEventListener('dragend', () => {
+      this.dragging = null
+      this.panes.forEach((p) => p.element.classList.remove('is-drop-target'))
+    })
+
+    // Capture phase, so the editor's file drop handling never sees tab drags
+    element.addEventListener(
+      'dragover',
+      (e) => {
+        const drag = this.getTabDrag(e)
+        if (!drag) return
+        e.stopPropagation()
+        if (drag.from === pane || this.panes.length < 2) return
+        e.preventDefault()
+        if (e.dataTransfer) e.dataTransfer.dropEffect = 'move'
+        element.classList.add('is-drop-target')
+      },
+      true
+    )
+
+    element.addEventListener('dragleave', (e) => {
+      if (!element.contains(e.relatedTarget as Node)) {
+        element.classList.remove('is-drop-target')
+      }
+    })
+
+    element.addEventListener(
+      'drop',
+      (e) => {
+        const drag = this.getTabDrag(e)
+        if (!drag) return
+        e.preventDefault()
+        e.stopPropagation()
+        element.classList.remove('is-drop-target')
+        this.dragging = null
+        if (drag.from !== pane) this.onTabDrop?.(drag.id, drag.from, pane)
+      },
+      true
+    )
+  }
+
+  // `dragging` alone can be stale: a tab removed mid-drag never fires dragend
+  private getTabDrag(e: DragEvent): { id: string; from: EditorPane } | null {
+    if (!e.dataTransfer?.types.includes(TAB_DRAG_TYPE)) this.dragging = null
+    return this.dragging
+  }
+
+  private updateFocus(): void {
+    this.panes.forEach((pane) => {
+      const isFocused = pane === this.focused
+      pane.element.classList.toggle('is-focused', isFocused)
+      pane.editor.setActive(isFocused)
+    })
+  }
+
+  private renderLayout(): void {
+    this.container.querySelectorAll(':scope > .pane-splitter').forEach((el) => el.remove())
+    this.container.classList.toggle('editor-panes--vertical', this.direction === 'vertical')
+    this.container.classList.toggle('editor-panes--horizontal', this.direction === 'horizontal')
+    this.container.classList.toggle('is-split', this.panes.length > 1)
+
+    this.panes.forEach((pane, i) => {
+      if (i > 0) {
+        const splitter = document.createElement('div')
+        splitter.className = 'pane-splitter'
+        splitter.addEventListener('mousedown', (e) =>
+          this.handleResizeStart(e, this.panes[i - 1], pane)
+        )
+        this.container.appendChild(splitter)
+      }
+      pane.element.style.flex = `${pane.size} 1 0`
+      this.container.appendChild(pane.element)
+    })
+    this.updateFocus()
+  }
+
+  private handleResizeStart(e: MouseEvent, before: EditorPane, after: EditorPane): void {
+    e.preventDefault()
+    const vertical = this.direction === 'vertical'
+    const total = this.panes.reduce((sum, pane) => sum + pane.size, 0)
+    const length = vertical ? this.container.clientWidth : this.container.clientHeight
+    this.resizing = {
+      before,
+      after,
+      start: vertical ? e.clientX : e.clientY,
+      sizes: [before.size, after.size],
+      pixelsPerUnit: length / total
+    }
+    document.addEventListener('mousemove', this.handleResizeMove)
+    document.addEventListener('mouseup', this.handleResizeEnd)
+    document.body.style.cursor = vertical ? 'ew-resize' : 'ns-resize'
+    document.body.style.userSelect = 'none'
+  }
+
+  private handleResizeMove = (e: MouseEvent): void => {
+    if (!this.resizing) return
+    const { before, after, start, sizes, pixelsPerUnit } = this.resizing
+    const position = this.direction === 'vertical' ? e.clientX : e.clientY
+    const pair = sizes[0] + sizes[1]
+    const total = this.panes.reduce((sum, pane) => sum + pane.size, 0)
+    const min = total * MIN_PANE_SHARE
+    const delta = (position - start) / (pixelsPerUnit || 1)
+    before.size = Math.max(min, Math.min(pair - min, sizes[0] + delta))
+    after.size = pair - before.size
+    before.element.style.flex = `${before.size} 1 0`
+    after.element.style.flex = `${after.size} 1 0`
+  }
+
+  private handleResizeEnd = (): void => {
+    if (!this.resizing) return
+    this.resizing = null
+    document.removeEventListener('mousemove', this.handleResizeMove)
+    document.removeEventListener('mouseup', this.handleResizeEnd)
+    document.body.style.cursor = ''
+    document.body.style.userSelect = ''
+    this.layout()
+    this.onResize?.()
+  }
+}
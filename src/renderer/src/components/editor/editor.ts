@@ -9,11 +9,18 @@ import { themes } from '../../core/themes'
 import type { NotePayload, AppSettings } from '../../core/types'
 import { registerWikiLinkProviders } from '../wikilink/wikilink'
 import { PreviewComponent } from '../preview/preview'
+import { setTaskLineDone } from '../../../../shared/tasks'
+import { collectSourceBlocks, lineForScrollTop, scrollTopForLine } from '../preview/source-lines'
 import './editor.css'
 import '../wikilink/wikilink.css'
 
 type Monaco = any // Use any to bypass stubborn type resolution in dynamic imports
 
+// Typing pause before the live preview re-renders
+const LIVE_RENDER_DELAY = 120
+// How long a mirrored scroll suppresses syncing back the other way
+const SCROLL_SYNC_HOLD = 100
+
 const globalScope = self as unknown as {
   MonacoEnvironment?: {
     getWorker: (moduleId: string, label: string) => Worker
@@ -57,6 +64,7 @@ export class EditorComponent {
   private onGetHoverContent?: (target: string) => Promise<string | null>
   private onContextMenu?: (e: MouseEvent) => void
   private onCursorPositionChange?: () => void
+  private onTaskToggle?: (line: number, done: boolean) => void
   private decorations: string[] = []
   private cachedSettings: AppSettings | null = null
   private providers: { dispose: () => void }[] = []
@@ -66,6 +74,15 @@ export class EditorComponent {
   private preview?: PreviewComponent
   private previewHost?: HTMLElement
   public isPreviewMode: boolean = false
+  // Preview rendered beside the editor while typing, scrolled in step with it
+  public isLivePreview: boolean = false
+  private liveRenderTimer?: number
+  // The side whose scroll is being mirrored, so the mirrored scroll is not echoed back
+  private scrollSyncSource: 'editor' | 'preview' | null = null
+  private scrollSyncReset?: number
+  // Only the editor of the focused split pane reacts to shortcuts and edits
+  private active = true
+  private keydownListener = (event: KeyboardEvent): void => this.handleKeyDown(event)
 
   constructor(containerId: string) {
     this.container = document.getElementById(containerId) as HTMLElement
@@ -73,19 +90,7 @@ export class EditorComponent {
     this.emptyState = this.container.querySelector('.editor-empty') as HTMLElement
     this.editorHost = this.container.querySelector('.editor-host') as HTMLElement
     this.previewHost = this.container.querySelector('.preview-host') as HTMLElement
-
-    // Initialize preview after DOM is ready
-    setTimeout(() => {
-      const previewContainer = document.getElementById('preview-container')
-      if (previewContainer) {
-        this.preview = new PreviewComponent('preview-container')
-        this.preview.setWikiLinkHandler((target) => {
-          if (this.onLinkClick) {
-            this.onLinkClick(target)
-          }
-        })
-      }
-    }, 0)
+    this.previewHost.addEventListener('scroll', () => this.syncEditorScroll())
   }
 
   setContentChangeHandler(handler: () => void): void {
@@ -112,6 +117,13 @@ export class EditorComponent {
     this.onTabClose = handler
   }
 
+  /**
+   * Task checkboxes clicked in the preview, with their 0-based source line.
+   */
+  setTaskToggleHandler(handler: (line: number, done: boolean) => void): void {
+    this.onTaskToggle = handler
+  }
+
   setCursorPositionChangeHandler(handler: () => void): void {
     this.onCursorPositionChange = handler
   }
@@ -192,7 +204,12 @@ export class EditorComponent {
               try {
                 const buffer = await file.arrayBuffer()
                 const name = file.name // or `image-${Date.now()}.${ext}`
-                const savedPath = await window.api.saveAsset(buffer, name)
+                const savedPath = await window.api.saveAsset(
+                  buffer,
+                  name,
+                  state.activeId || undefined
+                )
+                const href = /[\s()]/.test(savedPath) ? `<${savedPath}>` : savedPath
 
                 // Calculate drop position
                 // Monaco doesn't use standard caretRange easily.
@@ -208,7 +225,7 @@ export class EditorComponent {
                         target.position.lineNumber,
                         target.position.column
                       ),
-                      text: `![${name}](${savedPath})`,
+                      text: `![${name}](${href})`,
                       forceMoveMarkers: true
                     }
                   ])
@@ -224,7 +241,7 @@ export class EditorComponent {
                           pos.lineNumber,
                           pos.column
                         ),
-                        text: `![${name}](${savedPath})`,
+                        text: `![${name}](${href})`,
                         forceMoveMarkers: true
                       }
                     ])
@@ -256,20 +273,24 @@ export class EditorComponent {
       <div class="editor-empty">Select or create a note to start writing</div>
       <div class="editor-host" aria-label="Note editor"></div>
       <div class="preview-host" style="display: none;">
-        <div id="preview-container"></div>
+        <div class="preview-container"></div>
       </div>
     `
 
     // Initialize preview after DOM is ready
     setTimeout(() => {
-      const previewContainer = document.getElementById('preview-container')
+      const previewContainer = this.container.querySelector('.preview-container') as HTMLElement
       if (previewContainer) {
-        this.preview = new PreviewComponent('preview-container')
+        this.preview = new PreviewComponent(previewContainer)
         this.preview.setWikiLinkHandler((target) => {
           if (this.onLinkClick) {
             this.onLinkClick(target)
           }
         })
+        this.preview.setTaskToggleHandler((line, done) => this.onTaskToggle?.(line, done))
+        this.preview.setSourceLineClickHandler((line) => {
+          if (this.isLivePreview) this.revealSourceLine(line + 1)
+        })
       }
     }, 0)
   }
@@ -312,6 +333,7 @@ export class EditorComponent {
 
     this.emptyState.style.display = 'none'
     this.editorHost.style.display = 'block'
+    if (this.isLivePreview && this.previewHost) this.previewHost.style.display = 'block'
     this.updatePreview()
     this.updateDecorations()
     this.updateHashtagDecorations()
@@ -344,7 +366,73 @@ export class EditorComponent {
   private updatePreview(): void {
     if (!this.preview || !this.editor) return
     const content = this.editor.getValue()
-    this.preview.update(content)
+    if (this.isLivePreview) {
+      this.preview.renderLive(content)
+      this.syncPreviewScroll()
+    } else {
+      this.preview.update(content)
+    }
+  }
+
+  private scheduleLiveRender(): void {
+    if (this.liveRenderTimer) window.clearTimeout(this.liveRenderTimer)
+    this.liveRenderTimer = window.setTimeout(() => {
+      this.liveRenderTimer = undefined
+      // The preview resolves embeds against the active note
+      if (this.isLivePreview && this.active) this.updatePreview()
+    }, LIVE_RENDER_DELAY)
+  }
+
+  private beginScrollSync(source: 'editor' | 'preview'): void {
+    this.scrollSyncSource = source
+    if (this.scrollSyncReset) window.clearTimeout(this.scrollSyncReset)
+    this.scrollSyncReset = window.setTimeout(() => {
+      this.scrollSyncSource = null
+    }, SCROLL_SYNC_HOLD)
+  }
+
+  // Editor scrolled: bring the preview to the same source line
+  private syncPreviewScroll(): void {
+    if (!this.isLivePreview || !this.editor || !this.previewHost) return
+    if (this.scrollSyncSource === 'preview') return
+
+    const topLine = this.editor.getVisibleRanges()[0]?.startLineNumber
+    if (!topLine) return
+    // Fraction of the top line scrolled past; wrapped lines are taller than one row
+    const lineTop = this.editor.getTopForLineNumber(topLine)
+    const lineHeight = this.editor.getTopForLineNumber(topLine + 1) - lineTop
+    const fraction = lineHeight > 0 ? (this.editor.getScrollTop() - lineTop) / lineHeight : 0
+    const line = topLine - 1 + Math.min(1, Math.max(0, fraction))
+
+    const target = scrollTopForLine(collectSourceBlocks(this.previewHost), line, this.previewHost)
+    if (target === null) return
+    this.beginScrollSync('editor')
+    this.previewHost.scrollTop = target
+  }
+
+  // Preview scrolled: bring the editor to the same source line
+  private syncEditorScroll(): void {
+    if (!this.isLivePreview || !this.editor || !this.previewHost) return
+    if (this.scrollSyncSource === 'editor') return
+
+    const line = lineForScrollTop(collectSourceBlocks(this.previewHost), this.previewHost)
+    const lineCount = this.editor.getModel()?.getLineCount() ?? 0
+    if (line === null || lineCount === 0) return
+    const lineNumber = Math.min(lineCount, Math.floor(line) + 1)
+    const lineTop = this.editor.getTopForLineNumber(lineNumber)
+    const lineHeight = this.editor.getTopForLineNumber(lineNumber + 1) - lineTop
+    this.beginScrollSync('preview')
+    this.editor.setScrollTop(lineTop + lineHeight * (line - Math.floor(line)))
+  }
+
+  /**
+   * Put the caret at the start of a 1-based line, scrolling only if needed.
+   */
+  private revealSourceLine(lineNumber: number): void {
+    if (!this.editor) return
+    this.editor.setPosition({ lineNumber, column: 1 })
+    this.editor.revealLineInCenterIfOutsideViewport(lineNumber)
+    this.editor.focus()
   }
 
   private reRegisterProviders(): void {
@@ -373,6 +461,7 @@ export class EditorComponent {
     this.emptyState.style.display = 'none'
 
     // Update preview content
+    if (this.isLivePreview) this.setLivePreview(false)
     this.preview.update(content)
     this.isPreviewMode = true
   }
@@ -424,6 +513,33 @@ export class EditorComponent {
     ])
   }
 
+  /**
+   * Insert rendered template text at the cursor, then put the caret at
+   * `cursor` (an offset into `text`) or after the inserted text.
+   */
+  insertTemplate(text: string, cursor: number | null): void {
+    if (!this.editor) return
+    const model = this.editor.getModel()
+    const selection = this.editor.getSelection()
+    if (!model || !selection) return
+
+    const start = model.getOffsetAt(selection.getStartPosition())
+    this.editor.executeEdits('template', [{ range: selection, text, forceMoveMarkers: true }])
+    this.revealOffset(start + (cursor ?? text.length))
+  }
+
+  /**
+   * Move the caret to a character offset in the note and scroll it into view.
+   */
+  revealOffset(offset: number): void {
+    const model = this.editor?.getModel()
+    if (!this.editor || !model) return
+    const position = model.getPositionAt(offset)
+    this.editor.setPosition(position)
+    this.editor.revealPositionInCenterIfOutsideViewport(position)
+    this.editor.focus()
+  }
+
   triggerAction(actionId: string): void {
     this.editor?.trigger('context-menu', actionId, null)
   }
@@ -535,12 +651,17 @@ export class EditorComponent {
         this.editor.onDidChangeModelContent(() => {
           this.updateDecorations()
           this.updateHashtagDecorations()
-          if (state.applyingRemote) return
+          if (this.isLivePreview) this.scheduleLiveRender()
+          if (state.applyingRemote || !this.active) return
           this.markDirty()
         })
 
+        this.editor.onDidScrollChange((e) => {
+          if (e.scrollTopChanged) this.syncPreviewScroll()
+        })
+
         this.editor.onDidChangeCursorPosition((e) => {
-          if (state.activeId && state.activeId !== 'settings') {
+          if (this.active && state.activeId && state.activeId !== 'settings') {
             state.cursorPositions.set(state.activeId, {
               lineNumber: e.position.lineNumber,
               column: e.position.column
@@ -553,7 +674,7 @@ export class EditorComponent {
 
         // Register WikiLink Providers
         try {
-          if (this.onGetHoverContent && this.monacoInstance) {
+          if (this.active && this.onGetHoverContent && this.monacoInstance) {
             const wikilinkProviders = registerWikiLinkProviders(
               this.monacoInstance,
               this.onGetHoverContent
@@ -663,30 +784,68 @@ export class EditorComponent {
   }
 
   private triggerSave(): void {
+    const payload = this.buildSavePayload()
+    if (!payload || !this.onSave) return
+    this.onSave(payload)
+  }
+
+  private buildSavePayload(): NotePayload | null {
     const isNote = state.notes.some((n) => n.id === state.activeId)
-    if (
-      !state.activeId ||
-      state.activeId === 'settings' ||
-      !isNote ||
-      !this.editor ||
-      !this.onSave
-    ) {
-      return
+    if (!state.activeId || state.activeId === 'settings' || !isNote || !this.editor) {
+      return null
     }
 
     const content = this.editor.getValue()
     const note = state.notes.find((n) => n.id === state.activeId)
     const title = note?.title || state.projectName
 
-    const payload: NotePayload = {
+    return {
       id: state.activeId,
       title,
       content,
       updatedAt: state.lastSavedAt,
       path: note?.path
     }
+  }
 
-    this.onSave(payload)
+  /**
+   * Cancel the debounced save and return the unsaved content instead, so the
+   * caller can await the write (e.g. before links are rewritten on disk).
+   */
+  takePendingSave(): NotePayload | null {
+    if (this.pendingSave) {
+      window.clearTimeout(this.pendingSave)
+      this.pendingSave = undefined
+    }
+    return state.isDirty ? this.buildSavePayload() : null
+  }
+
+  /**
+   * Move the cursor to a 1-based line and scroll it into view.
+   */
+  revealLine(lineNumber: number): void {
+    if (!this.editor) return
+    this.editor.setPosition({ lineNumber, column: 1 })
+    this.editor.revealLineInCenter(lineNumber)
+    this.editor.focus()
+  }
+
+  /**
+   * Check or uncheck the task on a 0-based line and save right away. Returns
+   * false when that line is not a task.
+   */
+  setTaskDone(line: number, done: boolean): boolean {
+    const model = this.editor?.getModel()
+    if (!this.editor || !model || line < 0 || line >= model.getLineCount()) return false
+    const text = model.getLineContent(line + 1)
+    const updated = setTaskLineDone(text, done)
+    if (updated === null) return false
+    if (updated !== text) {
+      const range = new this.monacoInstance.Range(line + 1, 1, line + 1, text.length + 1)
+      this.editor.executeEdits('task-toggle', [{ range, text: updated }])
+    }
+    this.manualSave()
+    return true
   }
 
   manualSave(): void {
@@ -697,6 +856,43 @@ export class EditorComponent {
     this.triggerSave()
   }
 
+  /**
+   * Mark this editor as the one that owns the global note state (active id,
+   * dirty flag). Wiki link providers are registered for Monaco as a whole,
+   * so only the active editor keeps them to avoid duplicate suggestions.
+   */
+  setActive(active: boolean): void {
+    if (this.active === active) return
+    this.active = active
+    if (active) {
+      this.reRegisterProviders()
+    } else {
+      this.providers.forEach((p) => p.dispose())
+      this.providers = []
+    }
+  }
+
+  isActive(): boolean {
+    return this.active
+  }
+
+  /**
+   * Tear down when the split pane holding this editor is closed.
+   */
+  dispose(): void {
+    if (this.pendingSave) {
+      window.clearTimeout(this.pendingSave)
+      this.pendingSave = undefined
+    }
+    if (this.liveRenderTimer) window.clearTimeout(this.liveRenderTimer)
+    if (this.scrollSyncReset) window.clearTimeout(this.scrollSyncReset)
+    window.removeEventListener('keydown', this.keydownListener)
+    this.providers.forEach((p) => p.dispose())
+    this.providers = []
+    this.editor?.dispose()
+    this.editor = null
+  }
+
   private async loadMonaco(): Promise<Monaco> {
     if (this.monacoInstance) return this.monacoInstance
     // Import full monaco to get all language features (Markdown, etc)
@@ -707,7 +903,7 @@ export class EditorComponent {
 
   attachKeyboardShortcuts(): void {
     if (!this.listenerAttached) {
-      window.addEventListener('keydown', this.handleKeyDown.bind(this))
+      window.addEventListener('keydown', this.keydownListener)
       this.listenerAttached = true
     }
 
@@ -778,6 +974,7 @@ export class EditorComponent {
     this.isPreviewMode = !this.isPreviewMode
 
     if (this.isPreviewMode) {
+      if (this.isLivePreview) this.setLivePreview(false)
       // Show preview, hide editor
       this.editorHost.style.display = 'none'
       this.previewHost.style.display = 'block'
@@ -790,7 +987,35 @@ export class EditorComponent {
     }
   }
 
+  /**
+   * Show the preview beside the editor, re-rendered as you type. Scrolling
+   * either side scrolls the other to the same source line, and clicking the
+   * preview moves the caret there.
+   */
+  toggleLivePreview(): void {
+    if (!this.isLivePreview) {
+      const isNote = state.notes.some((n) => n.id === state.activeId)
+      if (!state.activeId || state.activeId === 'settings' || !isNote) return
+      if (this.isPreviewMode) this.togglePreview()
+    }
+    this.setLivePreview(!this.isLivePreview)
+  }
+
+  private setLivePreview(enabled: boolean): void {
+    if (!this.previewHost) return
+    this.isLivePreview = enabled
+    this.container.classList.toggle('is-split-preview', enabled)
+    this.previewHost.style.display = enabled ? 'block' : 'none'
+    if (this.liveRenderTimer) {
+      window.clearTimeout(this.liveRenderTimer)
+      this.liveRenderTimer = undefined
+    }
+    this.layout()
+    if (enabled) this.updatePreview()
+  }
+
   private handleKeyDown(event: KeyboardEvent): void {
+    if (!this.active) return
     const isMod = event.ctrlKey || event.metaKey
     const key = event.key.toLowerCase()
 
@@ -1,6 +1,7 @@
 import { state } from '../../core/state'
 import { codicons } from '../../utils/codicons'
 import getFileIcon from '../../utils/fileIconMappers'
+import { matchesQuery, parseSearchQuery } from '../../../../shared/searchQuery'
 import './fuzzy-finder.css'
 
 export interface Command {
@@ -28,6 +29,8 @@ export class FuzzyFinder {
   ) => Promise<void> | void
   private mode: 'notes' | 'commands' = 'notes'
   private commands: Command[] = []
+  // Inline and frontmatter tags by note id, the same set the sidebar search uses
+  private noteTags: Record<string, string[]> = {}
 
   constructor(containerId: string) {
     this.container = document.getElementById(containerId) as HTMLElement
@@ -77,6 +80,17 @@ export class FuzzyFinder {
 
     // Reset
     this.filter('')
+    if (mode === 'notes') void this.loadNoteTags()
+  }
+
+  private async loadNoteTags(): Promise<void> {
+    try {
+      this.noteTags = await window.api.getNoteTags()
+    } catch (error) {
+      console.error('[FuzzyFinder] Failed to load note tags', error)
+      return
+    }
+    if (this.isOpen && this.mode === 'notes' && this.input?.value) this.filter(this.input.value)
   }
 
   private switchToCommandMode(): void {
@@ -261,18 +275,32 @@ export class FuzzyFinder {
       // Show recent 5 notes on empty query
       matches = [...allItems].sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0)).slice(0, 5)
     } else {
-      matches = allItems.filter((n) => {
-        const title = (n.title || '').toLowerCase()
-        const path = (n.path || '').toLowerCase()
-        return title.includes(term) || path.includes(term)
-      })
+      // Same query language as the sidebar search; free text matches title or path here
+      const parsed = parseSearchQuery(query)
+      matches = allItems.filter((n) =>
+        matchesQuery(n, parsed, {
+          text: (note, clause) => {
+            const value = clause.value.toLowerCase()
+            return (
+              note.title.toLowerCase().includes(value) ||
+              (note.path || '').toLowerCase().includes(value)
+            )
+          },
+          tags: (note) => this.noteTags[note.id] ?? []
+        })
+      )
+      const firstText = parsed.groups
+        .flat()
+        .find((clause) => clause.field === 'text' && !clause.negated)
+      const rankTerm = firstText ? firstText.value.toLowerCase() : ''
 
       // 2. Sort by relevance
       matches.sort((a, b) => {
+        if (!rankTerm) return (b.updatedAt || 0) - (a.updatedAt || 0)
         const aTitle = (a.title || '').toLowerCase()
         const bTitle = (b.title || '').toLowerCase()
-        const aStarts = aTitle.startsWith(term)
-        const bStarts = bTitle.startsWith(term)
+        const aStarts = aTitle.startsWith(rankTerm)
+        const bStarts = bTitle.startsWith(rankTerm)
 
         if (aStarts && !bStarts) return -1
         if (!aStarts && bStarts) return 1
@@ -284,7 +312,7 @@ export class FuzzyFinder {
 
     this.visibleItems = matches
     this.selectedIndex = 0
-    this.query = term // Store query
+    this.query = term ? this.highlightTerm(query) : '' // Store query
     this.renderList()
   }
 
@@ -311,6 +339,16 @@ export class FuzzyFinder {
 
   private query = ''
 
+  /**
+   * Text to highlight in results: the first positive free-text or title: value.
+   */
+  private highlightTerm(query: string): string {
+    const clause = parseSearchQuery(query)
+      .groups.flat()
+      .find((c) => (c.field === 'text' || c.field === 'title') && !c.negated)
+    return clause ? clause.value.toLowerCase() : ''
+  }
+
   private renderList(): void {
     if (!this.list) return
 
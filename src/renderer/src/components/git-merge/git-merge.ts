@@ -0,0 +1,294 @@
+/**
+ * Git Merge
+ * Resolves the conflicts a git sync pull left behind. Each conflicted file
+ * shows the remote version next to the local one; the local side is editable
+ * so the two can be combined by hand before finishing the merge.
+ */
+
+import { state } from '../../core/state'
+import { gitSyncService } from '../../services/sync/gitSyncService'
+import { notificationManager } from '../notification/notification'
+import type { GitConflict, GitConflictChoice } from '../../core/types'
+import './git-merge.css'
+import '../window-header/window-header.css'
+
+export interface GitMergeCallbacks {
+  /** Files changed on disk: a conflict was resolved or the merge was aborted */
+  changed: () => Promise<void>
+}
+
+// monaco-editor is declared loosely (types/monaco.d.ts); this is the slice used here
+type TextModel = { dispose: () => void; getValue: () => string }
+type DiffModel = { original: TextModel; modified: TextModel }
+type DiffEditor = {
+  setModel: (model: DiffModel) => void
+  getModel: () => DiffModel | null
+  dispose: () => void
+}
+type MonacoDiffApi = {
+  editor: {
+    createDiffEditor: (host: HTMLElement, options: Record<string, unknown>) => DiffEditor
+    createModel: (value: string, language: string) => TextModel
+  }
+}
+
+export class GitMergeView {
+  private modal: HTMLElement
+  private list!: HTMLElement
+  private diffHost!: HTMLElement
+  private summary!: HTMLElement
+  private finishButton!: HTMLButtonElement
+  private callbacks: GitMergeCallbacks
+  private conflicts: GitConflict[] = []
+  private selected: GitConflict | null = null
+  private monaco: MonacoDiffApi | null = null
+  private diffEditor: DiffEditor | null = null
+  private busy = false
+
+  constructor(callbacks: GitMergeCallbacks) {
+    this.callbacks = callbacks
+    this.modal = document.createElement('div')
+    this.modal.className = 'git-merge'
+    this.render()
+    document.body.appendChild(this.modal)
+
+    window.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isOpen()) {
+        this.close()
+      }
+    })
+  }
+
+  isOpen(): boolean {
+    return this.modal.classList.contains('is-visible')
+  }
+
+  async open(): Promise<void> {
+    this.modal.classList.add('is-visible')
+    await this.refresh()
+  }
+
+  /**
+   * Hide the view; the merge stays in progress until finished or aborted.
+   */
+  close(): void {
+    this.modal.classList.remove('is-visible')
+    this.disposeDiff()
+    this.selected = null
+  }
+
+  async refresh(): Promise<void> {
+    this.list.innerHTML = '<div class="git-merge__empty">Loading conflicts…</div>'
+    try {
+      this.conflicts = await gitSyncService.getConflicts()
+    } catch (error) {
+      console.error('[GitMerge] Failed to load conflicts', error)
+      this.conflicts = []
+    }
+    this.renderList()
+    const next = this.conflicts.find((c) => c.path === this.selected?.path) ?? this.conflicts[0]
+    if (next) await this.select(next)
+    else this.showMessage('All conflicts are resolved. Finish the merge to push it.')
+  }
+
+  private render(): void {
+    this.modal.innerHTML = `
+      <div class="git-merge__content">
+        <div class="window-header" style="flex-shrink: 0;">
+          <div class="window-header__brand">
+            <span class="window-header__title">Resolve Sync Conflicts</span>
+            <span class="git-merge__count"></span>
+          </div>
+          <div class="window-header__controls">
+            <button class="wh-btn wh-close git-merge__close" title="Close (Esc)" aria-label="Close">×</button>
+          </div>
+        </div>
+        <div class="git-merge__main">
+          <div class="git-merge__sidebar">
+            <div class="git-merge__list"></div>
+            <div class="git-merge__footer">
+              <button class="git-merge__button git-merge__abort">Abort merge</button>
+              <button class="git-merge__button git-merge__button--primary git-merge__finish" disabled>Finish merge</button>
+            </div>
+          </div>
+          <div class="git-merge__detail">
+            <div class="git-merge__toolbar">
+              <span class="git-merge__summary"></span>
+              <button class="git-merge__button" data-choice="theirs">Take remote</button>
+              <button class="git-merge__button" data-choice="ours">Keep local</button>
+              <button class="git-merge__button git-merge__button--primary" data-choice="merged">Use edited</button>
+            </div>
+            <div class="git-merge__diff"></div>
+          </div>
+        </div>
+      </div>
+    `
+
+    this.list = this.modal.querySelector('.git-merge__list') as HTMLElement
+    this.diffHost = this.modal.querySelector('.git-merge__diff') as HTMLElement
+    this.summary = this.modal.querySelector('.git-merge__summary') as HTMLElement
+    this.finishButton = this.modal.querySelector('.git-merge__finish') as HTMLButtonElement
+
+    this.modal.querySelector('.git-merge__close')?.addEventListener('click', () => this.close())
+    this.modal.addEventListener('click', (e) => {
+      if (e.target === this.modal) this.close()
+    })
+    this.list.addEventListener('click', (e) => {
+      const item = (e.target as HTMLElement).closest<HTMLElement>('.git-merge__item')
+      const conflict = this.conflicts.find((c) => c.path === item?.dataset.path)
+      if (conflict) void this.select(conflict)
+    })
+    this.modal.querySelectorAll<HTMLButtonElement>('[data-choice]').forEach((button) => {
+      button.addEventListener('click', () => {
+        void this.resolve(button.dataset.choice as GitConflictChoice)
+      })
+    })
+    this.finishButton.addEventListener('click', () => void this.finish())
+    this.modal
+      .querySelector('.git-merge__abort')
+      ?.addEventListener('click', () => void this.abort())
+  }
+
+  private renderList(): void {
+    const count = this.conflicts.length
+    ;(this.modal.querySelector('.git-merge__count') as HTMLElement).textContent =
+      `${count} file${count === 1 ? '' : 's'} left`
+    this.finishButton.disabled = count > 0
+
+    this.list.innerHTML = ''
+    if (count === 0) {
+      this.list.innerHTML = '<div class="git-merge__empty">No conflicts</div>'
+      return
+    }
+    this.conflicts.forEach((conflict) => {
+      const item = document.createElement('div')
+      item.className = 'git-merge__item'
+      item.dataset.path = conflict.path
+      item.classList.toggle('is-active', conflict.path === this.selected?.path)
+      const name = document.createElement('span')
+      name.className = 'git-merge__name'
+      name.textContent = conflict.path.split('/').pop() || conflict.path
+      const detail = document.createElement('span')
+      detail.className = 'git-merge__detail-text'
+      detail.textContent =
+        conflict.ours === null
+          ? 'Deleted here, changed remotely'
+          : conflict.theirs === null
+            ? 'Changed here, deleted remotely'
+            : conflict.path
+      item.append(name, detail)
+      this.list.appendChild(item)
+    })
+  }
+
+  private async select(conflict: GitConflict): Promise<void> {
+    this.selected = conflict
+    this.list.querySelectorAll<HTMLElement>('.git-merge__item').forEach((item) => {
+      item.classList.toggle('is-active', item.dataset.path === conflict.path)
+    })
+    this.summary.textContent = 'Remote (left) · Local, editable (right)'
+    this.setChoicesEnabled(true)
+    await this.showDiff(conflict.theirs ?? '', conflict.ours ?? '')
+  }
+
+  private async showDiff(original: string, modified: string): Promise<void> {
+    if (!this.monaco) this.monaco = (await import('monaco-editor')) as unknown as MonacoDiffApi
+    const monaco = this.monaco
+
+    if (!this.diffEditor) {
+      this.diffHost.innerHTML = ''
+      const isLight = state.settings?.theme === 'light' || state.settings?.theme === 'github-light'
+      this.diffEditor = monaco.editor.createDiffEditor(this.diffHost, {
+        theme: isLight ? 'vs' : 'vs-dark',
+        automaticLayout: true,
+        readOnly: false,
+        originalEditable: false,
+        renderSideBySide: true,
+        wordWrap: 'on',
+        diffWordWrap: 'on',
+        minimap: { enabled: false },
+        scrollBeyondLastLine: false
+      })
+    }
+
+    const previous = this.diffEditor.getModel()
+    this.diffEditor.setModel({
+      original: monaco.editor.createModel(original, 'markdown'),
+      modified: monaco.editor.createModel(modified, 'markdown')
+    })
+    previous?.original.dispose()
+    previous?.modified.dispose()
+  }
+
+  private async resolve(choice: GitConflictChoice): Promise<void> {
+    const conflict = this.selected
+    if (!conflict || this.busy) return
+    const content =
+      choice === 'merged' ? this.diffEditor?.getModel()?.modified.getValue() : undefined
+
+    await this.run(async () => {
+      await gitSyncService.resolveConflict(conflict.path, choice, content)
+      await this.callbacks.changed()
+      this.selected = null
+      await this.refresh()
+    }, 'Could not resolve conflict')
+  }
+
+  private async finish(): Promise<void> {
+    await this.run(async () => {
+      // The sync service reports the pushed result
+      await gitSyncService.finishMerge()
+      this.close()
+    }, 'Could not finish the merge')
+  }
+
+  private async abort(): Promise<void> {
+    await this.run(async () => {
+      await gitSyncService.abortMerge()
+      await this.callbacks.changed()
+      this.close()
+      notificationManager.show('Merge aborted. Local notes are unchanged.', 'info', {
+        title: 'Git Sync'
+      })
+    }, 'Could not abort the merge')
+  }
+
+  private async run(task: () => Promise<void>, failure: string): Promise<void> {
+    this.busy = true
+    this.modal.classList.add('is-busy')
+    try {
+      await task()
+    } catch (error) {
+      notificationManager.show((error as Error).message, 'error', { title: failure })
+    } finally {
+      this.busy = false
+      this.modal.classList.remove('is-busy')
+    }
+  }
+
+  private showMessage(message: string): void {
+    this.disposeDiff()
+    this.summary.textContent = ''
+    this.setChoicesEnabled(false)
+    this.diffHost.innerHTML = ''
+    const el = document.createElement('div')
+    el.className = 'git-merge__empty'
+    el.textContent = message
+    this.diffHost.appendChild(el)
+  }
+
+  private setChoicesEnabled(enabled: boolean): void {
+    this.modal.querySelectorAll<HTMLButtonElement>('[data-choice]').forEach((button) => {
+      button.disabled = !enabled
+    })
+  }
+
+  private disposeDiff(): void {
+    if (!this.diffEditor) return
+    const model = this.diffEditor.getModel()
+    this.diffEditor.dispose()
+    model?.original.dispose()
+    model?.modified.dispose()
+    this.diffEditor = null
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Version History
+ * Browses the snapshots kept for a note, diffs any of them against the
+ * current editor content and restores the chosen version.
+ */
+
+import { state } from '../../core/state'
+import type { NoteVersion } from '../../core/types'
+import './history.css'
+import '../window-header/window-header.css'
+
+export interface HistoryViewCallbacks {
+  /** Content to diff against; the live editor text when the note is open */
+  getCurrentContent: (id: string) => Promise<string>
+  restore: (id: string, versionId: string) => Promise<void>
+}
+
+// monaco-editor is declared loosely (types/monaco.d.ts); this is the slice used here
+type TextModel = { dispose: () => void }
+type DiffModel = { original: TextModel; modified: TextModel }
+type DiffEditor = {
+  setModel: (model: DiffModel) => void
+  getModel: () => DiffModel | null
+  dispose: () => void
+}
+type MonacoDiffApi = {
+  editor: {
+    createDiffEditor: (host: HTMLElement, options: Record<string, unknown>) => DiffEditor
+    createModel: (value: string, language: string) => TextModel
+  }
+}
+
+const REASON_LABELS: Record<NoteVersion['reason'], string> = {
+  session: 'Autosave',
+  'large-edit': 'Before large edit',
+  restore: 'Before restore',
+  delete: 'Before delete',
+  'link-update': 'Before link update',
+  import: 'Before import'
+}
+
+export class HistoryView {
+  private modal: HTMLElement
+  private list!: HTMLElement
+  private diffHost!: HTMLElement
+  private summary!: HTMLElement
+  private restoreButton!: HTMLButtonElement
+  private callbacks: HistoryViewCallbacks
+  private noteId: string | null = null
+  private versions: NoteVersion[] = []
+  private selectedId: string | null = null
+  private monaco: MonacoDiffApi | null = null
+  private diffEditor: DiffEditor | null = null
+  private request = 0
+
+  constructor(callbacks: HistoryViewCallbacks) {
+    this.callbacks = callbacks
+    this.modal = document.createElement('div')
+    this.modal.className = 'history-view'
+    this.render()
+    document.body.appendChild(this.modal)
+
+    window.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isOpen()) {
+        this.close()
+      }
+    })
+  }
+
+  isOpen(): boolean {
+    return this.modal.classList.contains('is-visible')
+  }
+
+  async open(id: string, title: string): Promise<void> {
+    this.noteId = id
+    this.selectedId = null
+    ;(this.modal.querySelector('.history-view__note') as HTMLElement).textContent = title
+    this.modal.classList.add('is-visible')
+    await this.refresh()
+  }
+
+  close(): void {
+    this.modal.classList.remove('is-visible')
+    this.disposeDiff()
+    this.noteId = null
+  }
+
+  async refresh(): Promise<void> {
+    if (!this.noteId) return
+    this.list.innerHTML = '<div class="history-view__empty">Loading history…</div>'
+    try {
+      this.versions = await window.api.getNoteHistory(this.noteId)
+    } catch (error) {
+      console.error('[History] Failed to load versions', error)
+      this.versions = []
+    }
+    this.renderList()
+    const first = this.versions[0]
+    if (first) await this.select(first.id)
+    else this.showMessage('No versions yet. Snapshots are taken as you edit.')
+  }
+
+  private render(): void {
+    this.modal.innerHTML = `
+      <div class="history-view__content">
+        <div class="window-header" style="flex-shrink: 0;">
+          <div class="window-header__brand">
+            <span class="window-header__title">Version History</span>
+            <span class="history-view__note"></span>
+          </div>
+          <div class="window-header__controls">
+            <button class="wh-btn wh-close history-view__close" title="Close (Esc)" aria-label="Close">×</button>
+          </div>
+        </div>
+        <div class="history-view__main">
+          <div class="history-view__list"></div>
+          <div class="history-view__detail">
+            <div class="history-view__toolbar">
+              <span class="history-view__summary"></span>
+              <button class="history-view__restore" disabled>Restore this version</button>
+            </div>
+            <div class="history-view__diff"></div>
+          </div>
+        </div>
+      </div>
+    `
+
+    this.list = this.modal.querySelector('.history-view__list') as HTMLElement
+    this.diffHost = this.modal.querySelector('.history-view__diff') as HTMLElement
+    this.summary = this.modal.querySelector('.history-view__summary') as HTMLElement
+    this.restoreButton = this.modal.querySelector('.history-view__restore') as HTMLButtonElement
+
+    this.modal.querySelector('.history-view__close')?.addEventListener('click', () => this.close())
+    this.modal.addEventListener('click', (e) => {
+      if (e.target === this.modal) this.close()
+    })
+    this.list.addEventListener('click', (e) => {
+      const item = (e.target as HTMLElement).closest<HTMLElement>('.history-view__item')
+      if (item?.dataset.id) void this.select(item.dataset.id)
+    })
+    this.restoreButton.addEventListener('click', () => void this.restoreSelected())
+  }
+
+  private renderList(): void {
+    this.list.innerHTML = ''
+    if (this.versions.length === 0) {
+      this.list.innerHTML = '<div class="history-view__empty">No versions</div>'
+      return
+    }
+
+    let lastDay = ''
+    this.versions.forEach((version) => {
+      const date = new Date(version.createdAt)
+      const day = date.toLocaleDateString(undefined, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric'
+      })
+      if (day !== lastDay) {
+        const heading = document.createElement('div')
+        heading.className = 'history-view__day'
+        heading.textContent = day
+        this.list.appendChild(heading)
+        lastDay = day
+      }
+
+      const item = document.createElement('div')
+      item.className = 'history-view__item'
+      item.dataset.id = version.id
+      item.classList.toggle('is-active', version.id === this.selectedId)
+
+      const time = document.createElement('span')
+      time.className = 'history-view__time'
+      time.textContent = date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+      const detail = document.createElement('span')
+      detail.className = 'history-view__reason'
+      detail.textContent = `${REASON_LABELS[version.reason] ?? version.reason} · ${this.formatSize(version.size)}`
+      item.append(time, detail)
+      this.list.appendChild(item)
+    })
+  }
+
+  private async select(versionId: string): Promise<void> {
+    const id = this.noteId
+    if (!id) return
+    const request = ++this.request
+    this.selectedId = versionId
+    this.list.querySelectorAll<HTMLElement>('.history-view__item').forEach((item) => {
+      item.classList.toggle('is-active', item.dataset.id === versionId)
+    })
+    this.restoreButton.disabled = true
+
+    const [content, current] = await Promise.all([
+      window.api.getNoteVersion(id, versionId),
+      this.callbacks.getCurrentContent(id)
+    ])
+    if (request !== this.request || !this.isOpen()) return
+    if (content === null) {
+      this.showMessage('This version is no longer available.')
+      return
+    }
+
+    const version = this.versions.find((v) => v.id === versionId)
+    this.summary.textContent = version
+      ? `${new Date(version.createdAt).toLocaleString()} (left) compared with the current note (right)`
+      : ''
+    this.restoreButton.disabled = content === current
+    await this.showDiff(content, current)
+  }
+
+  private async showDiff(original: string, modified: string): Promise<void> {
+    if (!this.monaco) this.monaco = (await import('monaco-editor')) as unknown as MonacoDiffApi
+    const monaco = this.monaco
+
+    if (!this.diffEditor) {
+      this.diffHost.innerHTML = ''
+      const isLight = state.settings?.theme === 'light' || state.settings?.theme === 'github-light'
+      this.diffEditor = monaco.editor.createDiffEditor(this.diffHost, {
+        theme: isLight ? 'vs' : 'vs-dark',
+        automaticLayout: true,
+        readOnly: true,
+        originalEditable: false,
+        renderSideBySide: true,
+        wordWrap: 'on',
+        diffWordWrap: 'on',
+        minimap: { enabled: false },
+        scrollBeyondLastLine: false
+      })
+    }
+
+    const previous = this.diffEditor.getModel()
+    this.diffEditor.setModel({
+      original: monaco.editor.createModel(original, 'markdown'),
+      modified: monaco.editor.createModel(modified, 'markdown')
+    })
+    previous?.original.dispose()
+    previous?.modified.dispose()
+  }
+
+  private showMessage(message: string): void {
+    this.disposeDiff()
+    this.summary.textContent = ''
+    this.restoreButton.disabled = true
+    this.diffHost.innerHTML = ''
+    const el = document.createElement('div')
+    el.className = 'history-view__empty'
+    el.textContent = message
+    this.diffHost.appendChild(el)
+  }
+
+  private disposeDiff(): void {
+    if (!this.diffEditor) return
+    const model = this.diffEditor.getModel()
+    this.diffEditor.dispose()
+    model?.original.dispose()
+    model?.modified.dispose()
+    this.diffEditor = null
+  }
+
+  private async restoreSelected(): Promise<void> {
+    const id = this.noteId
+    const versionId = this.selectedId
+    if (!id || !versionId) return
+
+    this.restoreButton.disabled = true
+    try {
+      await this.callbacks.restore(id, versionId)
+      this.close()
+    } catch (error) {
+      console.error('[History] Restore failed', error)
+      this.restoreButton.disabled = false
+    }
+  }
+
+  private formatSize(size: number): string {
+    return size < 1024 ? `${size} chars` : `${(size / 1024).toFixed(1)}k chars`
+  }
+}
@@ -0,0 +1,274 @@
+import { modalManager } from '../modal/modal'
+import { notificationManager } from '../notification/notification'
+import type {
+  ImportConflictAction,
+  ImportPlan,
+  ImportSource,
+  ImportSummary
+} from '../../core/types'
+import './import-wizard.css'
+
+const SOURCES: { id: ImportSource; label: string; hint: string }[] = [
+  {
+    id: 'obsidian',
+    label: 'Obsidian vault',
+    hint: 'Notes and attachments, keeping the folder layout'
+  },
+  {
+    id: 'notion',
+    label: 'Notion export (.zip)',
+    hint: 'A "Markdown & CSV" export; page ids are removed and links fixed'
+  },
+  {
+    id: 'folder',
+    label: 'Folder of Markdown files',
+    hint: 'Every .md and .txt file, including sub-folders'
+  }
+]
+
+const ACTIONS: { id: ImportConflictAction; label: string }[] = [
+  { id: 'rename', label: 'Keep both' },
+  { id: 'overwrite', label: 'Replace' },
+  { id: 'skip', label: 'Skip' }
+]
+
+/**
+ * Bulk import in two steps: pick the source and destination folder, then
+ * review a report of what will be written and decide what to do with files
+ * that already exist in the vault.
+ */
+export class ImportWizard {
+  private source: ImportSource = 'obsidian'
+
+  /**
+   * Resolves the import summary, or null when the user cancelled.
+   */
+  open(): Promise<ImportSummary | null> {
+    return new Promise((resolve) => {
+      let settled = false
+      const settle = (value: ImportSummary | null): void => {
+        if (settled) return
+        settled = true
+        resolve(value)
+      }
+      this.chooseSource(settle)
+    })
+  }
+
+  private chooseSource(settle: (value: ImportSummary | null) => void): void {
+    let advancing = false
+    const list = document.createElement('div')
+    list.className = 'import-wizard__sources'
+    SOURCES.forEach((source) => {
+      const option = document.createElement('label')
+      option.className = 'import-wizard__source'
+      const radio = document.createElement('input')
+      radio.type = 'radio'
+      radio.name = 'import-source'
+      radio.value = source.id
+      radio.checked = source.id === this.source
+      radio.addEventListener('change', () => (this.source = source.id))
+      const text = document.createElement('span')
+      text.className = 'import-wizard__source-text'
+      const label = document.createElement('span')
+      label.className = 'import-wizard__source-label'
+      label.textContent = source.label
+      const hint = document.createElement('span')
+      hint.className = 'import-wizard__hint'
+      hint.textContent = source.hint
+      text.append(label, hint)
+      option.append(radio, text)
+      list.appendChild(option)
+    })
+
+    modalManager.open({
+      title: 'Import Notes',
+      customContent: list,
+      size: 'md',
+      inputs: [
+        {
+          name: 'folder',
+          label: 'Import into vault folder',
+          placeholder: 'Leave empty to use the source name'
+        }
+      ],
+      onClose: () => {
+        if (!advancing) settle(null)
+      },
+      buttons: [
+        { label: 'Cancel', variant: 'ghost', onClick: (m) => m.close() },
+        {
+          label: 'Choose Source...',
+          variant: 'primary',
+          onClick: async (m) => {
+            const origin = await window.api.chooseImportSource(this.source)
+            if (!origin) return
+            const folder = String(m.getValues().folder ?? '').trim() || this.defaultFolder(origin)
+
+            m.setLoading(true)
+            try {
+              const plan = await window.api.planImport(this.source, origin, folder)
+              advancing = true
+              this.showReport(plan, settle)
+            } catch (error) {
+              m.setLoading(false)
+              notificationManager.show((error as Error).message, 'error', { title: 'Import' })
+            }
+          }
+        }
+      ]
+    })
+  }
+
+  private showReport(plan: ImportPlan, settle: (value: ImportSummary | null) => void): void {
+    let importing = false
+    const actions: Record<string, ImportConflictAction> = {}
+    const conflicts = plan.entries.filter((entry) => entry.conflict)
+    conflicts.forEach((entry) => (actions[entry.target] = 'rename'))
+
+    const content = document.createElement('div')
+    content.className = 'import-wizard__report'
+
+    const notes = plan.entries.filter((entry) => entry.kind === 'note').length
+    const attachments = plan.entries.length - notes
+    const summary = document.createElement('div')
+    summary.className = 'import-wizard__summary'
+    summary.textContent = `${notes} note${notes === 1 ? '' : 's'}${
+      attachments ? ` and ${attachments} attachment${attachments === 1 ? '' : 's'}` : ''
+    } will be imported into "${plan.folder || 'vault root'}".`
+    content.appendChild(summary)
+
+    plan.remarks.forEach((remark) => {
+      const line = document.createElement('div')
+      line.className = 'import-wizard__hint'
+      line.textContent = remark
+      content.appendChild(line)
+    })
+
+    if (conflicts.length > 0) {
+      const section = this.section(
+        content,
+        `${conflicts.length} file${conflicts.length === 1 ? '' : 's'} already exist${
+          conflicts.length === 1 ? 's' : ''
+        }`
+      )
+      const selects: HTMLSelectElement[] = []
+      const all = this.actionSelect('rename', (action) => {
+        conflicts.forEach((entry) => (actions[entry.target] = action))
+        selects.forEach((select) => (select.value = action))
+      })
+      const allRow = document.createElement('div')
+      allRow.className = 'import-wizard__row import-wizard__row--all'
+      const allLabel = document.createElement('span')
+      allLabel.className = 'import-wizard__path'
+      allLabel.textContent = 'All conflicts'
+      allRow.append(allLabel, all)
+      section.appendChild(allRow)
+
+      conflicts.forEach((entry) => {
+        const row = document.createElement('div')
+        row.className = 'import-wizard__row'
+        const path = document.createElement('span')
+        path.className = 'import-wizard__path'
+        path.textContent = entry.target
+        path.title = entry.source
+        const select = this.actionSelect('rename', (action) => (actions[entry.target] = action))
+        selects.push(select)
+        row.append(path, select)
+        section.appendChild(row)
+      })
+    }
+
+    const renamed = plan.entries.filter((entry) => entry.renamed)
+    if (renamed.length > 0) {
+      this.list(
+        content,
+        `${renamed.length} renamed to avoid duplicate names`,
+        renamed.map((entry) => `${entry.source} → ${entry.target}`)
+      )
+    }
+    if (plan.skipped.length > 0) {
+      this.list(content, `${plan.skipped.length} skipped`, plan.skipped)
+    }
+
+    modalManager.open({
+      title: 'Review Import',
+      customContent: content,
+      size: 'lg',
+      onClose: () => {
+        if (!importing) settle(null)
+      },
+      buttons: [
+        { label: 'Cancel', variant: 'ghost', onClick: (m) => m.close() },
+        {
+          label: `Import ${plan.entries.length} file${plan.entries.length === 1 ? '' : 's'}`,
+          variant: 'primary',
+          onClick: async (m) => {
+            m.setLoading(true)
+            try {
+              const result = await window.api.applyImport(plan.id, actions)
+              importing = true
+              settle(result)
+              m.close()
+            } catch (error) {
+              m.setLoading(false)
+              notificationManager.show((error as Error).message, 'error', { title: 'Import' })
+            }
+          }
+        }
+      ]
+    })
+  }
+
+  private section(parent: HTMLElement, title: string): HTMLElement {
+    const section = document.createElement('div')
+    section.className = 'import-wizard__section'
+    const heading = document.createElement('div')
+    heading.className = 'import-wizard__section-title'
+    heading.textContent = title
+    section.appendChild(heading)
+    parent.appendChild(section)
+    return section
+  }
+
+  private list(parent: HTMLElement, title: string, items: string[]): void {
+    const details = document.createElement('details')
+    details.className = 'import-wizard__section'
+    const summary = document.createElement('summary')
+    summary.className = 'import-wizard__section-title'
+    summary.textContent = title
+    details.appendChild(summary)
+    items.forEach((item) => {
+      const line = document.createElement('div')
+      line.className = 'import-wizard__path'
+      line.textContent = item
+      details.appendChild(line)
+    })
+    parent.appendChild(details)
+  }
+
+  private actionSelect(
+    value: ImportConflictAction,
+    onChange: (action: ImportConflictAction) => void
+  ): HTMLSelectElement {
+    const select = document.createElement('select')
+    select.className = 'import-wizard__action'
+    ACTIONS.forEach((action) => {
+      const option = document.createElement('option')
+      option.value = action.id
+      option.textContent = action.label
+      select.appendChild(option)
+    })
+    select.value = value
+    select.addEventListener('change', () => onChange(select.value as ImportConflictAction))
+    return select
+  }
+
+  private defaultFolder(origin: string): string {
+    const name = origin.split(/[\\/]/).pop() || ''
+    if (this.source === 'notion') return 'Notion'
+    return name.replace(/\.zip$/i, '') || 'Imported'
+  }
+}
+
+export const importWizard = new ImportWizard()
@@ -0,0 +1,228 @@
+/**
+ * Link Health Report
+ * Lists unresolved wikilinks (grouped by target) and orphan notes, with
+ * quick actions to create the missing note or jump to the offending line.
+ */
+
+import type { LinkReport, UnresolvedLink } from '../../core/types'
+import './link-report.css'
+import '../window-header/window-header.css'
+
+export interface LinkReportCallbacks {
+  openNote: (id: string, path?: string, line?: number) => Promise<void>
+  createNote: (target: string) => Promise<void>
+}
+
+type ReportTab = 'unresolved' | 'orphans'
+
+export class LinkReportView {
+  private modal: HTMLElement
+  private body!: HTMLElement
+  private stats!: HTMLElement
+  private callbacks: LinkReportCallbacks
+  private report: LinkReport | null = null
+  private activeTab: ReportTab = 'unresolved'
+
+  constructor(callbacks: LinkReportCallbacks) {
+    this.callbacks = callbacks
+    this.modal = document.createElement('div')
+    this.modal.className = 'link-report'
+    this.render()
+    document.body.appendChild(this.modal)
+
+    window.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isOpen()) {
+        this.close()
+      }
+    })
+  }
+
+  isOpen(): boolean {
+    return this.modal.classList.contains('is-visible')
+  }
+
+  async open(): Promise<void> {
+    this.modal.classList.add('is-visible')
+    await this.refresh()
+  }
+
+  close(): void {
+    this.modal.classList.remove('is-visible')
+  }
+
+  async refresh(): Promise<void> {
+    this.body.innerHTML = '<div class="link-report__empty">Checking links…</div>'
+    try {
+      this.report = await window.api.getLinkReport()
+    } catch (error) {
+      console.error('[LinkReport] Failed to build report', error)
+      this.report = null
+      this.body.innerHTML = '<div class="link-report__empty">Could not build the report.</div>'
+      return
+    }
+    this.renderReport()
+  }
+
+  private render(): void {
+    this.modal.innerHTML = `
+      <div class="link-report__content">
+        <div class="window-header" style="flex-shrink: 0;">
+          <div class="window-header__brand">
+            <span class="window-header__title">Link Health</span>
+            <span class="link-report__stats"></span>
+          </div>
+          <div class="window-header__controls">
+            <button class="wh-btn link-report__refresh" title="Refresh" aria-label="Refresh">⟳</button>
+            <button class="wh-btn wh-close link-report__close" title="Close (Esc)" aria-label="Close">×</button>
+          </div>
+        </div>
+        <div class="link-report__tabs">
+          <button class="link-report__tab is-active" data-tab="unresolved">Unresolved links</button>
+          <button class="link-report__tab" data-tab="orphans">Orphan notes</button>
+        </div>
+        <div class="link-report__body"></div>
+      </div>
+    `
+
+    this.body = this.modal.querySelector('.link-report__body') as HTMLElement
+    this.stats = this.modal.querySelector('.link-report__stats') as HTMLElement
+
+    this.modal.querySelector('.link-report__close')?.addEventListener('click', () => this.close())
+    this.modal
+      .querySelector('.link-report__refresh')
+      ?.addEventListener('click', () => void this.refresh())
+    this.modal.addEventListener('click', (e) => {
+      if (e.target === this.modal) this.close()
+    })
+
+    this.modal.querySelectorAll<HTMLButtonElement>('.link-report__tab').forEach((tab) => {
+      tab.addEventListener('click', () => {
+        this.activeTab = tab.dataset.tab as ReportTab
+        this.renderReport()
+      })
+    })
+  }
+
+  private renderReport(): void {
+    this.modal.querySelectorAll<HTMLElement>('.link-report__tab').forEach((tab) => {
+      tab.classList.toggle('is-active', tab.dataset.tab === this.activeTab)
+    })
+    if (!this.report) return
+
+    const { unresolved, orphans } = this.report
+    const targets = this.groupByTarget(unresolved)
+    this.stats.textContent = `${unresolved.length} broken link${unresolved.length === 1 ? '' : 's'} · ${orphans.length} orphan${orphans.length === 1 ? '' : 's'}`
+
+    this.body.innerHTML = ''
+    if (this.activeTab === 'unresolved') {
+      if (targets.size === 0) {
+        this.body.innerHTML = '<div class="link-report__empty">Every link resolves to a note.</div>'
+        return
+      }
+      targets.forEach((links, target) => this.body.appendChild(this.renderTarget(target, links)))
+    } else {
+      if (orphans.length === 0) {
+        this.body.innerHTML = '<div class="link-report__empty">No orphan notes.</div>'
+        return
+      }
+      orphans.forEach((note) => {
+        const row = this.createRow(note.title, note.path || '/')
+        row.appendChild(
+          this.createAction('Open', () => this.openSource(note.id, note.path), 'Open note')
+        )
+        this.body.appendChild(row)
+      })
+    }
+  }
+
+  private groupByTarget(links: UnresolvedLink[]): Map<string, UnresolvedLink[]> {
+    const groups = new Map<string, UnresolvedLink[]>()
+    links.forEach((link) => {
+      const key = link.target.toLowerCase()
+      const group = groups.get(key)
+      if (group) group.push(link)
+      else groups.set(key, [link])
+    })
+    return groups
+  }
+
+  private renderTarget(key: string, links: UnresolvedLink[]): HTMLElement {
+    const target = links[0]?.target || key
+    const block = document.createElement('div')
+    block.className = 'link-report__group'
+
+    const header = document.createElement('div')
+    header.className = 'link-report__group-header'
+    const name = document.createElement('span')
+    name.className = 'link-report__target'
+    name.textContent = `[[${target}]]`
+    const count = document.createElement('span')
+    count.className = 'link-report__count'
+    count.textContent = `${links.length} reference${links.length === 1 ? '' : 's'}`
+    header.append(name, count)
+    // Missing attachments (`![[diagram.png]]`) cannot be created as notes
+    if (!/\.(?!md$|txt$)[a-z0-9]+$/i.test(target)) {
+      header.appendChild(
+        this.createAction('Create note', () => this.createMissing(target), 'Create missing note')
+      )
+    }
+    block.appendChild(header)
+
+    links.forEach((link) => {
+      const row = this.createRow(link.sourceTitle, `line ${link.line} · ${link.raw}`)
+      row.appendChild(
+        this.createAction(
+          'Open source',
+          () => this.openSource(link.sourceId, link.sourcePath, link.line),
+          `Open ${link.sourceId} at line ${link.line}`
+        )
+      )
+      block.appendChild(row)
+    })
+
+    return block
+  }
+
+  private createRow(title: string, detail: string): HTMLElement {
+    const row = document.createElement('div')
+    row.className = 'link-report__row'
+    const text = document.createElement('div')
+    text.className = 'link-report__row-text'
+    const titleEl = document.createElement('span')
+    titleEl.className = 'link-report__row-title'
+    titleEl.textContent = title
+    const detailEl = document.createElement('span')
+    detailEl.className = 'link-report__row-detail'
+    detailEl.textContent = detail
+    text.append(titleEl, detailEl)
+    row.appendChild(text)
+    return row
+  }
+
+  private createAction(label: string, handler: () => Promise<void>, title: string): HTMLElement {
+    const button = document.createElement('button')
+    button.className = 'link-report__action'
+    button.textContent = label
+    button.title = title
+    button.addEventListener('click', async (e) => {
+      e.stopPropagation()
+      button.disabled = true
+      try {
+        await handler()
+      } finally {
+        button.disabled = false
+      }
+    })
+    return button
+  }
+
+  private async openSource(id: string, path?: string, line?: number): Promise<void> {
+    this.close()
+    await this.callbacks.openNote(id, path, line)
+  }
+
+  private async createMissing(target: string): Promise<void> {
+    await this.callbacks.createNote(target)
+    await this.refresh()
+  }
+}
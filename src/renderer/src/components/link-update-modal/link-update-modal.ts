@@ -0,0 +1,105 @@
+import { modalManager } from '../modal/modal'
+import type { LinkRefactor, LinkUpdatePreview } from '../../core/types'
+import './link-update-modal.css'
+
+/**
+ * Asks whether wikilinks pointing at a renamed/moved item should be rewritten,
+ * showing every affected note and line first.
+ */
+export class LinkUpdateModal {
+  /**
+   * Resolves `true` to update links, `false` to skip (also when nothing links
+   * to the item) and `null` when the user cancelled the whole operation.
+   */
+  async confirm(op: LinkRefactor): Promise<boolean | null> {
+    let preview: LinkUpdatePreview[] = []
+    try {
+      preview = await window.api.previewLinkUpdates(op)
+    } catch (error) {
+      console.warn('[LinkUpdateModal] Preview failed, continuing without link updates', error)
+      return false
+    }
+    if (preview.length === 0) return false
+
+    return new Promise((resolve) => {
+      let settled = false
+      const settle = (value: boolean | null): void => {
+        if (settled) return
+        settled = true
+        resolve(value)
+      }
+
+      modalManager.open({
+        title: 'Update links?',
+        customContent: this.renderPreview(preview),
+        size: 'lg',
+        onClose: () => settle(null),
+        buttons: [
+          { label: 'Cancel', variant: 'ghost', onClick: (m) => m.close() },
+          {
+            label: "Don't update",
+            variant: 'ghost',
+            onClick: (m) => {
+              settle(false)
+              m.close()
+            }
+          },
+          {
+            label: 'Update links',
+            variant: 'primary',
+            onClick: (m) => {
+              settle(true)
+              m.close()
+            }
+          }
+        ]
+      })
+    })
+  }
+
+  private renderPreview(preview: LinkUpdatePreview[]): HTMLElement {
+    const total = preview.reduce((sum, note) => sum + note.changes.length, 0)
+    const content = document.createElement('div')
+    content.className = 'link-update-modal-content'
+
+    const summary = document.createElement('div')
+    summary.className = 'link-update-modal__summary'
+    summary.textContent = `${total} link${total === 1 ? '' : 's'} in ${preview.length} note${
+      preview.length === 1 ? '' : 's'
+    } will be rewritten.`
+    content.appendChild(summary)
+
+    preview.forEach((note) => {
+      const block = document.createElement('div')
+      block.className = 'link-update-modal__note'
+
+      const title = document.createElement('div')
+      title.className = 'link-update-modal__title'
+      title.textContent = note.title
+      title.title = note.id
+      block.appendChild(title)
+
+      note.changes.forEach((change) => {
+        const row = document.createElement('div')
+        row.className = 'link-update-modal__change'
+        const line = document.createElement('span')
+        line.className = 'link-update-modal__line'
+        line.textContent = `${change.line}`
+        const before = document.createElement('span')
+        before.className = 'link-update-modal__before'
+        before.textContent = change.before
+        const after = document.createElement('span')
+        after.className = 'link-update-modal__after'
+        after.textContent = change.after
+        row.append(line, before, after)
+        block.appendChild(row)
+      })
+
+      content.appendChild(block)
+    })
+
+    return content
+  }
+}
+
+export const linkUpdateModal = new LinkUpdateModal()
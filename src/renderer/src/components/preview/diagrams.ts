@@ -0,0 +1,113 @@
+import type { Mermaid } from 'mermaid'
+import { themeManager } from '../../core/themeManager'
+
+/**
+ * Mermaid diagrams from ```` ```mermaid ```` fences. The markdown pipeline
+ * leaves a `.mermaid-diagram` placeholder holding the source; diagrams are
+ * rendered into it as SVG with colors from the current theme. Mermaid is
+ * large, so it is loaded on first use.
+ */
+
+let loading: Promise<Mermaid> | null = null
+let configuredTheme: string | null = null
+let nextId = 0
+// Diagram source by placeholder, kept to re-render on theme changes
+const sources = new WeakMap<HTMLElement, string>()
+// mermaid.render() is not safe to run concurrently
+let queue: Promise<void> = Promise.resolve()
+
+function loadMermaid(): Promise<Mermaid> {
+  if (!loading) {
+    loading = import('mermaid').then((mod) => mod.default)
+  }
+  return loading
+}
+
+function isDark(color: string): boolean {
+  const hex = color.match(/^#([0-9a-f]{6})$/i)?.[1]
+  if (!hex) return true
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16))
+  return 0.299 * r + 0.587 * g + 0.114 * b < 128
+}
+
+function configure(mermaid: Mermaid): void {
+  const themeId = themeManager.getCurrentThemeId()
+  if (configuredTheme === themeId) return
+  const colors = themeManager.getColors()
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: 'strict',
+    suppressErrorRendering: true,
+    theme: 'base',
+    themeVariables: {
+      darkMode: isDark(colors['--bg']),
+      background: colors['--panel'],
+      fontFamily: 'inherit',
+      primaryColor: colors['--panel-strong'],
+      primaryTextColor: colors['--text-strong'],
+      primaryBorderColor: colors['--primary'],
+      secondaryColor: colors['--bg-accent'],
+      tertiaryColor: colors['--panel'],
+      lineColor: colors['--text-soft'],
+      textColor: colors['--text'],
+      noteBkgColor: colors['--panel-strong'],
+      noteTextColor: colors['--text'],
+      noteBorderColor: colors['--border']
+    }
+  })
+  configuredTheme = themeId
+}
+
+async function renderDiagram(mermaid: Mermaid, el: HTMLElement, source: string): Promise<void> {
+  configure(mermaid)
+  try {
+    const { svg } = await mermaid.render(`mermaid-diagram-${++nextId}`, source)
+    el.classList.remove('mermaid-diagram--error')
+    el.innerHTML = svg
+  } catch (error) {
+    el.classList.add('mermaid-diagram--error')
+    el.textContent = `Diagram error: ${error instanceof Error ? error.message : String(error)}`
+  }
+}
+
+function enqueue(task: () => Promise<void>): Promise<void> {
+  queue = queue.then(task).catch((error) => {
+    console.error('[Preview] Failed to render diagrams', error)
+  })
+  return queue
+}
+
+/**
+ * Render the diagram placeholders under `root`.
+ */
+export function renderDiagrams(root: HTMLElement): Promise<void> {
+  const placeholders = Array.from(root.querySelectorAll<HTMLElement>('.mermaid-diagram')).filter(
+    (el) => !sources.has(el)
+  )
+  if (placeholders.length === 0) return Promise.resolve()
+
+  placeholders.forEach((el) => sources.set(el, el.textContent || ''))
+  return enqueue(async () => {
+    const mermaid = await loadMermaid()
+    for (const el of placeholders) {
+      await renderDiagram(mermaid, el, sources.get(el) || '')
+    }
+  })
+}
+
+/**
+ * Render the diagrams under `root` again, after the theme changed.
+ */
+export function refreshDiagrams(root: HTMLElement): Promise<void> {
+  const rendered = Array.from(root.querySelectorAll<HTMLElement>('.mermaid-diagram')).filter((el) =>
+    sources.has(el)
+  )
+  if (rendered.length === 0) return Promise.resolve()
+
+  return enqueue(async () => {
+    const mermaid = await loadMermaid()
+    for (const el of rendered) {
+      if (el.isConnected) await renderDiagram(mermaid, el, sources.get(el) || '')
+    }
+  })
+}
@@ -0,0 +1,119 @@
+import katex from 'katex'
+import type MarkdownIt from 'markdown-it'
+import 'katex/dist/katex.min.css'
+
+/**
+ * markdown-it rules for `$inline$`, `$$display$$` and multi-line `$$` blocks.
+ * They only emit `.math-inline` / `.math-block` placeholders holding the TeX
+ * source; `renderMath()` typesets them after sanitizing, so DOMPurify never
+ * sees KaTeX's markup.
+ */
+export function mathPlugin(md: MarkdownIt): void {
+  md.inline.ruler.after('escape', 'math_inline', (state, silent) => {
+    const start = state.pos
+    if (state.src.charCodeAt(start) !== 0x24 /* $ */) return false
+
+    const display = state.src.charCodeAt(start + 1) === 0x24
+    const delimiter = display ? '$$' : '$'
+    const from = start + delimiter.length
+    const first = state.src.charAt(from)
+    // `$ 5` and `$$` alone are not math
+    if (!first || /\s/.test(first) || (!display && first === '$')) return false
+
+    let end = state.src.indexOf(delimiter, from)
+    while (end > 0 && state.src.charAt(end - 1) === '\\') {
+      end = state.src.indexOf(delimiter, end + 1)
+    }
+    if (end < 0 || end + delimiter.length > state.posMax) return false
+    // Prices such as `$5 and $10` are not math: no space before the closing
+    // `$`, no digit right after it
+    if (/\s/.test(state.src.charAt(end - 1))) return false
+    if (!display && /\d/.test(state.src.charAt(end + 1))) return false
+
+    if (!silent) {
+      const token = state.push('math_inline', 'span', 0)
+      token.content = state.src.slice(from, end)
+      token.markup = delimiter
+    }
+    state.pos = end + delimiter.length
+    return true
+  })
+
+  md.block.ruler.before(
+    'fence',
+    'math_block',
+    (state, startLine, endLine, silent) => {
+      let pos = state.bMarks[startLine] + state.tShift[startLine]
+      const max = state.eMarks[startLine]
+      // Indented four spaces or more is a code block
+      if (state.sCount[startLine] - state.blkIndent >= 4) return false
+      if (!state.src.startsWith('$$', pos)) return false
+
+      pos += 2
+      let firstLine = state.src.slice(pos, max)
+      let content: string
+      let nextLine = startLine + 1
+
+      if (firstLine.trim().endsWith('$$')) {
+        // $$ ... $$ on one line
+        firstLine = firstLine.trim()
+        content = firstLine.slice(0, -2)
+      } else {
+        const lines = firstLine.trim() ? [firstLine] : []
+        let closed = false
+        for (; nextLine < endLine; nextLine++) {
+          const lineStart = state.bMarks[nextLine] + state.tShift[nextLine]
+          const line = state.src.slice(lineStart, state.eMarks[nextLine])
+          if (line.trimEnd().endsWith('$$')) {
+            lines.push(line.trimEnd().slice(0, -2))
+            closed = true
+            nextLine++
+            break
+          }
+          lines.push(line)
+        }
+        // An unclosed block stays text
+        if (!closed) return false
+        content = lines.join('\n')
+      }
+      // Only a complete block may interrupt a paragraph
+      if (silent) return true
+
+      const token = state.push('math_block', 'div', 0)
+      token.block = true
+      token.content = content.trim()
+      token.markup = '$$'
+      token.map = [startLine, nextLine]
+      state.line = nextLine
+      return true
+    },
+    { alt: ['paragraph', 'reference', 'blockquote', 'list'] }
+  )
+
+  md.renderer.rules.math_inline = (tokens, idx) => {
+    const className = tokens[idx].markup === '$$' ? 'math-inline math-display' : 'math-inline'
+    return `<span class="${className}">${md.utils.escapeHtml(tokens[idx].content)}</span>`
+  }
+
+  md.renderer.rules.math_block = (tokens, idx, _options, _env, self) =>
+    `<div class="math-block"${self.renderAttrs(tokens[idx])}>${md.utils.escapeHtml(tokens[idx].content)}</div>\n`
+}
+
+/**
+ * Typeset the math placeholders under `root`. Standalone documents (exports)
+ * get MathML only, which browsers render without KaTeX's fonts and styles.
+ */
+export function renderMath(
+  root: HTMLElement,
+  options: { errorColor: string; standalone?: boolean }
+): void {
+  root.querySelectorAll<HTMLElement>('.math-inline, .math-block').forEach((el) => {
+    if (el.querySelector('.katex, .katex-error')) return
+    katex.render(el.textContent || '', el, {
+      displayMode: el.matches('.math-block, .math-display'),
+      throwOnError: false,
+      errorColor: options.errorColor,
+      output: options.standalone ? 'mathml' : 'htmlAndMathml'
+    })
+  })
+}
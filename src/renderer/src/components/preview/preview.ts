@@ -3,6 +3,14 @@ import DOMPurify from 'dompurify'
 import hljs from 'highlight.js'
 import { state } from '../../core/state'
 import { createElement, Copy, Check } from 'lucide'
+import { parseLinkInner, extractSection } from '../../../../shared/linkAnchors'
+import type { ResolvedEmbed } from '../../core/types'
+import { lineAtPoint } from './source-lines'
+import { mathPlugin, renderMath } from './math'
+import { refreshDiagrams, renderDiagrams } from './diagrams'
+import { disableTaskCheckboxes, taskListPlugin } from './task-lists'
+import { refreshQueries, renderQueries } from './query-blocks'
+import { themeManager } from '../../core/themeManager'
 import 'highlight.js/styles/github-dark.css'
 import './preview.css'
 import '../wikilink/wikilink.css'
@@ -36,10 +44,38 @@ hljs.registerLanguage('yml', yaml)
 // Safe as we sanitize with DOMPurify
 hljs.configure({ ignoreUnescapedHTML: true })
 
+// Nesting limit for ![[note]] embeds inside embedded notes
+const EMBED_MAX_DEPTH = 4
+const EMBED_IMAGE_RE = /\.(png|jpe?g|gif|svg|webp|bmp|avif)$/i
+// Render token for detached documents (exports), which never go stale
+const DETACHED_RENDER = -1
+
+type EmbedContext = {
+  /** Note the embed is written in (resolves `![[#Heading]]` and relative files) */
+  sourceId: string
+  /** `id#anchor` keys of the notes being embedded above this one */
+  chain: string[]
+}
+
 export class PreviewComponent {
   private container: HTMLElement
   private md: MarkdownIt
   private onWikiLinkClick?: (target: string) => void
+  private onSourceLineClick?: (line: number) => void
+  private onTaskToggle?: (line: number, done: boolean) => void
+  // Live renders: the rendered HTML of each top-level block, before embeds
+  // and code headers were added, so unchanged blocks can be kept
+  private blockSignatures = new WeakMap<Element, string>()
+  private liveSourceId: string | null = null
+  private lastContent = ''
+  private renderToken = 0
+  private embedCache = new Map<string, Promise<ResolvedEmbed | null>>()
+  private embedContexts = new WeakMap<HTMLElement, EmbedContext>()
+  private changedNoteIds = new Set<string>()
+  private structureChanged = false
+  private embedRefreshTimer: number | null = null
+  private unsubscribeVault?: () => void
+  private unsubscribeTheme?: () => void
 
   private createLucideIcon(
     IconComponent: Parameters<typeof createElement>[0],
@@ -57,10 +93,13 @@ export class PreviewComponent {
     return svgElement instanceof SVGElement ? svgElement : null
   }
 
-  constructor(containerId: string) {
-    this.container = document.getElementById(containerId) as HTMLElement
+  constructor(container: string | HTMLElement) {
+    this.container =
+      typeof container === 'string'
+        ? (document.getElementById(container) as HTMLElement)
+        : container
     if (!this.container) {
-      throw new Error(`Preview container with id "${containerId}" not found`)
+      throw new Error(`Preview container with id "${container}" not found`)
     }
 
     // Initialize MarkdownIt with plugins
@@ -112,21 +151,102 @@ export class PreviewComponent {
       return true
     })
 
+    // Embeds ![[note]], ![[note#Heading]], ![[image.png]]: rendered as
+    // placeholders and filled in asynchronously by expandEmbeds()
+    this.md.inline.ruler.before('image', 'wiki_embed', (state, silent) => {
+      const start = state.pos
+      if (!state.src.startsWith('![[', start)) return false
+
+      const end = state.src.indexOf(']]', start + 3)
+      if (end < 0 || end > state.posMax) return false
+
+      const label = state.src.slice(start + 3, end)
+      if (!label.trim() || label.includes('\n')) return false
+
+      if (!silent) {
+        const token = state.push('wiki_embed', 'span', 0)
+        token.content = label
+      }
+
+      state.pos = end + 2
+      return true
+    })
+
+    // $math$ and $$math$$, typeset by enhance()
+    this.md.use(mathPlugin)
+    // - [ ] items become checkboxes
+    this.md.use(taskListPlugin)
+
+    // ```mermaid and ```query fences become placeholders, filled in by enhance()
+    const defaultFence = this.md.renderer.rules.fence
+    this.md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+      const token = tokens[idx]
+      const lang = token.info.trim().split(/\s+/)[0]
+      if (lang === 'mermaid' || lang === 'query') {
+        const source = this.md.utils.escapeHtml(token.content)
+        const className = lang === 'mermaid' ? 'mermaid-diagram' : 'query-block'
+        return `<div class="${className}"${self.renderAttrs(token)}>${source}</div>\n`
+      }
+      return defaultFence
+        ? defaultFence(tokens, idx, options, env, self)
+        : self.renderToken(tokens, idx, options)
+    }
+
+    // Live renders tag block elements with their source lines (see
+    // source-lines.ts) for scroll sync and click-to-line
+    this.md.core.ruler.push('source_lines', (state) => {
+      if (!state.env?.sourceLines) return
+      for (const token of state.tokens) {
+        if (!token.map || !token.block || token.nesting === -1) continue
+        if (token.type === 'inline' || token.type === 'html_block') continue
+        token.attrSet('data-source-line', String(token.map[0]))
+        token.attrSet('data-source-line-end', String(token.map[1]))
+      }
+    })
+
+    this.md.renderer.rules.wiki_embed = (tokens, idx) => {
+      const label = this.md.utils.escapeHtml(tokens[idx].content)
+      return `<span class="wiki-embed" data-wiki-embed="${label}"></span>`
+    }
+
     // Render wiki links
     this.md.renderer.rules.wiki_link = (tokens, idx) => {
       const token = tokens[idx]
       const label = token.content
-      return `<a href="#" class="wiki-link" data-wiki-link="${this.md.utils.escapeHtml(label)}">${this.md.utils.escapeHtml(label)}</a>`
+      // Show the alias, or "note › Heading" for anchored links
+      const { target, anchor, alias } = parseLinkInner(label)
+      const text = alias || (anchor ? [target, anchor].filter(Boolean).join(' › ') : target)
+      return `<a href="#" class="wiki-link" data-wiki-link="${this.md.utils.escapeHtml(label)}">${this.md.utils.escapeHtml(text || label)}</a>`
     }
 
     this.render()
     this.attachEvents()
+
+    // Keep embedded notes in sync with edits made elsewhere
+    this.unsubscribeVault = window.api.onVaultChanged((data) => this.handleVaultChange(data))
+    this.unsubscribeTheme = themeManager.onChange(() => void refreshDiagrams(this.container))
   }
 
   setWikiLinkHandler(handler: (target: string) => void): void {
     this.onWikiLinkClick = handler
   }
 
+  /**
+   * Clicks on live-rendered content report the 0-based source line under the
+   * pointer.
+   */
+  setSourceLineClickHandler(handler: (line: number) => void): void {
+    this.onSourceLineClick = handler
+  }
+
+  /**
+   * Task checkboxes report the 0-based source line of their item and whether
+   * it is now checked.
+   */
+  setTaskToggleHandler(handler: (line: number, done: boolean) => void): void {
+    this.onTaskToggle = handler
+  }
+
   private resolveImagePath(src: string): string {
     // If it's already an absolute URL (http/https/file), return as-is
     if (src.startsWith('http://') || src.startsWith('https://') || src.startsWith('file://')) {
@@ -166,6 +286,14 @@ export class PreviewComponent {
   }
 
   private attachEvents(): void {
+    this.container.addEventListener('change', (e) => {
+      const checkbox = e.target
+      if (!(checkbox instanceof HTMLInputElement)) return
+      if (!checkbox.classList.contains('task-checkbox') || !this.onTaskToggle) return
+      const line = Number(checkbox.dataset.taskLine)
+      if (!Number.isNaN(line)) this.onTaskToggle(line, checkbox.checked)
+    })
+
     // Handle wiki link clicks
     this.container.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
@@ -176,7 +304,14 @@ export class PreviewComponent {
         if (linkTarget) {
           this.onWikiLinkClick(linkTarget)
         }
+        return
       }
+
+      if (!this.onSourceLineClick || target.closest('a, button, input')) return
+      // Leave text selections alone
+      if (window.getSelection()?.toString()) return
+      const line = lineAtPoint(target, e.clientY)
+      if (line !== null) this.onSourceLineClick(line)
     })
   }
 
@@ -184,26 +319,147 @@ export class PreviewComponent {
     const previewContent = this.container.querySelector('.preview-content') as HTMLElement
     if (!previewContent) return
 
+    this.lastContent = content
+    const token = ++this.renderToken
+    previewContent.innerHTML = this.renderMarkdown(content)
+    void this.enhance(previewContent)
+    void this.expandEmbeds(
+      previewContent,
+      { sourceId: state.activeId, chain: [`${state.activeId}#`] },
+      token
+    )
+  }
+
+  /**
+   * Render for the live preview beside the editor. Only top-level blocks
+   * whose HTML changed are replaced, so the rest keep their expanded embeds,
+   * highlighting and layout while typing. Blocks are tagged with source lines.
+   */
+  renderLive(content: string): void {
+    const previewContent = this.container.querySelector('.preview-content') as HTMLElement
+    if (!previewContent) return
+    this.lastContent = content
+    // Embeds resolve relative to the note, so blocks never carry over between notes
+    if (this.liveSourceId !== state.activeId) {
+      this.liveSourceId = state.activeId
+      this.renderToken++
+      previewContent.replaceChildren()
+    }
+
+    const template = document.createElement('template')
+    template.innerHTML = this.renderMarkdown(content, true)
+    const nodes = Array.from(template.content.childNodes).filter(
+      (node) => node.nodeType !== Node.TEXT_NODE || node.textContent?.trim()
+    )
+    // Stray top-level text cannot be matched up; render everything
+    if (nodes.some((node) => node.nodeType !== Node.ELEMENT_NODE)) {
+      this.update(content)
+      return
+    }
+
+    const next = nodes as HTMLElement[]
+    const signatures = next.map((el) => withoutSourceLines(el.outerHTML))
+    const current = Array.from(previewContent.children)
+    // Blocks embedding a heading of this note depend on text elsewhere
+    const keepable = (el: Element, signature: string): boolean =>
+      this.blockSignatures.get(el) === signature && !el.querySelector('[data-wiki-embed^="#"]')
+
+    let prefix = 0
+    while (
+      prefix < current.length &&
+      prefix < next.length &&
+      keepable(current[prefix], signatures[prefix])
+    ) {
+      prefix++
+    }
+    let suffix = 0
+    while (
+      suffix < current.length - prefix &&
+      suffix < next.length - prefix &&
+      keepable(current[current.length - 1 - suffix], signatures[next.length - 1 - suffix])
+    ) {
+      suffix++
+    }
+
+    // Kept blocks may have moved in the source: copy the new line numbers over
+    const tagged = (root: Element): Element[] => [
+      ...(root.hasAttribute('data-source-line') ? [root] : []),
+      ...Array.from(root.querySelectorAll('[data-source-line]'))
+    ]
+    const retag = (kept: Element, fresh: HTMLElement): void => {
+      const targets = tagged(kept)
+      tagged(fresh).forEach((el, i) => {
+        for (const name of ['data-source-line', 'data-source-line-end']) {
+          const value = el.getAttribute(name)
+          if (targets[i] && value !== null) targets[i].setAttribute(name, value)
+        }
+      })
+    }
+    for (let i = 0; i < suffix; i++) {
+      retag(current[current.length - 1 - i], next[next.length - 1 - i])
+    }
+
+    const anchor = current[current.length - suffix] ?? null
+    current.slice(prefix, current.length - suffix).forEach((el) => el.remove())
+    // Enhanced in a holder first: code blocks get wrapped, which replaces
+    // the top-level element
+    const inserted = next.slice(prefix, next.length - suffix).map((el, i) => {
+      const holder = document.createElement('div')
+      holder.appendChild(el)
+      void this.enhance(holder)
+      const block = holder.firstElementChild as HTMLElement
+      this.blockSignatures.set(block, signatures[prefix + i])
+      previewContent.insertBefore(block, anchor)
+      return block
+    })
+
+    const context = { sourceId: state.activeId, chain: [`${state.activeId}#`] }
+    inserted.forEach((el) => void this.expandEmbeds(el, context, this.renderToken))
+  }
+
+  /**
+   * Render a note into a detached `.preview-content` element with its embeds
+   * expanded, for exports. The element is not attached to the preview.
+   */
+  async renderDocument(content: string, sourceId: string): Promise<HTMLElement> {
+    const root = document.createElement('div')
+    root.className = 'preview-content'
+    root.innerHTML = this.renderMarkdown(content)
+    disableTaskCheckboxes(root)
+    await Promise.all([
+      this.enhance(root, true),
+      this.expandEmbeds(root, { sourceId, chain: [`${sourceId}#`] }, DETACHED_RENDER)
+    ])
+    return root
+  }
+
+  private renderMarkdown(content: string, sourceLines = false): string {
     // Normalize image markdown syntax (fix spaces after !)
     // Fix cases like ![ Logo.png] to ![Logo.png]
-    const normalizedContent = content.replace(/!\[\s+([^\]]+)\]/g, '![$1]')
+    const normalizedContent = content.replace(/!\[[ \t]+([^\]]+)\]/g, '![$1]')
 
     // Render markdown to HTML
-    const rawHtml = this.md.render(normalizedContent)
+    const rawHtml = this.md.render(normalizedContent, { sourceLines })
 
     // Sanitize HTML but allow necessary attributes for styling and functionality
-    const cleanHtml = DOMPurify.sanitize(rawHtml, {
+    return DOMPurify.sanitize(rawHtml, {
       ADD_ATTR: ['class', 'data-wiki-link', 'src', 'alt', 'title'],
       ADD_TAGS: ['pre', 'code', 'img'],
       ALLOW_DATA_ATTR: true,
       KEEP_CONTENT: true,
       ALLOW_UNKNOWN_PROTOCOLS: false
     })
+  }
 
-    previewContent.innerHTML = cleanHtml
-
+  /**
+   * Image paths, code block headers, highlighting, math, diagrams and query
+   * results for freshly rendered HTML. Diagrams and queries render
+   * asynchronously; the returned promise settles once they are done.
+   * Standalone output is for exports.
+   */
+  private async enhance(root: HTMLElement, standalone = false): Promise<void> {
     // Resolve image paths to file:// URLs
-    previewContent.querySelectorAll('img').forEach((img) => {
+    root.querySelectorAll('img').forEach((img) => {
       const imgElement = img as HTMLImageElement
       const src = imgElement.getAttribute('src')
       if (
@@ -224,7 +480,7 @@ export class PreviewComponent {
     })
 
     // Wrap code blocks with header and add copy buttons
-    previewContent.querySelectorAll('pre').forEach((pre) => {
+    root.querySelectorAll('pre').forEach((pre) => {
       const preElement = pre as HTMLElement
 
       // Check if already wrapped
@@ -288,7 +544,7 @@ export class PreviewComponent {
     })
 
     // Re-highlight code blocks (DOMPurify might have stripped some attributes)
-    previewContent.querySelectorAll('pre code').forEach((block) => {
+    root.querySelectorAll('pre code').forEach((block) => {
       const codeElement = block as HTMLElement
       const lang = codeElement.className.match(/language-(\w+)/)?.[1] || ''
       if (lang && hljs.getLanguage(lang)) {
@@ -299,6 +555,157 @@ export class PreviewComponent {
         }
       }
     })
+
+    renderMath(root, { errorColor: themeManager.getColors()['--danger'], standalone })
+    await Promise.all([renderDiagrams(root), renderQueries(root)])
+  }
+
+  private async expandEmbeds(
+    root: HTMLElement,
+    context: EmbedContext,
+    token: number
+  ): Promise<void> {
+    const embeds = Array.from(root.querySelectorAll<HTMLElement>('.wiki-embed'))
+    await Promise.all(embeds.map((el) => this.renderEmbed(el, context, token)))
+  }
+
+  private async renderEmbed(el: HTMLElement, context: EmbedContext, token: number): Promise<void> {
+    const label = el.dataset.wikiEmbed || ''
+    const { target, anchor, alias } = parseLinkInner(label)
+    const { sourceId, chain } = context
+    this.embedContexts.set(el, context)
+
+    // ![[#Heading]] in the open note uses the editor text, which may be unsaved
+    const resolved: ResolvedEmbed | null =
+      !target && sourceId === state.activeId && token !== DETACHED_RENDER
+        ? { type: 'note', id: sourceId, title: sourceId, content: this.lastContent }
+        : await this.resolveEmbed(target || sourceId, sourceId)
+    if (token !== DETACHED_RENDER && (token !== this.renderToken || !el.isConnected)) return
+
+    if (!resolved) {
+      this.setEmbedNotice(el, `Embedded note not found: ${target || label}`, true)
+      return
+    }
+
+    if (resolved.type === 'file') {
+      el.dataset.embedId = resolved.path
+      if (!EMBED_IMAGE_RE.test(resolved.path)) {
+        this.setEmbedNotice(el, `Attachment: ${resolved.path}`)
+        return
+      }
+      const img = document.createElement('img')
+      img.src = this.resolveImagePath(resolved.path)
+      img.alt = alias || resolved.path
+      // ![[image.png|300]] sets the width
+      if (alias && /^\d+$/.test(alias)) img.width = Number(alias)
+      el.className = 'wiki-embed wiki-embed--image'
+      el.replaceChildren(img)
+      return
+    }
+
+    el.dataset.embedId = resolved.id
+    const key = `${resolved.id}#${anchor || ''}`
+    if (chain.includes(key)) {
+      this.setEmbedNotice(el, `Embed skipped: ${label} embeds itself`)
+      return
+    }
+    if (chain.length > EMBED_MAX_DEPTH) {
+      this.setEmbedNotice(el, `Embed skipped: more than ${EMBED_MAX_DEPTH} levels deep`)
+      return
+    }
+
+    const section = anchor ? extractSection(resolved.content, anchor) : resolved.content
+    if (section === null) {
+      this.setEmbedNotice(el, `"${anchor}" not found in ${resolved.title}`, true)
+      return
+    }
+
+    const header = document.createElement('div')
+    header.className = 'wiki-embed__header'
+    const link = document.createElement('a')
+    link.href = '#'
+    link.className = 'wiki-link'
+    link.dataset.wikiLink = anchor ? `${resolved.id}#${anchor}` : resolved.id
+    link.textContent = anchor ? `${resolved.title} › ${anchor}` : resolved.title
+    header.appendChild(link)
+
+    const body = document.createElement('div')
+    body.className = 'wiki-embed__body'
+    body.innerHTML = this.renderMarkdown(section)
+    // Lines of embedded content belong to another note
+    disableTaskCheckboxes(body)
+    const diagrams = this.enhance(body, token === DETACHED_RENDER)
+
+    el.className = 'wiki-embed wiki-embed--note'
+    el.replaceChildren(header, body)
+    await Promise.all([
+      diagrams,
+      this.expandEmbeds(body, { sourceId: resolved.id, chain: [...chain, key] }, token)
+    ])
+  }
+
+  private setEmbedNotice(el: HTMLElement, message: string, missing = false): void {
+    el.className = `wiki-embed wiki-embed--notice${missing ? ' wiki-embed--missing' : ''}`
+    el.textContent = message
+  }
+
+  private resolveEmbed(target: string, sourceId: string): Promise<ResolvedEmbed | null> {
+    const key = `${sourceId}|${target}`
+    let pending = this.embedCache.get(key)
+    if (!pending) {
+      pending = window.api.resolveEmbed(target, sourceId).catch((error) => {
+        console.error('[Preview] Failed to resolve embed', target, error)
+        this.embedCache.delete(key)
+        return null
+      })
+      this.embedCache.set(key, pending)
+    }
+    return pending
+  }
+
+  /**
+   * Re-render embeds whose note changed on disk; added or removed notes retry
+   * embeds that could not be resolved. Query blocks run again on any change.
+   * Debounced so a burst of writes (link refactors, sync) renders once.
+   */
+  private handleVaultChange(data: { event?: string; id?: string }): void {
+    this.embedCache.clear()
+    if (data.id) this.changedNoteIds.add(data.id)
+    if (data.event !== 'change') this.structureChanged = true
+
+    if (this.embedRefreshTimer) window.clearTimeout(this.embedRefreshTimer)
+    this.embedRefreshTimer = window.setTimeout(() => {
+      this.embedRefreshTimer = null
+      this.refreshEmbeds()
+      void refreshQueries(this.container)
+    }, 250)
+  }
+
+  private refreshEmbeds(): void {
+    const changed = this.changedNoteIds
+    const structureChanged = this.structureChanged
+    this.changedNoteIds = new Set()
+    this.structureChanged = false
+
+    const previewContent = this.container.querySelector('.preview-content')
+    if (!previewContent) return
+
+    const stale = Array.from(previewContent.querySelectorAll<HTMLElement>('.wiki-embed')).filter(
+      (el) =>
+        (el.dataset.embedId && changed.has(el.dataset.embedId)) ||
+        (structureChanged && el.classList.contains('wiki-embed--missing'))
+    )
+    // Re-rendering an embed rebuilds everything nested inside it
+    stale
+      .filter((el) => !stale.some((other) => other !== el && other.contains(el)))
+      .forEach((el) => {
+        const context = this.embedContexts.get(el)
+        if (!context) return
+        el.className = 'wiki-embed'
+        el.removeAttribute('data-embed-id')
+        el.replaceChildren()
+        void this.renderEmbed(el, context, this.renderToken)
+      })
   }
 
   clear(): void {
@@ -309,7 +716,14 @@ export class PreviewComponent {
   }
 
   destroy(): void {
+    this.unsubscribeVault?.()
+    this.unsubscribeTheme?.()
+    if (this.embedRefreshTimer) window.clearTimeout(this.embedRefreshTimer)
     this.clear()
     this.container.innerHTML = ''
   }
 }
+
+function withoutSourceLines(html: string): string {
+  return html.replace(/ data-source-line(?:-end)?="\d+"/g, '')
+}
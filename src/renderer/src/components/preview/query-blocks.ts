@@ -0,0 +1,110 @@
+import type { NoteQueryResult, QueryCell } from '../../core/types'
+
+/**
+ * Query blocks from ```` ```query ```` fences. The markdown pipeline leaves a
+ * `.query-block` placeholder holding the query; the main process runs it
+ * against the vault index and the result is drawn as a table or list of note
+ * links. Blocks are run again when the vault changes.
+ */
+
+// Query source by placeholder, kept to run it again
+const sources = new WeakMap<HTMLElement, string>()
+
+function formatCell(value: QueryCell, date: boolean): string {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) return value.map((item) => formatCell(item, date)).join(', ')
+  if (date && typeof value === 'number') {
+    return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+  }
+  return String(value)
+}
+
+function noteLink(id: string, title: string): HTMLAnchorElement {
+  const link = document.createElement('a')
+  link.href = '#'
+  link.className = 'wiki-link'
+  link.dataset.wikiLink = id
+  link.textContent = title
+  link.title = id
+  return link
+}
+
+function renderResult(el: HTMLElement, result: NoteQueryResult): void {
+  el.classList.toggle('query-block--error', Boolean(result.error))
+  if (result.error) {
+    el.textContent = `Query error: ${result.error}`
+    return
+  }
+  if (result.rows.length === 0) {
+    const empty = document.createElement('div')
+    empty.className = 'query-block__empty'
+    empty.textContent = 'No notes match this query.'
+    el.replaceChildren(empty)
+    return
+  }
+
+  const count = document.createElement('div')
+  count.className = 'query-block__count'
+  count.textContent = `${result.rows.length} ${result.rows.length === 1 ? 'note' : 'notes'}`
+
+  if (result.kind === 'list') {
+    const list = document.createElement('ul')
+    const column = result.columns[0]
+    result.rows.forEach((row) => {
+      const item = document.createElement('li')
+      item.appendChild(noteLink(row.id, row.title))
+      const value = column ? formatCell(row.values[0], column.date) : ''
+      if (value) item.append(`: ${value}`)
+      list.appendChild(item)
+    })
+    el.replaceChildren(list, count)
+    return
+  }
+
+  const table = document.createElement('table')
+  const headRow = table.createTHead().insertRow()
+  ;['Note', ...result.columns.map((column) => column.label)].forEach((label) => {
+    const th = document.createElement('th')
+    th.textContent = label
+    headRow.appendChild(th)
+  })
+  const body = table.createTBody()
+  result.rows.forEach((row) => {
+    const tr = body.insertRow()
+    tr.insertCell().appendChild(noteLink(row.id, row.title))
+    result.columns.forEach((column, i) => {
+      tr.insertCell().textContent = formatCell(row.values[i], column.date)
+    })
+  })
+  el.replaceChildren(table, count)
+}
+
+async function runQuery(el: HTMLElement): Promise<void> {
+  try {
+    renderResult(el, await window.api.runQuery(sources.get(el) || ''))
+  } catch (error) {
+    console.error('[Preview] Failed to run query', error)
+    renderResult(el, { kind: 'table', columns: [], rows: [], error: 'the vault could not be read' })
+  }
+}
+
+/**
+ * Run the query placeholders under `root`.
+ */
+export async function renderQueries(root: HTMLElement): Promise<void> {
+  const placeholders = Array.from(root.querySelectorAll<HTMLElement>('.query-block')).filter(
+    (el) => !sources.has(el)
+  )
+  placeholders.forEach((el) => sources.set(el, el.textContent || ''))
+  await Promise.all(placeholders.map(runQuery))
+}
+
+/**
+ * Run the queries under `root` again, after notes changed.
+ */
+export async function refreshQueries(root: HTMLElement): Promise<void> {
+  const rendered = Array.from(root.querySelectorAll<HTMLElement>('.query-block')).filter((el) =>
+    sources.has(el)
+  )
+  await Promise.all(rendered.map(runQuery))
+}
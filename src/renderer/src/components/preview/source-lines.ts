@@ -0,0 +1,114 @@
+/**
+ * Mapping between markdown source lines and rendered preview positions.
+ * Block elements of a live preview carry `data-source-line` (first line) and
+ * `data-source-line-end` (line after the last), both 0-based, taken from the
+ * markdown-it token map. Positions in between are interpolated.
+ */
+
+export type SourceBlock = {
+  element: HTMLElement
+  start: number
+  end: number
+}
+
+/**
+ * Line-mapped elements in document order, which is also source order.
+ */
+export function collectSourceBlocks(root: HTMLElement): SourceBlock[] {
+  const blocks: SourceBlock[] = []
+  root.querySelectorAll<HTMLElement>('[data-source-line]').forEach((element) => {
+    const start = Number(element.dataset.sourceLine)
+    const end = Number(element.dataset.sourceLineEnd)
+    if (Number.isNaN(start)) return
+    blocks.push({ element, start, end: Number.isNaN(end) || end <= start ? start + 1 : end })
+  })
+  return blocks
+}
+
+// Top and height of an element in the scroller's content coordinates
+function measure(element: HTMLElement, scroller: HTMLElement): { top: number; height: number } {
+  const rect = element.getBoundingClientRect()
+  const top = rect.top - scroller.getBoundingClientRect().top + scroller.scrollTop
+  return { top, height: rect.height }
+}
+
+/**
+ * Scroll position that puts (fractional) source `line` at the top of the
+ * scroller.
+ */
+export function scrollTopForLine(
+  blocks: SourceBlock[],
+  line: number,
+  scroller: HTMLElement
+): number | null {
+  if (blocks.length === 0) return null
+
+  // Last block starting at or before the line; nested blocks win over parents
+  let index = -1
+  for (let i = 0; i < blocks.length; i++) {
+    if (blocks[i].start <= line) index = i
+    else break
+  }
+  if (index < 0) return 0
+
+  const block = blocks[index]
+  const { top, height } = measure(block.element, scroller)
+  if (line < block.end) {
+    return top + (height * (line - block.start)) / (block.end - block.start)
+  }
+
+  // Between two blocks (blank lines): interpolate across the gap
+  const next = blocks.slice(index + 1).find((b) => b.start >= block.end)
+  if (!next) return top + height
+  const nextTop = measure(next.element, scroller).top
+  const ratio = (line - block.end) / Math.max(1, next.start - block.end)
+  return top + height + (nextTop - top - height) * ratio
+}
+
+/**
+ * (Fractional) source line shown at the scroller's current scroll position.
+ */
+export function lineForScrollTop(blocks: SourceBlock[], scroller: HTMLElement): number | null {
+  if (blocks.length === 0) return null
+  const offset = scroller.scrollTop
+
+  let index = -1
+  let position = { top: 0, height: 0 }
+  for (let i = 0; i < blocks.length; i++) {
+    const measured = measure(blocks[i].element, scroller)
+    if (measured.top > offset) break
+    index = i
+    position = measured
+  }
+  if (index < 0) return 0
+
+  const block = blocks[index]
+  const bottom = position.top + position.height
+  if (offset < bottom && position.height > 0) {
+    return block.start + ((block.end - block.start) * (offset - position.top)) / position.height
+  }
+
+  const next = blocks.slice(index + 1).find((b) => b.start >= block.end)
+  if (!next) return block.end
+  const nextTop = measure(next.element, scroller).top
+  const ratio = nextTop > bottom ? (offset - bottom) / (nextTop - bottom) : 0
+  return block.end + (next.start - block.end) * Math.min(1, ratio)
+}
+
+/**
+ * Source line under a click inside a line-mapped element, estimated from how
+ * far down the element it landed. 0-based.
+ */
+export function lineAtPoint(element: HTMLElement, clientY: number): number | null {
+  const block = element.closest<HTMLElement>('[data-source-line]')
+  if (!block) return null
+  const start = Number(block.dataset.sourceLine)
+  const end = Number(block.dataset.sourceLineEnd)
+  if (Number.isNaN(start)) return null
+  if (Number.isNaN(end) || end - start <= 1) return start
+
+  const rect = block.getBoundingClientRect()
+  const ratio = rect.height > 0 ? (clientY - rect.top) / rect.height : 0
+  const line = start + Math.floor(Math.min(0.999, Math.max(0, ratio)) * (end - start))
+  return Math.min(line, end - 1)
+}
@@ -0,0 +1,41 @@
+import type MarkdownIt from 'markdown-it'
+
+const CHECKBOX_RE = /^\[([ xX])\](?=\s|$)/
+
+/**
+ * markdown-it rule turning `- [ ] text` list items into checkboxes. Each box
+ * carries `data-task-line`, the 0-based source line of its item, so a click
+ * can be written back to the note.
+ */
+export function taskListPlugin(md: MarkdownIt): void {
+  md.core.ruler.after('inline', 'task_lists', (state) => {
+    const tokens = state.tokens
+    for (let i = 2; i < tokens.length; i++) {
+      const inline = tokens[i]
+      const item = tokens[i - 2]
+      if (inline.type !== 'inline' || tokens[i - 1].type !== 'paragraph_open') continue
+      if (item.type !== 'list_item_open' || !item.map) continue
+
+      const first = inline.children?.[0]
+      const match = first?.type === 'text' ? first.content.match(CHECKBOX_RE) : null
+      if (!first || !match || !inline.children) continue
+
+      first.content = first.content.slice(match[0].length).replace(/^\s/, '')
+      const checkbox = new state.Token('html_inline', '', 0)
+      const checked = match[1] === ' ' ? '' : ' checked'
+      checkbox.content = `<input type="checkbox" class="task-checkbox" data-task-line="${item.map[0]}"${checked}>`
+      inline.children.unshift(checkbox)
+      item.attrJoin('class', 'task-list-item')
+    }
+  })
+}
+
+/**
+ * Make the checkboxes under `root` read-only, for content whose lines do not
+ * belong to the open note (embeds, exports).
+ */
+export function disableTaskCheckboxes(root: HTMLElement): void {
+  root.querySelectorAll<HTMLInputElement>('.task-checkbox').forEach((checkbox) => {
+    checkbox.disabled = true
+  })
+}
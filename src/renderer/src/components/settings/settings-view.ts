@@ -5,7 +5,8 @@ import { themes } from '../../core/themes'
 import { vaultService } from '../../services/vaultService'
 import type { VaultInfo } from '../../services/vaultService'
 import { notificationManager } from '../notification/notification'
-import { createElement, CloudUpload, CloudDownload } from 'lucide'
+import { syncService } from '../../services/sync/syncService'
+import { createElement, CloudUpload, CloudDownload, CalendarDays } from 'lucide'
 import { renderShortcutItems } from '../../utils/shortcutUtils'
 import './settings-view.css'
 
@@ -79,6 +80,9 @@ export class SettingsView {
           <button class="settings-view__sidebar-item ${this.activeSection === 'vault' ? 'is-active' : ''}" data-section-tab="vault">
             ${codicons.folderRoot} Vault
           </button>
+          <button class="settings-view__sidebar-item ${this.activeSection === 'periodic' ? 'is-active' : ''}" data-section-tab="periodic">
+            ${this.createLucideIcon(CalendarDays, 16)} Periodic Notes
+          </button>
           <button class="settings-view__sidebar-item ${this.activeSection === 'sync' ? 'is-active' : ''}" data-section-tab="sync">
             ${this.createLucideIcon(CloudUpload, 16)} Sync
           </button>
@@ -475,6 +479,67 @@ export class SettingsView {
                 </div>
               </div>
             </div>
+
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">Auto-purge Trash</label>
+                <p class="settings-field__hint">Permanently delete trashed items after this many days (0 keeps them until you empty the trash).</p>
+              </div>
+              <div class="settings-field__control">
+                <input
+                  type="number"
+                  class="settings-input"
+                  data-setting="trashAutoPurgeDays"
+                  min="0"
+                  max="365"
+                  step="1"
+                  value="${state.settings?.trashAutoPurgeDays ?? 0}"
+                />
+              </div>
+            </div>
+
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">Templates Folder</label>
+                <p class="settings-field__hint">Notes in this folder are offered by "New Note from Template" and "Insert Template". Templates can use {{title}}, {{folder}}, {{date:FORMAT}}, {{time}}, {{prompt:Question|default}} and {{cursor}}.</p>
+              </div>
+              <div class="settings-field__control">
+                <input type="text" class="settings-input" data-setting="templatesFolder" placeholder="Templates" value="${state.settings?.templatesFolder ?? 'Templates'}" />
+              </div>
+            </div>
+
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">Attachment Folder</label>
+                <p class="settings-field__hint">Where dropped images and files are saved. "Manage Attachments" in the command palette lists them and cleans up unused ones.</p>
+              </div>
+              <div class="settings-field__control">
+                <input type="text" class="settings-input" data-setting="attachmentFolder" placeholder="assets" value="${state.settings?.attachmentFolder ?? 'assets'}" />
+              </div>
+            </div>
+
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">Attachment Location</label>
+                <p class="settings-field__hint">One attachment folder at the vault root, or a sub-folder per note next to it (e.g. Projects/assets/Plan/).</p>
+              </div>
+              <div class="settings-field__control">
+                <select class="settings-input" data-setting="attachmentLocation">
+                  <option value="vault" ${state.settings?.attachmentLocation !== 'note' ? 'selected' : ''}>Vault folder</option>
+                  <option value="note" ${state.settings?.attachmentLocation === 'note' ? 'selected' : ''}>Sub-folder per note</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <!-- Periodic Notes Section -->
+          <div class="settings-view__section ${this.activeSection === 'periodic' ? 'is-active' : ''}" data-section="periodic">
+            <div class="settings-view__section-header">
+              <h2 class="settings-view__section-title">Periodic Notes</h2>
+            </div>
+            ${this.renderPeriodicFields('daily', 'Daily', 'YYYY-MM-DD')}
+            ${this.renderPeriodicFields('weekly', 'Weekly', 'GGGG-[W]WW')}
+            ${this.renderPeriodicFields('monthly', 'Monthly', 'YYYY-MM')}
           </div>
 
           <!-- Sync Section -->
@@ -535,6 +600,91 @@ export class SettingsView {
                 </div>
               </div>
             </div>
+
+            <div class="settings-view__section-header">
+              <h2 class="settings-view__section-title">File Sync</h2>
+            </div>
+
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">Sync Provider</label>
+                <p class="settings-field__hint">Where the vault is mirrored. Only files changed since the last sync are transferred; files changed on both sides are kept as conflict copies.</p>
+              </div>
+              <div class="settings-field__control">
+                <select class="settings-input" data-setting="syncProvider">
+                  <option value="folder" ${(state.settings?.syncProvider ?? 'folder') === 'folder' ? 'selected' : ''}>Local or network folder</option>
+                  <option value="webdav" ${state.settings?.syncProvider === 'webdav' ? 'selected' : ''}>WebDAV</option>
+                  <option value="gist" ${state.settings?.syncProvider === 'gist' ? 'selected' : ''}>GitHub Gist (notes only)</option>
+                </select>
+              </div>
+            </div>
+            ${this.renderSyncProviderFields()}
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">File Sync Actions</label>
+                <p class="settings-field__hint">Check the connection or sync the vault now.</p>
+              </div>
+              <div class="settings-field__control">
+                <div style="display: flex; gap: 8px; flex-wrap: wrap;">
+                  <button class="settings-button settings-button--primary" id="settings-sync-now">Sync Now</button>
+                  <button class="settings-button settings-button--secondary" id="settings-sync-test-provider">Test Connection</button>
+                </div>
+              </div>
+            </div>
+
+            <div class="settings-view__section-header">
+              <h2 class="settings-view__section-title">Git Sync</h2>
+            </div>
+
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">Remote</label>
+                <p class="settings-field__hint">URL or path of the git repository to sync with. Leave empty to keep commits on this device only. Uses your system git and its credentials.</p>
+              </div>
+              <div class="settings-field__control">
+                <input
+                  type="text"
+                  class="settings-input"
+                  data-setting="gitRemote"
+                  placeholder="git@github.com:you/notes.git"
+                  value="${state.settings?.gitRemote || ''}"
+                />
+              </div>
+            </div>
+
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">Branch</label>
+                <p class="settings-field__hint">Branch to pull from and push to.</p>
+              </div>
+              <div class="settings-field__control">
+                <input
+                  type="text"
+                  class="settings-input"
+                  data-setting="gitBranch"
+                  placeholder="main"
+                  value="${state.settings?.gitBranch || 'main'}"
+                />
+              </div>
+            </div>
+
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">Auto-sync Interval</label>
+                <p class="settings-field__hint">Sync automatically every this many minutes (0 syncs only when you ask).</p>
+              </div>
+              <div class="settings-field__control">
+                <input
+                  type="number"
+                  class="settings-input"
+                  data-setting="gitSyncInterval"
+                  min="0"
+                  max="1440"
+                  step="1"
+                  value="${state.settings?.gitSyncInterval ?? 0}"
+                />
+              </div>
+            </div>
           </div>
 
           <!-- Shortcuts Section -->
@@ -558,6 +708,102 @@ export class SettingsView {
     this.filterSettings()
   }
 
+  /**
+   * Folder, filename format and template fields for one kind of periodic note.
+   * Empty values fall back to the defaults in the main process.
+   */
+  private renderPeriodicFields(
+    period: 'daily' | 'weekly' | 'monthly',
+    label: string,
+    defaultFormat: string
+  ): string {
+    const value = (key: keyof AppSettings): string =>
+      String(state.settings?.[key] ?? '').replace(/"/g, '&quot;')
+    return `
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">${label} Note Folder</label>
+                <p class="settings-field__hint">Vault folder for ${period} notes. Leave empty for the vault root.</p>
+              </div>
+              <div class="settings-field__control">
+                <input type="text" class="settings-input" data-setting="${period}NoteFolder" placeholder="e.g. Journal/${label}" value="${value(`${period}NoteFolder`)}" />
+              </div>
+            </div>
+
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">${label} Filename Format</label>
+                <p class="settings-field__hint">Date tokens such as YYYY, MM, DD, WW, MMMM, dddd; text in [brackets] is kept as is and / creates sub-folders.</p>
+              </div>
+              <div class="settings-field__control">
+                <input type="text" class="settings-input" data-setting="${period}NoteFormat" placeholder="${defaultFormat}" value="${value(`${period}NoteFormat`)}" />
+              </div>
+            </div>
+
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">${label} Template</label>
+                <p class="settings-field__hint">Note used as the starting content, e.g. Templates/${label}. Supports the same variables as note templates; prompts use their default.</p>
+              </div>
+              <div class="settings-field__control">
+                <input type="text" class="settings-input" data-setting="${period}NoteTemplate" placeholder="No template" value="${value(`${period}NoteTemplate`)}" />
+              </div>
+            </div>
+    `
+  }
+
+  /**
+   * Connection fields for the selected sync provider. The Gist provider uses
+   * the token from the Gist section above.
+   */
+  private renderSyncProviderFields(): string {
+    const value = (key: keyof AppSettings): string =>
+      String(state.settings?.[key] ?? '').replace(/"/g, '&quot;')
+    const field = (label: string, hint: string, control: string): string => `
+            <div class="settings-field">
+              <div class="settings-field__info">
+                <label class="settings-field__label">${label}</label>
+                <p class="settings-field__hint">${hint}</p>
+              </div>
+              <div class="settings-field__control">
+                ${control}
+              </div>
+            </div>`
+
+    switch (state.settings?.syncProvider) {
+      case 'webdav':
+        return [
+          field(
+            'WebDAV URL',
+            'Folder on the server the vault is synced to, e.g. a Nextcloud files URL.',
+            `<input type="text" class="settings-input" data-setting="webdavUrl" placeholder="https://dav.example.com/notes/" value="${value('webdavUrl')}" />`
+          ),
+          field(
+            'Username',
+            'Leave empty for servers without sign-in.',
+            `<input type="text" class="settings-input" data-setting="webdavUsername" value="${value('webdavUsername')}" />`
+          ),
+          field(
+            'Password',
+            'Use an app password where the server supports them.',
+            `<input type="password" class="settings-input" data-setting="webdavPassword" value="${value('webdavPassword')}" />`
+          )
+        ].join('')
+      case 'gist':
+        return field(
+          'Sync Gist ID',
+          'Secret gist holding one file per note (auto-filled after the first sync). Attachments are not synced.',
+          `<input type="text" class="settings-input" data-setting="syncGistId" placeholder="Auto-filled after sync" value="${value('syncGistId')}" />`
+        )
+      default:
+        return field(
+          'Sync Folder',
+          'Folder the vault is mirrored to: a USB drive, network share or a folder another sync tool watches.',
+          `<input type="text" class="settings-input" data-setting="syncFolderPath" placeholder="/Volumes/Share/Notes" value="${value('syncFolderPath')}" />`
+        )
+    }
+  }
+
   private attachEvents(): void {
     // Search input with debouncing
     const searchInput = this.container.querySelector('.settings-search__input') as HTMLInputElement
@@ -618,6 +864,10 @@ export class SettingsView {
             if (value > 10) value = 10
             el.value = String(value)
           }
+          if ((setting === 'trashAutoPurgeDays' || setting === 'gitSyncInterval') && value < 0) {
+            value = 0
+            el.value = '0'
+          }
         } else {
           value = el.value
         }
@@ -630,6 +880,9 @@ export class SettingsView {
           this.onSettingChange?.({ aiModel: '' })
           this.render()
         }
+        if (setting === 'syncProvider') {
+          this.render()
+        }
       })
     })
 
@@ -676,6 +929,40 @@ export class SettingsView {
       }
     })
 
+    const testProviderBtn = this.container.querySelector(
+      '#settings-sync-test-provider'
+    ) as HTMLButtonElement | null
+    testProviderBtn?.addEventListener('click', async () => {
+      testProviderBtn.textContent = 'Testing...'
+      testProviderBtn.disabled = true
+      try {
+        const result = await syncService.testConnection(state.settings ?? undefined)
+        notificationManager.show(result.message, result.valid ? 'success' : 'error')
+      } catch {
+        notificationManager.show('Failed to test the connection', 'error')
+      } finally {
+        testProviderBtn.textContent = 'Test Connection'
+        testProviderBtn.disabled = false
+      }
+    })
+
+    const syncNowBtn = this.container.querySelector(
+      '#settings-sync-now'
+    ) as HTMLButtonElement | null
+    syncNowBtn?.addEventListener('click', async () => {
+      syncNowBtn.textContent = 'Syncing...'
+      syncNowBtn.disabled = true
+      try {
+        // The app's sync hooks report the result
+        await syncService.sync()
+      } catch (error) {
+        notificationManager.show((error as Error).message, 'error', { title: 'Sync Failed' })
+      } finally {
+        syncNowBtn.textContent = 'Sync Now'
+        syncNowBtn.disabled = false
+      }
+    })
+
     const backupBtn = this.container.querySelector('#settings-sync-backup')
     backupBtn?.addEventListener('click', async () => {
       const tokenInput = this.container.querySelector(
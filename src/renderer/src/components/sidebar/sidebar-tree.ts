@@ -4,6 +4,7 @@ import { getFolderIcon, codicons } from '../../utils/codicons'
 import { sortTreeItems } from '../../utils/tree-utils'
 import { contextMenu } from '../contextmenu/contextmenu'
 import getFileIcon from '../../utils/fileIconMappers'
+import { parseSearchQuery } from '../../../../shared/searchQuery'
 import {
   createElement,
   FolderPlus,
@@ -16,7 +17,12 @@ import {
   ExternalLink,
   FileText,
   Folder,
-  Files
+  Files,
+  History,
+  FileStack,
+  FileCode,
+  Printer,
+  Globe
 } from 'lucide'
 import './sidebar-tree.css'
 
@@ -27,11 +33,18 @@ export class SidebarTree {
   private headerEl: HTMLElement
   private onNoteSelect?: (id: string, path?: string) => void
   private onNoteCreate?: (path?: string) => void
+  private onNoteFromTemplate?: (path?: string) => void
   private onNoteDelete?: (id: string, path?: string) => void
+  private onNoteHistory?: (id: string, path?: string) => void
   private onNoteMove?: (id: string, fromPath?: string, toPath?: string) => Promise<void>
   private onFolderMove?: (sourcePath: string, targetPath: string) => Promise<void>
   private onItemsDelete?: (items: { id: string; type: 'note' | 'folder'; path?: string }[]) => void
   private onFolderCreate?: (parentPath?: string) => void
+  private onPublish?: (folderPath: string) => void
+  private onExport?: (
+    items: { id: string; type: 'note' | 'folder' }[],
+    format: 'html' | 'pdf'
+  ) => void
   private editingId: string | null = null
   private draggedItem: { type: 'note' | 'folder'; id: string; path?: string } | null = null
   private selectedFolderPath: string | null = null
@@ -98,10 +111,28 @@ export class SidebarTree {
     this.onNoteCreate = handler
   }
 
+  setNoteFromTemplateHandler(handler: (path?: string) => void): void {
+    this.onNoteFromTemplate = handler
+  }
+
+  setExportHandler(
+    handler: (items: { id: string; type: 'note' | 'folder' }[], format: 'html' | 'pdf') => void
+  ): void {
+    this.onExport = handler
+  }
+
+  setPublishHandler(handler: (folderPath: string) => void): void {
+    this.onPublish = handler
+  }
+
   setNoteDeleteHandler(handler: (id: string, path?: string) => void): void {
     this.onNoteDelete = handler
   }
 
+  setNoteHistoryHandler(handler: (id: string, path?: string) => void): void {
+    this.onNoteHistory = handler
+  }
+
   setNoteMoveHandler(
     handler: (id: string, fromPath?: string, toPath?: string) => Promise<void>
   ): void {
@@ -152,22 +183,27 @@ export class SidebarTree {
     else this.hide()
   }
 
-  setMode(mode: 'explorer' | 'search'): void {
+  setMode(mode: 'explorer' | 'search' | 'tags'): void {
     // Basic implementation of mode switching
     // Ideally we should have separate containers but for now we manipulate visibility
+    this.container.dataset.mode = mode
 
     // Update title
     const titleEl = this.container.querySelector('.sidebar__title-text')
     if (titleEl) {
-      titleEl.textContent = mode === 'search' ? 'SEARCH' : 'EXPLORER'
+      titleEl.textContent = mode === 'search' ? 'SEARCH' : mode === 'tags' ? 'TAGS' : 'EXPLORER'
     }
 
     // Toggle actions visibility
     const actionsEl = this.container.querySelector('.sidebar__actions') as HTMLElement
     if (actionsEl) {
-      actionsEl.style.display = mode === 'search' ? 'none' : 'flex'
+      actionsEl.style.display = mode === 'explorer' ? 'flex' : 'none'
     }
 
+    // Tag tree (rendered by TagsPane)
+    const tagsHost = this.container.querySelector('#tagsHost') as HTMLElement
+    if (tagsHost) tagsHost.style.display = mode === 'tags' ? 'flex' : 'none'
+
     // Identify elements
     // The tree container is .sidebar__body in render(), NOT .note-list
     const treeBody = this.container.querySelector('.sidebar__body') as HTMLElement
@@ -184,7 +220,7 @@ export class SidebarTree {
       const searchMarkup = `
          <div class="sidebar__search-container" style="padding: 10px;">
             <div class="sidebar__search">
-                <input type="text" placeholder="Search (Ctrl+Shift+F, tags: #tag)" id="global-search-input" autocomplete="off">
+                <input type="text" placeholder="Search (tag:, path:, title:, created:>2026-01-01, -exclude, OR)" id="global-search-input" autocomplete="off">
             </div>
             <div class="search-results" style="margin-top: 10px; color: var(--text-soft); font-size: 13px;"></div>
          </div>
@@ -195,6 +231,7 @@ export class SidebarTree {
       const input = searchBody.querySelector('#global-search-input') as HTMLInputElement
       const results = searchBody.querySelector('.search-results') as HTMLElement
       let selectedIndex = 0
+      let searchRequest = 0
       // Forward arrow key and enter events from input to results for keyboard navigation
       input.addEventListener('keydown', (e) => {
         const resultsList = searchBody.querySelector('.search-results') as HTMLElement
@@ -216,6 +253,7 @@ export class SidebarTree {
       input.addEventListener('input', async () => {
         const query = input.value.trim()
         if (!query) {
+          searchRequest++
           results.innerHTML = ''
           selectedIndex = 0
           // Remove any selection highlight
@@ -226,57 +264,53 @@ export class SidebarTree {
         }
         // Don't show "Searching..." text - just show empty results
         results.innerHTML = ''
+        const requestId = ++searchRequest
         try {
-          // Use window.api.searchNotes for robust search (title, content, tags)
-          const notes = await (window.api as any).searchNotes(query)
-          // Filter for tags if #tag is present
-          let filtered = notes
-          const tagMatch = query.match(/#(\w+)/g)
-          if (tagMatch) {
-            const tags = tagMatch.map((t) => t.slice(1).toLowerCase())
-            filtered = notes.filter((n: any) => {
-              if (!n.content) return false
-              return tags.every((tag) => n.content.toLowerCase().includes(`#${tag}`))
-            })
-          }
-          if (filtered.length === 0) {
+          // Full-text index lookup in the main process (title, content, #tags)
+          const notes = await window.api.searchNotes(query)
+          if (requestId !== searchRequest) return // a newer query is in flight
+          if (notes.length === 0) {
             results.innerHTML =
               '<div style="text-align:center;margin-top:20px;color:var(--text-soft);">No results found</div>'
           } else {
-            // Highlight matches in title/content/tags
-            const highlight = (text: string, q: string) => {
-              if (!q) return text
-              try {
-                const safeQ = q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-                return text.replace(
-                  new RegExp(safeQ, 'gi'),
-                  (m) =>
-                    `<mark style=\"background:var(--selection);color:var(--text-strong);padding:0 2px;border-radius:2px;\">${m}</mark>`
-                )
-              } catch {
-                return text
+            const escapeHtml = (text: string): string =>
+              text
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+            const mark = (text: string): string =>
+              `<mark class="search-result-match">${escapeHtml(text)}</mark>`
+            // Snippet highlights come from the index as [start, end) ranges
+            const highlightRanges = (text: string, ranges: [number, number][]): string => {
+              let html = ''
+              let cursor = 0
+              for (const [start, end] of ranges) {
+                if (start < cursor) continue
+                html += escapeHtml(text.slice(cursor, start)) + mark(text.slice(start, end))
+                cursor = end
               }
+              return html + escapeHtml(text.slice(cursor))
             }
-            const qNoTags = query.replace(/#\w+/g, '').trim()
-            results.innerHTML = filtered
-              .map((n: any) => {
-                const title = highlight(n.title || n.id, qNoTags)
-                let content = n.content || ''
-                if (qNoTags) content = highlight(content.slice(0, 120), qNoTags)
-                // Tag highlight
-                let tagHtml = ''
-                const tagMatch = query.match(/#(\w+)/g)
-                if (tagMatch && n.content) {
-                  tagHtml = tagMatch
-                    .map((tag) =>
-                      n.content.toLowerCase().includes(tag.toLowerCase())
-                        ? `<mark style=\"background:var(--primary);color:var(--bg);padding:0 2px;border-radius:2px;\">${tag}</mark>`
-                        : ''
-                    )
-                    .join(' ')
-                }
+            const words = parseSearchQuery(query)
+              .groups.flat()
+              .filter((c) => (c.field === 'text' || c.field === 'title') && !c.negated)
+              .map((c) => c.value)
+            const highlightTitle = (text: string): string => {
+              if (words.length === 0) return escapeHtml(text)
+              const pattern = words.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')
+              const ranges = Array.from(text.matchAll(new RegExp(pattern, 'gi')), (m) => [
+                m.index ?? 0,
+                (m.index ?? 0) + m[0].length
+              ]) as [number, number][]
+              return highlightRanges(text, ranges)
+            }
+            results.innerHTML = notes
+              .map((n) => {
+                const title = highlightTitle(n.title || n.id)
+                const content = highlightRanges(n.snippet || '', n.matches || [])
                 return `
-                <div class=\"search-result-item\" data-id=\"${n.id}\" data-path=\"${n.path || ''}\" tabindex=\"0\" style=\"padding:8px 6px;cursor:pointer;border-radius:4px;display:flex;flex-direction:column;gap:2px;outline:none;\">\n                  <span style=\"font-weight:600;color:var(--text-strong);\">${title}</span>\n                  <span style=\"font-size:12px;color:var(--muted);white-space:nowrap;overflow:hidden;text-overflow:ellipsis;\">${n.path || ''}</span>\n                  <span style=\"font-size:12px;color:var(--text-soft);max-height:2.5em;overflow:hidden;text-overflow:ellipsis;\">${content} ${tagHtml}</span>\n                  <span style=\"font-size:11px;color:var(--muted);margin-top:2px;\">Press <b>Enter</b> to open</span>\n                </div>\n              `
+                <div class=\"search-result-item\" data-id=\"${escapeHtml(n.id)}\" data-path=\"${escapeHtml(n.path || '')}\" tabindex=\"0\" style=\"padding:8px 6px;cursor:pointer;border-radius:4px;display:flex;flex-direction:column;gap:2px;outline:none;\">\n                  <span style=\"font-weight:600;color:var(--text-strong);\">${title}</span>\n                  <span style=\"font-size:12px;color:var(--muted);white-space:nowrap;overflow:hidden;text-overflow:ellipsis;\">${escapeHtml(n.path || '')}</span>\n                  <span style=\"font-size:12px;color:var(--text-soft);max-height:3.75em;overflow:hidden;text-overflow:ellipsis;\">${content}</span>\n                  <span style=\"font-size:11px;color:var(--muted);margin-top:2px;\">Press <b>Enter</b> to open</span>\n                </div>\n              `
               })
               .join('')
             // Focus first result for keyboard nav and add selection highlight
@@ -386,28 +420,20 @@ export class SidebarTree {
     }
     if (mode === 'search') {
       if (treeBody) treeBody.style.display = 'none'
+      // Hide the explorer filter input
       if (filterContainer) filterContainer.style.display = 'none'
       if (searchBody) searchBody.style.display = 'block'
       // Focus input for instant search
       const input = searchBody.querySelector('#global-search-input') as HTMLInputElement
       if (input) setTimeout(() => input.focus(), 100)
-    } else {
-      if (treeBody) treeBody.style.display = 'block'
-      if (filterContainer) filterContainer.style.display = 'block'
-      if (searchBody) searchBody.style.display = 'none'
-    }
-
-    if (mode === 'search') {
+    } else if (mode === 'tags') {
       if (treeBody) treeBody.style.display = 'none'
-      // Hide the explorer filter input
       if (filterContainer) filterContainer.style.display = 'none'
-
-      if (searchBody) searchBody.style.display = 'block'
+      if (searchBody) searchBody.style.display = 'none'
     } else {
       if (treeBody) treeBody.style.display = 'block'
       // Show the explorer filter input
       if (filterContainer) filterContainer.style.display = 'block'
-
       if (searchBody) searchBody.style.display = 'none'
     }
   }
@@ -459,7 +485,11 @@ export class SidebarTree {
 
       <div class="sidebar__body" tabindex="-1"></div>
 
-      <footer class="sidebar__footer"></footer>
+      <div id="tagsHost" class="tags-host" style="display: none;"></div>
+
+      <footer class="sidebar__footer">
+        <section id="trashHost" class="trash-host"></section>
+      </footer>
     `
   }
 
@@ -774,6 +804,7 @@ export class SidebarTree {
         const newNoteIcon = this.createLucideIcon(FileText, 14, 1.5)
         const newFolderIcon = this.createLucideIcon(FolderPlus, 14, 1.5)
         const revealIcon = this.createLucideIcon(ExternalLink, 14, 1.5)
+        const templateIcon = this.createLucideIcon(FileStack, 14, 1.5)
 
         contextMenu.show(event.clientX, event.clientY, [
           {
@@ -782,6 +813,11 @@ export class SidebarTree {
             keybinding: 'Ctrl+N',
             onClick: () => this.onNoteCreate?.(this.getDefaultParentPath())
           },
+          {
+            label: 'New Note from Template...',
+            icon: templateIcon,
+            onClick: () => this.onNoteFromTemplate?.(this.getDefaultParentPath())
+          },
           {
             label: 'New Folder',
             icon: newFolderIcon,
@@ -1337,11 +1373,37 @@ export class SidebarTree {
       copyPath: this.createLucideIcon(ClipboardCopy, 14, 1.5),
       reveal: this.createLucideIcon(ExternalLink, 14, 1.5),
       folder: this.createLucideIcon(Folder, 14, 1.5),
-      files: this.createLucideIcon(Files, 14, 1.5)
+      files: this.createLucideIcon(Files, 14, 1.5),
+      history: this.createLucideIcon(History, 14, 1.5),
+      template: this.createLucideIcon(FileStack, 14, 1.5),
+      exportHtml: this.createLucideIcon(FileCode, 14, 1.5),
+      exportPdf: this.createLucideIcon(Printer, 14, 1.5),
+      publish: this.createLucideIcon(Globe, 14, 1.5)
     }
 
+    const selectedItems = (): { id: string; type: 'note' | 'folder' }[] =>
+      Array.from(state.selectedIds)
+        .map((selectedId) => {
+          const targetItem = this.bodyEl.querySelector(
+            `.tree-item[data-id="${selectedId}"]`
+          ) as HTMLElement
+          return { id: selectedId, type: targetItem?.dataset.type as 'note' | 'folder' }
+        })
+        .filter((i) => i.type)
+
     if (selectedCount > 1) {
       contextMenu.show(event.clientX, event.clientY, [
+        {
+          label: `Export ${selectedCount} items as HTML...`,
+          icon: icons.exportHtml,
+          onClick: () => this.onExport?.(selectedItems(), 'html')
+        },
+        {
+          label: `Export ${selectedCount} items as PDF...`,
+          icon: icons.exportPdf,
+          onClick: () => this.onExport?.(selectedItems(), 'pdf')
+        },
+        { separator: true },
         {
           label: `Delete ${selectedCount} items`,
           icon: icons.delete,
@@ -1391,6 +1453,11 @@ export class SidebarTree {
           keybinding: 'Ctrl+N',
           onClick: () => this.onNoteCreate?.(id)
         },
+        {
+          label: 'New Note from Template...',
+          icon: icons.template,
+          onClick: () => this.onNoteFromTemplate?.(id)
+        },
         {
           label: 'New Folder',
           icon: icons.newFolder,
@@ -1416,6 +1483,21 @@ export class SidebarTree {
           icon: icons.reveal,
           onClick: () => window.api.revealVault?.()
         },
+        {
+          label: 'Export as HTML...',
+          icon: icons.exportHtml,
+          onClick: () => this.onExport?.([{ id, type: 'folder' }], 'html')
+        },
+        {
+          label: 'Export as PDF...',
+          icon: icons.exportPdf,
+          onClick: () => this.onExport?.([{ id, type: 'folder' }], 'pdf')
+        },
+        {
+          label: 'Publish as Website...',
+          icon: icons.publish,
+          onClick: () => this.onPublish?.(id)
+        },
         { separator: true },
         {
           label: 'Rename',
@@ -1465,6 +1547,21 @@ export class SidebarTree {
           icon: icons.reveal,
           onClick: () => window.api.revealVault?.()
         },
+        {
+          label: 'Version History',
+          icon: icons.history,
+          onClick: () => this.onNoteHistory?.(id, itemPath || undefined)
+        },
+        {
+          label: 'Export as HTML...',
+          icon: icons.exportHtml,
+          onClick: () => this.onExport?.([{ id, type: 'note' }], 'html')
+        },
+        {
+          label: 'Export as PDF...',
+          icon: icons.exportPdf,
+          onClick: () => this.onExport?.([{ id, type: 'note' }], 'pdf')
+        },
         { separator: true },
         {
           label: 'Rename',
@@ -1495,6 +1592,8 @@ export class SidebarTree {
       if (!label) return
 
       this.editingId = itemId
+      // Notes show their (possibly frontmatter) title; renaming edits the file name
+      if (label.dataset.noteId) label.textContent = itemId.split('/').pop() || ''
       label.dataset.originalTitle = label.textContent || ''
       label.contentEditable = 'true'
       label.classList.add('is-editing')
@@ -1586,7 +1685,7 @@ export class SidebarTree {
   }
 
   private async deleteFolder(path: string): Promise<void> {
-    if (!confirm(`Delete folder and all contents?`)) return
+    if (!confirm(`Move this folder and all its contents to the trash?`)) return
     try {
       await window.api.deleteFolder(path)
       window.dispatchEvent(new CustomEvent('vault-changed'))
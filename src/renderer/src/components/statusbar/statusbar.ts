@@ -1,11 +1,13 @@
 import './statusbar.css'
 import { VersionFetcher } from '../../utils/versionFetcher'
-import { createElement, CloudUpload, CloudDownload } from 'lucide'
+import { createElement, CloudUpload, CloudDownload, RefreshCw, GitBranch, GitMerge } from 'lucide'
+import type { GitSyncSnapshot } from '../../services/sync/gitSyncService'
 
 export class StatusBar {
   private container: HTMLElement
   private statusText: HTMLElement
   private metaText: HTMLElement
+  private gitButton: HTMLElement
   private version: string | null = null
   private statusTimeout: NodeJS.Timeout | null = null
 
@@ -15,6 +17,8 @@ export class StatusBar {
     this.statusText = this.container.querySelector('.statusbar__left') as HTMLElement
     const rightContainer = this.container.querySelector('.statusbar__right') as HTMLElement
     this.metaText = rightContainer?.querySelector('.statusbar__meta') as HTMLElement
+    this.gitButton = rightContainer?.querySelector('.statusbar__git') as HTMLElement
+    this.gitButton?.addEventListener('click', () => this.dispatchSyncAction('git-sync'))
     this.updateStatusText()
     this.attachSyncEvents()
 
@@ -48,10 +52,13 @@ export class StatusBar {
   private render(): void {
     const uploadIcon = this.createLucideIcon(CloudUpload, 14)
     const downloadIcon = this.createLucideIcon(CloudDownload, 14)
+    const syncIcon = this.createLucideIcon(RefreshCw, 14)
+    const gitIcon = this.createLucideIcon(GitBranch, 14)
 
     this.container.innerHTML = `
       <span class="statusbar__left"></span>
       <span class="statusbar__right">
+        <button class="statusbar__git" hidden></button>
         <div class="statusbar__sync">
           <button class="statusbar__sync-button" title="Sync">
             ${uploadIcon}
@@ -65,6 +72,14 @@ export class StatusBar {
               <span class="statusbar__sync-menu-icon">${downloadIcon}</span>
               <span>Restore from Gist</span>
             </button>
+            <button class="statusbar__sync-menu-item" data-action="sync-now">
+              <span class="statusbar__sync-menu-icon">${syncIcon}</span>
+              <span>Sync Vault Now</span>
+            </button>
+            <button class="statusbar__sync-menu-item" data-action="git-sync">
+              <span class="statusbar__sync-menu-icon">${gitIcon}</span>
+              <span>Sync with Git</span>
+            </button>
           </div>
         </div>
         <span class="statusbar__meta"></span>
@@ -125,16 +140,72 @@ export class StatusBar {
         e.stopPropagation()
         e.preventDefault()
         const action = (item as HTMLElement).dataset.action
-        if (action === 'backup' || action === 'restore') {
-          this.container.dispatchEvent(
-            new CustomEvent('sync-action', { detail: { action }, bubbles: true })
-          )
+        if (action && ['backup', 'restore', 'sync-now', 'git-sync'].includes(action)) {
+          this.dispatchSyncAction(action)
         }
         syncMenu.classList.remove('is-open')
       })
     })
   }
 
+  private dispatchSyncAction(action: string): void {
+    this.container.dispatchEvent(
+      new CustomEvent('sync-action', { detail: { action }, bubbles: true })
+    )
+  }
+
+  /**
+   * Git sync indicator: branch with unpushed/unpulled commits and local
+   * changes, or the sync, conflict and error states. Hidden until the vault
+   * is a repository.
+   */
+  setGitStatus(snapshot: GitSyncSnapshot): void {
+    if (!this.gitButton) return
+    const { status, syncing, error } = snapshot
+    if (!syncing && (!status || status.state === 'not-repository') && !error) {
+      this.gitButton.hidden = true
+      return
+    }
+
+    let label: string
+    let title: string
+    let icon = GitBranch
+    if (syncing) {
+      label = 'Syncing…'
+      title = 'Git sync in progress'
+    } else if (status?.state === 'conflict') {
+      const count = status.conflicts.length
+      label = `${count} conflict${count === 1 ? '' : 's'}`
+      title = 'The last pull could not be merged. Click to resolve.'
+      icon = GitMerge
+    } else if (error) {
+      label = 'Sync failed'
+      title = `${error}\nClick to retry.`
+    } else {
+      const parts = [status?.branch || 'git']
+      if (status?.ahead) parts.push(`↑${status.ahead}`)
+      if (status?.behind) parts.push(`↓${status.behind}`)
+      if (status?.changes) parts.push(`• ${status.changes}`)
+      label = parts.join(' ')
+      const last = snapshot.lastSync
+        ? `Last synced ${new Date(snapshot.lastSync).toLocaleTimeString()}`
+        : 'Not synced this session'
+      title = `${status?.changes ?? 0} uncommitted change${status?.changes === 1 ? '' : 's'}${
+        status?.hasRemote ? '' : ' · no remote configured'
+      }\n${last}\nClick to sync now.`
+    }
+
+    this.gitButton.hidden = false
+    this.gitButton.title = title
+    this.gitButton.classList.toggle('is-syncing', syncing)
+    this.gitButton.classList.toggle(
+      'is-warning',
+      !syncing && (status?.state === 'conflict' || !!error)
+    )
+    this.gitButton.innerHTML = `${this.createLucideIcon(icon, 13)}<span></span>`
+    ;(this.gitButton.querySelector('span') as HTMLElement).textContent = label
+  }
+
   private updateStatusText(): void {
     if (this.statusText && !this.statusTimeout) {
       this.statusText.textContent = this.version ? `v${this.version}` : ''
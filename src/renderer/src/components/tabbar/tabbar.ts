@@ -2,13 +2,25 @@ import { state } from '../../core/state'
 import { codicons } from '../../utils/codicons'
 import getFileIcon from '../../utils/fileIconMappers'
 import { createElement, Eye, Pin } from 'lucide'
+import type { NoteMeta } from '../../core/types'
 import './tabbar.css'
 
+export type TabGroup = {
+  tabs: NoteMeta[]
+  activeId: string
+  isDirty: boolean
+}
+
 export class TabBar {
   private container: HTMLElement
   private onTabSelect?: (id: string) => void
   private onTabClose?: (id: string) => void
   private onTabContextMenu?: (id: string, event: MouseEvent) => void
+  private source: () => TabGroup = () => ({
+    tabs: state.openTabs,
+    activeId: state.activeId,
+    isDirty: state.isDirty
+  })
 
   constructor(containerId: string) {
     this.container = document.getElementById(containerId) as HTMLElement
@@ -27,9 +39,18 @@ export class TabBar {
     this.onTabContextMenu = handler
   }
 
+  /**
+   * Where the tabs come from. Defaults to the global open tabs; a split pane
+   * without focus shows its own group instead.
+   */
+  setSource(source: () => TabGroup): void {
+    this.source = source
+  }
+
   render(): void {
+    const group = this.source()
     this.container.innerHTML = ''
-    if (state.openTabs.length === 0) {
+    if (group.tabs.length === 0) {
       const empty = document.createElement('div')
       empty.className = 'tabbar__empty'
       empty.textContent = 'No open editors'
@@ -37,7 +58,7 @@ export class TabBar {
       return
     }
 
-    state.openTabs.forEach((tab) => {
+    group.tabs.forEach((tab) => {
       const isPinned = state.pinnedTabs.has(tab.id)
       const title = tab.title || ''
 
@@ -62,10 +83,12 @@ export class TabBar {
       }
 
       const button = document.createElement('button')
-      const isDirty = state.isDirty && tab.id === state.activeId
-      button.className = `tab${tab.id === state.activeId ? ' is-active' : ''}${isPinned ? ' is-pinned' : ''}${isDirty ? ' is-dirty' : ''}`
+      const isDirty = group.isDirty && tab.id === group.activeId
+      button.className = `tab${tab.id === group.activeId ? ' is-active' : ''}${isPinned ? ' is-pinned' : ''}${isDirty ? ' is-dirty' : ''}`
       button.dataset.id = tab.id
       button.dataset.ext = ext
+      // Dragged onto another split pane to move it there
+      button.draggable = true
 
       if (isPinned) button.title = `${tab.title} (Pinned)`
 
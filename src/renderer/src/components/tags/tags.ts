@@ -0,0 +1,292 @@
+import type { NoteMeta, TagCount } from '../../core/types'
+import { contextMenu } from '../contextmenu/contextmenu'
+import './tags.css'
+
+const EXPANDED_KEY = 'knowledgeHub_expandedTags'
+
+export interface TagsPaneCallbacks {
+  openNote: (id: string, path?: string) => Promise<void>
+  renameTag: (tag: string, existing: string[]) => Promise<void>
+}
+
+type TagNode = {
+  tag: string // Full path, e.g. `project/alpha`
+  name: string // Last segment
+  count: number
+  children: TagNode[]
+}
+
+/**
+ * Sidebar view listing every tag in the vault as a tree (`#parent/child`)
+ * with note counts. Selecting a tag lists the notes carrying it.
+ */
+export class TagsPane {
+  private container: HTMLElement
+  private callbacks: TagsPaneCallbacks
+  private tags: TagCount[] = []
+  private notes: NoteMeta[] = []
+  private selected: string | null = null
+  private filter = ''
+  private expanded = new Set<string>(this.loadExpanded())
+  private request = 0
+  private notesRequest = 0
+
+  constructor(containerId: string, callbacks: TagsPaneCallbacks) {
+    this.container = document.getElementById(containerId) as HTMLElement
+    this.callbacks = callbacks
+    this.container.innerHTML = `
+      <div class="tags__filter sidebar__search">
+        <input type="search" placeholder="Filter tags..." aria-label="Filter tags" />
+      </div>
+      <div class="tags__tree"></div>
+      <div class="tags__notes"></div>
+    `
+    const input = this.container.querySelector('input') as HTMLInputElement
+    input.addEventListener('input', () => {
+      this.filter = input.value.trim().replace(/^#/, '').toLowerCase()
+      this.renderTree()
+    })
+    this.container.addEventListener('click', (e) => this.handleClick(e))
+    this.container.addEventListener('contextmenu', (e) => this.handleContextMenu(e))
+    this.renderTree()
+    this.renderNotes()
+  }
+
+  async refresh(): Promise<void> {
+    const request = ++this.request
+    try {
+      const tags = await window.api.getTags()
+      if (request !== this.request) return
+      this.tags = tags
+    } catch (error) {
+      console.error('[Tags] Failed to load tags', error)
+      if (request !== this.request) return
+      this.tags = []
+    }
+    if (this.selected && !this.tags.some((t) => t.tag === this.selected)) this.selected = null
+    this.renderTree()
+    await this.loadNotes()
+  }
+
+  /**
+   * Select a tag and list its notes; `null` clears the selection.
+   */
+  async select(tag: string | null): Promise<void> {
+    this.selected = tag
+    // Reveal the selection inside collapsed parents
+    if (tag) {
+      const parts = tag.split('/')
+      for (let i = 1; i < parts.length; i++) this.expanded.add(parts.slice(0, i).join('/'))
+      this.saveExpanded()
+    }
+    this.renderTree()
+    await this.loadNotes()
+  }
+
+  private async loadNotes(): Promise<void> {
+    const tag = this.selected
+    const request = ++this.notesRequest
+    if (!tag) {
+      this.notes = []
+      this.renderNotes()
+      return
+    }
+    try {
+      const notes = await window.api.getNotesWithTag(tag)
+      if (request !== this.notesRequest) return
+      this.notes = notes
+    } catch (error) {
+      console.error('[Tags] Failed to load tagged notes', error)
+      if (request !== this.notesRequest) return
+      this.notes = []
+    }
+    this.renderNotes()
+  }
+
+  private buildTree(): TagNode[] {
+    const roots: TagNode[] = []
+    const nodes = new Map<string, TagNode>()
+    // Sorted by path, so parents are always created before their children
+    for (const { tag, count } of this.tags) {
+      const slash = tag.lastIndexOf('/')
+      const node: TagNode = { tag, name: tag.slice(slash + 1), count, children: [] }
+      nodes.set(tag, node)
+      const parent = slash === -1 ? undefined : nodes.get(tag.slice(0, slash))
+      if (parent) parent.children.push(node)
+      else roots.push(node)
+    }
+    return roots
+  }
+
+  private renderTree(): void {
+    const tree = this.container.querySelector('.tags__tree') as HTMLElement
+    tree.innerHTML = ''
+
+    if (this.filter) {
+      const matches = this.tags.filter((t) => t.tag.includes(this.filter))
+      if (matches.length === 0) {
+        tree.appendChild(this.createEmpty('No matching tags'))
+        return
+      }
+      matches.forEach((t) => tree.appendChild(this.createRow(t.tag, t.tag, t.count, 0, false)))
+      return
+    }
+
+    const roots = this.buildTree()
+    if (roots.length === 0) {
+      tree.appendChild(this.createEmpty('No tags yet. Add #tags to your notes.'))
+      return
+    }
+    const renderNodes = (nodes: TagNode[], depth: number): void => {
+      for (const node of nodes) {
+        const hasChildren = node.children.length > 0
+        tree.appendChild(this.createRow(node.tag, node.name, node.count, depth, hasChildren))
+        if (hasChildren && this.expanded.has(node.tag)) renderNodes(node.children, depth + 1)
+      }
+    }
+    renderNodes(roots, 0)
+  }
+
+  private createRow(
+    tag: string,
+    label: string,
+    count: number,
+    depth: number,
+    hasChildren: boolean
+  ): HTMLElement {
+    const row = document.createElement('div')
+    row.className = 'tags__item'
+    row.classList.toggle('is-active', tag === this.selected)
+    row.dataset.action = 'select'
+    row.dataset.tag = tag
+    row.title = `#${tag}`
+    row.style.paddingLeft = `${8 + depth * 14}px`
+
+    const chevron = document.createElement('span')
+    chevron.className = 'tags__chevron'
+    if (hasChildren) {
+      chevron.dataset.action = 'toggle'
+      chevron.textContent = this.expanded.has(tag) ? '▾' : '▸'
+    }
+    const name = document.createElement('span')
+    name.className = 'tags__name'
+    name.textContent = `#${label}`
+    const badge = document.createElement('span')
+    badge.className = 'tags__badge'
+    badge.textContent = String(count)
+
+    row.append(chevron, name, badge)
+    return row
+  }
+
+  private renderNotes(): void {
+    const section = this.container.querySelector('.tags__notes') as HTMLElement
+    section.innerHTML = ''
+    section.style.display = this.selected ? '' : 'none'
+    if (!this.selected) return
+
+    const header = document.createElement('div')
+    header.className = 'tags__notes-header'
+    const title = document.createElement('span')
+    title.textContent = `#${this.selected}`
+    const clear = document.createElement('button')
+    clear.className = 'tags__clear'
+    clear.dataset.action = 'clear'
+    clear.title = 'Clear tag filter'
+    clear.textContent = '×'
+    header.append(title, clear)
+    section.appendChild(header)
+
+    if (this.notes.length === 0) {
+      section.appendChild(this.createEmpty('No notes'))
+      return
+    }
+    this.notes.forEach((note, index) => {
+      const row = document.createElement('div')
+      row.className = 'tags__note'
+      row.dataset.action = 'open'
+      row.dataset.index = String(index)
+      const name = document.createElement('span')
+      name.className = 'tags__note-title'
+      name.textContent = note.title
+      const path = document.createElement('span')
+      path.className = 'tags__note-path'
+      path.textContent = note.path || ''
+      row.append(name, path)
+      section.appendChild(row)
+    })
+  }
+
+  private createEmpty(message: string): HTMLElement {
+    const empty = document.createElement('div')
+    empty.className = 'tags__empty'
+    empty.textContent = message
+    return empty
+  }
+
+  private handleClick(e: MouseEvent): void {
+    const target = (e.target as HTMLElement).closest<HTMLElement>('[data-action]')
+    if (!target) return
+
+    switch (target.dataset.action) {
+      case 'toggle': {
+        const tag = target.closest<HTMLElement>('.tags__item')?.dataset.tag
+        if (!tag) return
+        if (this.expanded.has(tag)) this.expanded.delete(tag)
+        else this.expanded.add(tag)
+        this.saveExpanded()
+        this.renderTree()
+        break
+      }
+      case 'select': {
+        const tag = target.dataset.tag
+        if (tag) void this.select(tag === this.selected ? null : tag)
+        break
+      }
+      case 'clear':
+        void this.select(null)
+        break
+      case 'open': {
+        const note = this.notes[Number(target.dataset.index)]
+        if (note) void this.callbacks.openNote(note.id, note.path)
+        break
+      }
+    }
+  }
+
+  private handleContextMenu(e: MouseEvent): void {
+    const row = (e.target as HTMLElement).closest<HTMLElement>('.tags__item')
+    const tag = row?.dataset.tag
+    if (!tag) return
+    e.preventDefault()
+
+    contextMenu.show(e.clientX, e.clientY, [
+      {
+        label: 'Show Notes',
+        onClick: () => void this.select(tag)
+      },
+      { separator: true },
+      {
+        label: 'Rename or Merge Tag...',
+        onClick: () =>
+          void this.callbacks.renameTag(
+            tag,
+            this.tags.map((t) => t.tag)
+          )
+      }
+    ])
+  }
+
+  private loadExpanded(): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(EXPANDED_KEY) || '[]')
+      return Array.isArray(stored) ? stored : []
+    } catch {
+      return []
+    }
+  }
+
+  private saveExpanded(): void {
+    localStorage.setItem(EXPANDED_KEY, JSON.stringify(Array.from(this.expanded)))
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * Tasks
+ * Every `- [ ]` task in the vault, from the vault index. Tasks can be
+ * filtered by status, folder and tag, grouped by note or due date, and
+ * checked off in place.
+ */
+
+import { formatDate } from '../../../../shared/dateFormat'
+import { PRIORITY_ORDER } from '../../../../shared/tasks'
+import { notificationManager } from '../notification/notification'
+import type { VaultTask } from '../../core/types'
+import './tasks.css'
+import '../window-header/window-header.css'
+
+export interface TasksCallbacks {
+  /** Open a note with the cursor on a 0-based line */
+  openNote: (id: string, line: number) => Promise<void>
+  /** Write a checked or unchecked task back to its note */
+  toggle: (task: VaultTask, done: boolean) => Promise<void>
+}
+
+type TaskStatus = 'open' | 'done' | 'all'
+type TaskGrouping = 'note' | 'date'
+
+const REFRESH_DELAY = 300
+const NO_DATE = ''
+
+export class TasksView {
+  private modal: HTMLElement
+  private body!: HTMLElement
+  private stats!: HTMLElement
+  private folderSelect!: HTMLSelectElement
+  private tagSelect!: HTMLSelectElement
+  private groupSelect!: HTMLSelectElement
+  private callbacks: TasksCallbacks
+  private tasks: VaultTask[] | null = null
+  private status: TaskStatus = 'open'
+  private refreshTimer: number | null = null
+
+  constructor(callbacks: TasksCallbacks) {
+    this.callbacks = callbacks
+    this.modal = document.createElement('div')
+    this.modal.className = 'tasks'
+    this.render()
+    document.body.appendChild(this.modal)
+
+    window.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isOpen()) {
+        this.close()
+      }
+    })
+
+    // Stay current while notes change on disk or in the editor
+    window.api.onVaultChanged(() => {
+      if (!this.isOpen()) return
+      if (this.refreshTimer) window.clearTimeout(this.refreshTimer)
+      this.refreshTimer = window.setTimeout(() => {
+        this.refreshTimer = null
+        void this.refresh()
+      }, REFRESH_DELAY)
+    })
+  }
+
+  isOpen(): boolean {
+    return this.modal.classList.contains('is-visible')
+  }
+
+  async open(): Promise<void> {
+    this.modal.classList.add('is-visible')
+    this.body.innerHTML = '<div class="tasks__empty">Collecting tasks…</div>'
+    await this.refresh()
+  }
+
+  close(): void {
+    this.modal.classList.remove('is-visible')
+  }
+
+  async refresh(): Promise<void> {
+    try {
+      this.tasks = await window.api.getTasks()
+    } catch (error) {
+      console.error('[Tasks] Failed to list tasks', error)
+      this.tasks = null
+      this.body.innerHTML = '<div class="tasks__empty">Could not list tasks.</div>'
+      return
+    }
+    this.updateFilters()
+    this.renderList()
+  }
+
+  private render(): void {
+    this.modal.innerHTML = `
+      <div class="tasks__content">
+        <div class="window-header" style="flex-shrink: 0;">
+          <div class="window-header__brand">
+            <span class="window-header__title">Tasks</span>
+            <span class="tasks__stats"></span>
+          </div>
+          <div class="window-header__controls">
+            <button class="wh-btn tasks__refresh" title="Refresh" aria-label="Refresh">⟳</button>
+            <button class="wh-btn wh-close tasks__close" title="Close (Esc)" aria-label="Close">×</button>
+          </div>
+        </div>
+        <div class="tasks__toolbar">
+          <div class="tasks__tabs">
+            <button class="tasks__tab is-active" data-status="open">Open</button>
+            <button class="tasks__tab" data-status="done">Completed</button>
+            <button class="tasks__tab" data-status="all">All</button>
+          </div>
+          <select class="tasks__select tasks__folder" title="Folder"></select>
+          <select class="tasks__select tasks__tag" title="Tag"></select>
+          <select class="tasks__select tasks__group" title="Group by">
+            <option value="note">By note</option>
+            <option value="date">By due date</option>
+          </select>
+        </div>
+        <div class="tasks__body"></div>
+      </div>
+    `
+
+    this.body = this.modal.querySelector('.tasks__body') as HTMLElement
+    this.stats = this.modal.querySelector('.tasks__stats') as HTMLElement
+    this.folderSelect = this.modal.querySelector('.tasks__folder') as HTMLSelectElement
+    this.tagSelect = this.modal.querySelector('.tasks__tag') as HTMLSelectElement
+    this.groupSelect = this.modal.querySelector('.tasks__group') as HTMLSelectElement
+
+    this.modal.querySelector('.tasks__close')?.addEventListener('click', () => this.close())
+    this.modal
+      .querySelector('.tasks__refresh')
+      ?.addEventListener('click', () => void this.refresh())
+    this.modal.addEventListener('click', (e) => {
+      if (e.target === this.modal) this.close()
+    })
+
+    this.modal.querySelectorAll<HTMLButtonElement>('.tasks__tab').forEach((tab) => {
+      tab.addEventListener('click', () => {
+        this.status = tab.dataset.status as TaskStatus
+        this.renderList()
+      })
+    })
+    ;[this.folderSelect, this.tagSelect, this.groupSelect].forEach((select) => {
+      select.addEventListener('change', () => this.renderList())
+    })
+  }
+
+  /**
+   * Fill the folder and tag pickers from the current tasks, keeping the
+   * selection when it still exists.
+   */
+  private updateFilters(): void {
+    const tasks = this.tasks ?? []
+    const folders = new Set<string>()
+    const tags = new Set<string>()
+    tasks.forEach((task) => {
+      // Parent folders too, so a folder filter covers its subfolders
+      const parts = task.path ? task.path.split('/') : []
+      parts.forEach((_, i) => folders.add(parts.slice(0, i + 1).join('/')))
+      task.tags.forEach((tag) => tags.add(tag))
+    })
+
+    const fill = (
+      select: HTMLSelectElement,
+      all: string,
+      values: string[],
+      label: (v: string) => string
+    ): void => {
+      const selected = select.value
+      select.replaceChildren(new Option(all, ''))
+      values.forEach((value) => select.appendChild(new Option(label(value), value)))
+      select.value = values.includes(selected) ? selected : ''
+    }
+    fill(this.folderSelect, 'All folders', sorted(folders), (folder) => folder)
+    fill(this.tagSelect, 'All tags', sorted(tags), (tag) => `#${tag}`)
+  }
+
+  private filtered(): VaultTask[] {
+    const folder = this.folderSelect.value
+    const tag = this.tagSelect.value
+    return (this.tasks ?? []).filter((task) => {
+      if (this.status === 'open' && task.done) return false
+      if (this.status === 'done' && !task.done) return false
+      if (folder && task.path !== folder && !task.path.startsWith(`${folder}/`)) return false
+      if (tag && !task.tags.some((t) => t === tag || t.startsWith(`${tag}/`))) return false
+      return true
+    })
+  }
+
+  private renderList(): void {
+    this.modal.querySelectorAll<HTMLElement>('.tasks__tab').forEach((tab) => {
+      tab.classList.toggle('is-active', tab.dataset.status === this.status)
+    })
+    if (!this.tasks) return
+
+    const open = this.tasks.filter((task) => !task.done).length
+    const done = this.tasks.length - open
+    this.stats.textContent = `${open} open · ${done} completed`
+
+    const tasks = this.filtered()
+    this.body.innerHTML = ''
+    if (tasks.length === 0) {
+      const message =
+        this.tasks.length === 0
+          ? 'No tasks yet. Add one to any note with "- [ ] something to do".'
+          : 'No tasks match these filters.'
+      this.body.innerHTML = `<div class="tasks__empty">${message}</div>`
+      return
+    }
+
+    const grouping = this.groupSelect.value as TaskGrouping
+    const groups = new Map<string, VaultTask[]>()
+    tasks.forEach((task) => {
+      const key = grouping === 'note' ? task.noteId : task.due || NO_DATE
+      const group = groups.get(key)
+      if (group) group.push(task)
+      else groups.set(key, [task])
+    })
+
+    const keys = Array.from(groups.keys())
+    // Notes arrive sorted by title; dates go earliest first, undated last
+    if (grouping === 'date') {
+      keys.sort((a, b) => (a === NO_DATE ? 1 : b === NO_DATE ? -1 : a.localeCompare(b)))
+    }
+    const today = formatDate(new Date(), 'YYYY-MM-DD')
+    keys.forEach((key) => {
+      const group = groups.get(key)!.sort(compareTasks)
+      const block = document.createElement('div')
+      block.className = 'tasks__group'
+
+      const header = document.createElement('div')
+      header.className = 'tasks__group-header'
+      const title = document.createElement('span')
+      title.className = 'tasks__group-title'
+      if (grouping === 'note') {
+        title.textContent = group[0].noteTitle
+        title.title = group[0].noteId
+      } else {
+        title.textContent = dayLabel(key, today)
+        title.classList.toggle('is-overdue', key !== NO_DATE && key < today)
+      }
+      const count = document.createElement('span')
+      count.className = 'tasks__count'
+      count.textContent = String(group.length)
+      header.append(title, count)
+      block.appendChild(header)
+
+      group.forEach((task) => block.appendChild(this.renderTask(task, grouping, today)))
+      this.body.appendChild(block)
+    })
+  }
+
+  private renderTask(task: VaultTask, grouping: TaskGrouping, today: string): HTMLElement {
+    const row = document.createElement('div')
+    row.className = 'tasks__row'
+    row.classList.toggle('is-done', task.done)
+
+    const checkbox = document.createElement('input')
+    checkbox.type = 'checkbox'
+    checkbox.className = 'tasks__checkbox'
+    checkbox.checked = task.done
+    checkbox.title = task.done ? 'Mark as open' : 'Mark as done'
+    checkbox.addEventListener('change', async () => {
+      checkbox.disabled = true
+      try {
+        await this.callbacks.toggle(task, checkbox.checked)
+        await this.refresh()
+      } catch (error) {
+        checkbox.checked = task.done
+        checkbox.disabled = false
+        notificationManager.show((error as Error).message, 'error', { title: 'Task Not Updated' })
+      }
+    })
+
+    const text = document.createElement('button')
+    text.className = 'tasks__text'
+    text.textContent = task.text
+    text.title = `${task.noteId}, line ${task.line + 1}`
+    text.addEventListener('click', () => void this.openTask(task))
+    row.append(checkbox, text)
+
+    if (task.priority) {
+      const priority = document.createElement('span')
+      priority.className = `tasks__badge tasks__priority is-${task.priority}`
+      priority.textContent = task.priority
+      row.appendChild(priority)
+    }
+    if (task.due && grouping === 'note') {
+      const due = document.createElement('span')
+      due.className = 'tasks__badge tasks__due'
+      due.classList.toggle('is-overdue', !task.done && task.due < today)
+      due.textContent = dayLabel(task.due, today)
+      row.appendChild(due)
+    }
+    if (grouping === 'date') {
+      const note = document.createElement('span')
+      note.className = 'tasks__note'
+      note.textContent = task.noteTitle
+      note.title = task.noteId
+      row.appendChild(note)
+    }
+    return row
+  }
+
+  private async openTask(task: VaultTask): Promise<void> {
+    this.close()
+    await this.callbacks.openNote(task.noteId, task.line)
+  }
+}
+
+// Open before done, then by priority, due date and position in the note
+function compareTasks(a: VaultTask, b: VaultTask): number {
+  const priority = (task: VaultTask): number =>
+    task.priority ? PRIORITY_ORDER[task.priority] : Object.keys(PRIORITY_ORDER).length
+  return (
+    Number(a.done) - Number(b.done) ||
+    priority(a) - priority(b) ||
+    (a.due || '9999').localeCompare(b.due || '9999') ||
+    a.noteTitle.localeCompare(b.noteTitle) ||
+    a.line - b.line
+  )
+}
+
+function dayLabel(date: string, today: string): string {
+  if (date === NO_DATE) return 'No due date'
+  if (date === today) return 'Today'
+  const tomorrow = new Date()
+  tomorrow.setDate(tomorrow.getDate() + 1)
+  if (date === formatDate(tomorrow, 'YYYY-MM-DD')) return 'Tomorrow'
+  return date
+}
+
+function sorted(values: Set<string>): string[] {
+  return Array.from(values).sort((a, b) => a.localeCompare(b))
+}
@@ -0,0 +1,127 @@
+import { modalManager } from '../modal/modal'
+import type { NoteMeta } from '../../core/types'
+import type { TemplatePrompt } from '../../../../shared/templates'
+import './template-modal.css'
+
+export type TemplateAnswers = {
+  title: string
+  answers: Record<string, string>
+}
+
+/**
+ * Picks a template from the templates folder and collects the note title and
+ * answers for its `{{prompt:...}}` variables.
+ */
+export class TemplateModal {
+  /**
+   * Resolves the chosen template, or null when the user cancelled.
+   */
+  pick(templates: NoteMeta[], folder: string): Promise<NoteMeta | null> {
+    return new Promise((resolve) => {
+      let settled = false
+      const settle = (value: NoteMeta | null): void => {
+        if (settled) return
+        settled = true
+        resolve(value)
+      }
+
+      const list = document.createElement('div')
+      list.className = 'template-modal__list'
+      templates.forEach((template) => {
+        const item = document.createElement('button')
+        item.className = 'template-modal__item'
+        const title = document.createElement('span')
+        title.className = 'template-modal__title'
+        title.textContent = template.title
+        item.appendChild(title)
+        // Templates in sub-folders show where they live
+        const subfolder = (template.path || '').slice(folder.length + 1)
+        if (subfolder) {
+          const path = document.createElement('span')
+          path.className = 'template-modal__path'
+          path.textContent = subfolder
+          item.appendChild(path)
+        }
+        item.addEventListener('click', () => {
+          settle(template)
+          modalManager.close()
+        })
+        list.appendChild(item)
+      })
+      // The modal swallows Enter for its primary button; handle list keys first
+      list.addEventListener('keydown', (e) => {
+        const items = Array.from(list.querySelectorAll<HTMLElement>('.template-modal__item'))
+        const index = items.indexOf(document.activeElement as HTMLElement)
+        if (e.key === 'Enter' && index !== -1) {
+          e.preventDefault()
+          e.stopPropagation()
+          items[index].click()
+        } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault()
+          const step = e.key === 'ArrowDown' ? 1 : -1
+          items[(index + step + items.length) % items.length]?.focus()
+        }
+      })
+
+      modalManager.open({
+        title: 'Choose a template',
+        customContent: list,
+        size: 'md',
+        onClose: () => settle(null),
+        buttons: [{ label: 'Cancel', variant: 'ghost', onClick: (m) => m.close() }]
+      })
+      setTimeout(() => list.querySelector<HTMLElement>('.template-modal__item')?.focus(), 50)
+    })
+  }
+
+  /**
+   * Ask for the note title (when `title` is given) and every prompt. Resolves
+   * right away when there is nothing to ask, null when cancelled.
+   */
+  ask(prompts: TemplatePrompt[], title?: string): Promise<TemplateAnswers | null> {
+    if (prompts.length === 0 && title === undefined) {
+      return Promise.resolve({ title: '', answers: {} })
+    }
+
+    return new Promise((resolve) => {
+      let settled = false
+      const settle = (value: TemplateAnswers | null): void => {
+        if (settled) return
+        settled = true
+        resolve(value)
+      }
+
+      modalManager.open({
+        title: title === undefined ? 'Fill in template' : 'New note from template',
+        size: 'md',
+        onClose: () => settle(null),
+        inputs: [
+          ...(title === undefined
+            ? []
+            : [{ name: 'title', label: 'Note Title', value: title, required: true }]),
+          ...prompts.map((prompt, index) => ({
+            name: `prompt-${index}`,
+            label: prompt.question,
+            value: prompt.defaultValue
+          }))
+        ],
+        buttons: [
+          { label: 'Cancel', variant: 'ghost', onClick: (m) => m.close() },
+          {
+            label: title === undefined ? 'Insert' : 'Create',
+            variant: 'primary',
+            onClick: (m) => {
+              const values = m.getValues()
+              const answers: Record<string, string> = {}
+              prompts.forEach((prompt, index) => {
+                answers[prompt.question] = String(values[`prompt-${index}`] ?? '')
+              })
+              settle({ title: String(values.title ?? '').trim(), answers })
+              m.close()
+            }
+          }
+        ]
+      })
+    })
+  }
+}
@@ -0,0 +1,145 @@
+import type { TrashItem } from '../../core/types'
+import { timeAgo } from '../../utils/helpers'
+import './trash.css'
+
+const COLLAPSED_KEY = 'knowledgeHub_trashCollapsed'
+
+export interface TrashPaneCallbacks {
+  restore: (item: TrashItem) => Promise<void>
+  purge: (item: TrashItem) => Promise<void>
+  empty: (items: TrashItem[]) => Promise<void>
+}
+
+/**
+ * Collapsible section at the bottom of the explorer listing deleted notes and
+ * folders, with restore and permanent delete.
+ */
+export class TrashPane {
+  private container: HTMLElement
+  private callbacks: TrashPaneCallbacks
+  private items: TrashItem[] = []
+  private collapsed = localStorage.getItem(COLLAPSED_KEY) !== 'false'
+  private request = 0
+
+  constructor(containerId: string, callbacks: TrashPaneCallbacks) {
+    this.container = document.getElementById(containerId) as HTMLElement
+    this.callbacks = callbacks
+    this.container.addEventListener('click', (e) => this.handleClick(e))
+    this.render()
+  }
+
+  async refresh(): Promise<void> {
+    const request = ++this.request
+    try {
+      const items = await window.api.getTrash()
+      if (request !== this.request) return
+      this.items = items
+    } catch (error) {
+      console.error('[Trash] Failed to load trash', error)
+      if (request !== this.request) return
+      this.items = []
+    }
+    this.render()
+  }
+
+  private render(): void {
+    this.container.classList.toggle('is-collapsed', this.collapsed)
+    this.container.innerHTML = `
+      <div class="trash__header">
+        <button class="trash__toggle" data-action="toggle" aria-expanded="${!this.collapsed}">
+          <span class="trash__chevron">${this.collapsed ? '▸' : '▾'}</span>
+          <span class="trash__title">Trash</span>
+          <span class="trash__badge">${this.items.length}</span>
+        </button>
+        ${
+          !this.collapsed && this.items.length > 0
+            ? '<button class="trash__empty-btn" data-action="empty" title="Permanently delete everything in the trash">Empty</button>'
+            : ''
+        }
+      </div>
+      <div class="trash__body"></div>
+    `
+    if (this.collapsed) return
+
+    const body = this.container.querySelector('.trash__body') as HTMLElement
+    if (this.items.length === 0) {
+      const empty = document.createElement('div')
+      empty.className = 'trash__empty'
+      empty.textContent = 'Trash is empty'
+      body.appendChild(empty)
+      return
+    }
+    this.items.forEach((item, index) => body.appendChild(this.renderItem(item, index)))
+  }
+
+  private renderItem(item: TrashItem, index: number): HTMLElement {
+    const row = document.createElement('div')
+    row.className = 'trash__item'
+    row.title = `${item.originalPath}\nDeleted ${new Date(item.deletedAt).toLocaleString()}`
+
+    const text = document.createElement('div')
+    text.className = 'trash__item-text'
+    const name = document.createElement('span')
+    name.className = 'trash__item-name'
+    name.textContent =
+      item.type === 'note'
+        ? item.name.replace(/\.md$/i, '')
+        : item.type === 'folder'
+          ? `${item.name}/`
+          : item.name
+    const detail = document.createElement('span')
+    detail.className = 'trash__item-detail'
+    const slash = item.originalPath.lastIndexOf('/')
+    const folder = slash === -1 ? 'vault root' : item.originalPath.slice(0, slash)
+    const count =
+      item.type === 'folder'
+        ? ` · ${item.noteCount ?? 0} note${item.noteCount === 1 ? '' : 's'}`
+        : ''
+    detail.textContent = `${folder}${count} · ${timeAgo(item.deletedAt)}`
+    text.append(name, detail)
+
+    row.append(
+      text,
+      this.createAction('restore', index, '↺', 'Restore to original location'),
+      this.createAction('purge', index, '×', 'Delete permanently')
+    )
+    return row
+  }
+
+  private createAction(action: string, index: number, label: string, title: string): HTMLElement {
+    const button = document.createElement('button')
+    button.className = `trash__action trash__action--${action}`
+    button.dataset.action = action
+    button.dataset.index = String(index)
+    button.textContent = label
+    button.title = title
+    return button
+  }
+
+  private handleClick(e: MouseEvent): void {
+    const target = (e.target as HTMLElement).closest<HTMLElement>('[data-action]')
+    if (!target) return
+
+    const item = this.items[Number(target.dataset.index)]
+    switch (target.dataset.action) {
+      case 'toggle':
+        this.collapsed = !this.collapsed
+        localStorage.setItem(COLLAPSED_KEY, String(this.collapsed))
+        this.render()
+        if (!this.collapsed) void this.refresh()
+        break
+      case 'empty':
+        void this.callbacks.empty(this.items).finally(() => this.refresh())
+        break
+      case 'restore':
+        if (!item) return
+        ;(target as HTMLButtonElement).disabled = true
+        void this.callbacks.restore(item).finally(() => this.refresh())
+        break
+      case 'purge':
+        if (!item) return
+        void this.callbacks.purge(item).finally(() => this.refresh())
+        break
+    }
+  }
+}
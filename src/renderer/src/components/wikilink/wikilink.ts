@@ -1,4 +1,5 @@
 import { state } from '../../core/state'
+import { parseLinkInner } from '../../../../shared/linkAnchors'
 
 export function registerWikiLinkProviders(
   monaco: any,
@@ -23,18 +24,25 @@ export function registerWikiLinkProviders(
             const content = match[1]
             const [target] = content.split('|')
             const cleanTarget = target.trim()
-
-            const note = state.notes.find(
-              (n) =>
-                n.id.toLowerCase() === cleanTarget.toLowerCase() ||
-                (n.title && n.title.toLowerCase() === cleanTarget.toLowerCase()) ||
-                (n.path && `${n.path}/${n.id}`.toLowerCase() === cleanTarget.toLowerCase())
-            )
+            // Look the note up without the #heading / #^block anchor
+            const { target: noteName, anchor } = parseLinkInner(cleanTarget)
+            const lookup = (noteName || '').toLowerCase()
+
+            const note = noteName
+              ? state.notes.find(
+                  (n) =>
+                    n.id.toLowerCase() === lookup ||
+                    (n.title && n.title.toLowerCase() === lookup) ||
+                    (n.path && `${n.path}/${n.id}`.toLowerCase() === lookup) ||
+                    n.id.toLowerCase().split('/').pop() === lookup
+                )
+              : state.notes.find((n) => n.id === state.activeId)
 
             const preview = await getNotePreview(cleanTarget)
 
             // Format preview with better styling
-            const noteTitle = note ? note.title || note.id : cleanTarget
+            const baseTitle = note ? note.title || note.id : noteName
+            const noteTitle = anchor ? `${baseTitle} › ${anchor}` : baseTitle
             const previewText = preview || (note ? 'Note is empty' : 'Note not found')
 
             // Clean and format preview text
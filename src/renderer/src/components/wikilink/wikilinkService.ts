@@ -1,11 +1,18 @@
 import { state } from '../../core/state'
 import type { NoteMeta } from '../../core/types'
+import {
+  extractSection,
+  findAnchorLine,
+  isBlockAnchor,
+  parseLinkInner
+} from '../../../../shared/linkAnchors'
 
 export interface WikiLinkServiceCallbacks {
   openNote: (id: string, path?: string) => Promise<void>
   createNote: (title?: string, path?: string) => Promise<void>
   getEditorValue?: () => string | null
   setStatus?: (message: string) => void
+  revealLine?: (line: number) => void
 }
 
 export class WikiLinkService {
@@ -16,10 +23,12 @@ export class WikiLinkService {
   }
 
   /**
-   * Resolves a wiki link target to a NoteMeta object
+   * Resolves a wiki link target to a NoteMeta object. Anything after `#` or
+   * `|` (heading, block id, alias) is ignored.
    */
   resolveNote(target: string): NoteMeta | undefined {
-    const cleanTarget = target.toLowerCase()
+    const cleanTarget = parseLinkInner(target).target.toLowerCase()
+    if (!cleanTarget) return undefined
 
     // 1. Exact match (ID, Path, Title)
     let note = state.notes.find(
@@ -37,6 +46,12 @@ export class WikiLinkService {
       )
     }
 
+    // 3. File name of a note inside a folder ([[b]] -> "sub/b")
+    if (!note) {
+      const base = cleanTarget.replace(/\.md$/, '')
+      note = state.notes.find((n) => n.id.toLowerCase().split('/').pop() === base)
+    }
+
     return note
   }
 
@@ -44,8 +59,9 @@ export class WikiLinkService {
    * Generates a preview text for a wiki link target
    */
   async getNotePreview(target: string): Promise<string | null> {
-    const cleanTarget = target.trim().toLowerCase()
-    const note = this.resolveNote(cleanTarget)
+    const { target: name, anchor } = parseLinkInner(target.trim())
+    // [[#Heading]] points into the active note
+    const note = name ? this.resolveNote(name) : state.notes.find((n) => n.id === state.activeId)
 
     if (note) {
       // Optimization: If the target note is the one currently open in the editor,
@@ -53,19 +69,14 @@ export class WikiLinkService {
       if (note.id === state.activeId && this.callbacks.getEditorValue) {
         const content = this.callbacks.getEditorValue()
         if (content) {
-          // Sanitize content for preview
-          const clean = this.sanitizeContent(content)
-          const snippet = clean.substring(0, 1000).trim()
-          return snippet + (content.length > 1000 ? '...' : '') || '(Empty unsaved note)'
+          return this.previewText(content, anchor) || '(Empty unsaved note)'
         }
       }
 
       try {
         const loaded = await window.api.loadNote(note.id, note.path)
         if (loaded && loaded.content && loaded.content.trim()) {
-          const clean = this.sanitizeContent(loaded.content)
-          const snippet = clean.substring(0, 1000).trim()
-          return snippet + (loaded.content.length > 1000 ? '...' : '')
+          return this.previewText(loaded.content, anchor)
         }
         return '(Note is empty)'
       } catch (err) {
@@ -76,17 +87,42 @@ export class WikiLinkService {
     return null
   }
 
+  /**
+   * Sanitized preview of a note, or only of the linked heading/block section.
+   */
+  private previewText(content: string, anchor?: string): string {
+    let text = content
+    if (anchor) {
+      const section = extractSection(content, anchor)
+      if (section === null) {
+        return `(${isBlockAnchor(anchor) ? 'Block' : 'Heading'} "${anchor}" not found)`
+      }
+      text = section
+    }
+    const clean = this.sanitizeContent(text)
+    const snippet = clean.substring(0, 1000).trim()
+    return snippet + (text.length > 1000 ? '...' : '')
+  }
+
   /**
    * Opens a wiki link (opens existing note or creates new one)
    */
   async openWikiLink(target: string): Promise<void> {
-    const cleanTarget = target.trim()
-    const [linkTarget] = cleanTarget.split('|')
-    const note = this.resolveNote(linkTarget.trim())
+    const { target: linkTarget, anchor } = parseLinkInner(target.trim())
+
+    // [[#Heading]] scrolls within the current note
+    if (!linkTarget) {
+      if (anchor) this.revealAnchor(anchor)
+      return
+    }
+
+    const note = this.resolveNote(linkTarget)
 
     if (note) {
       await this.callbacks.openNote(note.id, note.path)
-      if (this.callbacks.setStatus) {
+      if (anchor) {
+        this.revealAnchor(anchor)
+      } else if (this.callbacks.setStatus) {
         this.callbacks.setStatus(`Jumped to [[${target}]]`)
       }
     } else {
@@ -105,6 +141,22 @@ export class WikiLinkService {
     }
   }
 
+  /**
+   * Scrolls the open note to a heading or `^block` anchor
+   */
+  private revealAnchor(anchor: string): void {
+    const content = this.callbacks.getEditorValue?.() ?? ''
+    const line = findAnchorLine(content, anchor)
+    if (line === null) {
+      this.callbacks.setStatus?.(
+        `${isBlockAnchor(anchor) ? 'Block' : 'Heading'} "${anchor}" not found`
+      )
+      return
+    }
+    this.callbacks.revealLine?.(line)
+    this.callbacks.setStatus?.(`Jumped to #${anchor}`)
+  }
+
   /**
    * Sanitizes markdown content for preview display
    */
@@ -1,7 +1,8 @@
-import { themes, Theme } from './themes'
+import { themes, Theme, ThemeColors } from './themes'
 
 export class ThemeManager {
   private currentTheme: Theme
+  private listeners = new Set<(theme: Theme) => void>()
 
   constructor() {
     this.currentTheme = themes.dark // Default
@@ -30,11 +31,24 @@ export class ThemeManager {
 
     // Set a data-theme attribute on body for specific overrides if needed
     document.body.setAttribute('data-theme', this.currentTheme.id)
+    this.listeners.forEach((listener) => listener(this.currentTheme))
+  }
+
+  /**
+   * Call `listener` whenever a theme is applied. Returns an unsubscribe function.
+   */
+  onChange(listener: (theme: Theme) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
   }
 
   getCurrentThemeId(): string {
     return this.currentTheme.id
   }
+
+  getColors(): ThemeColors {
+    return this.currentTheme.colors
+  }
 }
 
 export const themeManager = new ThemeManager()
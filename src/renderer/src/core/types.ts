@@ -1,3 +1,7 @@
+export type PropertyScalar = string | number | boolean | null
+export type PropertyValue = PropertyScalar | PropertyScalar[]
+export type NoteProperties = Record<string, PropertyValue>
+
 export type NoteMeta = {
   id: string
   title: string
@@ -7,6 +11,7 @@ export type NoteMeta = {
   type?: 'note' | 'folder'
   children?: NoteMeta[]
   collapsed?: boolean
+  properties?: NoteProperties
 }
 
 export type FolderItem = NoteMeta & { type: 'folder' }
@@ -17,6 +22,205 @@ export type NotePayload = NoteMeta & {
   content: string
 }
 
+export type SearchResult = NoteMeta & {
+  score: number
+  snippet: string
+  matches: [number, number][]
+}
+
+export type LinkRefactor =
+  | { type: 'renameNote'; id: string; newName: string; path?: string }
+  | { type: 'moveNote'; id: string; toPath?: string }
+  | { type: 'renameFolder'; path: string; newName: string }
+  | { type: 'moveFolder'; path: string; targetPath: string }
+
+export type LinkUpdatePreview = {
+  id: string
+  title: string
+  changes: { line: number; before: string; after: string }[]
+}
+
+export type UnresolvedLink = {
+  sourceId: string
+  sourceTitle: string
+  sourcePath?: string
+  target: string
+  raw: string
+  line: number
+}
+
+export type LinkReport = {
+  unresolved: UnresolvedLink[]
+  orphans: NoteMeta[]
+}
+
+export type Backlink = {
+  id: string
+  title: string
+  path?: string
+  references: { line: number; context: string }[]
+}
+
+export type UnlinkedMention = {
+  id: string
+  title: string
+  path?: string
+  text: string
+  index: number
+  line: number
+  context: string
+}
+
+export type ResolvedEmbed =
+  | { type: 'note'; id: string; title: string; path?: string; content: string }
+  | { type: 'file'; path: string }
+
+export type TrashItem = {
+  id: string
+  type: 'note' | 'folder' | 'file'
+  name: string
+  originalPath: string
+  deletedAt: number
+  noteCount?: number
+}
+
+export type TagCount = {
+  tag: string
+  count: number // Notes with the tag or a nested one
+}
+
+export type ExportFormat = 'html' | 'pdf'
+
+export type ExportDocument = {
+  file: string // Output path without extension, relative to the export folder
+  title: string
+  html: string
+}
+
+export type ExportResult = {
+  count: number
+  target: string // The written file, or the folder for several notes
+}
+
+export type SiteFile = {
+  path: string // Relative to the site folder, with extension
+  content: string
+}
+
+export type PublishPage = NoteMeta & {
+  content: string
+  tags: string[]
+  backlinks: string[] // Published notes linking to this one
+}
+
+export type ImportSource = 'obsidian' | 'notion' | 'folder'
+export type ImportConflictAction = 'rename' | 'overwrite' | 'skip'
+
+export type ImportEntry = {
+  source: string
+  target: string // Vault-relative destination
+  kind: 'note' | 'attachment'
+  conflict: boolean // A file already exists at target
+  renamed: boolean // Renamed to avoid another imported file
+}
+
+export type ImportPlan = {
+  id: string
+  source: ImportSource
+  origin: string
+  folder: string
+  entries: ImportEntry[]
+  skipped: string[]
+  remarks: string[]
+}
+
+export type ImportSummary = {
+  imported: number
+  overwritten: number
+  renamed: number
+  skipped: number
+  errors: string[]
+}
+
+export type AttachmentInfo = {
+  path: string
+  size: number
+  modifiedAt: number
+  notes: { id: string; title: string }[] // Notes linking to or embedding the file
+}
+
+export type GitSyncStatus = {
+  state: 'clean' | 'changes' | 'conflict' | 'not-repository'
+  branch: string
+  changes: number
+  ahead: number
+  behind: number
+  conflicts: string[] // Files left unmerged by the last pull
+  hasRemote: boolean
+}
+
+export type GitSyncResult = {
+  status: GitSyncStatus
+  committed: boolean
+  pulled: number
+  pushed: boolean
+}
+
+export type GitConflict = {
+  path: string
+  base: string | null // Common ancestor; null where a side has no file
+  ours: string | null
+  theirs: string | null
+}
+
+export type GitConflictChoice = 'ours' | 'theirs' | 'merged'
+
+export type SyncProviderType = 'folder' | 'webdav' | 'gist'
+
+export type SyncRunResult = {
+  provider: string
+  uploaded: number
+  downloaded: number
+  deletedLocal: number
+  deletedRemote: number
+  conflicts: string[]
+}
+
+export type PaneLayout = {
+  direction: 'vertical' | 'horizontal'
+  focused: number
+  sizes: number[]
+  panes: { tabs: { id: string; path?: string; title?: string }[]; activeId: string }[]
+}
+
+export type VaultTask = {
+  noteId: string
+  noteTitle: string
+  path: string // Folder of the note, '' for the vault root
+  line: number // 0-based
+  text: string // Without the checkbox, due date and priority markers
+  done: boolean
+  due?: string // YYYY-MM-DD
+  priority?: 'high' | 'medium' | 'low'
+  tags: string[] // The note's tags plus those in the task text
+}
+
+export type QueryCell = string | number | boolean | null | (string | number | boolean | null)[]
+
+export type NoteQueryResult = {
+  kind: 'table' | 'list'
+  columns: { label: string; date: boolean }[] // date: values are timestamps
+  rows: { id: string; title: string; values: QueryCell[] }[]
+  error?: string // Why the query could not run
+}
+
+export type NoteVersion = {
+  id: string
+  createdAt: number
+  size: number
+  reason: 'session' | 'large-edit' | 'restore' | 'delete' | 'link-update' | 'import'
+}
+
 export type AppState = {
   notes: NoteMeta[]
   tree: TreeItem[]
@@ -26,7 +230,7 @@ export type AppState = {
   isDirty: boolean
   lastSavedAt: number
   applyingRemote: boolean
-  activeView: 'notes' | 'search' | 'settings'
+  activeView: 'notes' | 'search' | 'tags' | 'settings'
   projectName: string
   vaultPath?: string
   settings?: AppSettings
@@ -50,9 +254,10 @@ export type AppSettings = {
   lastOpenedNote?: string
   expandedFolders?: string[]
   openTabs?: { id: string; path?: string }[]
+  paneLayout?: PaneLayout
   pinnedTabs?: string[]
   activeId?: string
-  activeView?: 'notes' | 'search' | 'settings'
+  activeView?: 'notes' | 'search' | 'tags' | 'settings'
   windowBounds?: { width: number; height: number; x?: number; y?: number }
   deepseekApiKey?: string
   openaiApiKey?: string
@@ -69,4 +274,26 @@ export type AppSettings = {
   caretEnabled?: boolean
   caretMaxWidth?: number
   cursorPositions?: Record<string, { lineNumber: number; column: number }>
+  trashAutoPurgeDays?: number
+  templatesFolder?: string
+  attachmentFolder?: string
+  attachmentLocation?: 'vault' | 'note'
+  gitRemote?: string
+  gitBranch?: string
+  gitSyncInterval?: number
+  syncProvider?: SyncProviderType
+  syncFolderPath?: string
+  webdavUrl?: string
+  webdavUsername?: string
+  webdavPassword?: string
+  syncGistId?: string
+  dailyNoteFolder?: string
+  dailyNoteFormat?: string
+  dailyNoteTemplate?: string
+  weeklyNoteFolder?: string
+  weeklyNoteFormat?: string
+  weeklyNoteTemplate?: string
+  monthlyNoteFolder?: string
+  monthlyNoteFormat?: string
+  monthlyNoteTemplate?: string
 }
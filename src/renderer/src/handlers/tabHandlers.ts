@@ -1,6 +1,7 @@
 import { state } from '../core/state'
 import { tabService } from '../services/tabService'
-import { contextMenu } from '../components/contextmenu/contextmenu'
+import { contextMenu, type ContextMenuItem } from '../components/contextmenu/contextmenu'
+import type { EditorComponent } from '../components/editor/editor'
 
 export interface TabHandlers {
   handleTabContextMenu: (id: string, e: MouseEvent) => void
@@ -19,9 +20,10 @@ export interface TabHandlers {
 
 export class TabHandlersImpl {
   constructor(
-    private tabBar: { render: () => void },
+    // Getters: with split panes the focused tab bar and editor change
+    private getTabBar: () => { render: () => void },
     private statusBar: { setStatus: (msg: string) => void; setMeta: (msg: string) => void },
-    private editor: { isPreviewMode: boolean; [key: string]: any },
+    private getEditor: () => Pick<EditorComponent, 'isPreviewMode'>,
     private persistWorkspace: () => Promise<void>,
     private updateViewVisibility?: () => void
   ) {}
@@ -31,9 +33,17 @@ export class TabHandlersImpl {
     e: MouseEvent,
     closeTabFn: (id: string, force?: boolean) => Promise<void>,
     closeOtherTabsFn: (id: string) => Promise<void>,
-    closeAllTabsFn: () => Promise<void>
+    closeAllTabsFn: () => Promise<void>,
+    splitTabFn?: (id: string, direction: 'vertical' | 'horizontal') => Promise<void>
   ): void {
     const isPinned = state.pinnedTabs.has(id)
+    const splitItems: ContextMenuItem[] = splitTabFn
+      ? [
+          { separator: true },
+          { label: 'Split Right', onClick: () => splitTabFn(id, 'vertical') },
+          { label: 'Split Down', onClick: () => splitTabFn(id, 'horizontal') }
+        ]
+      : []
     contextMenu.show(e.clientX, e.clientY, [
       {
         label: isPinned ? 'Unpin Tab' : 'Pin Tab',
@@ -52,7 +62,8 @@ export class TabHandlersImpl {
       {
         label: 'Close All',
         onClick: () => closeAllTabsFn()
-      }
+      },
+      ...splitItems
     ])
   }
 
@@ -63,7 +74,7 @@ export class TabHandlersImpl {
       state.pinnedTabs.add(id)
     }
     tabService.syncTabs()
-    this.tabBar.render()
+    this.getTabBar().render()
     void this.persistWorkspace()
   }
 
@@ -98,9 +109,10 @@ export class TabHandlersImpl {
     }
 
     if (id.startsWith('preview-') && state.activeId === id) {
-      this.editor.isPreviewMode = false
-      const editorHost = this.editor['editorHost'] as HTMLElement
-      const previewHost = this.editor['previewHost'] as HTMLElement
+      const editor = this.getEditor()
+      editor.isPreviewMode = false
+      const editorHost = editor['editorHost'] as HTMLElement
+      const previewHost = editor['previewHost'] as HTMLElement
       if (editorHost) editorHost.style.display = 'block'
       if (previewHost) previewHost.style.display = 'none'
     }
@@ -141,7 +153,7 @@ export class TabHandlersImpl {
       }
     }
 
-    this.tabBar.render()
+    this.getTabBar().render()
     if (this.updateViewVisibility) this.updateViewVisibility()
     void this.persistWorkspace()
   }
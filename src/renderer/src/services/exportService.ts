@@ -0,0 +1,379 @@
+import { PreviewComponent } from '../components/preview/preview'
+import { parseFrontmatter } from '../../../shared/frontmatter'
+import { parseLinkInner } from '../../../shared/linkAnchors'
+import type {
+  ExportDocument,
+  ExportFormat,
+  ExportResult,
+  NoteMeta,
+  PublishPage,
+  SiteFile
+} from '../core/types'
+
+// Stylesheet rules the exported documents need
+const EXPORT_SELECTOR_RE = /\.preview-content|\.code-block|\.wiki-|\.hljs/
+
+const EXPORT_BASE_CSS = `
+body { margin: 0; background: var(--bg); color: var(--text); }
+.preview-content { max-width: 860px; margin: 0 auto; padding: 32px 40px; }
+.code-copy-button { display: none; }
+@media print { .preview-content { max-width: none; padding: 0; } }
+`
+
+const SITE_CSS = `
+.site-nav { display: flex; gap: 16px; max-width: 860px; margin: 0 auto; padding: 16px 40px 0; }
+.site-nav a { color: var(--text-soft); text-decoration: none; font-size: 14px; }
+.site-nav a:hover { color: var(--text-strong); }
+.site-tags { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 32px; }
+.site-tag { padding: 2px 8px; border-radius: 10px; background: var(--hover); font-size: 12px; }
+.site-backlinks { margin-top: 32px; padding-top: 16px; border-top: 1px solid var(--border); }
+.site-search { width: 100%; box-sizing: border-box; margin-bottom: 16px; padding: 8px 10px; border: 1px solid var(--border); border-radius: 6px; background: var(--panel); color: var(--text); font-size: 14px; }
+`
+
+// Filters the index page against search-index.json (needs the site served over http)
+const SITE_SEARCH_SCRIPT = `
+(function () {
+  var input = document.getElementById('site-search')
+  var list = document.getElementById('site-pages')
+  var all = list.innerHTML
+  var index = null
+  fetch('search-index.json').then(function (r) { return r.json() }).then(function (data) { index = data })
+  input.addEventListener('input', function () {
+    var words = input.value.toLowerCase().split(/\\s+/).filter(Boolean)
+    if (!index || words.length === 0) { list.innerHTML = all; return }
+    list.innerHTML = ''
+    index.filter(function (page) {
+      var haystack = (page.title + ' ' + page.tags.join(' ') + ' ' + page.text).toLowerCase()
+      return words.every(function (word) { return haystack.indexOf(word) !== -1 })
+    }).forEach(function (page) {
+      var item = document.createElement('li')
+      var link = document.createElement('a')
+      link.href = page.url
+      link.textContent = page.title
+      item.appendChild(link)
+      list.appendChild(item)
+    })
+  })
+})()
+`
+
+/**
+ * Exports notes as standalone HTML documents or PDFs, rendered with the same
+ * markdown pipeline as the preview. Wikilinks to other exported notes become
+ * relative links; the rest become plain text.
+ */
+export class ExportService {
+  async exportNotes(
+    notes: NoteMeta[],
+    format: ExportFormat,
+    options: {
+      /** Folder the export starts from; output paths are relative to it */
+      baseFolder?: string
+      resolveNote: (target: string) => NoteMeta | undefined
+    }
+  ): Promise<ExportResult | null> {
+    const base = options.baseFolder ? `${options.baseFolder}/` : ''
+    const files = new Map(
+      notes.map((note) => [
+        note.id,
+        note.id.startsWith(base) ? note.id.slice(base.length) : note.id
+      ])
+    )
+    const styles = this.collectStyles()
+
+    // A detached preview renders every note without touching the visible one
+    const preview = new PreviewComponent(document.createElement('div'))
+    try {
+      const docs: ExportDocument[] = []
+      for (const note of notes) {
+        const payload = await window.api.loadNote(note.id, note.path)
+        if (!payload) continue
+        const file = files.get(note.id)!
+        // Properties are not part of the document
+        const content = parseFrontmatter(payload.content).body
+        const root = await preview.renderDocument(content, note.id)
+        this.addHeadingIds(root)
+        this.rewriteLinks(root, file, files, format, options.resolveNote)
+        docs.push({
+          file,
+          title: note.title,
+          html: this.buildDocument(note.title, root.outerHTML, styles)
+        })
+      }
+      return await window.api.exportNotes(docs, format)
+    } finally {
+      preview.destroy()
+    }
+  }
+
+  /**
+   * Publish `folder` ('' for the whole vault) as a static site: a page per
+   * note with its tags and backlinks, an index page, a tag index and a JSON
+   * search index. Notes with `publish: false` are left out by the main process.
+   */
+  async publishSite(
+    folder: string,
+    siteTitle: string,
+    resolveNote: (target: string) => NoteMeta | undefined
+  ): Promise<ExportResult | null> {
+    const pages = await window.api.getPublishPages(folder)
+    if (pages.length === 0) throw new Error('There are no notes to publish in this folder')
+
+    const base = folder ? `${folder}/` : ''
+    const files = new Map(pages.map((page) => [page.id, page.id.slice(base.length)]))
+    const byId = new Map(pages.map((page) => [page.id, page]))
+    const styles = `${this.collectStyles()}${SITE_CSS}`
+    const output: SiteFile[] = []
+    const searchIndex: { title: string; url: string; tags: string[]; text: string }[] = []
+    const tagIndex = new Map<string, PublishPage[]>()
+
+    const preview = new PreviewComponent(document.createElement('div'))
+    try {
+      for (const page of pages) {
+        const file = files.get(page.id)!
+        const root = await preview.renderDocument(parseFrontmatter(page.content).body, page.id)
+        this.collapseEmbeds(root, (id) => byId.has(id))
+        this.addHeadingIds(root)
+        this.rewriteLinks(root, file, files, 'html', resolveNote)
+        searchIndex.push({
+          title: page.title,
+          url: encodeURI(`${file}.html`),
+          tags: page.tags,
+          text: (root.textContent || '').replace(/\s+/g, ' ').trim()
+        })
+        for (const tag of page.tags) {
+          const tagged = tagIndex.get(tag)
+          if (tagged) tagged.push(page)
+          else tagIndex.set(tag, [page])
+        }
+
+        if (page.tags.length > 0) {
+          const tags = root.appendChild(this.element('div', 'site-tags'))
+          page.tags.forEach((tag) => {
+            const href = `${relativePath(file, 'tags.html')}#tag-${tag}`
+            tags.appendChild(this.link(encodeURI(href), `#${tag}`, 'site-tag'))
+          })
+        }
+        const backlinks = page.backlinks.flatMap((id) => byId.get(id) ?? [])
+        if (backlinks.length > 0) {
+          const section = root.appendChild(this.element('section', 'site-backlinks'))
+          section.appendChild(this.element('h2')).textContent = 'Linked from'
+          const list = section.appendChild(this.element('ul'))
+          backlinks.forEach((source) => {
+            const href = relativePath(file, `${files.get(source.id)}.html`)
+            list
+              .appendChild(this.element('li'))
+              .appendChild(this.link(encodeURI(href), source.title))
+          })
+        }
+
+        const nav = this.siteNav(file, siteTitle)
+        output.push({
+          path: `${file}.html`,
+          content: this.buildDocument(page.title, nav + root.outerHTML, styles)
+        })
+      }
+    } finally {
+      preview.destroy()
+    }
+
+    // Index page: every page, filtered by the search script
+    const index = this.element('div', 'preview-content')
+    index.appendChild(this.element('h1')).textContent = siteTitle
+    const search = index.appendChild(this.element('input', 'site-search')) as HTMLInputElement
+    search.id = 'site-search'
+    search.type = 'search'
+    search.placeholder = 'Search'
+    const list = index.appendChild(this.element('ul'))
+    list.id = 'site-pages'
+    pages.forEach((page) => {
+      list
+        .appendChild(this.element('li'))
+        .appendChild(this.link(encodeURI(`${files.get(page.id)}.html`), page.title))
+    })
+    output.push({
+      path: 'index.html',
+      content: this.buildDocument(
+        siteTitle,
+        this.siteNav('index', siteTitle) + index.outerHTML,
+        styles,
+        SITE_SEARCH_SCRIPT
+      )
+    })
+
+    // Tag index: a section per tag, linked from each page's tag list
+    const tags = this.element('div', 'preview-content')
+    tags.appendChild(this.element('h1')).textContent = 'Tags'
+    Array.from(tagIndex.keys())
+      .sort((a, b) => a.localeCompare(b))
+      .forEach((tag) => {
+        const heading = tags.appendChild(this.element('h2'))
+        heading.id = `tag-${tag}`
+        heading.textContent = `#${tag}`
+        const tagged = tags.appendChild(this.element('ul'))
+        tagIndex.get(tag)!.forEach((page) => {
+          tagged
+            .appendChild(this.element('li'))
+            .appendChild(this.link(encodeURI(`${files.get(page.id)}.html`), page.title))
+        })
+      })
+    output.push({
+      path: 'tags.html',
+      content: this.buildDocument('Tags', this.siteNav('tags', siteTitle) + tags.outerHTML, styles)
+    })
+    output.push({ path: 'search-index.json', content: JSON.stringify(searchIndex) })
+
+    const result = await window.api.publishSite(output)
+    return result && { count: pages.length, target: result.target }
+  }
+
+  private siteNav(file: string, siteTitle: string): string {
+    const nav = this.element('nav', 'site-nav')
+    nav.appendChild(this.link(relativePath(file, 'index.html'), siteTitle))
+    nav.appendChild(this.link(relativePath(file, 'tags.html'), 'Tags'))
+    return nav.outerHTML
+  }
+
+  private element(tag: string, className?: string): HTMLElement {
+    const el = document.createElement(tag)
+    if (className) el.className = className
+    return el
+  }
+
+  private link(href: string, text: string, className?: string): HTMLAnchorElement {
+    const link = this.element('a', className) as HTMLAnchorElement
+    link.setAttribute('href', href)
+    link.textContent = text
+    return link
+  }
+
+  /**
+   * Replace embeds of notes that are not published with a link to them, so
+   * private content stays out of the site.
+   */
+  private collapseEmbeds(root: HTMLElement, isPublished: (id: string) => boolean): void {
+    root.querySelectorAll<HTMLElement>('.wiki-embed--note').forEach((embed) => {
+      if (!root.contains(embed) || isPublished(embed.dataset.embedId || '')) return
+      const paragraph = document.createElement('p')
+      const link = embed.querySelector(':scope > .wiki-embed__header > a.wiki-link')
+      if (link) paragraph.appendChild(link)
+      embed.replaceWith(paragraph)
+    })
+  }
+
+  /**
+   * Give headings ids, so `[[note#Heading]]` links can jump to them.
+   */
+  private addHeadingIds(root: HTMLElement): void {
+    root.querySelectorAll<HTMLElement>('h1, h2, h3, h4, h5, h6').forEach((heading) => {
+      const id = headingId(heading.textContent || '')
+      if (id && !root.querySelector(`[id="${CSS.escape(id)}"]`)) heading.id = id
+    })
+  }
+
+  /**
+   * Point wikilinks at the exported files, relative to `file`, keeping their
+   * heading anchor. Links to notes outside the export keep their text but
+   * lose the link.
+   */
+  private rewriteLinks(
+    root: HTMLElement,
+    file: string,
+    files: Map<string, string>,
+    format: ExportFormat,
+    resolveNote: (target: string) => NoteMeta | undefined
+  ): void {
+    root.querySelectorAll<HTMLAnchorElement>('a.wiki-link').forEach((link) => {
+      const ref = parseLinkInner(link.dataset.wikiLink || '')
+      const target = ref.target ? resolveNote(ref.target) : undefined
+      // `[[#Heading]]` points into the same note
+      const targetFile = ref.target ? target && files.get(target.id) : file
+      link.removeAttribute('data-wiki-link')
+      if (targetFile === undefined) {
+        link.replaceWith(link.textContent || '')
+      } else {
+        // Nested anchors (`Parent#Child`) point at the innermost heading
+        const fragment = ref.anchor ? `#${headingId(ref.anchor.split('#').pop() || '')}` : ''
+        link.href = `${encodeURI(relativePath(file, `${targetFile}.${format}`))}${fragment}`
+      }
+    })
+  }
+
+  private buildDocument(title: string, body: string, styles: string, script?: string): string {
+    const escapedTitle = title.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8" />',
+      '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+      `<title>${escapedTitle}</title>`,
+      `<style>${styles}</style>`,
+      '</head>',
+      '<body>',
+      body,
+      ...(script ? [`<script>${script}</script>`] : []),
+      '</body>',
+      '</html>'
+    ].join('\n')
+  }
+
+  /**
+   * Preview, wikilink and highlight.js rules from the loaded stylesheets, with
+   * the current theme's variables pinned on :root.
+   */
+  private collectStyles(): string {
+    const rules: string[] = []
+    for (const sheet of Array.from(document.styleSheets)) {
+      let cssRules: CSSRuleList
+      try {
+        cssRules = sheet.cssRules
+      } catch {
+        continue // Cross-origin stylesheet
+      }
+      for (const rule of Array.from(cssRules)) {
+        if (rule instanceof CSSStyleRule && EXPORT_SELECTOR_RE.test(rule.selectorText)) {
+          rules.push(rule.cssText)
+        }
+      }
+    }
+    const css = `${rules.join('\n')}\n${EXPORT_BASE_CSS}`
+
+    const computed = getComputedStyle(document.documentElement)
+    const variables = new Set(Array.from(css.matchAll(/var\((--[\w-]+)/g), (match) => match[1]))
+    const declarations = Array.from(variables)
+      .map((name) => [name, computed.getPropertyValue(name).trim()])
+      .filter(([, value]) => value)
+      .map(([name, value]) => `  ${name}: ${value};`)
+
+    return `\n:root {\n${declarations.join('\n')}\n}\n${css}`
+  }
+}
+
+function headingId(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Path from the folder of `from` to `to`, both relative to the export folder.
+ */
+function relativePath(from: string, to: string): string {
+  const fromParts = from.split('/').slice(0, -1)
+  const toParts = to.split('/')
+  let common = 0
+  while (
+    common < fromParts.length &&
+    common < toParts.length - 1 &&
+    fromParts[common] === toParts[common]
+  ) {
+    common++
+  }
+  const up = fromParts.slice(common).map(() => '..')
+  return [...up, ...toParts.slice(common)].join('/')
+}
+
+export const exportService = new ExportService()
@@ -54,8 +54,13 @@ export class NoteService {
     }
   }
 
-  async moveNote(id: string, fromPath?: string, toPath?: string): Promise<NoteMeta> {
-    const newMeta = await window.api.moveNote(id, fromPath, toPath)
+  async moveNote(
+    id: string,
+    fromPath?: string,
+    toPath?: string,
+    updateLinks = false
+  ): Promise<NoteMeta> {
+    const newMeta = await window.api.moveNote(id, fromPath, toPath, updateLinks)
 
     // Update tabs and active state
     state.openTabs = state.openTabs.map((tab) => {
@@ -77,8 +82,12 @@ export class NoteService {
     return newMeta
   }
 
-  async moveFolder(sourcePath: string, targetPath: string): Promise<{ path: string }> {
-    const result = await window.api.moveFolder(sourcePath, targetPath)
+  async moveFolder(
+    sourcePath: string,
+    targetPath: string,
+    updateLinks = false
+  ): Promise<{ path: string }> {
+    const result = await window.api.moveFolder(sourcePath, targetPath, updateLinks)
     const newFolderPath = result.path
 
     const oldPrefix = sourcePath + '/'
@@ -149,8 +158,13 @@ export class NoteService {
     return meta
   }
 
-  async renameNote(id: string, newId: string, path?: string): Promise<NoteMeta> {
-    const newMeta = await window.api.renameNote(id, newId, path)
+  async renameNote(
+    id: string,
+    newId: string,
+    path?: string,
+    updateLinks = false
+  ): Promise<NoteMeta> {
+    const newMeta = await window.api.renameNote(id, newId, path, updateLinks)
 
     // Handle case where rename fails or returns null
     if (!newMeta) {
@@ -0,0 +1,131 @@
+/**
+ * Git Sync Service
+ * Runs git sync on a schedule and keeps the latest repository status for the
+ * status bar. The git work itself happens in the main process.
+ */
+
+import type { GitConflict, GitConflictChoice, GitSyncResult, GitSyncStatus } from '../../core/types'
+
+export interface GitSyncSnapshot {
+  status: GitSyncStatus | null
+  syncing: boolean
+  /** Message of the last failed sync, cleared by the next success */
+  error: string | null
+  lastSync: number | null
+}
+
+type GitSyncListener = (snapshot: GitSyncSnapshot) => void
+
+export interface GitSyncHooks {
+  /** Flush unsaved editor content so it is part of the commit */
+  beforeSync?: () => Promise<void>
+  /** A sync or merge finished and may have changed files on disk */
+  synced?: (result: GitSyncResult) => Promise<void> | void
+}
+
+export class GitSyncService {
+  private snapshot: GitSyncSnapshot = { status: null, syncing: false, error: null, lastSync: null }
+  private listeners = new Set<GitSyncListener>()
+  private timer: ReturnType<typeof setInterval> | null = null
+  private running: Promise<GitSyncResult> | null = null
+  private hooks: GitSyncHooks = {}
+
+  setHooks(hooks: GitSyncHooks): void {
+    this.hooks = hooks
+  }
+
+  onChange(listener: GitSyncListener): () => void {
+    this.listeners.add(listener)
+    listener(this.snapshot)
+    return () => this.listeners.delete(listener)
+  }
+
+  getSnapshot(): GitSyncSnapshot {
+    return this.snapshot
+  }
+
+  /**
+   * (Re)start automatic syncing every `minutes`; 0 turns it off.
+   */
+  schedule(minutes: number): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+    if (!(minutes > 0)) return
+    this.timer = setInterval(
+      () => {
+        // Never auto-sync over an unfinished merge; the user has to settle it
+        if (this.snapshot.status?.state === 'conflict') return
+        this.sync().catch((error) => console.warn('[GitSync] Scheduled sync failed', error))
+      },
+      minutes * 60 * 1000
+    )
+  }
+
+  async refresh(): Promise<GitSyncStatus | null> {
+    try {
+      this.update({ status: await window.api.getGitStatus() })
+    } catch (error) {
+      console.warn('[GitSync] Could not read status', error)
+    }
+    return this.snapshot.status
+  }
+
+  /**
+   * Commit, pull and push. Concurrent calls share the sync in progress.
+   */
+  sync(): Promise<GitSyncResult> {
+    if (!this.running) {
+      this.update({ syncing: true })
+      this.running = Promise.resolve(this.hooks.beforeSync?.())
+        .then(() => window.api.syncGit())
+        .then(async (result) => {
+          this.update({ status: result.status, error: null, lastSync: Date.now() })
+          await this.hooks.synced?.(result)
+          return result
+        })
+        .catch((error: Error) => {
+          this.update({ error: error.message })
+          throw error
+        })
+        .finally(() => {
+          this.running = null
+          this.update({ syncing: false })
+        })
+    }
+    return this.running
+  }
+
+  getConflicts(): Promise<GitConflict[]> {
+    return window.api.getGitConflicts()
+  }
+
+  async resolveConflict(
+    path: string,
+    choice: GitConflictChoice,
+    content?: string
+  ): Promise<GitSyncStatus> {
+    const status = await window.api.resolveGitConflict(path, choice, content)
+    this.update({ status })
+    return status
+  }
+
+  async finishMerge(): Promise<GitSyncResult> {
+    const result = await window.api.finishGitMerge()
+    this.update({ status: result.status, error: null, lastSync: Date.now() })
+    await this.hooks.synced?.(result)
+    return result
+  }
+
+  async abortMerge(): Promise<GitSyncStatus> {
+    const status = await window.api.abortGitMerge()
+    this.update({ status })
+    return status
+  }
+
+  private update(changes: Partial<GitSyncSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes }
+    this.listeners.forEach((listener) => listener(this.snapshot))
+  }
+}
+
+export const gitSyncService = new GitSyncService()
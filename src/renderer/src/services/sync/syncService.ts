@@ -0,0 +1,56 @@
+/**
+ * File Sync Service
+ * Syncs the vault with the storage provider chosen in settings (folder,
+ * WebDAV or GitHub Gist). Change tracking and transfers run in the main
+ * process.
+ */
+
+import type { AppSettings, SyncRunResult } from '../../core/types'
+
+export interface SyncHooks {
+  /** Flush unsaved editor content so it is part of the sync */
+  beforeSync?: () => Promise<void>
+  /** A sync finished and may have changed files on disk */
+  synced?: (result: SyncRunResult) => Promise<void> | void
+}
+
+export class SyncService {
+  private running: Promise<SyncRunResult> | null = null
+  private hooks: SyncHooks = {}
+
+  setHooks(hooks: SyncHooks): void {
+    this.hooks = hooks
+  }
+
+  isSyncing(): boolean {
+    return this.running !== null
+  }
+
+  /**
+   * Sync with the configured provider. Concurrent calls share the sync in
+   * progress.
+   */
+  sync(): Promise<SyncRunResult> {
+    if (!this.running) {
+      this.running = Promise.resolve(this.hooks.beforeSync?.())
+        .then(() => window.api.runSync())
+        .then(async (result) => {
+          await this.hooks.synced?.(result)
+          return result
+        })
+        .finally(() => {
+          this.running = null
+        })
+    }
+    return this.running
+  }
+
+  /**
+   * Check provider settings, optionally before they are saved.
+   */
+  testConnection(overrides?: Partial<AppSettings>): Promise<{ valid: boolean; message: string }> {
+    return window.api.testSyncProvider(overrides)
+  }
+}
+
+export const syncService = new SyncService()
@@ -20,6 +20,18 @@ export const shortcuts: Shortcut[] = [
     search: 'console terminal intelligence ctrl+j',
     highlight: true
   },
+  {
+    title: "Today's Note",
+    desc: 'Open or create the daily note for today',
+    keys: ['Alt', 'D'],
+    search: 'daily note today journal alt+d'
+  },
+  {
+    title: 'Previous / Next Daily Note',
+    desc: 'Step through daily notes from the open one',
+    keys: ['Alt', '← / →'],
+    search: 'daily note previous next yesterday tomorrow alt+left alt+right'
+  },
   {
     title: 'Find in Note',
     desc: 'Search text within the active note',
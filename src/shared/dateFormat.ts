@@ -0,0 +1,203 @@
+/**
+ * Moment-style date formats for periodic note filenames and template
+ * variables, shared by the main process and the renderer.
+ *
+ *   YYYY YY        year                  GGGG GG   ISO week-numbering year
+ *   MMMM MMM MM M  month name / number   WW W      ISO week (also ww / w)
+ *   DD D           day of month          dddd ddd  weekday name
+ *   HH H mm ss     time                  Q         quarter
+ *   [text]         literal text
+ */
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+]
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const TOKEN_RE = /\[([^\]]*)\]|YYYY|YY|GGGG|GG|MMMM|MMM|MM|M|WW|W|ww|w|DD|D|dddd|ddd|HH|H|mm|ss|Q/g
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0')
+
+/**
+ * ISO 8601 week number and week-numbering year (weeks start on Monday; week 1
+ * contains the year's first Thursday).
+ */
+export function isoWeek(date: Date): { year: number; week: number } {
+  // Shift to the Thursday of the same week, in UTC to stay clear of DST
+  const thursday = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()))
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7))
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1)
+  const week = Math.ceil(((thursday.getTime() - yearStart) / 86400000 + 1) / 7)
+  return { year: thursday.getUTCFullYear(), week }
+}
+
+export function formatDate(date: Date, format: string): string {
+  return format.replace(TOKEN_RE, (token, literal?: string) => {
+    if (literal !== undefined) return literal
+    switch (token) {
+      case 'YYYY':
+        return String(date.getFullYear())
+      case 'YY':
+        return pad(date.getFullYear() % 100)
+      case 'GGGG':
+        return String(isoWeek(date).year)
+      case 'GG':
+        return pad(isoWeek(date).year % 100)
+      case 'MMMM':
+        return MONTHS[date.getMonth()]
+      case 'MMM':
+        return MONTHS[date.getMonth()].slice(0, 3)
+      case 'MM':
+        return pad(date.getMonth() + 1)
+      case 'M':
+        return String(date.getMonth() + 1)
+      case 'WW':
+      case 'ww':
+        return pad(isoWeek(date).week)
+      case 'W':
+      case 'w':
+        return String(isoWeek(date).week)
+      case 'DD':
+        return pad(date.getDate())
+      case 'D':
+        return String(date.getDate())
+      case 'dddd':
+        return WEEKDAYS[date.getDay()]
+      case 'ddd':
+        return WEEKDAYS[date.getDay()].slice(0, 3)
+      case 'HH':
+        return pad(date.getHours())
+      case 'H':
+        return String(date.getHours())
+      case 'mm':
+        return pad(date.getMinutes())
+      case 'ss':
+        return pad(date.getSeconds())
+      case 'Q':
+        return String(Math.floor(date.getMonth() / 3) + 1)
+      default:
+        return token
+    }
+  })
+}
+
+/**
+ * Read a date back out of text written with `format`. Only the date parts are
+ * used: a week format resolves to that week's Monday, a month format to the
+ * first of the month. Returns null when the text does not match.
+ */
+export function parseDate(text: string, format: string): Date | null {
+  const fields: string[] = []
+  let pattern = ''
+  let cursor = 0
+  for (const match of format.matchAll(TOKEN_RE)) {
+    const start = match.index ?? 0
+    pattern += escapeRegExp(format.slice(cursor, start))
+    cursor = start + match[0].length
+    if (match[1] !== undefined) {
+      pattern += escapeRegExp(match[1])
+      continue
+    }
+    const token = match[0]
+    fields.push(token)
+    pattern += tokenPattern(token)
+  }
+  pattern += escapeRegExp(format.slice(cursor))
+
+  const result = new RegExp(`^${pattern}$`, 'i').exec(text)
+  if (!result) return null
+
+  let year: number | undefined
+  let isoYear: number | undefined
+  let month = 0
+  let day = 1
+  let week: number | undefined
+  fields.forEach((token, i) => {
+    const value = result[i + 1]
+    switch (token) {
+      case 'YYYY':
+        year = Number(value)
+        break
+      case 'YY':
+        year = 2000 + Number(value)
+        break
+      case 'GGGG':
+        isoYear = Number(value)
+        break
+      case 'GG':
+        isoYear = 2000 + Number(value)
+        break
+      case 'MMMM':
+      case 'MMM':
+        month = MONTHS.findIndex((name) => name.toLowerCase().startsWith(value.toLowerCase()))
+        break
+      case 'MM':
+      case 'M':
+        month = Number(value) - 1
+        break
+      case 'WW':
+      case 'W':
+      case 'ww':
+      case 'w':
+        week = Number(value)
+        break
+      case 'DD':
+      case 'D':
+        day = Number(value)
+        break
+    }
+  })
+
+  if (week !== undefined) {
+    const weekYear = isoYear ?? year
+    if (weekYear === undefined || week < 1 || week > 53) return null
+    // Monday of ISO week 1 is the Monday on or before January 4th
+    const jan4 = new Date(weekYear, 0, 4)
+    const monday = new Date(weekYear, 0, 4 - ((jan4.getDay() + 6) % 7) + (week - 1) * 7)
+    return isoWeek(monday).year === weekYear ? monday : null
+  }
+
+  year = year ?? isoYear
+  if (year === undefined || month < 0 || month > 11) return null
+  const date = new Date(year, month, day)
+  return date.getMonth() === month && date.getDate() === day ? date : null
+}
+
+function tokenPattern(token: string): string {
+  switch (token) {
+    case 'YYYY':
+    case 'GGGG':
+      return '(\\d{4})'
+    case 'MMMM':
+    case 'dddd':
+      return '([A-Za-z]+)'
+    case 'MMM':
+    case 'ddd':
+      return '([A-Za-z]{3})'
+    case 'Q':
+      return '(\\d)'
+    case 'M':
+    case 'W':
+    case 'w':
+    case 'D':
+    case 'H':
+      return '(\\d{1,2})'
+    default:
+      return '(\\d{2})'
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
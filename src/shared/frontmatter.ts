@@ -0,0 +1,131 @@
+/**
+ * Minimal YAML frontmatter parser, shared by the main process (note
+ * properties) and the renderer (exports leave the block out).
+ *
+ * Supports the subset people actually write at the top of notes: scalar
+ * key/value pairs, quoted strings, inline `[a, b]` lists, block `- item`
+ * lists and `|` / `>` multi-line strings. Nested mappings are ignored.
+ */
+
+export type PropertyScalar = string | number | boolean | null
+export type PropertyValue = PropertyScalar | PropertyScalar[]
+export type NoteProperties = Record<string, PropertyValue>
+
+export type Frontmatter = {
+  properties: NoteProperties
+  /** Content after the closing delimiter */
+  body: string
+  /** Number of lines occupied by the frontmatter block (0 when absent) */
+  lineCount: number
+}
+
+const OPEN_RE = /^\uFEFF?---[ \t]*\r?\n/
+const CLOSE_RE = /^(---|\.\.\.)[ \t]*$/
+
+export function parseFrontmatter(content: string): Frontmatter {
+  const empty: Frontmatter = { properties: {}, body: content, lineCount: 0 }
+  const open = OPEN_RE.exec(content)
+  if (!open) return empty
+
+  const lines = content.slice(open[0].length).split(/\r?\n/)
+  const end = lines.findIndex((line) => CLOSE_RE.test(line))
+  if (end === -1) return empty
+
+  const body = lines.slice(end + 1).join('\n')
+  return {
+    properties: parseYamlBlock(lines.slice(0, end)),
+    body,
+    lineCount: end + 2
+  }
+}
+
+function parseYamlBlock(lines: string[]): NoteProperties {
+  const properties: NoteProperties = {}
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    i++
+    if (!line.trim() || line.trimStart().startsWith('#') || /^\s/.test(line)) continue
+
+    const match = /^([^:#]+?)\s*:(?:\s+(.*))?$/.exec(line)
+    if (!match) continue
+
+    const key = match[1].trim().replace(/^["']|["']$/g, '')
+    const raw = stripComment(match[2] ?? '').trim()
+
+    if (raw === '|' || raw === '>' || /^[|>][+-]$/.test(raw)) {
+      const block: string[] = []
+      while (i < lines.length && (/^\s/.test(lines[i]) || !lines[i].trim())) {
+        block.push(lines[i].trim())
+        i++
+      }
+      const text = raw.startsWith('|') ? block.join('\n') : block.filter(Boolean).join(' ')
+      properties[key] = text.trim()
+      continue
+    }
+
+    if (raw === '') {
+      // Either a block list, a nested mapping (unsupported) or an empty value
+      const items: PropertyScalar[] = []
+      while (i < lines.length && (/^\s/.test(lines[i]) || /^-(\s|$)/.test(lines[i]))) {
+        const item = /^\s*-\s*(.*)$/.exec(lines[i])
+        if (item) items.push(parseScalar(stripComment(item[1]).trim()))
+        i++
+      }
+      properties[key] = items.length > 0 ? items : null
+      continue
+    }
+
+    if (raw.startsWith('[') && raw.endsWith(']')) {
+      properties[key] = splitFlowList(raw.slice(1, -1)).map(parseScalar)
+      continue
+    }
+
+    properties[key] = parseScalar(raw)
+  }
+
+  return properties
+}
+
+function stripComment(value: string): string {
+  if (value.startsWith('"') || value.startsWith("'")) return value
+  const idx = value.search(/\s#/)
+  return idx === -1 ? value : value.slice(0, idx)
+}
+
+function splitFlowList(inner: string): string[] {
+  const items: string[] = []
+  let current = ''
+  let quote: string | null = null
+  for (const ch of inner) {
+    if (quote) {
+      if (ch === quote) quote = null
+      current += ch
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+      current += ch
+    } else if (ch === ',') {
+      items.push(current.trim())
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+  if (current.trim()) items.push(current.trim())
+  return items.filter((item) => item !== '')
+}
+
+function parseScalar(raw: string): PropertyScalar {
+  if (raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"')) {
+    return raw.slice(1, -1).replace(/\\"/g, '"').replace(/\\n/g, '\n')
+  }
+  if (raw.length >= 2 && raw.startsWith("'") && raw.endsWith("'")) {
+    return raw.slice(1, -1).replace(/''/g, "'")
+  }
+  if (raw === '' || raw === '~' || raw === 'null') return null
+  if (raw === 'true') return true
+  if (raw === 'false') return false
+  if (/^[-+]?\d+(\.\d+)?$/.test(raw)) return Number(raw)
+  return raw
+}
@@ -0,0 +1,133 @@
+/**
+ * Wikilink targets with heading and block anchors, shared by the main process
+ * (link index) and the renderer (navigation, hover previews).
+ *
+ *   [[note]]              whole note
+ *   [[note#Heading]]      section under a heading (nested: note#Parent#Child)
+ *   [[note#^block-id]]    paragraph or list item ending with `^block-id`
+ *   [[#Heading]]          anchor in the current note
+ *   [[...|Alias]]         display text
+ */
+
+export type LinkRef = {
+  target: string
+  /** Heading text or `^block-id`, without the leading `#` */
+  anchor?: string
+  alias?: string
+}
+
+export function parseLinkInner(inner: string): LinkRef {
+  const pipe = inner.indexOf('|')
+  const ref = pipe === -1 ? inner : inner.slice(0, pipe)
+  const alias = pipe === -1 ? undefined : inner.slice(pipe + 1).trim()
+  const hash = ref.indexOf('#')
+  const target = (hash === -1 ? ref : ref.slice(0, hash)).trim()
+  const anchor = hash === -1 ? undefined : ref.slice(hash + 1).trim()
+  return { target, anchor: anchor || undefined, alias: alias || undefined }
+}
+
+export function isBlockAnchor(anchor: string): boolean {
+  return anchor.startsWith('^')
+}
+
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const FENCE_RE = /^\s*(```|~~~)/
+const BLOCK_ID_RE = /(?:^|\s)\^([\w-]+)\s*$/
+
+type Heading = { line: number; level: number; text: string }
+
+function normalizeHeading(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function scanHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = []
+  let inFence = false
+  lines.forEach((line, index) => {
+    if (FENCE_RE.test(line)) inFence = !inFence
+    if (inFence) return
+    const match = HEADING_RE.exec(line)
+    if (match) headings.push({ line: index, level: match[1].length, text: match[2] })
+  })
+  return headings
+}
+
+/**
+ * Index (0-based) of the heading an anchor refers to. Nested anchors
+ * (`Parent#Child`) must appear in order, each below the previous one.
+ */
+function findHeading(headings: Heading[], anchor: string): number {
+  let from = 0
+  let found = -1
+  for (const part of anchor.split('#').map(normalizeHeading).filter(Boolean)) {
+    found = headings.findIndex((h, i) => i >= from && normalizeHeading(h.text) === part)
+    if (found === -1) return -1
+    from = found + 1
+  }
+  return found
+}
+
+function findBlockLine(lines: string[], id: string): number {
+  const wanted = id.toLowerCase()
+  return lines.findIndex((line) => BLOCK_ID_RE.exec(line)?.[1].toLowerCase() === wanted)
+}
+
+/**
+ * 1-based line of the heading or block an anchor points at, or null.
+ */
+export function findAnchorLine(content: string, anchor: string): number | null {
+  const lines = content.split(/\r?\n/)
+  if (isBlockAnchor(anchor)) {
+    const index = findBlockLine(lines, anchor.slice(1))
+    return index === -1 ? null : index + 1
+  }
+  const headings = scanHeadings(lines)
+  const index = findHeading(headings, anchor)
+  return index === -1 ? null : headings[index].line + 1
+}
+
+/**
+ * Text of the section an anchor points at: a heading with everything up to
+ * the next heading of the same or a higher level, or the block carrying the
+ * id (with the `^id` marker removed).
+ */
+export function extractSection(content: string, anchor: string): string | null {
+  const lines = content.split(/\r?\n/)
+
+  if (isBlockAnchor(anchor)) {
+    let index = findBlockLine(lines, anchor.slice(1))
+    if (index === -1) return null
+    // An id on its own line labels the block above it
+    const idOnly = /^\s*\^[\w-]+\s*$/.test(lines[index])
+    let end = index
+    if (idOnly) {
+      end = index - 1
+      while (end >= 0 && lines[end].trim() === '') end--
+      if (end < 0) return null
+      index = end
+    }
+    // A list item is its own block; otherwise take the paragraph up to the id
+    let start = index
+    const isListItem = /^\s*(?:[-*+]|\d+[.)])\s/.test(lines[index])
+    if (!isListItem || idOnly) {
+      while (start > 0 && lines[start - 1].trim() !== '' && !HEADING_RE.test(lines[start - 1])) {
+        start--
+      }
+    }
+    return lines
+      .slice(start, end + 1)
+      .join('\n')
+      .replace(BLOCK_ID_RE, '')
+      .trim()
+  }
+
+  const headings = scanHeadings(lines)
+  const index = findHeading(headings, anchor)
+  if (index === -1) return null
+  const heading = headings[index]
+  const next = headings.slice(index + 1).find((h) => h.level <= heading.level)
+  return lines
+    .slice(heading.line, next ? next.line : lines.length)
+    .join('\n')
+    .trim()
+}
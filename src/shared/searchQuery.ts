@@ -0,0 +1,268 @@
+/**
+ * Search query language shared by the main process (`notes:search`) and the
+ * renderer (sidebar search, fuzzy finder).
+ *
+ *   design doc            plain terms, all must match
+ *   "exact phrase"        quoted phrase
+ *   proj*                 prefix (the last term is a prefix while typing)
+ *   tag:work  #work       tag, also matches nested tags (work/meetings)
+ *   path:projects         note path contains
+ *   title:plan            title contains
+ *   created:>2026-01-01   created date with >, >=, <, <= or = (same day)
+ *   updated:<=2026-02     modified date, same comparators
+ *   before:2026-01-01     modified before the day
+ *   after:2026-01-01      modified after the day
+ *   -draft  -tag:old      exclude
+ *   a b OR c              (a AND b) OR c
+ */
+
+export type QueryField = 'text' | 'tag' | 'path' | 'title' | 'created' | 'updated'
+export type Comparator = '=' | '>' | '>=' | '<' | '<='
+
+export type QueryClause = {
+  field: QueryField
+  value: string
+  negated: boolean
+  /** Value was quoted */
+  phrase: boolean
+  /** Text only: match words starting with the value */
+  prefix: boolean
+  /** Date fields only */
+  comparator?: Comparator
+  /** Date fields only: [start, end) of the referenced day, month or year */
+  range?: [number, number]
+}
+
+export type SearchQuery = {
+  /** OR of AND-groups */
+  groups: QueryClause[][]
+}
+
+/** Minimal shape of a note the metadata clauses can be checked against */
+export type QueryableNote = {
+  id: string
+  title: string
+  path?: string
+  createdAt?: number
+  updatedAt: number
+  properties?: Record<string, unknown>
+}
+
+export type QueryMatchers = {
+  /** Free-text clause (non-negated semantics; negation is applied by the caller) */
+  text: (note: QueryableNote, clause: QueryClause) => boolean
+  /** Extra tags beyond frontmatter `tags` (e.g. inline #hashtags) */
+  tags?: (note: QueryableNote) => string[]
+}
+
+const FIELD_ALIASES: Record<string, QueryField | 'before' | 'after'> = {
+  tag: 'tag',
+  tags: 'tag',
+  path: 'path',
+  folder: 'path',
+  title: 'title',
+  created: 'created',
+  updated: 'updated',
+  modified: 'updated',
+  before: 'before',
+  after: 'after'
+}
+
+const TOKEN_RE = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const groups: QueryClause[][] = [[]]
+  const typing = !/\s$/.test(input)
+  const matches = Array.from(input.matchAll(TOKEN_RE))
+
+  matches.forEach((match, index) => {
+    const [whole, dash, rawField, quoted, bare] = match
+    if (!whole.trim()) return
+
+    if (!dash && !rawField && quoted === undefined && bare === 'OR') {
+      if (groups[groups.length - 1].length > 0) groups.push([])
+      return
+    }
+
+    const negated = dash === '-'
+    const phrase = quoted !== undefined
+    let value = (phrase ? quoted : bare) ?? ''
+    const fieldKey = rawField?.toLowerCase()
+    const alias = fieldKey ? FIELD_ALIASES[fieldKey] : undefined
+    const group = groups[groups.length - 1]
+
+    if (rawField && !alias) {
+      // Unknown prefix such as `http:` - treat the whole token as text
+      value = `${rawField}:${value}`
+    }
+
+    if (alias === 'before' || alias === 'after') {
+      const range = parseDateRange(value)
+      if (range) {
+        group.push({
+          field: 'updated',
+          value,
+          negated,
+          phrase,
+          prefix: false,
+          comparator: alias === 'before' ? '<' : '>',
+          range
+        })
+      }
+      return
+    }
+
+    if (alias === 'created' || alias === 'updated') {
+      const op = /^(>=|<=|>|<|=)?(.*)$/.exec(value)!
+      const range = parseDateRange(op[2])
+      if (range) {
+        group.push({
+          field: alias,
+          value: op[2],
+          negated,
+          phrase,
+          prefix: false,
+          comparator: (op[1] as Comparator) || '=',
+          range
+        })
+      }
+      return
+    }
+
+    if (alias === 'tag' || (!rawField && !phrase && value.startsWith('#') && value.length > 1)) {
+      const tag = value.replace(/^#/, '').toLowerCase()
+      if (tag) group.push({ field: 'tag', value: tag, negated, phrase, prefix: false })
+      return
+    }
+
+    if (alias === 'path' || alias === 'title') {
+      if (value) group.push({ field: alias, value, negated, phrase, prefix: false })
+      return
+    }
+
+    const explicitPrefix = !phrase && value.endsWith('*')
+    value = value.replace(/\*+$/, '')
+    if (!value) return
+    const isLast = index === matches.length - 1
+    group.push({
+      field: 'text',
+      value,
+      negated,
+      phrase,
+      prefix: explicitPrefix || (isLast && typing && !phrase && !negated)
+    })
+  })
+
+  return { groups: groups.filter((group) => group.length > 0) }
+}
+
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return query.groups.length === 0
+}
+
+/**
+ * Day, month or year referenced by `YYYY-MM-DD`, `YYYY-MM` or `YYYY`, as a
+ * local-time [start, end) range.
+ */
+export function parseDateRange(value: string): [number, number] | null {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value.trim())
+  if (!match) return null
+  const year = Number(match[1])
+  if (match[3]) {
+    const start = new Date(year, Number(match[2]) - 1, Number(match[3]))
+    return [start.getTime(), new Date(year, Number(match[2]) - 1, Number(match[3]) + 1).getTime()]
+  }
+  if (match[2]) {
+    const month = Number(match[2]) - 1
+    return [new Date(year, month, 1).getTime(), new Date(year, month + 1, 1).getTime()]
+  }
+  return [new Date(year, 0, 1).getTime(), new Date(year + 1, 0, 1).getTime()]
+}
+
+/**
+ * Frontmatter `tags` / `tag` as lower-case strings. Accepts lists and
+ * comma or space separated strings.
+ */
+export function frontmatterTags(properties?: Record<string, unknown>): string[] {
+  if (!properties) return []
+  const raw = properties.tags ?? properties.tag
+  const values = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(/[,\s]+/) : []
+  return values
+    .filter((v) => v !== null && v !== undefined && String(v).trim() !== '')
+    .map((v) => String(v).trim().replace(/^#/, '').toLowerCase())
+}
+
+export function matchesClause(
+  note: QueryableNote,
+  clause: QueryClause,
+  matchers: QueryMatchers
+): boolean {
+  const value = clause.value.toLowerCase()
+  let result: boolean
+
+  switch (clause.field) {
+    case 'tag': {
+      const tags = [...frontmatterTags(note.properties), ...(matchers.tags?.(note) ?? [])]
+      result = tags.some((tag) => tag === value || tag.startsWith(`${value}/`))
+      break
+    }
+    case 'path':
+      result = note.id.toLowerCase().includes(value.replace(/\\/g, '/'))
+      break
+    case 'title':
+      result = note.title.toLowerCase().includes(value)
+      break
+    case 'created':
+    case 'updated': {
+      // A frontmatter `created` date beats the filesystem birth time
+      const time =
+        clause.field === 'created'
+          ? (propertyDate(note.properties?.created) ?? note.createdAt ?? note.updatedAt)
+          : note.updatedAt
+      result = compareDate(time, clause.comparator ?? '=', clause.range!)
+      break
+    }
+    default:
+      result = matchers.text(note, clause)
+  }
+
+  return clause.negated ? !result : result
+}
+
+/**
+ * True when the note satisfies every clause of at least one group.
+ */
+export function matchesQuery(
+  note: QueryableNote,
+  query: SearchQuery,
+  matchers: QueryMatchers
+): boolean {
+  return query.groups.some((group) =>
+    group.every((clause) => matchesClause(note, clause, matchers))
+  )
+}
+
+function propertyDate(value: unknown): number | null {
+  if (typeof value !== 'string') return null
+  const time = Date.parse(value.length === 10 ? `${value}T00:00:00` : value)
+  return Number.isNaN(time) ? null : time
+}
+
+function compareDate(
+  time: number,
+  comparator: Comparator,
+  [start, end]: [number, number]
+): boolean {
+  switch (comparator) {
+    case '>':
+      return time >= end
+    case '>=':
+      return time >= start
+    case '<':
+      return time < start
+    case '<=':
+      return time < end
+    default:
+      return time >= start && time < end
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Markdown tasks, shared by the main process (vault task index) and the
+ * renderer (preview checkboxes, writing a toggle back to its line).
+ *
+ *   - [ ] Draft the spec 📅 2026-10-20 ⏫    due date, high priority
+ *   - [x] Review due:2026-10-18 🔽          `due:` works too; low priority
+ *   1. [ ] Numbered items priority:medium   priorities can be spelled out
+ */
+
+export type TaskPriority = 'high' | 'medium' | 'low'
+
+export type TaskItem = {
+  /** 0-based line in the note */
+  line: number
+  /** Task text without the checkbox, due date and priority markers */
+  text: string
+  done: boolean
+  /** YYYY-MM-DD */
+  due?: string
+  priority?: TaskPriority
+}
+
+const TASK_RE = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\](?:\s|$))/
+const FENCE_RE = /^\s*(```|~~~)/
+const DUE_RE = /(?:📅\s*|(?<![\w-])due:\s*)(\d{4}-\d{2}-\d{2})/u
+const PRIORITY_RE = /(⏫|🔺|🔼|🔽|⏬)|(?<![\w-])priority:\s*(high|medium|low)\b/iu
+
+const PRIORITY_EMOJI: Record<string, TaskPriority> = {
+  '🔺': 'high',
+  '⏫': 'high',
+  '🔼': 'medium',
+  '🔽': 'low',
+  '⏬': 'low'
+}
+
+export const PRIORITY_ORDER: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 }
+
+/**
+ * Parse one line; null when it is not a task.
+ */
+export function parseTaskLine(text: string, line: number): TaskItem | null {
+  const match = text.match(TASK_RE)
+  if (!match) return null
+
+  let body = text.slice(match[0].length)
+  const due = body.match(DUE_RE)
+  const priority = body.match(PRIORITY_RE)
+  if (due) body = body.replace(DUE_RE, '')
+  if (priority) body = body.replace(PRIORITY_RE, '')
+
+  return {
+    line,
+    text: body.replace(/\s+/g, ' ').trim(),
+    done: match[2] !== ' ',
+    due: due?.[1],
+    priority: priority
+      ? PRIORITY_EMOJI[priority[1]] || (priority[2].toLowerCase() as TaskPriority)
+      : undefined
+  }
+}
+
+/**
+ * Every task of a note in line order. Frontmatter and fenced code are skipped.
+ */
+export function extractTasks(content: string): TaskItem[] {
+  const lines = content.split('\n')
+  const tasks: TaskItem[] = []
+  let start = 0
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---')
+    if (end > 0) start = end + 1
+  }
+
+  let fence: string | null = null
+  for (let i = start; i < lines.length; i++) {
+    const fenceMatch = lines[i].match(FENCE_RE)
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1]
+      else if (fenceMatch[1] === fence) fence = null
+      continue
+    }
+    if (fence) continue
+    const task = parseTaskLine(lines[i].replace(/\r$/, ''), i)
+    if (task?.text) tasks.push(task)
+  }
+  return tasks
+}
+
+/**
+ * Check or uncheck the task on one line of text. Null when it is not a task.
+ */
+export function setTaskLineDone(text: string, done: boolean): string | null {
+  if (!TASK_RE.test(text)) return null
+  return text.replace(TASK_RE, (_match, open, _mark, close) => `${open}${done ? 'x' : ' '}${close}`)
+}
+
+/**
+ * Check or uncheck the task on 0-based `line` of `content`. Null when that
+ * line is not a task (anymore).
+ */
+export function setTaskDone(content: string, line: number, done: boolean): string | null {
+  const lines = content.split('\n')
+  if (line < 0 || line >= lines.length) return null
+  const updated = setTaskLineDone(lines[line], done)
+  if (updated === null) return null
+  lines[line] = updated
+  return lines.join('\n')
+}
@@ -0,0 +1,86 @@
+import { formatDate } from './dateFormat'
+
+/**
+ * Template variables, shared by periodic notes (main process) and template
+ * insertion (renderer).
+ *
+ *   {{title}}               title of the note being created
+ *   {{folder}}              vault folder of that note ('' at the root)
+ *   {{date}} {{time}}       YYYY-MM-DD and HH:mm
+ *   {{date:FORMAT}}         any format from dateFormat.ts, e.g. {{date:dddd, MMMM D}}
+ *   {{time:FORMAT}}         same, for readability in time-only formats
+ *   {{prompt:Question}}     asks the user; {{prompt:Question|default}} pre-fills
+ *   {{cursor}}              where the caret goes after insertion
+ */
+
+export type TemplateContext = {
+  title: string
+  /** The date the note is about; a periodic note's day, week or month */
+  date: Date
+  folder?: string
+  /** Prompt answers keyed by question; unanswered prompts use their default */
+  answers?: Record<string, string>
+}
+
+export type TemplatePrompt = {
+  question: string
+  defaultValue: string
+}
+
+export type RenderedTemplate = {
+  content: string
+  /** Offset of the first `{{cursor}}` in `content`, null without one */
+  cursor: number | null
+}
+
+const VARIABLE_RE = /\{\{\s*(title|folder|date|time|prompt|cursor)(?::([^}]*))?\s*\}\}/gi
+const CURSOR_MARK = '\u0000'
+
+/**
+ * Distinct `{{prompt:...}}` questions in the order they first appear.
+ */
+export function templatePrompts(template: string): TemplatePrompt[] {
+  const prompts = new Map<string, TemplatePrompt>()
+  for (const match of template.matchAll(VARIABLE_RE)) {
+    if (match[1].toLowerCase() !== 'prompt' || !match[2]) continue
+    const prompt = parsePrompt(match[2])
+    if (prompt.question && !prompts.has(prompt.question)) prompts.set(prompt.question, prompt)
+  }
+  return Array.from(prompts.values())
+}
+
+export function renderTemplate(template: string, context: TemplateContext): RenderedTemplate {
+  // A question asked twice keeps the default given at its first use
+  const defaults = new Map(templatePrompts(template).map((p) => [p.question, p.defaultValue]))
+  const rendered = template.replace(VARIABLE_RE, (_match, name: string, arg?: string) => {
+    switch (name.toLowerCase()) {
+      case 'title':
+        return context.title
+      case 'folder':
+        return context.folder ?? ''
+      case 'date':
+        return formatDate(context.date, arg?.trim() || 'YYYY-MM-DD')
+      case 'time':
+        return formatDate(context.date, arg?.trim() || 'HH:mm')
+      case 'prompt': {
+        const { question } = parsePrompt(arg ?? '')
+        return context.answers?.[question] ?? defaults.get(question) ?? ''
+      }
+      default:
+        return CURSOR_MARK
+    }
+  })
+
+  const index = rendered.indexOf(CURSOR_MARK)
+  return {
+    content: rendered.split(CURSOR_MARK).join(''),
+    cursor: index === -1 ? null : index
+  }
+}
+
+function parsePrompt(arg: string): TemplatePrompt {
+  const pipe = arg.indexOf('|')
+  return pipe === -1
+    ? { question: arg.trim(), defaultValue: '' }
+    : { question: arg.slice(0, pipe).trim(), defaultValue: arg.slice(pipe + 1).trim() }
+}